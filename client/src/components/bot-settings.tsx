@@ -6,8 +6,36 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import type { BidMethod, BidPolicy, FeeUrgency, SubmissionMode } from "@shared/schema";
+import { DEFAULT_BID_POLICY } from "@/lib/bidding";
+
+// Opportunity types that can each be sent publicly or as a private bundle
+const SUBMISSION_TYPES = ["DEX", "Triangular", "Flash Loan", "Liquidation"];
+
+const FEE_URGENCY_LABELS: Record<FeeUrgency, string> = {
+  low: "Low (10th percentile tip)",
+  medium: "Medium (median tip)",
+  high: "High (90th percentile tip)",
+};
+
+// A registered strategy, as listed by the server
+interface StrategyInfo {
+  id: string;
+  name: string;
+  description: string;
+  parameters: { key: string; label: string; defaultValue: number; min?: number; max?: number; step?: number }[];
+}
+
+// How bids at one share of profit have done, as reported by the server
+interface BidWinRate {
+  strategy: string | null;
+  bidShareBps: number;
+  attempts: number;
+  wins: number;
+  winRate: number;
+}
 
 interface BotSettingsProps {
   settings: {
@@ -16,6 +44,13 @@ interface BotSettingsProps {
     strategy: string;
     autoExecute: boolean;
     runSimulations: boolean;
+    slippageBps: number;
+    txDeadlineSeconds: number;
+    opportunityTtlSeconds: number;
+    feeUrgency: FeeUrgency;
+    submissionModes: Record<string, SubmissionMode>;
+    strategyParams: Record<string, Record<string, number>>;
+    bidPolicies: Record<string, BidPolicy>;
   };
   isLoading: boolean;
 }
@@ -27,9 +62,23 @@ export function BotSettings({ settings, isLoading }: BotSettingsProps) {
     maxGasPrice: settings.maxGasPrice,
     strategy: settings.strategy,
     autoExecute: settings.autoExecute,
-    runSimulations: settings.runSimulations
+    runSimulations: settings.runSimulations,
+    slippageBps: settings.slippageBps,
+    txDeadlineSeconds: settings.txDeadlineSeconds,
+    opportunityTtlSeconds: settings.opportunityTtlSeconds,
+    feeUrgency: settings.feeUrgency,
+    submissionModes: settings.submissionModes,
+    strategyParams: settings.strategyParams,
+    bidPolicies: settings.bidPolicies
   });
   
+  const strategiesQuery = useQuery<StrategyInfo[]>({ queryKey: ['/api/strategies'] });
+  const winRatesQuery = useQuery<BidWinRate[]>({ queryKey: ['/api/bidding/win-rates'] });
+  const strategies = strategiesQuery.data ?? [];
+  const activeStrategies = formState.strategy === "all"
+    ? strategies
+    : strategies.filter(strategy => strategy.id === formState.strategy);
+  
   const updateSettingsMutation = useMutation({
     mutationFn: async (settingsData: typeof formState) => {
       const response = await apiRequest('POST', '/api/bot-settings', settingsData);
@@ -58,6 +107,33 @@ export function BotSettings({ settings, isLoading }: BotSettingsProps) {
     }));
   };
   
+  const handleSubmissionModeChange = (type: string, mode: SubmissionMode) => {
+    setFormState(prev => ({
+      ...prev,
+      submissionModes: { ...prev.submissionModes, [type]: mode }
+    }));
+  };
+  
+  const handleStrategyParamChange = (strategyId: string, key: string, value: number) => {
+    setFormState(prev => ({
+      ...prev,
+      strategyParams: {
+        ...prev.strategyParams,
+        [strategyId]: { ...prev.strategyParams[strategyId], [key]: value }
+      }
+    }));
+  };
+  
+  const handleBidPolicyChange = (strategyId: string, update: Partial<BidPolicy>) => {
+    setFormState(prev => ({
+      ...prev,
+      bidPolicies: {
+        ...prev.bidPolicies,
+        [strategyId]: { ...(prev.bidPolicies[strategyId] ?? DEFAULT_BID_POLICY), ...update }
+      }
+    }));
+  };
+  
   const handleSubmit = () => {
     updateSettingsMutation.mutate(formState);
   };
@@ -115,6 +191,75 @@ export function BotSettings({ settings, isLoading }: BotSettingsProps) {
           </div>
         </div>
         
+        <div className="space-y-1">
+          <Label htmlFor="slippage">Slippage Tolerance</Label>
+          <div className="flex items-center">
+            <Input
+              id="slippage"
+              type="number"
+              step="0.01"
+              min="0"
+              value={formState.slippageBps / 100}
+              onChange={(e) => handleInputChange('slippageBps', Math.round(parseFloat(e.target.value) * 100))}
+              className="flex-1"
+            />
+            <span className="ml-2 text-sm">%</span>
+          </div>
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="txDeadlineSeconds">Transaction Deadline</Label>
+          <div className="flex items-center">
+            <Input
+              id="txDeadlineSeconds"
+              type="number"
+              min="1"
+              value={formState.txDeadlineSeconds}
+              onChange={(e) => handleInputChange('txDeadlineSeconds', parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <span className="ml-2 text-sm">sec</span>
+          </div>
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="opportunityTtlSeconds">Opportunity TTL</Label>
+          <div className="flex items-center">
+            <Input
+              id="opportunityTtlSeconds"
+              type="number"
+              min="1"
+              value={formState.opportunityTtlSeconds}
+              onChange={(e) => handleInputChange('opportunityTtlSeconds', parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <span className="ml-2 text-sm">sec</span>
+          </div>
+          <p className="text-xs text-neutral-dark dark:text-slate-400">
+            Quotes older than this are marked expired and never executed
+          </p>
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="feeUrgency">Fee Urgency</Label>
+          <Select
+            value={formState.feeUrgency}
+            onValueChange={(value) => handleInputChange('feeUrgency', value)}
+          >
+            <SelectTrigger id="feeUrgency" className="w-full">
+              <SelectValue placeholder="Select urgency" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FEE_URGENCY_LABELS) as FeeUrgency[]).map(urgency => (
+                <SelectItem key={urgency} value={urgency}>{FEE_URGENCY_LABELS[urgency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-neutral-dark dark:text-slate-400">
+            Priority fee trades bid, and what profit estimates assume they pay
+          </p>
+        </div>
+        
         <div className="space-y-1">
           <Label htmlFor="strategy">Strategy</Label>
           <Select 
@@ -125,12 +270,132 @@ export function BotSettings({ settings, isLoading }: BotSettingsProps) {
               <SelectValue placeholder="Select strategy" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="arbitrage">Arbitrage Only</SelectItem>
-              <SelectItem value="flashloan">Flash Loan Arbitrage</SelectItem>
-              <SelectItem value="sandwich">Sandwich Attacks</SelectItem>
+              {strategies.map(strategy => (
+                <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+              ))}
               <SelectItem value="all">All Strategies</SelectItem>
             </SelectContent>
           </Select>
+          {activeStrategies.length === 1 && (
+            <p className="text-xs text-neutral-dark dark:text-slate-400">{activeStrategies[0].description}</p>
+          )}
+        </div>
+        
+        {activeStrategies.filter(strategy => strategy.parameters.length > 0).map(strategy => (
+          <div key={strategy.id} className="space-y-2">
+            <Label>{strategy.name}</Label>
+            {strategy.parameters.map(parameter => (
+              <div key={parameter.key} className="flex items-center justify-between">
+                <span className="text-sm">{parameter.label}</span>
+                <Input
+                  type="number"
+                  className="w-28"
+                  min={parameter.min}
+                  max={parameter.max}
+                  step={parameter.step}
+                  value={formState.strategyParams[strategy.id]?.[parameter.key] ?? parameter.defaultValue}
+                  onChange={(e) => handleStrategyParamChange(strategy.id, parameter.key, parseFloat(e.target.value))}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+        
+        {activeStrategies.map(strategy => {
+          const policy = formState.bidPolicies[strategy.id] ?? DEFAULT_BID_POLICY;
+          const winRates = (winRatesQuery.data ?? []).filter(rate => rate.strategy === strategy.id);
+          return (
+            <div key={strategy.id} className="space-y-2">
+              <Label>{strategy.name} Bidding</Label>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Paid as</span>
+                <Select
+                  value={policy.method}
+                  onValueChange={(value) => handleBidPolicyChange(strategy.id, { method: value as BidMethod })}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="priority_fee">Priority fee</SelectItem>
+                    <SelectItem value="coinbase">Coinbase transfer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Share of profit (%)</span>
+                <Input
+                  type="number"
+                  className="w-28"
+                  min="0"
+                  max="100"
+                  value={policy.shareBps / 100}
+                  onChange={(e) => handleBidPolicyChange(strategy.id, { shareBps: Math.round(parseFloat(e.target.value) * 100) })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Uncontested share (%)</span>
+                <Input
+                  type="number"
+                  className="w-28"
+                  min="0"
+                  max="100"
+                  value={policy.uncontestedShareBps / 100}
+                  onChange={(e) => handleBidPolicyChange(strategy.id, { uncontestedShareBps: Math.round(parseFloat(e.target.value) * 100) })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Floor / ceiling (ETH)</span>
+                <div className="flex space-x-1">
+                  <Input
+                    type="number"
+                    className="w-20"
+                    min="0"
+                    step="0.001"
+                    value={policy.floorEth}
+                    onChange={(e) => handleBidPolicyChange(strategy.id, { floorEth: parseFloat(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    className="w-20"
+                    min="0"
+                    step="0.001"
+                    placeholder="none"
+                    value={policy.ceilingEth ?? ''}
+                    onChange={(e) => handleBidPolicyChange(strategy.id, {
+                      ceilingEth: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                    })}
+                  />
+                </div>
+              </div>
+              {winRates.length > 0 && (
+                <p className="text-xs text-neutral-dark dark:text-slate-400">
+                  Won {winRates.map(rate => `${rate.wins}/${rate.attempts} at ${rate.bidShareBps / 100}%`).join(', ')}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        
+        <div className="space-y-2">
+          <Label>Submission</Label>
+          {SUBMISSION_TYPES.map(type => (
+            <div key={type} className="flex items-center justify-between">
+              <span className="text-sm">{type}</span>
+              <Select
+                value={formState.submissionModes[type] ?? "public"}
+                onValueChange={(value) => handleSubmissionModeChange(type, value as SubmissionMode)}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public mempool</SelectItem>
+                  <SelectItem value="private">Private bundle</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
         </div>
         
         <div className="pt-2 space-y-3">
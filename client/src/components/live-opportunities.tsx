@@ -4,6 +4,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
 import { Filter } from "lucide-react";
+import { useState } from "react";
+import { TransactionPreview } from "./transaction-preview";
 
 interface Opportunity {
   id: number;
@@ -11,9 +13,39 @@ interface Opportunity {
   pairs: string;
   estimatedProfitEth: number;
   estimatedGasCostEth: number;
+  estimatedBidEth?: number | string;
+  contested?: boolean;
   isExecutable: boolean;
+  amountIn?: string | null;
+  tokenIn?: string | null;
+  liquidation?: {
+    borrower: string;
+    healthFactor: number;
+    liquidationBonusBps: number;
+  } | null;
+  backrun?: {
+    victimHash: string;
+    dex: string;
+    tokenIn: { symbol: string; decimals: number };
+    tokenOut: { symbol: string };
+    amountIn: string;
+  } | null;
+  blockNumber?: number | null;
+  expired?: boolean;
+  rejection?: { code: string; message: string } | null;
 }
 
+// Short labels for why the pre-trade policy blocks an opportunity
+const REJECTION_LABELS: Record<string, string> = {
+  not_executable: 'Unprofitable',
+  insufficient_balance: 'Low Balance',
+  expired: 'Expired',
+  strategy_disabled: 'Strategy Off',
+  below_min_profit: 'Below Min Profit',
+  gas_price_too_high: 'Gas Too High',
+  simulation_required: 'Needs Simulation',
+};
+
 interface LiveOpportunitiesProps {
   opportunities: Opportunity[];
   autoExecute: boolean;
@@ -30,6 +62,7 @@ export function LiveOpportunities({
   refetch
 }: LiveOpportunitiesProps) {
   const { toast } = useToast();
+  const [previewId, setPreviewId] = useState<number | null>(null);
   
   const executeMutation = useMutation({
     mutationFn: async (opportunityId: number) => {
@@ -38,8 +71,8 @@ export function LiveOpportunities({
     },
     onSuccess: (data) => {
       toast({
-        title: "Transaction Executed",
-        description: `Successfully executed transaction: ${data.transaction.txHash}`,
+        title: data.simulated ? "Execution Simulated" : "Transaction Submitted",
+        description: data.message,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/opportunities'] });
       queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
@@ -71,6 +104,10 @@ export function LiveOpportunities({
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300';
       case 'Flash Loan':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+      case 'Liquidation':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300';
+      case 'Backrun':
+        return 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-300';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300';
     }
@@ -128,15 +165,77 @@ export function LiveOpportunities({
                     <div className="flex items-center">
                       <span className="font-mono text-xs">{opportunity.pairs}</span>
                     </div>
+                    {opportunity.amountIn && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400">
+                        {opportunity.liquidation ? 'Repay' : 'Size'}: {parseFloat(opportunity.amountIn).toFixed(4)} {opportunity.tokenIn}
+                      </div>
+                    )}
+                    {opportunity.liquidation && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400">
+                        <span className="font-mono">{opportunity.liquidation.borrower.slice(0, 6)}…{opportunity.liquidation.borrower.slice(-4)}</span>
+                        {' · '}HF {opportunity.liquidation.healthFactor.toFixed(3)}
+                        {' · '}{((opportunity.liquidation.liquidationBonusBps - 10000) / 100).toFixed(1)}% bonus
+                      </div>
+                    )}
+                    {opportunity.blockNumber != null && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400">
+                        Quoted at block #{opportunity.blockNumber}
+                      </div>
+                    )}
+                    {opportunity.rejection && !opportunity.expired && (
+                      <div className="text-xs text-amber-600 dark:text-amber-400">
+                        Blocked: {opportunity.rejection.message}
+                      </div>
+                    )}
+                    {opportunity.backrun && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400">
+                        After <span className="font-mono">{opportunity.backrun.victimHash.slice(0, 10)}…</span>
+                        {' · '}{(Number(opportunity.backrun.amountIn) / 10 ** opportunity.backrun.tokenIn.decimals).toFixed(2)} {opportunity.backrun.tokenIn.symbol} → {opportunity.backrun.tokenOut.symbol}
+                        {' on '}{opportunity.backrun.dex}
+                      </div>
+                    )}
                   </td>
                   <td className={`py-3 ${parseFloat(opportunity.estimatedProfitEth.toString()) > 0 ? 'text-accent dark:text-green-400' : 'text-error dark:text-red-400'}`}>
                     {parseFloat(opportunity.estimatedProfitEth.toString()) > 0 ? '+' : ''}{parseFloat(opportunity.estimatedProfitEth.toString()).toFixed(4)} ETH
+                    {parseFloat(String(opportunity.estimatedBidEth ?? 0)) > 0 && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400">
+                        Bid {parseFloat(String(opportunity.estimatedBidEth)).toFixed(4)}{opportunity.contested ? '' : ' (uncontested)'}
+                        {' · '}net {(parseFloat(opportunity.estimatedProfitEth.toString()) - parseFloat(opportunity.estimatedGasCostEth.toString()) - parseFloat(String(opportunity.estimatedBidEth))).toFixed(4)}
+                      </div>
+                    )}
                   </td>
                   <td className="py-3 text-right text-neutral-dark dark:text-slate-400">
                     ~{parseFloat(opportunity.estimatedGasCostEth.toString()).toFixed(4)} ETH
                   </td>
-                  <td className="py-3 pr-2 text-right">
-                    {opportunity.isExecutable ? (
+                  <td className="py-3 pr-2 text-right whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-xs px-3 py-1 mr-2"
+                      onClick={() => setPreviewId(opportunity.id)}
+                    >
+                      View Tx
+                    </Button>
+                    {opportunity.expired ? (
+                      <Button
+                        size="sm"
+                        className="text-xs px-3 py-1"
+                        variant="ghost"
+                        disabled
+                      >
+                        Expired
+                      </Button>
+                    ) : opportunity.rejection ? (
+                      <Button
+                        size="sm"
+                        className="text-xs px-3 py-1"
+                        variant="ghost"
+                        title={opportunity.rejection.message}
+                        disabled
+                      >
+                        {REJECTION_LABELS[opportunity.rejection.code] ?? 'Blocked'}
+                      </Button>
+                    ) : opportunity.isExecutable ? (
                       <Button
                         size="sm"
                         className="text-xs px-3 py-1 bg-accent hover:bg-green-700"
@@ -166,6 +265,8 @@ export function LiveOpportunities({
           </div>
         )}
       </div>
+      
+      <TransactionPreview opportunityId={previewId} onClose={() => setPreviewId(null)} />
     </div>
   );
 }
@@ -1,14 +1,23 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
+
+// GET /api/mempool/status
+interface MempoolStatus {
+  running: boolean;
+  connected: boolean;
+  mode: "full" | "hash" | null;
+  transactionsSeen: number;
+  swapsStored: number;
+  lastError: string | null;
+}
 
 interface MempoolMonitorProps {
   pendingTx: number;
   gasPrice: number;
+  baseFee: number | null; // predicted for the next block
+  priorityFee: number | null; // median recent tip
   networkCongestion: string;
   mempoolLogs: Array<{
     id: number;
@@ -22,33 +31,18 @@ interface MempoolMonitorProps {
 export function MempoolMonitor({ 
   pendingTx, 
   gasPrice, 
+  baseFee,
+  priorityFee,
   networkCongestion, 
   mempoolLogs,
   isLoading 
 }: MempoolMonitorProps) {
-  const { toast } = useToast();
-  
-  // Mutation for simulating mempool events (for demo)
-  const simulateMempoolMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/simulate/mempool-events', undefined);
-      return await response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/mempool-activity'] });
-      toast({
-        title: "Mempool Updated",
-        description: "New mempool activity detected",
-      });
-    },
-    onError: (error) => {
-      toast({
-        title: "Error",
-        description: "Failed to update mempool data",
-        variant: "destructive",
-      });
-    }
+  // Whether the server is following the node's mempool
+  const { data: status } = useQuery<MempoolStatus>({
+    queryKey: ['/api/mempool/status'],
+    refetchInterval: 10000,
   });
+  const connected = status?.connected ?? false;
   
   // Calculate progress values
   const pendingTxProgress = Math.min(Math.max((pendingTx / 1000) * 100, 10), 100);
@@ -92,10 +86,6 @@ export function MempoolMonitor({
     }
   };
   
-  const handleMockMempool = () => {
-    simulateMempoolMutation.mutate();
-  };
-  
   // Format timestamp for logs
   const formatLogTime = (date: Date) => {
     const d = new Date(date);
@@ -111,12 +101,15 @@ export function MempoolMonitor({
     <Card className="mb-6">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <CardTitle className="text-lg font-medium">Mempool Monitor</CardTitle>
-        <button 
+        <span
           className="text-xs px-2 py-1 rounded-full bg-primary bg-opacity-10 text-primary dark:bg-opacity-20"
-          onClick={handleMockMempool}
+          title={connected
+            ? `${status?.mode === "full" ? "Full pending transactions" : "Pending hashes"}; ${status?.swapsStored ?? 0} swaps read`
+            : status?.lastError ?? "Not subscribed to a node"}
         >
-          Live <span className="inline-block w-2 h-2 rounded-full bg-accent ml-1"></span>
-        </button>
+          {connected ? "Live" : "Offline"}{" "}
+          <span className={cn("inline-block w-2 h-2 rounded-full ml-1", connected ? "bg-accent" : "bg-neutral-dark")}></span>
+        </span>
       </CardHeader>
       
       <CardContent>
@@ -141,6 +134,12 @@ export function MempoolMonitor({
                   <span className="font-medium">{gasPrice}</span>
                 </div>
                 <Progress value={gasPriceProgress} className="h-2" />
+                {baseFee != null && priorityFee != null && (
+                  <div className="flex justify-between text-xs text-neutral-dark dark:text-slate-400">
+                    <span>Base fee {Number(baseFee).toFixed(2)}</span>
+                    <span>Tip {Number(priorityFee).toFixed(2)}</span>
+                  </div>
+                )}
               </div>
               
               <div className="space-y-1">
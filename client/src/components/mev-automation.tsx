@@ -327,6 +327,10 @@ export function MevAutomation({ targetProfit = 1000 }: MevAutomationProps) {
           </Button>
         </div>
         
+        {!status.isRunning && status.stopReason && (
+          <div className="text-xs text-red-500 w-full px-1">Stopped: {status.stopReason}</div>
+        )}
+        
         <Button 
           variant="secondary" 
           onClick={withdrawProfits} 
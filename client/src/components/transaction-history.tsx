@@ -1,13 +1,29 @@
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMutation } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
 
 interface Transaction {
   id: number;
-  txHash: string;
+  txHash: string | null;
   type: string;
   timestamp: Date;
   profitEth: number;
+  gasCostEth: number;
   status: string;
+  blockNumber?: number | null;
+  gasUsed?: number | null;
+  effectiveGasPrice?: string | null;
+  revertReason?: string | null;
+  submission?: string | null;
+  bundleHash?: string | null;
+  targetBlock?: number | null;
+  nonce?: number | null;
+  replacesId?: number | null;
+  bidEth?: string | null;
+  bidMethod?: string | null;
+  bidShareBps?: number | null;
 }
 
 interface TransactionHistoryProps {
@@ -16,6 +32,34 @@ interface TransactionHistoryProps {
 }
 
 export function TransactionHistory({ transactions, isLoading }: TransactionHistoryProps) {
+  const { toast } = useToast();
+  
+  // Re-send a stuck transaction on its nonce, with higher fees or as a cancellation
+  const replaceMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'speed-up' | 'cancel' }) => {
+      const response = await apiRequest('POST', `/api/transactions/${id}/${action}`, undefined);
+      return await response.json();
+    },
+    onSuccess: (data, { action }) => {
+      toast({
+        title: action === 'speed-up' ? "Transaction Sped Up" : "Cancellation Sent",
+        description: `Replacement ${data.transaction.txHash} sent on nonce ${data.transaction.nonce}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Replacement Failed",
+        description: error.toString(),
+        variant: "destructive",
+      });
+    }
+  });
+  
+  // Public transactions still waiting for a block can be re-sent on their nonce
+  const isReplaceable = (tx: Transaction) =>
+    tx.txHash != null && tx.submission !== 'private' && (tx.status === 'Submitted' || tx.status === 'Pending');
+  
   // Format transaction time as relative
   const formatTimestamp = (timestamp: Date): string => {
     return formatDistanceToNow(new Date(timestamp), { addSuffix: true });
@@ -30,6 +74,10 @@ export function TransactionHistory({ transactions, isLoading }: TransactionHisto
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300';
       case 'Flash Loan':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+      case 'Liquidation':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300';
+      case 'Backrun':
+        return 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-300';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300';
     }
@@ -40,17 +88,43 @@ export function TransactionHistory({ transactions, isLoading }: TransactionHisto
     switch (status) {
       case 'Confirmed':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+      case 'Submitted':
       case 'Pending':
+      case 'Included':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+      case 'Reverted':
+      case 'Dropped':
       case 'Failed':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+      case 'Replaced':
       case 'Price Changed':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+      case 'Built':
+      case 'Simulated':
+        return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300';
     }
   };
   
+  // Realised profit once a transaction settles: the trade's profit if it
+  // confirmed, the gas it burned if it reverted, otherwise the estimate
+  const getOutcome = (tx: Transaction): { profitEth: number; estimated: boolean } => {
+    if (tx.status === 'Confirmed') {
+      return { profitEth: parseFloat(tx.profitEth.toString()), estimated: false };
+    }
+    if (tx.status === 'Reverted') {
+      const gasPaid = tx.gasUsed != null && tx.effectiveGasPrice != null
+        ? (tx.gasUsed * parseFloat(tx.effectiveGasPrice)) / 1e18
+        : parseFloat(tx.gasCostEth.toString());
+      return { profitEth: -gasPaid, estimated: false };
+    }
+    if (tx.status === 'Dropped' || tx.status === 'Replaced' || tx.status === 'Failed') {
+      return { profitEth: 0, estimated: false };
+    }
+    return { profitEth: parseFloat(tx.profitEth.toString()), estimated: true };
+  };
+  
   return (
     <div className="bg-white dark:bg-slate-900 rounded-lg shadow-sm p-6">
       <div className="flex justify-between items-center mb-4">
@@ -81,17 +155,38 @@ export function TransactionHistory({ transactions, isLoading }: TransactionHisto
               </tr>
             </thead>
             <tbody>
-              {transactions.map((tx) => (
+              {transactions.map((tx) => {
+                const outcome = getOutcome(tx);
+                return (
                 <tr key={tx.id} className="border-b border-neutral-light dark:border-slate-700 hover:bg-neutral-lightest dark:hover:bg-slate-800/50">
                   <td className="py-3 pl-2">
-                    <a 
-                      href={`https://etherscan.io/tx/${tx.txHash}`} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="text-primary underline font-mono text-xs"
-                    >
-                      {tx.txHash}
-                    </a>
+                    {tx.txHash ? (
+                      <a 
+                        href={`https://etherscan.io/tx/${tx.txHash}`} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                        className="text-primary underline font-mono text-xs"
+                      >
+                        {tx.txHash.length > 20 ? `${tx.txHash.slice(0, 6)}...${tx.txHash.slice(-4)}` : tx.txHash}
+                      </a>
+                    ) : (
+                      <span className="font-mono text-xs text-neutral-dark dark:text-slate-400">Not sent</span>
+                    )}
+                    {tx.replacesId != null && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400 mt-1">
+                        Replaces #{tx.replacesId}{tx.nonce != null ? ` · nonce ${tx.nonce}` : ''}
+                      </div>
+                    )}
+                    {tx.submission === 'private' && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400 mt-1" title={tx.bundleHash ?? undefined}>
+                        Private bundle{tx.targetBlock != null ? ` · by block ${tx.targetBlock}` : ''}
+                      </div>
+                    )}
+                    {tx.bidEth != null && parseFloat(tx.bidEth) > 0 && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400 mt-1">
+                        Bid {parseFloat(tx.bidEth).toFixed(4)} ETH ({(tx.bidShareBps ?? 0) / 100}%) as {tx.bidMethod === 'coinbase' ? 'coinbase transfer' : 'priority fee'}
+                      </div>
+                    )}
                   </td>
                   <td className="py-3">
                     <span className={`px-2 py-1 rounded-full text-xs ${getTypeBadgeColor(tx.type)}`}>
@@ -101,16 +196,47 @@ export function TransactionHistory({ transactions, isLoading }: TransactionHisto
                   <td className="py-3 text-neutral-dark dark:text-slate-400">
                     {formatTimestamp(tx.timestamp)}
                   </td>
-                  <td className={`py-3 text-right ${parseFloat(tx.profitEth.toString()) >= 0 ? 'text-accent dark:text-green-400' : 'text-error dark:text-red-400'}`}>
-                    {parseFloat(tx.profitEth.toString()) >= 0 ? '+' : ''}{parseFloat(tx.profitEth.toString()).toFixed(4)} ETH
+                  <td className={`py-3 text-right ${outcome.estimated ? 'text-neutral-dark dark:text-slate-400' : outcome.profitEth >= 0 ? 'text-accent dark:text-green-400' : 'text-error dark:text-red-400'}`}>
+                    {outcome.profitEth >= 0 ? '+' : ''}{outcome.profitEth.toFixed(4)} ETH{outcome.estimated ? ' (est.)' : ''}
                   </td>
                   <td className="py-3 pr-2 text-right">
-                    <span className={`px-2 py-1 rounded-full text-xs ${getStatusBadgeColor(tx.status)}`}>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs ${getStatusBadgeColor(tx.status)}`}
+                      title={tx.revertReason ?? undefined}
+                    >
                       {tx.status}
                     </span>
+                    {tx.blockNumber != null && (
+                      <div className="text-xs text-neutral-dark dark:text-slate-400 mt-1">
+                        Block {tx.blockNumber}{tx.gasUsed != null ? ` · ${tx.gasUsed.toLocaleString()} gas` : ''}
+                      </div>
+                    )}
+                    {isReplaceable(tx) && (
+                      <div className="mt-1 space-x-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-xs px-2 py-0 h-6"
+                          onClick={() => replaceMutation.mutate({ id: tx.id, action: 'speed-up' })}
+                          disabled={replaceMutation.isPending}
+                        >
+                          Speed Up
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-xs px-2 py-0 h-6"
+                          onClick={() => replaceMutation.mutate({ id: tx.id, action: 'cancel' })}
+                          disabled={replaceMutation.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                   </td>
                 </tr>
-              ))}
+                );
+              })}
             </tbody>
           </table>
         ) : (
@@ -0,0 +1,102 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import type { SerializedExecution } from "@/lib/execution-builder";
+
+interface TransactionPreviewProps {
+  opportunityId: number | null;
+  onClose: () => void;
+}
+
+// Shows the calls an opportunity would send, so they can be checked before signing
+export function TransactionPreview({ opportunityId, onClose }: TransactionPreviewProps) {
+  const [recipient, setRecipient] = useState("");
+  const [requestedRecipient, setRequestedRecipient] = useState("");
+
+  const url = requestedRecipient
+    ? `/api/opportunities/${opportunityId}/transaction?recipient=${requestedRecipient}`
+    : `/api/opportunities/${opportunityId}/transaction`;
+
+  const { data, error, isLoading } = useQuery<SerializedExecution>({
+    queryKey: [url],
+    enabled: opportunityId !== null,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={opportunityId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transaction Preview</DialogTitle>
+          <DialogDescription>
+            Calls are sent in order from the executing wallet. Nothing has been signed yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : error ? (
+          <div className="space-y-3">
+            <div className="text-sm text-error dark:text-red-400">{error.message}</div>
+            <div className="space-y-1">
+              <Label htmlFor="previewRecipient">Recipient Address</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  id="previewRecipient"
+                  placeholder="0x..."
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value)}
+                  className="flex-1 font-mono text-xs"
+                />
+                <Button size="sm" onClick={() => setRequestedRecipient(recipient.trim())}>
+                  Build
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : data ? (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="text-neutral-dark dark:text-slate-400">Amount In</div>
+              <div className="text-right font-mono">{data.amountIn} {data.tokenIn}</div>
+              <div className="text-neutral-dark dark:text-slate-400">Expected Out</div>
+              <div className="text-right font-mono">{data.expectedAmountOut} {data.tokenOut}</div>
+              <div className="text-neutral-dark dark:text-slate-400">Minimum Out ({data.slippageBps / 100}% slippage)</div>
+              <div className="text-right font-mono">{data.minAmountOut} {data.tokenOut}</div>
+              <div className="text-neutral-dark dark:text-slate-400">Deadline</div>
+              <div className="text-right">{new Date(data.deadline * 1000).toLocaleTimeString()}</div>
+              <div className="text-neutral-dark dark:text-slate-400">Recipient</div>
+              <div className="text-right font-mono text-xs break-all">{data.recipient}</div>
+            </div>
+
+            <ol className="space-y-2 max-h-80 overflow-y-auto">
+              {data.calls.map((call, index) => (
+                <li key={index} className="border border-neutral-light dark:border-slate-700 rounded p-2">
+                  <div className="font-medium">{index + 1}. {call.description}</div>
+                  <div className="font-mono text-xs text-neutral-dark dark:text-slate-400 break-all">To: {call.to}</div>
+                  {call.value !== "0" && (
+                    <div className="font-mono text-xs text-neutral-dark dark:text-slate-400">Value: {call.value} wei</div>
+                  )}
+                  <div className="font-mono text-xs break-all mt-1">{call.data}</div>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default TransactionPreview;
@@ -1,8 +1,26 @@
 import { ethers } from 'ethers';
-import { simulateTransaction } from './ethereum';
+import { getSimulator } from './simulator';
+import { TOKENS, TokenInfo, formatTokenAmount, getRegisteredTokens, isSameToken, parseTokenAmount } from './tokens';
+import { getPools } from './pools';
+import { getDex } from './dex-registry';
+import { RouteLeg, findBestRoute, getPriceInEth, quoteRoute, resolveTradeLegs, toTradeLegs, valueInEth } from './quoting';
+import { describeRoute, type BackrunTarget, type FeeUrgency, type LiquidationTarget, type SubmissionMode, type TradeLeg, type TransactionStatus } from '@shared/schema';
+import { DEFAULT_MAX_HOPS, buildTokenGraph, findArbitrageCycles } from './route-graph';
+import { findOptimalTradeSize } from './trade-size';
+import { BuiltTransaction, ExecutionOptions, buildOpportunityExecution } from './execution-builder';
+import { getBundleRelay, submitBundle } from './bundles';
+import { getNonceManager } from './nonce-manager';
+import { estimateGasCostEth, getFeeParams, getFeeUrgency, loadFeeEstimate } from './fees';
+import { Bid, bidPriorityFeePerGas, effectiveBidMethod } from './bidding';
+import { GasEstimate, getGasModel, routeShape } from './gas-model';
+import { FLASH_LOAN_PREMIUM_BPS, flashLoanPremium } from './flash-loans';
+import { LiquidationCandidate, formatHealthFactor, getPositionTracker } from './liquidations';
+import { DEFAULT_MIN_BACKRUN_SWAP_ETH, PendingSwap, findBackrunCycles, getPendingSwaps, resolveBackrunRoute, toBackrunTarget } from './backrun';
+import { Strategy, getStrategies, realizedProfitEth, registerStrategy, resolveStrategyParams } from './strategies';
+import { getAvailableCapital } from './capital';
 
 // Opportunity types
-type ArbitrageType = 'Triangular' | 'DEX' | 'Flash Loan';
+type ArbitrageType = 'Triangular' | 'DEX' | 'Flash Loan' | 'Liquidation' | 'Backrun';
 
 export interface ArbitrageOpportunity {
   id?: number;
@@ -10,226 +28,372 @@ export interface ArbitrageOpportunity {
   pairs: string;
   estimatedProfitEth: number;
   estimatedGasCostEth: number;
+  estimatedBidEth?: number; // paid to the block builder out of the profit
+  contested?: boolean;
   isExecutable: boolean;
   identified?: Date;
+  route?: TradeLeg[];
+  amountIn?: string; // chosen trade size, in tokenIn units
+  tokenIn?: string;
+  liquidation?: LiquidationTarget;
+  backrun?: BackrunTarget;
+  strategy?: string; // id of the strategy that found it
 }
 
-// DEX information
-interface DexInfo {
-  name: string;
-  routerAddress: string;
-  factoryAddress: string;
+// Gas assumed per opportunity type until a route shape has been simulated or has
+// enough confirmed receipts; the price comes from recent fee history
+const DEFAULT_GAS_LIMITS: Record<ArbitrageType, number> = {
+  'Triangular': 250000,
+  'DEX': 180000,
+  'Flash Loan': 650000, // higher for flash loans
+  'Liquidation': 550000, // approval, liquidationCall and the collateral swap
+  'Backrun': 250000,
+};
+
+// Gas a trade is expected to use, learned per route shape: strategy, hop count and DEXes
+export function estimateTradeGas(
+  opportunity: { type: string; strategy?: string | null; route?: Array<{ dex: string }> | null }
+): GasEstimate {
+  const shape = routeShape(opportunity.strategy ?? opportunity.type, opportunity.route);
+  return getGasModel().estimate(shape, DEFAULT_GAS_LIMITS[opportunity.type as ArbitrageType] ?? 0);
 }
 
-// Common DEXes
-const DEX_INFO: Record<string, DexInfo> = {
-  uniswap: {
-    name: 'Uniswap V2',
-    routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
-    factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
-  },
-  sushiswap: {
-    name: 'SushiSwap',
-    routerAddress: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
-    factoryAddress: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
-  },
-  // Add more DEXes as needed
-};
+// Describe a route for display, naming the venues when it crosses DEXes
+function formatRoute(legs: TradeLeg[]): string {
+  return describeRoute(legs, dex => getDex(dex)?.name ?? dex);
+}
 
-// Common tokens
-const TOKENS = {
-  ETH: { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', decimals: 18, symbol: 'ETH' },
-  WETH: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, symbol: 'WETH' },
-  USDT: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, symbol: 'USDT' },
-  USDC: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, symbol: 'USDC' },
-  DAI: { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18, symbol: 'DAI' },
-  WBTC: { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8, symbol: 'WBTC' },
-};
+// Size a cyclic route for maximum net profit and value the result in ETH.
+// The wallet funds the start amount, so it is capped at what the wallet holds;
+// a flash-borrowed one is not, but owes the loan premium.
+function sizeRoute(route: RouteLeg[], gasCostEth: number, flashLoanPremiumBps?: number) {
+  const startToken = route[0].tokenIn;
+  const maxAmountIn = flashLoanPremiumBps === undefined ? getAvailableCapital(startToken) : undefined;
+  
+  // Gas is paid in ETH, but the solver works in the start token
+  const gasCostInToken = (gasCostEth / getPriceInEth(startToken)).toFixed(startToken.decimals);
+  const size = findOptimalTradeSize(route, parseTokenAmount(startToken, gasCostInToken), maxAmountIn, flashLoanPremiumBps);
+  
+  return {
+    amountIn: formatTokenAmount(startToken, size.amountIn),
+    profitEth: valueInEth(startToken, size.profit),
+    legs: toTradeLegs(route, size.amountIn),
+  };
+}
 
-// Calculate triangular arbitrage
-async function findTriangularArbitrage(
-  startToken = TOKENS.ETH,
-  midToken = TOKENS.USDC,
-  endToken = TOKENS.WBTC,
-  amount = '1', // 1 ETH
-  dex = 'uniswap'
-): Promise<ArbitrageOpportunity | null> {
+// Price a cyclic route at its optimal size and turn it into an opportunity,
+// funded from the wallet or, with flashLoan, on capital borrowed from Aave
+function buildCycleOpportunity(route: RouteLeg[], strategy: string, flashLoan = false): ArbitrageOpportunity {
+  const type: ArbitrageType = flashLoan ? 'Flash Loan' : route.length === 2 ? 'DEX' : 'Triangular';
+  
+  // Estimate gas cost
+  const gasCostEth = estimateGasCostEth(estimateTradeGas({ type, strategy, route: route.map(leg => leg.pool) }).gasLimit);
+  
+  // Borrowed capital is free to size, so trade whatever maximises profit after the premium
+  const { amountIn, profitEth, legs } = sizeRoute(route, gasCostEth, flashLoan ? FLASH_LOAN_PREMIUM_BPS : undefined);
+  
+  // Determine if trade is executable
+  const isExecutable = profitEth > gasCostEth;
+  
+  return {
+    type,
+    pairs: formatRoute(legs),
+    estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
+    estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
+    isExecutable,
+    route: legs,
+    amountIn,
+    tokenIn: route[0].tokenIn.symbol,
+  };
+}
+
+// Profitable cycles through start of any length up to maxHops, across every known pool
+function findCycles(maxHops: number, start: TokenInfo): RouteLeg[][] {
+  const knownPools = getPools().filter(pool => getDex(pool.dex) !== undefined);
+  const graph = buildTokenGraph(getRegisteredTokens(), knownPools);
+  return findArbitrageCycles(graph, maxHops, start);
+}
+
+// Search the token/pool graph for profitable cycles of any length up to maxHops
+async function findCycleArbitrage(strategy: string, maxHops = DEFAULT_MAX_HOPS): Promise<ArbitrageOpportunity[]> {
   try {
-    // This would normally perform actual on-chain queries to check prices
-    // For demo purposes, we'll simulate the finding of an opportunity
-    
-    // Simulating profit calculation
-    const inputAmount = parseFloat(amount);
-    const randomProfitFactor = 1 + (Math.random() * 0.05 - 0.02); // -2% to +3% variation
-    
-    // Calculate potential profit (randomly for demo)
-    const profitEth = inputAmount * (randomProfitFactor - 1);
-    
-    // Estimate gas cost (randomly for demo)
-    const gasPrice = 30; // Gwei
-    const gasLimit = 250000; // Gas units
-    const gasCostEth = (gasPrice * gasLimit) / 1e9;
-    
-    // Determine if trade is executable
-    const isExecutable = profitEth > gasCostEth;
-    
-    return {
-      type: 'Triangular',
-      pairs: `${startToken.symbol} → ${midToken.symbol} → ${endToken.symbol} → ${startToken.symbol}`,
-      estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
-      estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
-      isExecutable,
-    };
+    return findCycles(maxHops, TOKENS.WETH).map(route => buildCycleOpportunity(route, strategy));
   } catch (error) {
-    console.error('Error finding triangular arbitrage:', error);
-    return null;
+    console.error('Error finding cycle arbitrage:', error);
+    return [];
   }
 }
 
-// Calculate DEX arbitrage
-async function findDexArbitrage(
-  token1 = TOKENS.USDT,
-  dex1 = 'uniswap',
-  dex2 = 'sushiswap',
-  amount = '1000' // 1000 USDT
-): Promise<ArbitrageOpportunity | null> {
+// Calculate Flash Loan arbitrage: the same cycles, run on a token borrowed from
+// Aave. It lends and is repaid in ERC20s, so cycles through native ETH are left out.
+async function findFlashLoanArbitrage(
+  strategy: string,
+  maxHops = DEFAULT_MAX_HOPS,
+  token: TokenInfo = TOKENS.WETH
+): Promise<ArbitrageOpportunity[]> {
   try {
-    // For demo purposes, we'll simulate the finding of an opportunity
-    
-    // Simulating profit calculation
-    const inputAmount = parseFloat(amount);
-    const randomProfitFactor = 1 + (Math.random() * 0.02 - 0.005); // -0.5% to +1.5% variation
-    
-    // Calculate potential profit (randomly for demo)
-    const profitEth = (inputAmount / 2000) * (randomProfitFactor - 1); // Approximate ETH value
-    
-    // Estimate gas cost (randomly for demo)
-    const gasPrice = 25; // Gwei
-    const gasLimit = 180000; // Gas units
-    const gasCostEth = (gasPrice * gasLimit) / 1e9;
-    
-    // Determine if trade is executable
-    const isExecutable = profitEth > gasCostEth;
-    
-    return {
-      type: 'DEX',
-      pairs: `${token1.symbol}(${DEX_INFO[dex1].name}) → ${token1.symbol}(${DEX_INFO[dex2].name})`,
-      estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
-      estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
-      isExecutable,
-    };
+    return findCycles(maxHops, token)
+      .filter(route => route[0].tokenIn.address !== TOKENS.ETH.address && route[route.length - 1].tokenOut.address !== TOKENS.ETH.address)
+      .map(route => buildCycleOpportunity(route, strategy, true));
   } catch (error) {
-    console.error('Error finding DEX arbitrage:', error);
+    console.error('Error finding flash loan arbitrage:', error);
+    return [];
+  }
+}
+
+// Price the liquidation of an underwater position: repay its debt, take the
+// collateral plus bonus, and swap the collateral back on the best route
+function buildLiquidationOpportunity(candidate: LiquidationCandidate, strategy: string): ArbitrageOpportunity | null {
+  const { position, collateral, debt, amounts } = candidate;
+  const collateralToken = collateral.reserve.token;
+  const debtToken = debt.reserve.token;
+
+  const route = findBestRoute(collateralToken, debtToken, amounts.collateralSeized);
+  if (!route) {
+    console.warn(`No route to swap ${collateralToken.symbol} for ${debtToken.symbol}; skipping liquidation of ${position.borrower}`);
     return null;
   }
+  const quoted = quoteRoute(route, amounts.collateralSeized);
+  const profit = quoted[quoted.length - 1] - amounts.debtToCover;
+  
+  // Estimate gas cost
+  const gasCostEth = estimateGasCostEth(estimateTradeGas({ type: 'Liquidation', strategy, route: route.map(leg => leg.pool) }).gasLimit);
+  const profitEth = valueInEth(debtToken, profit);
+  
+  // Determine if trade is executable: the wallet repays the debt
+  const capital = getAvailableCapital(debtToken);
+  const isExecutable = profitEth > gasCostEth && (capital === undefined || capital >= amounts.debtToCover);
+  
+  const legs = toTradeLegs(route, amounts.collateralSeized);
+  const describe = ({ address, symbol, decimals }: TokenInfo) => ({ address, symbol, decimals });
+  return {
+    type: 'Liquidation',
+    pairs: formatRoute(legs),
+    estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
+    estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
+    isExecutable,
+    route: legs,
+    amountIn: formatTokenAmount(debtToken, amounts.debtToCover),
+    tokenIn: debtToken.symbol,
+    liquidation: {
+      market: position.market,
+      borrower: position.borrower,
+      collateral: describe(collateralToken),
+      debt: describe(debtToken),
+      debtToCover: amounts.debtToCover.toString(),
+      collateralSeized: amounts.collateralSeized.toString(),
+      healthFactor: formatHealthFactor(candidate.healthFactor),
+      liquidationBonusBps: collateral.reserve.liquidationBonusBps,
+    },
+  };
 }
 
-// Calculate Flash Loan arbitrage
-async function findFlashLoanArbitrage(
-  token = TOKENS.ETH,
-  amount = '100', // 100 ETH
-  lendingProtocol = 'AAVE',
-  dex = 'uniswap'
-): Promise<ArbitrageOpportunity | null> {
+// Liquidate every watched position whose health factor fell below 1
+async function findLiquidationOpportunities(strategy: string): Promise<ArbitrageOpportunity[]> {
   try {
-    // For demo purposes, we'll simulate the finding of an opportunity
-    
-    // Simulating profit calculation
-    const inputAmount = parseFloat(amount);
-    const randomProfitFactor = 1 + (Math.random() * 0.03 - 0.01); // -1% to +2% variation
-    
-    // Calculate potential profit (randomly for demo)
-    const profitEth = inputAmount * (randomProfitFactor - 1);
-    
-    // Estimate gas cost (randomly for demo)
-    const gasPrice = 30; // Gwei
-    const gasLimit = 650000; // Gas units (higher for flash loans)
-    const gasCostEth = (gasPrice * gasLimit) / 1e9;
-    
-    // Determine if trade is executable
-    const isExecutable = profitEth > gasCostEth;
+    const tracker = getPositionTracker();
+    if (!tracker) return [];
     
-    return {
-      type: 'Flash Loan',
-      pairs: `${lendingProtocol} → ${DEX_INFO[dex].name} → Compound`,
-      estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
-      estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
-      isExecutable,
-    };
+    await tracker.refresh();
+    return tracker.getLiquidatable().flatMap(candidate => buildLiquidationOpportunity(candidate, strategy) ?? []);
   } catch (error) {
-    console.error('Error finding flash loan arbitrage:', error);
-    return null;
+    console.error('Error finding liquidations:', error);
+    return [];
+  }
+}
+
+// Price a cycle that restores the prices a pending swap moves. The route is
+// sized and quoted on the pools as that swap leaves them.
+function buildBackrunOpportunity(swap: PendingSwap, route: RouteLeg[], strategy: string): ArbitrageOpportunity {
+  // Estimate gas cost
+  const gasCostEth = estimateGasCostEth(estimateTradeGas({ type: 'Backrun', strategy, route: route.map(leg => leg.pool) }).gasLimit);
+  
+  const { amountIn, profitEth, legs } = sizeRoute(route, gasCostEth);
+  
+  // Determine if trade is executable
+  const isExecutable = profitEth > gasCostEth;
+  
+  return {
+    type: 'Backrun',
+    pairs: formatRoute(legs),
+    estimatedProfitEth: parseFloat(profitEth.toFixed(4)),
+    estimatedGasCostEth: parseFloat(gasCostEth.toFixed(4)),
+    isExecutable,
+    route: legs,
+    amountIn,
+    tokenIn: route[0].tokenIn.symbol,
+    backrun: toBackrunTarget(swap),
+  };
+}
+
+// Backrun every large pending swap that leaves a cycle to close behind it
+async function findBackrunOpportunities(strategy: string, maxHops = DEFAULT_MAX_HOPS, minSwapEth = DEFAULT_MIN_BACKRUN_SWAP_ETH): Promise<ArbitrageOpportunity[]> {
+  try {
+    const swaps = await getPendingSwaps(minSwapEth);
+    return swaps.flatMap(swap =>
+      findBackrunCycles(swap, maxHops).map(route => buildBackrunOpportunity(swap, route, strategy))
+    );
+  } catch (error) {
+    console.error('Error finding backruns:', error);
+    return [];
   }
 }
 
-// Generate multiple arbitrage opportunities (for demo)
+// Generate opportunities from the current market state, asking each strategy
+// with its stored parameters (keyed by strategy id)
 export async function generateArbitrageOpportunities(
-  count = 4
+  strategies: Strategy[] = getStrategies(),
+  storedParams: Record<string, Record<string, number>> = {}
 ): Promise<ArbitrageOpportunity[]> {
   const opportunities: ArbitrageOpportunity[] = [];
   
-  try {
-    // Create a mix of opportunity types
-    const triangularOpp = await findTriangularArbitrage();
-    if (triangularOpp) opportunities.push(triangularOpp);
-    
-    const dexOpp = await findDexArbitrage();
-    if (dexOpp) opportunities.push(dexOpp);
-    
-    // Add another triangular with different token pairs
-    const triangularOpp2 = await findTriangularArbitrage(
-      TOKENS.ETH,
-      TOKENS.USDT,
-      TOKENS.DAI
-    );
-    if (triangularOpp2) opportunities.push(triangularOpp2);
-    
-    // Add a flash loan opportunity
-    const flashLoanOpp = await findFlashLoanArbitrage();
-    if (flashLoanOpp) opportunities.push(flashLoanOpp);
-    
-    // If we need more, add random ones
-    while (opportunities.length < count) {
-      const randomOpp = await findTriangularArbitrage();
-      if (randomOpp) opportunities.push(randomOpp);
+  for (const strategy of strategies) {
+    try {
+      const found = await strategy.detect(resolveStrategyParams(strategy, storedParams[strategy.id]));
+      opportunities.push(...found.map(opportunity => ({ ...opportunity, strategy: strategy.id })));
+    } catch (error) {
+      console.error(`Error detecting ${strategy.name} opportunities:`, error);
     }
-    
-    return opportunities;
-  } catch (error) {
-    console.error('Error generating arbitrage opportunities:', error);
-    return opportunities;
   }
+  return opportunities;
 }
 
-// Execute an arbitrage opportunity
-export async function executeArbitrage(opportunity: ArbitrageOpportunity) {
+// A step an execution has reached, with what is known about it so far
+export interface ExecutionProgress {
+  status: TransactionStatus;
+  txHash?: string;
+  fromAddress?: string;
+  nonce?: number;
+  revertReason?: string;
+  submission?: SubmissionMode;
+  bundleHash?: string;
+  targetBlock?: number; // last block a private bundle can land in
+  setupGasUsed?: number; // gas the calls before the final one used
+}
+
+// Simulate every call of a built execution in order. A cyclic route also has
+// to come back with more of its start token than it spent.
+export async function simulateExecution(execution: BuiltTransaction, from: string) {
+  const { tokenIn, tokenOut } = execution;
+  const preceding = execution.backrun ? [execution.backrun.victimRaw] : [];
+  const result = await getSimulator().simulate(from, execution.calls, [tokenIn, tokenOut], preceding);
+  if (!result.success) {
+    const failedCall = result.failedCall !== null ? execution.calls[result.failedCall] : null;
+    return { ...result, error: failedCall ? `${failedCall.description}: ${result.error}` : result.error };
+  }
+  
+  if (isSameToken(tokenIn, tokenOut) && result.balanceDeltas.length > 0) {
+    // ETH and WETH are tracked separately but count as the same token here
+    const profit = result.balanceDeltas.reduce((total, { delta }) => total + delta, 0n);
+    if (profit <= 0n) {
+      const loss = formatTokenAmount(tokenIn, -profit);
+      return { ...result, success: false, error: `Simulated trade returns ${loss} ${tokenIn.symbol} less than it spends` };
+    }
+  }
+  
+  return result;
+}
+
+// Execute an arbitrage opportunity: build the router calls for its route,
+// simulate them, then send them in order from the signer. Returns once the
+// final swap is submitted; tracking it to a receipt is up to the caller.
+// Private submission sends every call as one bundle through the relay instead
+// of the public mempool, so nothing is visible until it lands. Backruns are
+// always sent that way, bundled behind the swap they follow, and so is any
+// execution of more than one call: sent one by one, an early swap could fill
+// and a later one revert, leaving its tokens stranded mid-route.
+export async function executeArbitrage(
+  opportunity: { type: string; pairs: string; strategy?: string | null; route?: TradeLeg[] | null; amountIn?: string | null; liquidation?: LiquidationTarget | null; backrun?: BackrunTarget | null },
+  signer: ethers.Signer,
+  options: Omit<ExecutionOptions, 'recipient'> & { runSimulations?: boolean; submission?: SubmissionMode; feeUrgency?: FeeUrgency; bid?: Bid } = {},
+  onProgress: (progress: ExecutionProgress) => Promise<void> | void = () => {}
+) {
   try {
     console.log(`Executing ${opportunity.type} arbitrage: ${opportunity.pairs}`);
     
-    // This would normally construct and submit an actual transaction
-    // For demo purposes, we'll just simulate it
+    const recipient = await signer.getAddress();
+    const execution = buildOpportunityExecution(opportunity, { ...options, recipient });
+    await onProgress({ status: 'Built' });
     
-    // Create mock transaction for simulation
-    const mockTxData = {
-      to: DEX_INFO.uniswap.routerAddress,
-      value: ethers.utils.parseEther('0.1'),
-      data: '0x' + Math.random().toString(16).substring(2, 10), // Mock function selector
-      gasLimit: ethers.utils.hexlify(300000),
-    };
+    // Simulate every call before sending any of them, unless simulations are turned off
+    if (options.runSimulations ?? true) {
+      const simulation = await simulateExecution(execution, recipient);
+      if (!simulation.success) {
+        await onProgress({ status: 'Failed', revertReason: simulation.error! });
+        throw new Error(`Simulation failed (${simulation.error})`);
+      }
+      // Shapes without enough confirmed receipts are priced from their last simulation
+      getGasModel().recordSimulation(routeShape(opportunity.strategy ?? opportunity.type, opportunity.route), simulation.gasUsed);
+      await onProgress({ status: 'Simulated' });
+    }
+    
+    // Bid on fees as they are now, not as they were when the opportunity was found
+    if (signer.provider) {
+      try {
+        await loadFeeEstimate(signer.provider);
+      } catch (error) {
+        console.error('Failed to read fee history; bidding on the last estimate:', error);
+      }
+    }
+    const urgencyFees = getFeeParams(options.feeUrgency ?? getFeeUrgency());
+    const privately = options.submission === 'private' || Boolean(execution.backrun) || execution.calls.length > 1;
     
-    // Simulate the transaction
-    const simulationResult = await simulateTransaction(mockTxData);
+    // A priority-fee bid goes on top of the urgency's tip, spread over the gas the
+    // execution is expected to use
+    const bid = options.bid && options.bid.amountEth > 0 ? options.bid : null;
+    const coinbasePayment = bid && effectiveBidMethod(bid, privately) === 'coinbase'
+      ? ethers.parseEther(bid.amountEth.toFixed(18))
+      : undefined;
+    const bidPerGas = bid && !coinbasePayment ? bidPriorityFeePerGas(bid, estimateTradeGas(opportunity).gasLimit) : 0n;
+    const fees = {
+      maxFeePerGas: urgencyFees.maxFeePerGas + bidPerGas,
+      maxPriorityFeePerGas: urgencyFees.maxPriorityFeePerGas + bidPerGas,
+    };
     
-    if (!simulationResult.success) {
-      throw new Error(`Simulation failed: ${simulationResult.error}`);
+    if (privately) {
+      let bundle;
+      try {
+        const precedingTransactions = execution.backrun ? [execution.backrun.victimRaw] : [];
+        bundle = await submitBundle(signer, execution.calls, getBundleRelay(), {
+          precedingTransactions,
+          priorityFeePerGas: fees.maxPriorityFeePerGas,
+          coinbasePayment,
+        });
+      } catch (error) {
+        await onProgress({ status: 'Failed', revertReason: (error as Error).message, submission: 'private' });
+        throw error;
+      }
+      // The trade's last call; a coinbase payment follows it
+      const last = execution.calls.length - 1;
+      const setupResults = bundle.simulation.results.slice(bundle.transactions.length - bundle.hashes.length).slice(0, last);
+      await onProgress({
+        status: 'Submitted',
+        txHash: bundle.hashes[last],
+        fromAddress: recipient,
+        nonce: bundle.nonces[last],
+        submission: 'private',
+        bundleHash: bundle.bundleHash,
+        targetBlock: bundle.targetBlock,
+        setupGasUsed: setupResults.reduce((total, result) => total + result.gasUsed, 0),
+      });
+      
+      return {
+        txHash: bundle.hashes[last],
+        nonce: bundle.nonces[last],
+        bundleHash: bundle.bundleHash,
+        execution,
+      };
     }
     
-    // For a real implementation, this would submit the transaction to the blockchain
-    // For demo, we'll return a mock transaction hash
+    // A single call is atomic on its own, so it can go through the public mempool
+    const [call] = execution.calls;
+    const txResponse = await getNonceManager(signer).sendTransaction({ to: call.to, data: call.data, value: call.value, ...fees });
+    await onProgress({ status: 'Submitted', txHash: txResponse.hash, fromAddress: txResponse.from, nonce: txResponse.nonce, submission: 'public' });
+    
     return {
-      txHash: '0x' + Math.random().toString(16).substring(2, 66),
-      status: 'Confirmed',
-      gasUsed: simulationResult.gasUsed,
+      txHash: txResponse.hash,
+      nonce: txResponse.nonce,
+      execution,
     };
   } catch (error) {
     console.error('Error executing arbitrage:', error);
@@ -237,15 +401,49 @@ export async function executeArbitrage(opportunity: ArbitrageOpportunity) {
   }
 }
 
-// Calculate expected profit for an opportunity
+// Profit in ETH of an opportunity re-quoted on current pool state: a cycle at the
+// size the solver chose, less any flash-loan premium; a liquidation's collateral
+// swap against the debt it repays; a backrun on the pools as the swap it follows
+// leaves them. Null when the route can no longer be quoted.
+export function requoteOpportunity(
+  opportunity: { type: string; route?: TradeLeg[] | null; amountIn?: string | null; liquidation?: LiquidationTarget | null; backrun?: BackrunTarget | null }
+): number | null {
+  if (!opportunity.route || !opportunity.amountIn) return null;
+  
+  try {
+    if (opportunity.liquidation) {
+      const route = resolveTradeLegs(opportunity.route);
+      if (!route) return null;
+      const amounts = quoteRoute(route, BigInt(opportunity.liquidation.collateralSeized));
+      const debtToken = route[route.length - 1].tokenOut;
+      return valueInEth(debtToken, amounts[amounts.length - 1] - BigInt(opportunity.liquidation.debtToCover));
+    }
+    
+    const route = opportunity.backrun
+      ? resolveBackrunRoute(opportunity.backrun, opportunity.route)
+      : resolveTradeLegs(opportunity.route);
+    if (!route) return null;
+    const startToken = route[0].tokenIn;
+    const amountIn = parseTokenAmount(startToken, opportunity.amountIn);
+    const amounts = quoteRoute(route, amountIn);
+    const premiumBps = opportunity.type === 'Flash Loan' ? FLASH_LOAN_PREMIUM_BPS : 0;
+    return valueInEth(startToken, amounts[amounts.length - 1] - amountIn - flashLoanPremium(amountIn, premiumBps));
+  } catch (error) {
+    console.error(`Error re-quoting ${opportunity.type} opportunity:`, error);
+    return null;
+  }
+}
+
+// Calculate expected profit for an opportunity, paying gas at the given urgency
 export function calculateExpectedProfit(
   opportunity: ArbitrageOpportunity,
-  gasPrice = 30 // Gwei
+  urgency: FeeUrgency = getFeeUrgency()
 ): { netProfit: number; profitable: boolean } {
-  const gasLimit = 300000; // Estimated gas limit
-  const gasCostEth = (gasPrice * gasLimit) / 1e9;
+  const gasCostEth = estimateGasCostEth(estimateTradeGas(opportunity).gasLimit, urgency);
   
-  const netProfit = opportunity.estimatedProfitEth - gasCostEth;
+  const grossProfitEth = requoteOpportunity(opportunity) ?? opportunity.estimatedProfitEth;
+  
+  const netProfit = grossProfitEth - gasCostEth;
   const profitable = netProfit > 0;
   
   return { netProfit, profitable };
@@ -267,3 +465,72 @@ export function generateMempoolActivity(): string {
   const randomActivity = activities[Math.floor(Math.random() * activities.length)];
   return randomActivity;
 }
+
+// Built-in strategies
+
+// Reject a cyclic route whose re-quoted profit no longer covers its gas
+function validateCycle(opportunity: ArbitrageOpportunity): string | null {
+  const profitEth = requoteOpportunity(opportunity);
+  if (profitEth === null) return 'Route uses a pool or token that is no longer known';
+  if (profitEth <= opportunity.estimatedGasCostEth) {
+    return `Re-quoted profit of ${profitEth.toFixed(4)} ETH no longer covers ${opportunity.estimatedGasCostEth.toFixed(4)} ETH of gas`;
+  }
+  return null;
+}
+
+const maxHopsParameter = { key: 'maxHops', label: 'Max hops', defaultValue: DEFAULT_MAX_HOPS, min: 2, max: 6, step: 1 };
+
+registerStrategy({
+  id: 'arbitrage',
+  name: 'Cyclic Arbitrage',
+  description: 'Profitable cycles across every known pool, funded from the wallet',
+  parameters: [maxHopsParameter],
+  detect: params => findCycleArbitrage('arbitrage', params.maxHops),
+  validate: async opportunity => validateCycle(opportunity),
+  buildExecution: buildOpportunityExecution,
+  accountTrade: realizedProfitEth,
+});
+
+registerStrategy({
+  id: 'flashloan',
+  name: 'Flash Loan Arbitrage',
+  description: 'Profitable cycles run on WETH borrowed from Aave, sized beyond the wallet',
+  parameters: [maxHopsParameter],
+  detect: params => findFlashLoanArbitrage('flashloan', params.maxHops),
+  validate: async opportunity => validateCycle(opportunity),
+  buildExecution: buildOpportunityExecution,
+  accountTrade: realizedProfitEth,
+});
+
+registerStrategy({
+  id: 'liquidation',
+  name: 'Liquidations',
+  description: 'Repay the debt of watched lending positions below a health factor of 1',
+  parameters: [],
+  detect: () => findLiquidationOpportunities('liquidation'),
+  validate: async ({ liquidation }) => {
+    const stillLiquidatable = getPositionTracker()?.getLiquidatable().some(({ position }) =>
+      liquidation && position.market === liquidation.market && position.borrower === liquidation.borrower
+    );
+    return stillLiquidatable ? null : 'Position is no longer liquidatable';
+  },
+  buildExecution: buildOpportunityExecution,
+  accountTrade: realizedProfitEth,
+});
+
+registerStrategy({
+  id: 'backrun',
+  name: 'Backruns',
+  description: 'Close the price gaps large pending swaps leave, bundled right behind them',
+  parameters: [
+    { key: 'minSwapEth', label: 'Min swap size (ETH)', defaultValue: DEFAULT_MIN_BACKRUN_SWAP_ETH, min: 0, step: 1 },
+    maxHopsParameter,
+  ],
+  detect: params => findBackrunOpportunities('backrun', params.maxHops, params.minSwapEth),
+  validate: async ({ backrun }) => {
+    const stillPending = (await getPendingSwaps()).some(swap => swap.hash === backrun?.victimHash);
+    return stillPending ? null : 'Swap to backrun is no longer pending';
+  },
+  buildExecution: buildOpportunityExecution,
+  accountTrade: realizedProfitEth,
+});
@@ -0,0 +1,169 @@
+import { ethers } from 'ethers';
+import type { BackrunTarget, SwapIntent, TradeLeg } from '@shared/schema';
+import { Pool, findHopPool, getPools } from './pools';
+import { getDex, requireDex } from './dex-registry';
+import { RouteLeg, resolveTradeLegs, valueInEth } from './quoting';
+import { TOKENS, TokenInfo, findToken, getRegisteredTokens } from './tokens';
+import { DEFAULT_MAX_HOPS, buildTokenGraph, findArbitrageCycles } from './route-graph';
+import { type DecodedSwapIntent, decodeSwapIntents } from './swap-intents';
+
+// Smallest pending swap worth backrunning, by the ETH value of what it sells
+export const DEFAULT_MIN_BACKRUN_SWAP_ETH = 10;
+
+// One swap a pending transaction makes, resolved to the pools it trades through
+export interface ResolvedSwap {
+  dex: string;
+  route: RouteLeg[];
+  amountIn: bigint;
+  amountOutMin: bigint;
+}
+
+// A transaction waiting in the mempool and the swaps it will make, in order
+export interface PendingSwap {
+  hash: string;
+  raw: string; // signed, so it can be bundled ahead of ours
+  from: string;
+  swaps: ResolvedSwap[];
+}
+
+// What backruns read of a swap intent, freshly decoded or as stored
+type IntentAmounts = Pick<DecodedSwapIntent, 'dex' | 'kind' | 'path' | 'fees' | 'amountIn' | 'amountOut'>;
+
+// Resolve a pending transaction's swaps to our pools. Null when any of them
+// cannot be projected: an exact-output swap (what it spends depends on the
+// pools when it lands), an unknown amount, or a token or pool we do not know.
+export function resolvePendingSwap(hash: string, raw: string, from: string, intents: IntentAmounts[]): PendingSwap | null {
+  const swaps: ResolvedSwap[] = [];
+  for (const intent of intents) {
+    if (intent.kind !== 'exact_in' || !intent.dex || intent.amountIn === null) return null;
+
+    const tokens = intent.path.map(address => findToken(address));
+    const route: RouteLeg[] = [];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const [tokenIn, tokenOut] = [tokens[i], tokens[i + 1]];
+      if (!tokenIn || !tokenOut) return null;
+      const pool = findHopPool(intent.dex, tokenIn, tokenOut, intent.fees?.[i]);
+      if (!pool) return null;
+      route.push({ pool, tokenIn, tokenOut });
+    }
+    swaps.push({ dex: intent.dex, route, amountIn: intent.amountIn, amountOutMin: intent.amountOut });
+  }
+  return swaps.length > 0 ? { hash, raw, from, swaps } : null;
+}
+
+// Read a signed transaction's swaps through the routers we decode
+export function decodePendingSwap(raw: string): PendingSwap | null {
+  const tx = ethers.Transaction.from(raw);
+  if (!tx.to || !tx.hash || !tx.from) return null;
+  const intents = decodeSwapIntents({ from: tx.from, to: tx.to, data: tx.data, value: tx.value });
+  return resolvePendingSwap(tx.hash, raw, tx.from, intents);
+}
+
+// The pending transactions among stored swap intents. Intents stored without
+// their signed transaction cannot be bundled behind, so are left out.
+export function pendingSwapsFromIntents(intents: SwapIntent[]): PendingSwap[] {
+  const byHash = new Map<string, SwapIntent[]>();
+  for (const intent of intents) {
+    if (intent.status !== 'pending' || !intent.rawTransaction) continue;
+    byHash.set(intent.txHash, [...(byHash.get(intent.txHash) ?? []), intent]);
+  }
+
+  return Array.from(byHash.values()).flatMap(group => {
+    const [first] = group.sort((a, b) => a.position - b.position);
+    const swap = resolvePendingSwap(first.txHash, first.rawTransaction!, first.fromAddress, group.map(intent => ({
+      dex: intent.dex,
+      kind: intent.kind,
+      path: intent.path,
+      fees: intent.fees ?? undefined,
+      amountIn: intent.amountIn !== null ? BigInt(intent.amountIn) : null,
+      amountOut: BigInt(intent.amountOut),
+    })));
+    return swap ? [swap] : [];
+  });
+}
+
+// The ETH value of the most a pending transaction sells in one swap
+export function pendingSwapSizeEth(swap: PendingSwap): number {
+  return Math.max(...swap.swaps.map(({ route, amountIn }) => valueInEth(route[0].tokenIn, amountIn)));
+}
+
+// Where backruns read pending swaps from: the swap intents the server's
+// mempool ingester stores. Until one is set there is nothing to backrun.
+let swapIntentSource: (() => Promise<SwapIntent[]>) | null = null;
+
+export function setSwapIntentSource(source: () => Promise<SwapIntent[]>) {
+  swapIntentSource = source;
+}
+
+// Pending swaps selling at least minSwapEth, largest first
+export async function getPendingSwaps(minSwapEth = 0): Promise<PendingSwap[]> {
+  if (!swapIntentSource) return [];
+  return pendingSwapsFromIntents(await swapIntentSource())
+    .filter(swap => pendingSwapSizeEth(swap) >= minSwapEth)
+    .sort((a, b) => pendingSwapSizeEth(b) - pendingSwapSizeEth(a));
+}
+
+// Copies of the pools a pending transaction trades through, moved as if it had been
+// mined. Null when one of its swaps would revert on its own minimum output, leaving
+// nothing to follow.
+export function projectPendingSwap(swap: PendingSwap): Map<Pool, Pool> | null {
+  const projected = new Map<Pool, Pool>();
+  try {
+    for (const { route, amountIn, amountOutMin } of swap.swaps) {
+      let amount = amountIn;
+      for (const leg of route) {
+        let pool = projected.get(leg.pool);
+        if (!pool) {
+          pool = structuredClone(leg.pool);
+          projected.set(leg.pool, pool);
+        }
+        amount = requireDex(pool.dex).swap(pool, leg.tokenIn, leg.tokenOut, amount);
+      }
+      if (amount < amountOutMin) return null;
+    }
+  } catch {
+    return null; // more than the pools can fill
+  }
+  return projected;
+}
+
+// Profitable cycles on the pools as the pending swap leaves them. Only cycles
+// through a pool it moved count: anything else is there with or without it.
+export function findBackrunCycles(swap: PendingSwap, maxHops = DEFAULT_MAX_HOPS): RouteLeg[][] {
+  const projected = projectPendingSwap(swap);
+  if (!projected) return [];
+
+  const pools = getPools()
+    .filter(pool => getDex(pool.dex) !== undefined)
+    .map(pool => projected.get(pool) ?? pool);
+  const moved = new Set(projected.values());
+  const graph = buildTokenGraph(getRegisteredTokens(), pools);
+  return findArbitrageCycles(graph, maxHops, TOKENS.WETH).filter(route => route.some(leg => moved.has(leg.pool)));
+}
+
+// Described by its first swap, and the token its last one ends in
+export function toBackrunTarget(swap: PendingSwap): BackrunTarget {
+  const describe = ({ address, symbol, decimals }: TokenInfo) => ({ address, symbol, decimals });
+  const [first, last] = [swap.swaps[0], swap.swaps[swap.swaps.length - 1]];
+  return {
+    victimHash: swap.hash,
+    victimRaw: swap.raw,
+    victimFrom: swap.from,
+    dex: first.dex,
+    tokenIn: describe(first.route[0].tokenIn),
+    tokenOut: describe(last.route[last.route.length - 1].tokenOut),
+    amountIn: first.amountIn.toString(),
+  };
+}
+
+// Rebuild a stored backrun route on the pools as the swap it follows leaves them
+export function resolveBackrunRoute(target: BackrunTarget, legs: TradeLeg[]): RouteLeg[] {
+  const swap = decodePendingSwap(target.victimRaw);
+  if (!swap) throw new Error(`Transaction ${target.victimHash} is no longer a swap through a known pool`);
+  const projected = projectPendingSwap(swap);
+  if (!projected) throw new Error(`Transaction ${target.victimHash} would revert, leaving nothing to backrun`);
+
+  const route = resolveTradeLegs(legs);
+  if (!route) throw new Error('Opportunity route uses a pool or token that is no longer known');
+  return route.map(leg => ({ ...leg, pool: projected.get(leg.pool) ?? leg.pool }));
+}
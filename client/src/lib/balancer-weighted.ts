@@ -0,0 +1,103 @@
+// Balancer weighted-pool pricing math.
+// Mirrors WeightedMath._calcOutGivenIn with the Vault's 18-decimal fixed point,
+// including swap fee handling and the 30% max-in ratio.
+
+const ONE = 10n ** 18n;
+
+// Swaps may not add more than 30% of the input balance
+const MAX_IN_RATIO = 3n * 10n ** 17n;
+
+// Bound on LogExpMath.pow's relative error, used to round powUp the same way
+const MAX_POW_RELATIVE_ERROR = 10000n;
+
+// On-chain state needed to price a swap
+export interface WeightedPoolState {
+  balances: bigint[];
+  weights: bigint[]; // normalised, 18 decimals, summing to 1e18
+  scalingFactors: bigint[]; // scale each balance to 18 decimals
+  swapFee: bigint; // 18 decimals
+}
+
+// Scaling factor that normalises a token with the given decimals to 18 decimals
+export function scalingFactorForDecimals(decimals: number): bigint {
+  return 10n ** BigInt(18 - decimals);
+}
+
+function mulDown(a: bigint, b: bigint): bigint {
+  return (a * b) / ONE;
+}
+
+function mulUp(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  return product === 0n ? 0n : (product - 1n) / ONE + 1n;
+}
+
+function divDown(a: bigint, b: bigint): bigint {
+  return (a * ONE) / b;
+}
+
+function divUp(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a * ONE - 1n) / b + 1n;
+}
+
+function complement(x: bigint): bigint {
+  return x < ONE ? ONE - x : 0n;
+}
+
+// x^y rounded up, with the fast paths FixedPoint.powUp takes for common weight ratios.
+// Other exponents use a float power, which is well inside the bound the contract allows for.
+function powUp(x: bigint, y: bigint): bigint {
+  if (y === ONE) return x;
+  if (y === 2n * ONE) return mulUp(x, x);
+  if (y === 4n * ONE) {
+    const square = mulUp(x, x);
+    return mulUp(square, square);
+  }
+
+  const raw = BigInt(Math.floor(Math.pow(Number(x) / 1e18, Number(y) / 1e18) * 1e18));
+  return raw + mulUp(raw, MAX_POW_RELATIVE_ERROR) + 1n;
+}
+
+// Output for an already-scaled, fee-deducted input
+export function calcOutGivenIn(
+  balanceIn: bigint,
+  weightIn: bigint,
+  balanceOut: bigint,
+  weightOut: bigint,
+  amountIn: bigint
+): bigint {
+  if (amountIn > mulDown(balanceIn, MAX_IN_RATIO)) {
+    throw new Error('Max in ratio exceeded');
+  }
+
+  const base = divUp(balanceIn, balanceIn + amountIn);
+  const exponent = divDown(weightIn, weightOut);
+  const power = powUp(base, exponent);
+  return mulDown(balanceOut, complement(power));
+}
+
+// Output amount of token j for amountIn of token i, after the swap fee
+export function getAmountOut(pool: WeightedPoolState, i: number, j: number, amountIn: bigint): bigint {
+  if (amountIn <= 0n) return 0n;
+  if (pool.balances[i] <= 0n || pool.balances[j] <= 0n) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  // The Vault takes the fee from the input before scaling
+  const amountInAfterFee = amountIn - mulUp(amountIn, pool.swapFee);
+  const amountOut = calcOutGivenIn(
+    pool.balances[i] * pool.scalingFactors[i],
+    pool.weights[i],
+    pool.balances[j] * pool.scalingFactors[j],
+    pool.weights[j],
+    amountInAfterFee * pool.scalingFactors[i]
+  );
+  return amountOut / pool.scalingFactors[j];
+}
+
+// Spot price of token i in token j before fees: (B_j / w_j) / (B_i / w_i)
+export function getSpotPrice(pool: WeightedPoolState, i: number, j: number): number {
+  const scaled = (k: number) => Number(pool.balances[k] * pool.scalingFactors[k]) / 1e18;
+  const weight = (k: number) => Number(pool.weights[k]) / 1e18;
+  return (scaled(j) / weight(j)) / (scaled(i) / weight(i));
+}
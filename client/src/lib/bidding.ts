@@ -0,0 +1,66 @@
+import { ethers } from 'ethers';
+import type { BidMethod, BidPolicy } from '@shared/schema';
+
+// Strategies without a policy bid nothing beyond the fee urgency's tip
+export const DEFAULT_BID_POLICY: BidPolicy = {
+  method: 'priority_fee',
+  shareBps: 0,
+  uncontestedShareBps: 0,
+  floorEth: 0,
+};
+
+// An opportunity nobody has taken for two blocks is not being raced for
+export const UNCONTESTED_AFTER_MS = 24000;
+
+// What one opportunity bids for inclusion
+export interface Bid {
+  method: BidMethod;
+  shareBps: number; // share of expected net profit bid, the level win rates are tracked by
+  amountEth: number;
+  contested: boolean;
+}
+
+export function getBidPolicy(policies: Record<string, BidPolicy> | undefined, strategyId: string | null | undefined): BidPolicy {
+  return (strategyId && policies?.[strategyId]) || DEFAULT_BID_POLICY;
+}
+
+// Whether other searchers are likely after an opportunity first seen at `firstSeen`;
+// one never seen before is assumed to be
+export function isContested(firstSeen: Date | null | undefined, now = new Date()): boolean {
+  return !firstSeen || now.getTime() - firstSeen.getTime() < UNCONTESTED_AFTER_MS;
+}
+
+// Bid the policy's share of the profit left after gas, kept between its floor
+// and ceiling and never more than that profit
+export function calculateBid(netProfitEth: number, policy: BidPolicy, contested: boolean): Bid {
+  const shareBps = contested ? policy.shareBps : policy.uncontestedShareBps;
+  let amountEth = 0;
+  if (shareBps > 0 && netProfitEth > 0) {
+    amountEth = Math.max((netProfitEth * shareBps) / 10000, policy.floorEth);
+    if (policy.ceilingEth !== undefined) amountEth = Math.min(amountEth, policy.ceilingEth);
+    amountEth = Math.min(amountEth, netProfitEth);
+  }
+  return { method: policy.method, shareBps, amountEth: parseFloat(amountEth.toFixed(6)), contested };
+}
+
+// The bid for a stored or just-detected opportunity under the saved policies
+export function bidForOpportunity(
+  opportunity: { strategy?: string | null; estimatedProfitEth: string | number; estimatedGasCostEth: string | number },
+  policies: Record<string, BidPolicy> | undefined,
+  contested: boolean
+): Bid {
+  const netProfitEth = parseFloat(String(opportunity.estimatedProfitEth)) - parseFloat(String(opportunity.estimatedGasCostEth));
+  return calculateBid(netProfitEth, getBidPolicy(policies, opportunity.strategy), contested);
+}
+
+// How a bid is actually paid: ETH to the builder only from inside a bundle, where
+// it is paid just if the bundle lands; a public send carries it as priority fee
+export function effectiveBidMethod(bid: Bid, privately: boolean): BidMethod {
+  return bid.method === 'coinbase' && privately ? 'coinbase' : 'priority_fee';
+}
+
+// A priority-fee bid spread over the gas the execution is expected to use, per gas
+export function bidPriorityFeePerGas(bid: Bid, gasLimit: number): bigint {
+  if (bid.amountEth <= 0 || gasLimit <= 0) return 0n;
+  return ethers.parseEther(bid.amountEth.toFixed(18)) / BigInt(gasLimit);
+}
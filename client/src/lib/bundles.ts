@@ -0,0 +1,310 @@
+import { ethers } from 'ethers';
+import type { BuiltCall } from './execution-builder';
+import { getNonceManager } from './nonce-manager';
+import { maxBaseFeeAfter } from './fees';
+
+export const DEFAULT_RELAY_URL = 'https://relay.flashbots.net';
+
+// Blocks a bundle is offered for, starting with the next one
+export const DEFAULT_BUNDLE_BLOCKS = 3;
+
+export const DEFAULT_BUNDLE_PRIORITY_FEE = ethers.parseUnits('2', 'gwei');
+
+// Gas limit used to sign a bundle for its first simulation, before the relay reports real usage
+const SIMULATION_GAS_LIMIT = 1000000n;
+
+export interface BundleTransactionResult {
+  txHash: string;
+  gasUsed: number;
+  error: string | null; // revert reason, when the transaction reverted
+}
+
+export interface BundleSimulation {
+  success: boolean;
+  bundleHash: string;
+  totalGasUsed: number;
+  coinbaseDiff: bigint; // what the block builder earns from the bundle, in wei
+  results: BundleTransactionResult[];
+  error: string | null;
+}
+
+// A bundle sent to the relay, with what we need to follow it on chain
+export interface SubmittedBundle {
+  bundleHash: string;
+  transactions: string[]; // signed, in bundle order
+  hashes: string[]; // ours, leaving out preceding transactions
+  nonces: number[];
+  firstBlock: number;
+  targetBlock: number; // last block the bundle was offered for
+  simulation: BundleSimulation;
+}
+
+export interface BundleOptions {
+  priorityFeePerGas?: bigint;
+  blocks?: number;
+  precedingTransactions?: string[]; // signed by others, e.g. a swap to backrun; always land first
+  coinbasePayment?: bigint; // wei sent to the block builder by a last transaction of our own
+}
+
+// The relay's reply to any request
+interface RelayResponse {
+  result?: unknown;
+  error?: { message: string };
+}
+
+// One transaction of an eth_callBundle result; numbers come as JSON numbers or hex
+interface RelayTransactionResult {
+  txHash: string;
+  gasUsed: number | string;
+  error?: string;
+  revert?: string;
+}
+
+interface RelayCallBundleResult {
+  bundleHash: string;
+  totalGasUsed: number | string;
+  coinbaseDiff: string;
+  results: RelayTransactionResult[];
+}
+
+interface RelaySendBundleResult {
+  bundleHash: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isNumeric(value: unknown): value is number | string {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function isRelayResponse(value: unknown): value is RelayResponse {
+  return isObject(value) && (value.error === undefined || (isObject(value.error) && typeof value.error.message === 'string'));
+}
+
+function isRelayTransactionResult(value: unknown): value is RelayTransactionResult {
+  return isObject(value) && typeof value.txHash === 'string' && isNumeric(value.gasUsed);
+}
+
+function isRelayCallBundleResult(value: unknown): value is RelayCallBundleResult {
+  return isObject(value) && typeof value.bundleHash === 'string' && isNumeric(value.totalGasUsed) &&
+    typeof value.coinbaseDiff === 'string' && Array.isArray(value.results) && value.results.every(isRelayTransactionResult);
+}
+
+function isRelaySendBundleResult(value: unknown): value is RelaySendBundleResult {
+  return isObject(value) && typeof value.bundleHash === 'string';
+}
+
+// Talks to a Flashbots-compatible relay. Every request is signed with the
+// searcher's reputation key, which never holds funds and never signs transactions.
+export class BundleRelay {
+  private requestId = 1;
+
+  constructor(public readonly relayUrl: string, private authSigner: ethers.Wallet) {}
+
+  get searcherAddress(): string {
+    return this.authSigner.address;
+  }
+
+  private async request(method: string, params: unknown[]): Promise<unknown> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: this.requestId++, method, params });
+    const signature = await this.authSigner.signMessage(ethers.id(body));
+
+    const response = await fetch(this.relayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Flashbots-Signature': `${this.authSigner.address}:${signature}`,
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`Relay ${method} failed: HTTP ${response.status}`);
+    }
+
+    const json: unknown = await response.json();
+    if (!isRelayResponse(json)) {
+      throw new Error(`Relay ${method} failed: malformed response`);
+    }
+    if (json.error) {
+      throw new Error(`Relay ${method} failed: ${json.error.message}`);
+    }
+    return json.result;
+  }
+
+  // Run signed transactions as a bundle on top of a block, without sending them
+  async simulateBundle(transactions: string[], blockNumber: number, stateBlock: number | 'latest' = 'latest'): Promise<BundleSimulation> {
+    const result = await this.request('eth_callBundle', [{
+      txs: transactions,
+      blockNumber: ethers.toQuantity(blockNumber),
+      stateBlockNumber: typeof stateBlock === 'number' ? ethers.toQuantity(stateBlock) : stateBlock,
+    }]);
+    if (!isRelayCallBundleResult(result)) {
+      throw new Error('Relay eth_callBundle returned an unexpected result');
+    }
+
+    const results: BundleTransactionResult[] = result.results.map(tx => ({
+      txHash: tx.txHash,
+      gasUsed: Number(tx.gasUsed),
+      error: tx.error ? (tx.revert || tx.error) : null,
+    }));
+    const failed = results.find(tx => tx.error !== null);
+    return {
+      success: !failed,
+      bundleHash: result.bundleHash,
+      totalGasUsed: Number(result.totalGasUsed),
+      coinbaseDiff: BigInt(result.coinbaseDiff),
+      results,
+      error: failed ? `${failed.txHash} reverted: ${failed.error}` : null,
+    };
+  }
+
+  // Offer a bundle for one block; returns the relay's bundle hash
+  async sendBundle(transactions: string[], blockNumber: number): Promise<string> {
+    const result = await this.request('eth_sendBundle', [{
+      txs: transactions,
+      blockNumber: ethers.toQuantity(blockNumber),
+    }]);
+    if (!isRelaySendBundleResult(result)) {
+      throw new Error('Relay eth_sendBundle returned an unexpected result');
+    }
+    return result.bundleHash;
+  }
+}
+
+// Sign calls as consecutive transactions from one wallet, without sending them
+async function signCalls(
+  signer: ethers.Signer,
+  calls: BuiltCall[],
+  fees: { nonce: number; chainId: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+  gasLimits: bigint[]
+): Promise<string[]> {
+  const signed: string[] = [];
+  for (let i = 0; i < calls.length; i++) {
+    signed.push(await signer.signTransaction({
+      type: 2,
+      chainId: fees.chainId,
+      nonce: fees.nonce + i,
+      to: calls[i].to,
+      data: calls[i].data,
+      value: calls[i].value,
+      gasLimit: gasLimits[i],
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    }));
+  }
+  return signed;
+}
+
+// Send calls privately as one bundle: they land together, in order, or not at all.
+// The bundle is simulated by the relay first, then re-signed with the gas it used.
+// Preceding transactions go ahead of ours, so our calls can never land before them.
+export async function submitBundle(
+  signer: ethers.Signer,
+  calls: BuiltCall[],
+  relay: BundleRelay,
+  options: BundleOptions = {}
+): Promise<SubmittedBundle> {
+  const provider = signer.provider;
+  if (!provider) throw new Error('Signer has no provider to read the chain from');
+  if (calls.length === 0) throw new Error('Cannot submit an empty bundle');
+
+  const [block, network] = await Promise.all([
+    provider.getBlock('latest'),
+    provider.getNetwork(),
+  ]);
+  if (!block) throw new Error('Could not read the latest block');
+
+  // A coinbase payment goes last, so it is only made if every call before it succeeds
+  const ours = options.coinbasePayment
+    ? [...calls, { description: 'Pay the block builder', to: getBuilderFeeRecipient(block), data: '0x', value: options.coinbasePayment }]
+    : calls;
+
+  const blocks = options.blocks ?? DEFAULT_BUNDLE_BLOCKS;
+  const maxPriorityFeePerGas = options.priorityFeePerGas ?? DEFAULT_BUNDLE_PRIORITY_FEE;
+  // Room for the base fee to rise 12.5% in every block the bundle is offered for
+  const maxBaseFee = maxBaseFeeAfter(block.baseFeePerGas ?? 0n, blocks);
+
+  const nonces = getNonceManager(signer);
+  const fees = {
+    nonce: await nonces.reserve(ours.length),
+    chainId: network.chainId,
+    maxFeePerGas: maxBaseFee + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+  const firstBlock = block.number + 1;
+  const targetBlock = firstBlock + blocks - 1;
+  const preceding = options.precedingTransactions ?? [];
+
+  let transactions: string[];
+  let simulation: BundleSimulation;
+  let bundleHash: string;
+  try {
+    const trial = [...preceding, ...await signCalls(signer, ours, fees, ours.map(() => SIMULATION_GAS_LIMIT))];
+    const trialRun = await relay.simulateBundle(trial, firstBlock, block.number);
+    if (!trialRun.success) {
+      throw new Error(`Bundle simulation failed: ${trialRun.error}`);
+    }
+
+    const gasLimits = trialRun.results.slice(preceding.length).map(result => (BigInt(result.gasUsed) * 12n) / 10n);
+    transactions = [...preceding, ...await signCalls(signer, ours, fees, gasLimits)];
+    simulation = await relay.simulateBundle(transactions, firstBlock, block.number);
+    if (!simulation.success) {
+      throw new Error(`Bundle simulation failed: ${simulation.error}`);
+    }
+
+    bundleHash = simulation.bundleHash;
+    for (let target = firstBlock; target <= targetBlock; target++) {
+      bundleHash = await relay.sendBundle(transactions, target);
+    }
+  } catch (error) {
+    nonces.release(fees.nonce, ours.length);
+    throw error;
+  }
+
+  const hashes = transactions.slice(preceding.length).map(tx => ethers.Transaction.from(tx).hash!);
+  hashes.forEach((hash, i) => nonces.track(fees.nonce + i, hash, targetBlock));
+
+  return {
+    bundleHash,
+    transactions,
+    hashes,
+    nonces: ours.map((_, i) => fees.nonce + i),
+    firstBlock,
+    targetBlock,
+    simulation,
+  };
+}
+
+// Where coinbase payments go: the builder the relay hands bundles to, when
+// configured, otherwise whoever built the latest block
+function getBuilderFeeRecipient(latest: ethers.Block): string {
+  const env = typeof process !== 'undefined' ? process.env : {};
+  return env.BUILDER_FEE_RECIPIENT || latest.miner;
+}
+
+// Singleton instance
+let bundleRelayInstance: BundleRelay | null = null;
+
+export function initBundleRelay() {
+  const env = typeof process !== 'undefined' ? process.env : {};
+  const relayUrl = env.FLASHBOTS_RELAY_URL || DEFAULT_RELAY_URL;
+
+  // The auth key only builds relay reputation, so a throwaway key works until one is configured
+  let authSigner: ethers.Wallet;
+  if (env.FLASHBOTS_AUTH_KEY) {
+    authSigner = new ethers.Wallet(env.FLASHBOTS_AUTH_KEY);
+  } else {
+    authSigner = ethers.Wallet.createRandom() as unknown as ethers.Wallet;
+    console.warn('FLASHBOTS_AUTH_KEY is not set; signing relay requests with a temporary searcher key');
+  }
+
+  bundleRelayInstance = new BundleRelay(relayUrl, authSigner);
+  console.log(`Submitting bundles to ${relayUrl} as searcher ${authSigner.address}`);
+  return bundleRelayInstance;
+}
+
+export function getBundleRelay() {
+  return bundleRelayInstance ?? initBundleRelay();
+}
@@ -0,0 +1,40 @@
+import { ethers } from 'ethers';
+import { TOKENS, TokenInfo } from './tokens';
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// Native ETH kept back from trade sizes so the wallet can still pay for gas
+export const GAS_RESERVE_ETH = ethers.parseEther('0.1');
+
+// What the trading wallet held of each token trades start with at the last
+// read, by lowercased address; null before a wallet's balances have been read
+let balances: Map<string, bigint> | null = null;
+
+// Read what the wallet that funds trades holds of the tokens they start with.
+// Without a wallet nothing limits sizes, as nothing can be sent either.
+export async function loadTradingCapital(
+  provider: ethers.Provider,
+  owner: string | null,
+  tokens: TokenInfo[] = Object.values(TOKENS)
+): Promise<void> {
+  if (!owner) {
+    balances = null;
+    return;
+  }
+
+  const amounts = await Promise.all(tokens.map(token =>
+    token.address === TOKENS.ETH.address
+      ? provider.getBalance(owner)
+      : new ethers.Contract(token.address, ERC20_BALANCE_ABI, provider).balanceOf(owner) as Promise<bigint>
+  ));
+  balances = new Map(tokens.map((token, i) => [token.address.toLowerCase(), amounts[i]]));
+}
+
+// Most of a token a wallet-funded trade may start with: none of a token whose
+// balance was not read, and no limit when no wallet's balances have been
+export function getAvailableCapital(token: TokenInfo): bigint | undefined {
+  if (!balances) return undefined;
+  const balance = balances.get(token.address.toLowerCase()) ?? 0n;
+  if (token.address !== TOKENS.ETH.address) return balance;
+  return balance > GAS_RESERVE_ETH ? balance - GAS_RESERVE_ETH : 0n;
+}
@@ -0,0 +1,120 @@
+// Curve StableSwap pricing math.
+// Mirrors get_D / get_y / get_dy from the StableSwap pool contracts, including the
+// off-peg dynamic fee used by stableswap-ng pools.
+
+const PRECISION = 10n ** 18n;
+const MAX_ITERATIONS = 255;
+
+// Fees are expressed out of 1e10
+export const CURVE_FEE_DENOMINATOR = 10000000000n;
+
+// On-chain state needed to price a swap
+export interface CurvePoolState {
+  amp: bigint; // amplification coefficient A
+  balances: bigint[];
+  rates: bigint[]; // scale each balance to 18 decimals, times 1e18
+  fee: bigint;
+  offpegFeeMultiplier: bigint; // equal to the fee denominator for a static fee
+}
+
+// Rate that normalises a coin with the given decimals to 18 decimals
+export function rateForDecimals(decimals: number): bigint {
+  return 10n ** BigInt(36 - decimals);
+}
+
+function normalizedBalances(pool: CurvePoolState): bigint[] {
+  return pool.balances.map((balance, i) => (pool.rates[i] * balance) / PRECISION);
+}
+
+// Invariant D for normalised balances, by Newton's method
+export function getD(xp: bigint[], amp: bigint): bigint {
+  const n = BigInt(xp.length);
+  const sum = xp.reduce((total, x) => total + x, 0n);
+  if (sum === 0n) return 0n;
+
+  const ann = amp * n;
+  let d = sum;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = d;
+    for (const x of xp) {
+      dP = (dP * d) / (x * n + 1n);
+    }
+    const dPrev = d;
+    d = ((ann * sum + dP * n) * d) / ((ann - 1n) * d + (n + 1n) * dP);
+    if (d > dPrev ? d - dPrev <= 1n : dPrev - d <= 1n) return d;
+  }
+  throw new Error('StableSwap invariant did not converge');
+}
+
+// New normalised balance of coin j once coin i's balance is set to x, keeping D fixed
+export function getY(i: number, j: number, x: bigint, xp: bigint[], amp: bigint): bigint {
+  if (i === j || i < 0 || j < 0 || i >= xp.length || j >= xp.length) {
+    throw new Error('Invalid coin indices');
+  }
+
+  const n = BigInt(xp.length);
+  const d = getD(xp, amp);
+  const ann = amp * n;
+
+  let c = d;
+  let sum = 0n;
+  for (let k = 0; k < xp.length; k++) {
+    if (k === j) continue;
+    const balance = k === i ? x : xp[k];
+    sum += balance;
+    c = (c * d) / (balance * n);
+  }
+  c = (c * d) / (ann * n);
+  const b = sum + d / ann;
+
+  let y = d;
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const yPrev = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (y > yPrev ? y - yPrev <= 1n : yPrev - y <= 1n) return y;
+  }
+  throw new Error('StableSwap balance did not converge');
+}
+
+// Fee scaled up as a pair's balances drift off peg (stableswap-ng)
+export function dynamicFee(xpi: bigint, xpj: bigint, fee: bigint, offpegFeeMultiplier: bigint): bigint {
+  if (offpegFeeMultiplier <= CURVE_FEE_DENOMINATOR) return fee;
+
+  const xps2 = (xpi + xpj) ** 2n;
+  return (offpegFeeMultiplier * fee) /
+    (((offpegFeeMultiplier - CURVE_FEE_DENOMINATOR) * 4n * xpi * xpj) / xps2 + CURVE_FEE_DENOMINATOR);
+}
+
+// Output amount of coin j for dx of coin i, after fees
+export function getDy(pool: CurvePoolState, i: number, j: number, dx: bigint): bigint {
+  if (dx <= 0n) return 0n;
+
+  const xp = normalizedBalances(pool);
+  const x = xp[i] + (dx * pool.rates[i]) / PRECISION;
+  const y = getY(i, j, x, xp, pool.amp);
+  const dy = xp[j] - y - 1n;
+  if (dy <= 0n) return 0n;
+
+  const fee = dynamicFee((xp[i] + x) / 2n, (xp[j] + y) / 2n, pool.fee, pool.offpegFeeMultiplier);
+  return ((dy - (fee * dy) / CURVE_FEE_DENOMINATOR) * PRECISION) / pool.rates[j];
+}
+
+// Marginal price of coin i in coin j before fees, from the gradient of the invariant
+export function getMarginalPrice(pool: CurvePoolState, i: number, j: number): number {
+  const xp = normalizedBalances(pool).map(x => Number(x) / 1e18);
+  const n = xp.length;
+  const ann = Number(pool.amp) * n;
+  const d = Number(getD(normalizedBalances(pool), pool.amp)) / 1e18;
+  const product = xp.reduce((total, x) => total * x, 1);
+
+  // dF/dx_k = Ann + D^(n+1) / (n^n · Πx · x_k)
+  const k = d ** (n + 1) / (n ** n * product);
+  return (ann + k / xp[i]) / (ann + k / xp[j]);
+}
+
+// Current fee for swapping coin i into coin j, as a fraction
+export function getCurrentFee(pool: CurvePoolState, i: number, j: number): number {
+  const xp = normalizedBalances(pool);
+  const fee = dynamicFee(xp[i], xp[j], pool.fee, pool.offpegFeeMultiplier);
+  return Number(fee) / Number(CURVE_FEE_DENOMINATOR);
+}
@@ -0,0 +1,359 @@
+import { ethers } from 'ethers';
+import { Pool, getTokenIndex } from './pools';
+import type { RouteLeg } from './quoting';
+import { MAINNET_CHAIN_ID, TOKENS, TokenInfo, toPoolToken } from './tokens';
+import { V2_DEFAULT_FEE_BPS, getAmountOut } from './uniswap-v2';
+import { simulateExactIn } from './uniswap-v3';
+import { getDy } from './curve-stableswap';
+import { getAmountOut as getWeightedAmountOut } from './balancer-weighted';
+
+export type PoolType = Pool['type'];
+
+// How a DEX charges fees
+export type FeeModel =
+  | { kind: 'fixed'; feeBps: number } // one fee for every pool
+  | { kind: 'tiered'; tiers: number[] } // pool picks a tier, in hundredths of a basis point
+  | { kind: 'per-pool' } // set by each pool's owner
+  | { kind: 'dynamic' }; // moves with pool balances
+
+// Consecutive legs of a route to execute on one DEX
+export interface SwapParams {
+  legs: RouteLeg[];
+  amountIn: bigint;
+  amountOutMin: bigint;
+  recipient: string;
+  deadline: number; // unix seconds
+}
+
+// A contract call ready to be sent as a transaction
+export interface SwapCall {
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+export interface DexAdapter {
+  id: string; // matches Pool.dex
+  name: string;
+  chainId: number;
+  routerAddress: string;
+  factoryAddress: string;
+  poolType: PoolType;
+  feeModel: FeeModel;
+  quote(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: bigint): bigint;
+  // Like quote, but also moves the pool's state the way executing the swap would
+  swap(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: bigint): bigint;
+  encodeSwap(params: SwapParams): SwapCall;
+}
+
+type AdapterConfig = Pick<DexAdapter, 'id' | 'name' | 'routerAddress' | 'factoryAddress'> & {
+  chainId?: number;
+};
+
+const V2_ROUTER_ABI = [
+  'function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) payable returns (uint[] memory amounts)',
+  'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) returns (uint[] memory amounts)',
+  'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) returns (uint[] memory amounts)',
+];
+
+const V3_ROUTER_ABI = [
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+];
+
+const CURVE_POOL_ABI = [
+  'function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) payable returns (uint256)',
+];
+
+const BALANCER_VAULT_ABI = [
+  'function batchSwap(uint8 kind, (bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, (address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, int256[] limits, uint256 deadline) payable returns (int256[] assetDeltas)',
+];
+
+const isNativeEth = (token: TokenInfo) => token.address === TOKENS.ETH.address;
+
+// exactInput's packed path: tokenIn, fee, token, fee, ..., tokenOut
+export function decodeV3Path(path: string): { path: string[]; fees: number[] } {
+  const bytes = ethers.getBytes(path);
+  const tokens = [ethers.getAddress(ethers.hexlify(bytes.slice(0, 20)))];
+  const fees: number[] = [];
+  for (let offset = 20; offset + 23 <= bytes.length; offset += 23) {
+    fees.push(Number(ethers.toBigInt(bytes.slice(offset, offset + 3))));
+    tokens.push(ethers.getAddress(ethers.hexlify(bytes.slice(offset + 3, offset + 23))));
+  }
+  return { path: tokens, fees };
+}
+
+// Narrow a pool to the type an adapter handles
+function expectPoolType<T extends PoolType>(pool: Pool, type: T): Extract<Pool, { type: T }> {
+  if (pool.type !== type) {
+    throw new Error(`Pool ${pool.address} is ${pool.type}, expected ${type}`);
+  }
+  return pool as Extract<Pool, { type: T }>;
+}
+
+function checkLegs(params: SwapParams, adapter: DexAdapter) {
+  if (params.legs.length === 0) throw new Error('Cannot encode an empty route');
+  const foreign = params.legs.find(leg => leg.pool.dex !== adapter.id);
+  if (foreign) {
+    throw new Error(`Leg through ${foreign.pool.dex} pool ${foreign.pool.address} cannot be routed via ${adapter.name}`);
+  }
+}
+
+// Uniswap V2 and its forks: constant-product pools behind a getAmountsOut-style router
+export function createV2Adapter(config: AdapterConfig & { feeBps?: number }): DexAdapter {
+  const router = new ethers.Interface(V2_ROUTER_ABI);
+  const adapter: DexAdapter = {
+    chainId: MAINNET_CHAIN_ID,
+    ...config,
+    poolType: 'v2',
+    feeModel: { kind: 'fixed', feeBps: config.feeBps ?? V2_DEFAULT_FEE_BPS },
+    quote(pool, tokenIn, _tokenOut, amountIn) {
+      const v2 = expectPoolType(pool, 'v2');
+      const zeroForOne = getTokenIndex(v2, tokenIn) === 0;
+      const [reserveIn, reserveOut] = zeroForOne ? [v2.reserve0, v2.reserve1] : [v2.reserve1, v2.reserve0];
+      return getAmountOut(amountIn, reserveIn, reserveOut, v2.feeBps);
+    },
+    swap(pool, tokenIn, tokenOut, amountIn) {
+      const v2 = expectPoolType(pool, 'v2');
+      const amountOut = adapter.quote(v2, tokenIn, tokenOut, amountIn);
+      if (getTokenIndex(v2, tokenIn) === 0) {
+        v2.reserve0 += amountIn;
+        v2.reserve1 -= amountOut;
+      } else {
+        v2.reserve1 += amountIn;
+        v2.reserve0 -= amountOut;
+      }
+      return amountOut;
+    },
+    encodeSwap(params) {
+      checkLegs(params, adapter);
+      const { legs, amountIn, amountOutMin, recipient, deadline } = params;
+      const path = [legs[0].tokenIn, ...legs.map(leg => leg.tokenOut)].map(token => toPoolToken(token).address);
+
+      if (isNativeEth(legs[0].tokenIn)) {
+        return {
+          to: adapter.routerAddress,
+          data: router.encodeFunctionData('swapExactETHForTokens', [amountOutMin, path, recipient, deadline]),
+          value: amountIn,
+        };
+      }
+      const method = isNativeEth(legs[legs.length - 1].tokenOut) ? 'swapExactTokensForETH' : 'swapExactTokensForTokens';
+      return {
+        to: adapter.routerAddress,
+        data: router.encodeFunctionData(method, [amountIn, amountOutMin, path, recipient, deadline]),
+        value: 0n,
+      };
+    },
+  };
+  return adapter;
+}
+
+// Uniswap V3 and its forks: concentrated liquidity behind SwapRouter02.
+// Output is always delivered as WETH; unwrapping is left to the caller.
+export function createV3Adapter(config: AdapterConfig & { feeTiers?: number[] }): DexAdapter {
+  const router = new ethers.Interface(V3_ROUTER_ABI);
+  const adapter: DexAdapter = {
+    chainId: MAINNET_CHAIN_ID,
+    ...config,
+    poolType: 'v3',
+    feeModel: { kind: 'tiered', tiers: config.feeTiers ?? [100, 500, 3000, 10000] },
+    quote(pool, tokenIn, _tokenOut, amountIn) {
+      const v3 = expectPoolType(pool, 'v3');
+      const zeroForOne = getTokenIndex(v3, tokenIn) === 0;
+      if (amountIn <= 0n) return 0n;
+      return simulateExactIn(v3, zeroForOne, amountIn).amountOut;
+    },
+    swap(pool, tokenIn, _tokenOut, amountIn) {
+      const v3 = expectPoolType(pool, 'v3');
+      if (amountIn <= 0n) return 0n;
+      const result = simulateExactIn(v3, getTokenIndex(v3, tokenIn) === 0, amountIn);
+      v3.sqrtPriceX96 = result.sqrtPriceX96After;
+      v3.tick = result.tickAfter;
+      v3.liquidity = result.liquidityAfter;
+      return result.amountOut;
+    },
+    encodeSwap(params) {
+      checkLegs(params, adapter);
+      const { legs, amountIn, amountOutMin, recipient, deadline } = params;
+
+      // Packed path: tokenIn, fee, token, fee, ..., tokenOut
+      const types = ['address'];
+      const values: Array<string | number> = [toPoolToken(legs[0].tokenIn).address];
+      for (const leg of legs) {
+        types.push('uint24', 'address');
+        values.push(expectPoolType(leg.pool, 'v3').fee, toPoolToken(leg.tokenOut).address);
+      }
+      const path = ethers.solidityPacked(types, values);
+
+      const swap = router.encodeFunctionData('exactInput', [{ path, recipient, amountIn, amountOutMinimum: amountOutMin }]);
+      return {
+        to: adapter.routerAddress,
+        data: router.encodeFunctionData('multicall', [deadline, [swap]]),
+        value: isNativeEth(legs[0].tokenIn) ? amountIn : 0n,
+      };
+    },
+  };
+  return adapter;
+}
+
+// Curve StableSwap: swaps go straight to the pool, one leg at a time.
+// exchange() pays the caller, so the recipient is always the sender.
+export function createCurveAdapter(config: AdapterConfig): DexAdapter {
+  const curvePool = new ethers.Interface(CURVE_POOL_ABI);
+  const adapter: DexAdapter = {
+    chainId: MAINNET_CHAIN_ID,
+    ...config,
+    poolType: 'curve',
+    feeModel: { kind: 'dynamic' },
+    quote(pool, tokenIn, tokenOut, amountIn) {
+      const curve = expectPoolType(pool, 'curve');
+      return getDy(curve, getTokenIndex(curve, tokenIn), getTokenIndex(curve, tokenOut), amountIn);
+    },
+    swap(pool, tokenIn, tokenOut, amountIn) {
+      const curve = expectPoolType(pool, 'curve');
+      const i = getTokenIndex(curve, tokenIn);
+      const j = getTokenIndex(curve, tokenOut);
+      const dy = getDy(curve, i, j, amountIn);
+      curve.balances[i] += amountIn;
+      curve.balances[j] -= dy;
+      return dy;
+    },
+    encodeSwap(params) {
+      checkLegs(params, adapter);
+      const { legs, amountIn, amountOutMin } = params;
+      if (legs.length > 1) throw new Error('Curve swaps are encoded one pool at a time');
+
+      const [leg] = legs;
+      const pool = expectPoolType(leg.pool, 'curve');
+      const i = getTokenIndex(pool, leg.tokenIn);
+      const j = getTokenIndex(pool, leg.tokenOut);
+      return {
+        to: pool.address,
+        data: curvePool.encodeFunctionData('exchange', [i, j, amountIn, amountOutMin]),
+        value: isNativeEth(pool.coins[i]) ? amountIn : 0n,
+      };
+    },
+  };
+  return adapter;
+}
+
+// Balancer weighted pools: every swap goes through the Vault, so a multi-pool
+// path is encoded as a single batchSwap
+export function createBalancerAdapter(config: AdapterConfig): DexAdapter {
+  const vault = new ethers.Interface(BALANCER_VAULT_ABI);
+  const adapter: DexAdapter = {
+    chainId: MAINNET_CHAIN_ID,
+    ...config,
+    poolType: 'balancer',
+    feeModel: { kind: 'per-pool' },
+    quote(pool, tokenIn, tokenOut, amountIn) {
+      const weighted = expectPoolType(pool, 'balancer');
+      return getWeightedAmountOut(weighted, getTokenIndex(weighted, tokenIn), getTokenIndex(weighted, tokenOut), amountIn);
+    },
+    swap(pool, tokenIn, tokenOut, amountIn) {
+      const weighted = expectPoolType(pool, 'balancer');
+      const i = getTokenIndex(weighted, tokenIn);
+      const j = getTokenIndex(weighted, tokenOut);
+      const amountOut = getWeightedAmountOut(weighted, i, j, amountIn);
+      weighted.balances[i] += amountIn;
+      weighted.balances[j] -= amountOut;
+      return amountOut;
+    },
+    encodeSwap(params) {
+      checkLegs(params, adapter);
+      const { legs, amountIn, amountOutMin, recipient, deadline } = params;
+
+      const assets: string[] = [];
+      const assetIndex = (token: TokenInfo) => {
+        const address = toPoolToken(token).address;
+        const index = assets.indexOf(address);
+        if (index >= 0) return index;
+        assets.push(address);
+        return assets.length - 1;
+      };
+
+      // Each swap after the first trades the previous swap's whole output
+      const swaps = legs.map((leg, k) => ({
+        poolId: expectPoolType(leg.pool, 'balancer').poolId,
+        assetInIndex: assetIndex(leg.tokenIn),
+        assetOutIndex: assetIndex(leg.tokenOut),
+        amount: k === 0 ? amountIn : 0n,
+        userData: '0x',
+      }));
+
+      // Positive limits cap what we send in, negative ones set the minimum we take out
+      const limits = assets.map(() => 0n);
+      limits[swaps[0].assetInIndex] = amountIn;
+      limits[swaps[swaps.length - 1].assetOutIndex] = -amountOutMin;
+
+      const funds = { sender: recipient, fromInternalBalance: false, recipient, toInternalBalance: false };
+      return {
+        to: adapter.routerAddress,
+        data: vault.encodeFunctionData('batchSwap', [0, swaps, assets, funds, limits, deadline]),
+        value: 0n,
+      };
+    },
+  };
+  return adapter;
+}
+
+const DEX_REGISTRY = new Map<string, DexAdapter>();
+
+// Register a DEX so its pools are quoted, scanned and executable
+export function registerDex(adapter: DexAdapter) {
+  if (DEX_REGISTRY.has(adapter.id)) {
+    throw new Error(`DEX ${adapter.id} is already registered`);
+  }
+  DEX_REGISTRY.set(adapter.id, adapter);
+}
+
+export function getDex(id: string): DexAdapter | undefined {
+  return DEX_REGISTRY.get(id);
+}
+
+export function requireDex(id: string): DexAdapter {
+  const adapter = DEX_REGISTRY.get(id);
+  if (!adapter) throw new Error(`Unknown DEX: ${id}`);
+  return adapter;
+}
+
+// All registered DEXes, optionally limited to one chain
+export function getDexes(chainId?: number): DexAdapter[] {
+  const adapters = Array.from(DEX_REGISTRY.values());
+  return chainId === undefined ? adapters : adapters.filter(adapter => adapter.chainId === chainId);
+}
+
+registerDex(createV2Adapter({
+  id: 'uniswap',
+  name: 'Uniswap V2',
+  routerAddress: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+  factoryAddress: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+}));
+
+registerDex(createV2Adapter({
+  id: 'sushiswap',
+  name: 'SushiSwap',
+  routerAddress: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
+  factoryAddress: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+}));
+
+registerDex(createV3Adapter({
+  id: 'uniswapV3',
+  name: 'Uniswap V3',
+  routerAddress: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+  factoryAddress: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+}));
+
+registerDex(createCurveAdapter({
+  id: 'curve',
+  name: 'Curve',
+  routerAddress: '0x16C6521Dff6baB339122a0FE25a9116693265353',
+  factoryAddress: '0x6A8cbed756804B16E05E741eDaBd5cB544AE21bf',
+}));
+
+registerDex(createBalancerAdapter({
+  id: 'balancer',
+  name: 'Balancer',
+  routerAddress: '0xBA12222222228d8Ba445958a75a0704d566BF2C8', // Vault
+  factoryAddress: '0x897888115Ada5773E02aA29F775430BFB5F34c51',
+}));
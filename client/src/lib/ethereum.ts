@@ -1,5 +1,10 @@
 import { ethers } from 'ethers';
 import Web3 from 'web3';
+import { requireDex } from './dex-registry';
+import { TOKENS, TokenInfo, findToken, formatTokenAmount, parseTokenAmount, registerToken } from './tokens';
+import { getSimulator } from './simulator';
+import { getRpcUrl } from './rpc';
+import { DEFAULT_FEE_URGENCY, loadFeeEstimate } from './fees';
 
 // Define common ABIs
 const ERC20_ABI = [
@@ -18,13 +23,6 @@ const DEX_ROUTER_ABI = [
   "function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) returns (uint[] memory amounts)",
 ];
 
-// Known DEX addresses
-const DEX_ADDRESSES = {
-  uniswap: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
-  sushiswap: "0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F",
-  // Add more as needed
-};
-
 // Provider setup (read-only for now)
 let provider: ethers.JsonRpcProvider | null = null;
 let web3: Web3 | null = null;
@@ -40,11 +38,12 @@ export async function initializeProvider() {
       return { provider, web3 };
     }
     
-    // Use provided Infura API key for blockchain access
-    provider = new ethers.JsonRpcProvider('https://mainnet.infura.io/v3/1b38140cc9754636843f811026e9ebb8');
-    web3 = new Web3('https://mainnet.infura.io/v3/1b38140cc9754636843f811026e9ebb8'); // Infura endpoint with API key
+    // Configured node, else the shared Infura endpoint
+    const rpcUrl = getRpcUrl() ?? 'https://mainnet.infura.io/v3/1b38140cc9754636843f811026e9ebb8';
+    provider = new ethers.JsonRpcProvider(rpcUrl);
+    web3 = new Web3(rpcUrl);
     
-    console.log('Using Infura provider for blockchain access');
+    console.log(`Using JSON-RPC provider at ${new URL(rpcUrl).host} for blockchain access`);
     return { provider, web3 };
   } catch (error) {
     console.error('Failed to initialize provider:', error);
@@ -52,15 +51,18 @@ export async function initializeProvider() {
   }
 }
 
-// Get current gas price
-export async function getCurrentGasPrice() {
+// Get current fees in gwei: the next block's predicted base fee and the median recent tip
+export async function getCurrentFees() {
   if (!provider) await initializeProvider();
   try {
-    const gasPrice = await provider!.getFeeData();
-    return ethers.formatUnits(gasPrice.gasPrice || 0n, 'gwei');
+    const estimate = await loadFeeEstimate(provider!);
+    return {
+      baseFee: parseFloat(ethers.formatUnits(estimate.nextBaseFeePerGas, 'gwei')),
+      priorityFee: parseFloat(ethers.formatUnits(estimate.priorityFees[DEFAULT_FEE_URGENCY], 'gwei')),
+    };
   } catch (error) {
-    console.error('Failed to get gas price:', error);
-    return "23.4"; // Default for demo
+    console.error('Failed to get fee history:', error);
+    return { baseFee: 21.4, priorityFee: 2 }; // Default for demo
   }
 }
 
@@ -86,27 +88,38 @@ export function calculateNetworkCongestion(gasPrice: number): string {
   return 'Very High';
 }
 
+// Look up a token's metadata, reading it from chain (and registering it) when it isn't known yet
+export async function getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
+  const known = findToken(tokenAddress);
+  if (known) return known;
+  
+  if (!provider) await initializeProvider();
+  const contract = new ethers.Contract(tokenAddress, ERC20_ABI, provider!);
+  const [decimals, symbol] = await Promise.all([contract.decimals(), contract.symbol()]);
+  
+  const token = { address: tokenAddress, decimals: Number(decimals), symbol };
+  registerToken(token);
+  return token;
+}
+
 // Get token price from DEX
 export async function getTokenPriceFromDex(
   tokenAddress: string,
-  baseTokenAddress: string = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+  baseTokenAddress: string = TOKENS.WETH.address,
   dex: string = 'uniswap'
 ) {
   if (!provider) await initializeProvider();
   
-  const router = new ethers.Contract(
-    DEX_ADDRESSES[dex as keyof typeof DEX_ADDRESSES],
-    DEX_ROUTER_ABI,
-    provider!
-  );
-  
   try {
-    // Amount in with 18 decimals (1 token)
-    const amountIn = ethers.parseEther('1');
+    const router = new ethers.Contract(requireDex(dex).routerAddress, DEX_ROUTER_ABI, provider!);
+    const [token, baseToken] = await Promise.all([getTokenInfo(tokenAddress), getTokenInfo(baseTokenAddress)]);
+    
+    // Price one whole token, in whole base tokens
+    const amountIn = parseTokenAmount(token, '1');
     const path = [tokenAddress, baseTokenAddress];
     
     const amounts = await router.getAmountsOut(amountIn, path);
-    return ethers.formatEther(amounts[1]);
+    return formatTokenAmount(baseToken, amounts[1]);
   } catch (error) {
     console.error(`Failed to get price from ${dex}:`, error);
     // Return a default price for demo
@@ -115,22 +128,14 @@ export async function getTokenPriceFromDex(
 }
 
 // Simulate a transaction
-export async function simulateTransaction(txData: any) {
-  if (!provider) await initializeProvider();
-  
+export async function simulateTransaction(txData: { from: string; to: string; data: string; value?: bigint }) {
   try {
-    // This would actually need access to an archive node or simulation service
-    // like Tenderly for proper simulation
-    console.log('Simulating transaction:', txData);
-    
-    // For demo purposes, we'll just return a mock result
-    const gasEstimate = Math.floor(Math.random() * 300000) + 100000;
-    const isSuccessful = Math.random() > 0.2; // 80% success rate
-    
+    // Runs against the simulation node (a local fork by default)
+    const result = await getSimulator().simulate(txData.from, [txData]);
     return {
-      success: isSuccessful,
-      gasUsed: gasEstimate,
-      error: isSuccessful ? null : 'Simulation failed - potential revert'
+      success: result.success,
+      gasUsed: result.gasUsed,
+      error: result.error
     };
   } catch (error) {
     console.error('Transaction simulation failed:', error);
@@ -138,31 +143,6 @@ export async function simulateTransaction(txData: any) {
   }
 }
 
-// Listen to mempool transactions (simplified)
-export function listenToMempool(callback: (tx: any) => void) {
-  if (!provider) {
-    initializeProvider().then(() => {
-      provider!.on('pending', (txHash) => {
-        provider!.getTransaction(txHash).then((tx) => {
-          if (tx) callback(tx);
-        });
-      });
-    });
-  } else {
-    provider.on('pending', (txHash) => {
-      provider!.getTransaction(txHash).then((tx) => {
-        if (tx) callback(tx);
-      });
-    });
-  }
-  
-  return () => {
-    if (provider) {
-      provider.removeAllListeners('pending');
-    }
-  };
-}
-
 // Submit a transaction (requires a signer)
 export async function submitTransaction(txData: any, privateKey?: string) {
   if (!provider) await initializeProvider();
@@ -214,13 +194,16 @@ export async function getBlockchainStatus() {
   try {
     if (!provider || !web3) await initializeProvider();
     
-    const gasPrice = await getCurrentGasPrice();
+    const { baseFee, priorityFee } = await getCurrentFees();
+    const gasPrice = baseFee + priorityFee;
     const pendingTransactions = await getPendingTransactionCount();
-    const networkCongestion = calculateNetworkCongestion(parseFloat(gasPrice));
+    const networkCongestion = calculateNetworkCongestion(gasPrice);
     
     return {
       pendingTransactions,
-      gasPrice: parseFloat(gasPrice),
+      gasPrice,
+      baseFee,
+      priorityFee,
       networkCongestion
     };
   } catch (error) {
@@ -229,6 +212,8 @@ export async function getBlockchainStatus() {
     return {
       pendingTransactions: 347,
       gasPrice: 23.4,
+      baseFee: 21.4,
+      priorityFee: 2,
       networkCongestion: 'Medium'
     };
   }
@@ -0,0 +1,346 @@
+import { ethers } from 'ethers';
+import type { BackrunTarget, LiquidationTarget, TradeLeg } from '@shared/schema';
+import { requireDex } from './dex-registry';
+import { getTokenIndex } from './pools';
+import { RouteLeg, getPriceInEth, quoteRoute, resolveTradeLegs } from './quoting';
+import { TOKENS, TokenInfo, formatTokenAmount, isSameToken, parseTokenAmount, toPoolToken } from './tokens';
+import { FLASH_LOAN_PREMIUM_BPS, flashLoanPremium, flashLoanReceiver } from './flash-loans';
+import { requireLendingMarket } from './liquidations';
+import { resolveBackrunRoute } from './backrun';
+
+export const DEFAULT_SLIPPAGE_BPS = 50; // 0.5%
+export const DEFAULT_DEADLINE_SECONDS = 120;
+
+const ERC20_APPROVE_ABI = ['function approve(address spender, uint256 amount) returns (bool)'];
+const WETH_ABI = ['function deposit() payable', 'function withdraw(uint256 wad)'];
+
+const erc20 = new ethers.Interface(ERC20_APPROVE_ABI);
+const weth = new ethers.Interface(WETH_ABI);
+
+// One call of an execution, in the order it must be sent
+export interface BuiltCall {
+  description: string;
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+// Everything needed to execute a route, ready to review before signing
+export interface BuiltTransaction {
+  calls: BuiltCall[];
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  amountIn: bigint;
+  expectedAmountOut: bigint;
+  minAmountOut: bigint;
+  slippageBps: number;
+  deadline: number; // unix seconds
+  recipient: string;
+  flashLoan?: {
+    receiver: string; // contract that borrows and runs the swaps
+    premium: bigint; // owed to Aave on top of amountIn
+  };
+  liquidation?: {
+    borrower: string;
+    collateral: TokenInfo;
+    collateralSeized: bigint; // expected
+  };
+  backrun?: {
+    victimHash: string;
+    victimRaw: string; // must land immediately before our calls
+  };
+}
+
+export interface ExecutionOptions {
+  recipient: string;
+  slippageBps?: number;
+  deadlineSeconds?: number;
+  flashLoanReceiver?: string; // deployed FlashLoanReceiver, for flash-loan opportunities
+  minProfitEth?: number; // a cycle or flash loan reverts unless it keeps at least this much, in ETH
+  gasCostEth?: number; // a cycle must also return what its gas costs, in ETH
+}
+
+const isNativeEth = (token: TokenInfo) => token.address === TOKENS.ETH.address;
+
+// Lowest output we accept for an expected amount, given a slippage tolerance in basis points
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= 10000) {
+    throw new Error(`Invalid slippage tolerance: ${slippageBps} bps`);
+  }
+  return (amount * BigInt(10000 - slippageBps)) / 10000n;
+}
+
+// Split a route into runs of legs that one router call can execute.
+// Curve pools are called directly, so each Curve leg is its own call.
+function splitByDex(route: RouteLeg[]): RouteLeg[][] {
+  const segments: RouteLeg[][] = [];
+  for (const leg of route) {
+    const last = segments[segments.length - 1];
+    if (last && last[0].pool.dex === leg.pool.dex && leg.pool.type !== 'curve') {
+      last.push(leg);
+    } else {
+      segments.push([leg]);
+    }
+  }
+  return segments;
+}
+
+// Whether a segment's call pays out native ETH rather than WETH
+function paysNativeEth(segment: RouteLeg[]): boolean {
+  const last = segment[segment.length - 1];
+  switch (last.pool.type) {
+    case 'v2':
+      return isNativeEth(last.tokenOut);
+    case 'curve':
+      return isNativeEth(last.pool.coins[getTokenIndex(last.pool, last.tokenOut)]);
+    default:
+      return false;
+  }
+}
+
+function formatAmount(token: TokenInfo, amount: bigint): string {
+  return `${formatTokenAmount(token, amount)} ${token.symbol}`;
+}
+
+// Least a cyclic route must return for the trade to be worth it: what it spends,
+// plus its gas and the minimum profit, in the start token
+function cycleFloor(token: TokenInfo, amountIn: bigint, options: ExecutionOptions): bigint {
+  const costEth = (options.gasCostEth ?? 0) + (options.minProfitEth ?? 0);
+  if (costEth <= 0) return amountIn;
+  return amountIn + parseTokenAmount(token, (costEth / getPriceInEth(token)).toFixed(token.decimals));
+}
+
+// Encode the calls that execute a route at the given input size.
+// Each router call's minimum output becomes the next call's input, so slippage
+// is enforced on every call and later calls never spend more than we hold.
+// A cycle's last call must also return at least cycleFloor, or the whole
+// trade reverts rather than confirming at a loss.
+export function buildExecution(route: RouteLeg[], amountIn: bigint, options: ExecutionOptions): BuiltTransaction {
+  if (route.length === 0) throw new Error('Cannot execute an empty route');
+  if (amountIn <= 0n) throw new Error('Trade size must be positive');
+
+  const slippageBps = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+  const deadline = Math.floor(Date.now() / 1000) + (options.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS);
+  const { recipient } = options;
+  if (!ethers.isAddress(recipient)) throw new Error(`Invalid recipient: ${recipient}`);
+
+  const tokenIn = route[0].tokenIn;
+  const tokenOut = route[route.length - 1].tokenOut;
+  const quoted = quoteRoute(route, amountIn);
+  const floor = isSameToken(tokenIn, tokenOut) ? cycleFloor(tokenIn, amountIn, options) : 0n;
+  if (quoted[quoted.length - 1] < floor) {
+    throw new Error(`Route is expected to return ${formatAmount(tokenOut, quoted[quoted.length - 1])}, short of the ${formatAmount(tokenOut, floor)} it must to cover its input, gas and minimum profit`);
+  }
+
+  const calls: BuiltCall[] = [];
+  const wrap = (amount: bigint) => calls.push({
+    description: `Wrap ${formatAmount(TOKENS.ETH, amount)}`,
+    to: TOKENS.WETH.address,
+    data: weth.encodeFunctionData('deposit'),
+    value: amount,
+  });
+  const unwrap = (amount: bigint) => calls.push({
+    description: `Unwrap ${formatAmount(TOKENS.WETH, amount)}`,
+    to: TOKENS.WETH.address,
+    data: weth.encodeFunctionData('withdraw', [amount]),
+    value: 0n,
+  });
+
+  let holdingNative = isNativeEth(tokenIn);
+  let segmentIn = amountIn;
+  const segments = splitByDex(route);
+  segments.forEach((segment, index) => {
+    const adapter = requireDex(segment[0].pool.dex);
+    const first = segment[0];
+    const last = segment[segment.length - 1];
+    const expectedOut = quoteRoute(segment, segmentIn)[segment.length];
+    const slipped = applySlippage(expectedOut, slippageBps);
+    const amountOutMin = index === segments.length - 1 && slipped < floor ? floor : slipped;
+
+    const swap = adapter.encodeSwap({ legs: segment, amountIn: segmentIn, amountOutMin, recipient, deadline });
+    const spendsNative = swap.value > 0n;
+    const isEther = toPoolToken(first.tokenIn).address === TOKENS.WETH.address;
+
+    // Move between ETH and WETH when the previous call paid out the other one
+    if (isEther && holdingNative && !spendsNative) wrap(segmentIn);
+    if (isEther && !holdingNative && spendsNative) unwrap(segmentIn);
+
+    if (!spendsNative) {
+      const token = toPoolToken(first.tokenIn);
+      calls.push({
+        description: `Approve ${adapter.name} to spend ${formatAmount(token, segmentIn)}`,
+        to: token.address,
+        data: erc20.encodeFunctionData('approve', [swap.to, segmentIn]),
+        value: 0n,
+      });
+    }
+
+    calls.push({
+      description: `Swap ${formatAmount(first.tokenIn, segmentIn)} for at least ${formatAmount(last.tokenOut, amountOutMin)} on ${adapter.name}`,
+      ...swap,
+    });
+
+    holdingNative = paysNativeEth(segment);
+    segmentIn = amountOutMin;
+  });
+
+  // Finish holding the route's final token in the form it names
+  if (isNativeEth(tokenOut) && !holdingNative) unwrap(segmentIn);
+  if (!isNativeEth(tokenOut) && holdingNative) wrap(segmentIn);
+
+  return {
+    calls,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    expectedAmountOut: quoted[quoted.length - 1],
+    minAmountOut: segmentIn,
+    slippageBps,
+    deadline,
+    recipient,
+  };
+}
+
+// Run a cyclic route on borrowed funds: the receiver flash-borrows amountIn from
+// Aave, makes the route's calls as their recipient, repays the loan plus premium
+// and sends the rest to options.recipient, reverting if that is less than
+// options.minProfitEth in the borrowed asset. The result is a single call.
+export function buildFlashLoanExecution(route: RouteLeg[], amountIn: bigint, options: ExecutionOptions): BuiltTransaction {
+  const { flashLoanReceiver: receiver } = options;
+  if (!receiver || !ethers.isAddress(receiver)) {
+    throw new Error('Flash-loan execution needs a deployed flash-loan receiver');
+  }
+  const asset = route[0].tokenIn;
+  if (asset.address === TOKENS.ETH.address) {
+    throw new Error('Aave lends ERC20 tokens; start flash-loan routes with WETH rather than ETH');
+  }
+  if (!isSameToken(asset, route[route.length - 1].tokenOut)) {
+    throw new Error(`Flash-loan route must end in ${asset.symbol} to repay the loan`);
+  }
+
+  // The receiver checks the profit itself, after repaying the loan
+  const inner = buildExecution(route, amountIn, { ...options, recipient: receiver, minProfitEth: undefined, gasCostEth: undefined });
+  const premium = flashLoanPremium(amountIn);
+  const calls = inner.calls.map(call => [call.to, call.value, call.data]);
+  const minProfit = options.minProfitEth
+    ? parseTokenAmount(asset, (options.minProfitEth / getPriceInEth(asset)).toFixed(asset.decimals))
+    : 0n;
+
+  return {
+    ...inner,
+    calls: [{
+      description: `Flash-borrow ${formatAmount(asset, amountIn)} from Aave (${formatAmount(asset, premium)} premium) and make ${calls.length} calls`,
+      to: receiver,
+      data: flashLoanReceiver.encodeFunctionData('execute', [asset.address, amountIn, calls, minProfit]),
+      value: 0n,
+    }],
+    recipient: options.recipient,
+    flashLoan: { receiver, premium },
+  };
+}
+
+// Liquidate a position from the wallet: repay the borrower's debt, take the
+// discounted collateral, and swap it back into the debt token along the route.
+// amountIn is the debt repaid, so the execution starts and ends in the debt token.
+export function buildLiquidationExecution(target: LiquidationTarget, route: RouteLeg[], options: ExecutionOptions): BuiltTransaction {
+  const market = requireLendingMarket(target.market);
+  const debt = route[route.length - 1].tokenOut;
+  const collateral = route[0].tokenIn;
+  if (!isSameToken(collateral, target.collateral) || !isSameToken(debt, target.debt)) {
+    throw new Error(`Liquidation route must swap ${target.collateral.symbol} for ${target.debt.symbol}`);
+  }
+
+  const debtToCover = BigInt(target.debtToCover);
+  const collateralSeized = BigInt(target.collateralSeized);
+  const swap = buildExecution(route, collateralSeized, options);
+
+  return {
+    ...swap,
+    calls: [
+      {
+        description: `Approve ${market.name} to spend ${formatAmount(debt, debtToCover)}`,
+        to: debt.address,
+        data: erc20.encodeFunctionData('approve', [market.poolAddress, debtToCover]),
+        value: 0n,
+      },
+      {
+        description: `Liquidate ${target.borrower} on ${market.name}: repay ${formatAmount(debt, debtToCover)} for about ${formatAmount(collateral, collateralSeized)}`,
+        to: market.poolAddress,
+        data: market.encodeLiquidation(collateral, debt, target.borrower, debtToCover),
+        value: 0n,
+      },
+      ...swap.calls,
+    ],
+    tokenIn: debt,
+    amountIn: debtToCover,
+    liquidation: { borrower: target.borrower, collateral, collateralSeized },
+  };
+}
+
+// Build the execution for a stored opportunity; amountIn is in whole tokenIn units.
+// A cycle has to cover the gas the opportunity was priced with unless options say otherwise.
+export function buildOpportunityExecution(
+  opportunity: { type?: string; route?: TradeLeg[] | null; amountIn?: string | null; estimatedGasCostEth?: string | number; liquidation?: LiquidationTarget | null; backrun?: BackrunTarget | null },
+  executionOptions: ExecutionOptions
+): BuiltTransaction {
+  if (!opportunity.route || !opportunity.amountIn) {
+    throw new Error('Opportunity has no route to execute');
+  }
+  const options = {
+    ...executionOptions,
+    gasCostEth: executionOptions.gasCostEth ?? parseFloat(String(opportunity.estimatedGasCostEth ?? 0)),
+  };
+  const route = resolveTradeLegs(opportunity.route);
+  if (!route) throw new Error('Opportunity route uses a pool or token that is no longer known');
+
+  if (opportunity.type === 'Liquidation') {
+    if (!opportunity.liquidation) throw new Error('Liquidation opportunity has no position to liquidate');
+    return buildLiquidationExecution(opportunity.liquidation, route, options);
+  }
+
+  // Quoted, and its minimum outputs set, on the pools as the pending swap leaves them
+  if (opportunity.type === 'Backrun') {
+    if (!opportunity.backrun) throw new Error('Backrun opportunity has no pending swap to follow');
+    const { victimHash, victimRaw } = opportunity.backrun;
+    const projected = resolveBackrunRoute(opportunity.backrun, opportunity.route);
+    const amountIn = parseTokenAmount(projected[0].tokenIn, opportunity.amountIn);
+    return { ...buildExecution(projected, amountIn, options), backrun: { victimHash, victimRaw } };
+  }
+
+  const amountIn = parseTokenAmount(route[0].tokenIn, opportunity.amountIn);
+  return opportunity.type === 'Flash Loan'
+    ? buildFlashLoanExecution(route, amountIn, options)
+    : buildExecution(route, amountIn, options);
+}
+
+// JSON-safe view of a built transaction, with amounts as decimal strings
+export function serializeExecution(tx: BuiltTransaction) {
+  return {
+    calls: tx.calls.map(call => ({ ...call, value: call.value.toString() })),
+    tokenIn: tx.tokenIn.symbol,
+    tokenOut: tx.tokenOut.symbol,
+    amountIn: formatTokenAmount(tx.tokenIn, tx.amountIn),
+    expectedAmountOut: formatTokenAmount(tx.tokenOut, tx.expectedAmountOut),
+    minAmountOut: formatTokenAmount(tx.tokenOut, tx.minAmountOut),
+    slippageBps: tx.slippageBps,
+    deadline: tx.deadline,
+    recipient: tx.recipient,
+    ...(tx.flashLoan && {
+      flashLoan: {
+        receiver: tx.flashLoan.receiver,
+        premium: formatTokenAmount(tx.tokenIn, tx.flashLoan.premium),
+        premiumBps: FLASH_LOAN_PREMIUM_BPS,
+      },
+    }),
+    ...(tx.liquidation && {
+      liquidation: {
+        borrower: tx.liquidation.borrower,
+        collateral: tx.liquidation.collateral.symbol,
+        collateralSeized: formatTokenAmount(tx.liquidation.collateral, tx.liquidation.collateralSeized),
+      },
+    }),
+    ...(tx.backrun && { backrun: { victimHash: tx.backrun.victimHash } }),
+  };
+}
+
+export type SerializedExecution = ReturnType<typeof serializeExecution>;
@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import type { FeeUrgency } from '@shared/schema';
+
+// Blocks of fee history the priority-fee percentiles are taken over
+export const FEE_HISTORY_BLOCKS = 20;
+
+// Percentile of the tips paid in recent blocks that each urgency bids
+export const URGENCY_PERCENTILES: Record<FeeUrgency, number> = {
+  low: 10,
+  medium: 50,
+  high: 90,
+};
+
+export const DEFAULT_FEE_URGENCY: FeeUrgency = 'medium';
+
+// Blocks of maximal base-fee growth the fee cap leaves room for; six is about 2x
+export const BASE_FEE_HEADROOM_BLOCKS = 6;
+
+// Each block can move the base fee by at most 1/8 of itself
+const BASE_FEE_CHANGE_DENOMINATOR = 8n;
+const ELASTICITY_MULTIPLIER = 2n;
+
+// What the network charges now, and what it will likely charge in the next block
+export interface FeeEstimate {
+  blockNumber: number;
+  baseFeePerGas: bigint; // of the latest block
+  nextBaseFeePerGas: bigint; // predicted for the block a transaction sent now lands in
+  priorityFees: Record<FeeUrgency, bigint>; // median over recent blocks of each urgency's percentile
+}
+
+export interface FeeParams {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+// Until fee history has been read, estimates assume the flat 30 gwei they always did
+const DEFAULT_FEE_ESTIMATE: FeeEstimate = {
+  blockNumber: 0,
+  baseFeePerGas: ethers.parseUnits('28', 'gwei'),
+  nextBaseFeePerGas: ethers.parseUnits('28', 'gwei'),
+  priorityFees: {
+    low: ethers.parseUnits('1', 'gwei'),
+    medium: ethers.parseUnits('2', 'gwei'),
+    high: ethers.parseUnits('3', 'gwei'),
+  },
+};
+
+let feeEstimate: FeeEstimate | null = null;
+let feeUrgency: FeeUrgency = DEFAULT_FEE_URGENCY;
+
+// The base fee of the block after one that used `gasUsed` of `gasLimit`, per EIP-1559:
+// it rises when the block was more than half full and falls when it was less
+export function predictNextBaseFee(baseFeePerGas: bigint, gasUsed: bigint, gasLimit: bigint): bigint {
+  const gasTarget = gasLimit / ELASTICITY_MULTIPLIER;
+  if (gasTarget === 0n || gasUsed === gasTarget) return baseFeePerGas;
+
+  if (gasUsed > gasTarget) {
+    const delta = (baseFeePerGas * (gasUsed - gasTarget)) / gasTarget / BASE_FEE_CHANGE_DENOMINATOR;
+    return baseFeePerGas + (delta > 0n ? delta : 1n);
+  }
+  const delta = (baseFeePerGas * (gasTarget - gasUsed)) / gasTarget / BASE_FEE_CHANGE_DENOMINATOR;
+  return baseFeePerGas - delta;
+}
+
+// The highest the base fee can reach after `blocks` full blocks in a row
+export function maxBaseFeeAfter(baseFeePerGas: bigint, blocks: number): bigint {
+  let maxBaseFee = baseFeePerGas;
+  for (let i = 0; i < blocks; i++) maxBaseFee = (maxBaseFee * 1125n) / 1000n;
+  return maxBaseFee;
+}
+
+function median(values: bigint[]): bigint | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Read eth_feeHistory and the latest block, and keep the result as the estimate
+// profit estimates and fee caps are worked out from
+export async function loadFeeEstimate(provider: ethers.Provider, blockCount = FEE_HISTORY_BLOCKS): Promise<FeeEstimate> {
+  const urgencies = Object.keys(URGENCY_PERCENTILES) as FeeUrgency[];
+  const rpc = provider as ethers.JsonRpcApiProvider;
+  const [block, history] = await Promise.all([
+    provider.getBlock('latest'),
+    rpc.send('eth_feeHistory', [ethers.toQuantity(blockCount), 'latest', urgencies.map(urgency => URGENCY_PERCENTILES[urgency])]),
+  ]);
+  if (!block) throw new Error('Could not read the latest block');
+
+  const baseFeePerGas = block.baseFeePerGas ?? 0n;
+  const rewards: string[][] = history.reward ?? [];
+  const gasUsedRatios: number[] = history.gasUsedRatio ?? [];
+
+  // Empty blocks report no tips at all, which says nothing about what it takes to get in
+  const priorityFees = { ...DEFAULT_FEE_ESTIMATE.priorityFees };
+  urgencies.forEach((urgency, column) => {
+    const tips = rewards
+      .filter((_, index) => gasUsedRatios[index] > 0)
+      .map(row => BigInt(row[column]));
+    priorityFees[urgency] = median(tips) ?? priorityFees[urgency];
+  });
+
+  feeEstimate = {
+    blockNumber: block.number,
+    baseFeePerGas,
+    nextBaseFeePerGas: predictNextBaseFee(baseFeePerGas, block.gasUsed, block.gasLimit),
+    priorityFees,
+  };
+  return feeEstimate;
+}
+
+// The last estimate read, or the flat default before any was
+export function getFeeEstimate(): FeeEstimate {
+  return feeEstimate ?? DEFAULT_FEE_ESTIMATE;
+}
+
+// The urgency profit estimates assume trades bid at
+export function getFeeUrgency(): FeeUrgency {
+  return feeUrgency;
+}
+
+export function setFeeUrgency(urgency: FeeUrgency) {
+  feeUrgency = urgency;
+}
+
+// Fee caps for a transaction of the given urgency. The cap covers the predicted
+// base fee rising for `headroomBlocks` more blocks; only what the block charges is paid.
+export function getFeeParams(
+  urgency: FeeUrgency = feeUrgency,
+  headroomBlocks = BASE_FEE_HEADROOM_BLOCKS,
+  estimate: FeeEstimate = getFeeEstimate()
+): FeeParams {
+  const maxPriorityFeePerGas = estimate.priorityFees[urgency];
+  return {
+    maxFeePerGas: maxBaseFeeAfter(estimate.nextBaseFeePerGas, headroomBlocks) + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+// What `gasLimit` gas is expected to cost in ETH at the predicted base fee plus the urgency's tip
+export function estimateGasCostEth(gasLimit: number, urgency: FeeUrgency = feeUrgency): number {
+  const estimate = getFeeEstimate();
+  const gasPrice = estimate.nextBaseFeePerGas + estimate.priorityFees[urgency];
+  return Number(ethers.formatEther(gasPrice * BigInt(gasLimit)));
+}
@@ -0,0 +1,85 @@
+// Compiled from contracts/FlashLoanReceiver.sol with solc 0.8.24
+// (optimizer on, 200 runs, evmVersion paris).
+// Generated by script/build-flash-loan-receiver.ts: npm run build:contracts
+
+export const FLASH_LOAN_RECEIVER_ABI = [
+  'constructor(address aavePool)',
+  'function execute(address asset, uint256 amount, (address target, uint256 value, bytes data)[] calls, uint256 minProfit)',
+  'function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes params) returns (bool)',
+  'function owner() view returns (address)',
+  'function pool() view returns (address)',
+  'receive() payable',
+];
+
+export const FLASH_LOAN_RECEIVER_BYTECODE =
+  '0x60c060405234801561001057600080fd5b50604051610daf380380610daf83398101604081905261002f91610044565b33' +
+  '6080526001600160a01b031660a052610074565b60006020828403121561005657600080fd5b81516001600160a01b038116' +
+  '811461006d57600080fd5b9392505050565b60805160a051610cf46100bb6000396000818160610152818161013301528181' +
+  '6103fc01526104fd0152600081816101040152818161047b01526106250152610cf46000f3fe608060405260043610610043' +
+  '5760003560e01c806316f0115b1461004f5780631b11d0ff146100a0578063792428e9146100d05780638da5cb5b146100f2' +
+  '57600080fd5b3661004a57005b600080fd5b34801561005b57600080fd5b506100837f000000000000000000000000000000' +
+  '000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b34' +
+  '80156100ac57600080fd5b506100c06100bb366004610792565b610126565b6040519015158152602001610097565b348015' +
+  '6100dc57600080fd5b506100f06100eb366004610838565b610470565b005b3480156100fe57600080fd5b506100837f0000' +
+  '00000000000000000000000000000000000000000000000000000000000081565b6000336001600160a01b037f0000000000' +
+  '00000000000000000000000000000000000000000000000000000016146101b75760405162461bcd60e51b81526020600482' +
+  '0152602960248201527f466c6173684c6f616e52656365697665723a2063616c6c6572206973206e6f74604482015268081d' +
+  '1a19481c1bdbdb60ba1b60648201526084015b60405180910390fd5b6001600160a01b03841630146102205760405162461b' +
+  'cd60e51b815260206004820152602860248201527f466c6173684c6f616e52656365697665723a206c6f616e206e6f742073' +
+  '746172604482015267746564206865726560c01b60648201526084016101ae565b60008061022f8486018661093a565b9150' +
+  '915060005b82518110156103105760008084838151811061025457610254610aa4565b602002602001015160000151600160' +
+  '0160a01b031685848151811061027b5761027b610aa4565b6020026020010151602001518685815181106102995761029961' +
+  '0aa4565b6020026020010151604001516040516102b29190610ade565b60006040518083038185875af1925050503d806000' +
+  '81146102ef576040519150601f19603f3d011682016040523d82523d6000602084013e6102f4565b606091505b5091509150' +
+  '8161030657805160208201fd5b5050600101610236565b50600061031d888a610afa565b90506103298282610afa565b6040' +
+  '516370a0823160e01b81523060048201526001600160a01b038c16906370a0823190602401602060405180830381865afa15' +
+  '801561036d573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906103919190610b21' +
+  '565b10156103ef5760405162461bcd60e51b815260206004820152602760248201527f466c6173684c6f616e526563656976' +
+  '65723a2070726f6669742062656c6f77206044820152666d696e696d756d60c81b60648201526084016101ae565b60405160' +
+  '01600160a01b037f000000000000000000000000000000000000000000000000000000000000000016602482015260448101' +
+  '829052610460908b9060640160408051601f198184030181529190526020810180516001600160e01b031663095ea7b360e0' +
+  '1b179052610691565b5060019998505050505050505050565b336001600160a01b037f000000000000000000000000000000' +
+  '000000000000000000000000000000000016146104fb5760405162461bcd60e51b815260206004820152602a60248201527f' +
+  '466c6173684c6f616e52656365697665723a2063616c6c6572206973206e6f74604482015269103a34329037bbb732b960b1' +
+  '1b60648201526084016101ae565b7f0000000000000000000000000000000000000000000000000000000000000000600160' +
+  '0160a01b03166342b0b77c30878787878760405160200161054293929190610b3a565b604051602081830303815290604052' +
+  '60006040518663ffffffff1660e01b8152600401610573959493929190610c35565b600060405180830381600087803b1580' +
+  '1561058d57600080fd5b505af11580156105a1573d6000803e3d6000fd5b50506040516370a0823160e01b81523060048201' +
+  '52600092506001600160a01b03881691506370a0823190602401602060405180830381865afa1580156105ec573d6000803e' +
+  '3d6000fd5b505050506040513d601f19601f820116820180604052508101906106109190610b21565b905080156106895760' +
+  '40516001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016602482015260' +
+  '44810182905261068990879060640160408051601f198184030181529190526020810180516001600160e01b031663a9059c' +
+  'bb60e01b179052610691565b505050505050565b600080836001600160a01b0316836040516106ac9190610ade565b600060' +
+  '4051808303816000865af19150503d80600081146106e9576040519150601f19603f3d011682016040523d82523d60006020' +
+  '84013e6106ee565b606091505b50915091508180156107185750805115806107185750808060200190518101906107189190' +
+  '610c95565b6107705760405162461bcd60e51b8152602060048201526024808201527f466c6173684c6f616e526563656976' +
+  '65723a20746f6b656e2063616c6c2066616044820152631a5b195960e21b60648201526084016101ae565b50505050565b80' +
+  '356001600160a01b038116811461078d57600080fd5b919050565b60008060008060008060a087890312156107ab57600080' +
+  'fd5b6107b487610776565b955060208701359450604087013593506107d060608801610776565b9250608087013567ffffff' +
+  'ffffffffff808211156107ed57600080fd5b818901915089601f83011261080157600080fd5b813581811115610810576000' +
+  '80fd5b8a602082850101111561082257600080fd5b6020830194508093505050509295509295509295565b60008060008060' +
+  '006080868803121561085057600080fd5b61085986610776565b945060208601359350604086013567ffffffffffffffff80' +
+  '82111561087d57600080fd5b818801915088601f83011261089157600080fd5b8135818111156108a057600080fd5b896020' +
+  '8260051b85010111156108b557600080fd5b96999598505060200195606001359392505050565b634e487b7160e01b600052' +
+  '604160045260246000fd5b6040516060810167ffffffffffffffff81118282101715610903576109036108ca565b60405290' +
+  '565b604051601f8201601f1916810167ffffffffffffffff81118282101715610932576109326108ca565b60405291905056' +
+  '5b6000806040838503121561094d57600080fd5b823567ffffffffffffffff8082111561096557600080fd5b818501915085' +
+  '601f83011261097957600080fd5b813560208282111561098d5761098d6108ca565b8160051b61099c828201610909565b92' +
+  '8352848101820192828101908a8511156109b657600080fd5b83870192505b84831015610a93578235868111156109d35760' +
+  '0080fd5b8701601f196060828e03820112156109ea57600080fd5b6109f26108e0565b6109fd878401610776565b81526040' +
+  '83013587820152606083013589811115610a1a57600080fd5b8084019350508d603f840112610a2f57600080fd5b86830135' +
+  '89811115610a4357610a436108ca565b610a538884601f84011601610909565b92508083528e6040828601011115610a6a57' +
+  '600080fd5b8060408501898501376000908301880152604081019190915283525091830191908301906109bc565b9a989092' +
+  '0135985050505050505050565b634e487b7160e01b600052603260045260246000fd5b60005b83811015610ad55781810151' +
+  '83820152602001610abd565b50506000910152565b60008251610af0818460208701610aba565b9190910192915050565b80' +
+  '820180821115610b1b57634e487b7160e01b600052601160045260246000fd5b92915050565b600060208284031215610b33' +
+  '57600080fd5b5051919050565b60408082528181018490526000906060808401600587901b8501820188855b89811015610c' +
+  '1e57878303605f190184528135368c9003605e19018112610b7f57600080fd5b8b016001600160a01b03610b928261077656' +
+  '5b1684526020808201358186015287820135601e19833603018112610bb557600080fd5b90910181810191903567ffffffff' +
+  'ffffffff811115610bd357600080fd5b803603831315610be257600080fd5b87898701528088870152608081848289013760' +
+  '0087830182015296820196601f909101601f191690950190940193929092019150600101610b59565b505080945050505050' +
+  '826020830152949350505050565b600060018060a01b03808816835280871660208401525084604083015260a06060830152' +
+  '83518060a0840152610c728160c0850160208801610aba565b61ffff93909316608083015250601f91909101601f19160160' +
+  'c001949350505050565b600060208284031215610ca757600080fd5b81518015158114610cb757600080fd5b939250505056' +
+  'fea26469706673582212201457eae9c1194e801dfa92d1b362464b18fd454bd8ca5525854ce7cc8486221164736f6c634300' +
+  '08180033';
@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { FLASH_LOAN_RECEIVER_ABI, FLASH_LOAN_RECEIVER_BYTECODE } from './flash-loan-receiver';
+
+// Aave V3 Pool on Ethereum mainnet
+export const AAVE_V3_POOL_ADDRESS = '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2';
+
+// FLASHLOAN_PREMIUM_TOTAL on mainnet: 0.05% of the amount borrowed
+export const FLASH_LOAN_PREMIUM_BPS = 5;
+
+// Premium owed on top of a flash-loaned amount; Aave's percentMul rounds half up
+export function flashLoanPremium(amount: bigint, premiumBps = FLASH_LOAN_PREMIUM_BPS): bigint {
+  return (amount * BigInt(premiumBps) + 5000n) / 10000n;
+}
+
+export const flashLoanReceiver = new ethers.Interface(FLASH_LOAN_RECEIVER_ABI);
+
+// Deploy a receiver owned by the signer; only its owner can start loans through it
+export async function deployFlashLoanReceiver(
+  signer: ethers.Signer,
+  aavePool = AAVE_V3_POOL_ADDRESS
+): Promise<{ address: string; txHash: string }> {
+  const factory = new ethers.ContractFactory(FLASH_LOAN_RECEIVER_ABI, FLASH_LOAN_RECEIVER_BYTECODE, signer);
+  const contract = await factory.deploy(aavePool);
+  await contract.waitForDeployment();
+  return {
+    address: await contract.getAddress(),
+    txHash: contract.deploymentTransaction()!.hash,
+  };
+}
+
+// Check that a receiver is deployed, owned by the given wallet and borrows from the given pool
+export async function verifyFlashLoanReceiver(
+  provider: ethers.Provider,
+  address: string,
+  expectedOwner: string,
+  aavePool = AAVE_V3_POOL_ADDRESS
+): Promise<string | null> {
+  if ((await provider.getCode(address)) === '0x') {
+    return `No contract deployed at ${address}`;
+  }
+
+  const contract = new ethers.Contract(address, FLASH_LOAN_RECEIVER_ABI, provider);
+  try {
+    const [owner, pool] = await Promise.all([contract.owner(), contract.pool()]);
+    if (owner.toLowerCase() !== expectedOwner.toLowerCase()) return `Receiver is owned by ${owner}, not ${expectedOwner}`;
+    if (pool.toLowerCase() !== aavePool.toLowerCase()) return `Receiver borrows from ${pool}, not the Aave V3 pool`;
+    return null;
+  } catch {
+    return `Contract at ${address} is not a flash-loan receiver`;
+  }
+}
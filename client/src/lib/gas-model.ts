@@ -0,0 +1,116 @@
+// Confirmed trades of a route shape needed before its receipts are trusted over a simulation
+export const MIN_GAS_SAMPLES = 5;
+
+// Only the most recent receipts of each shape count, so the model follows contract upgrades
+export const MAX_GAS_SAMPLES = 200;
+
+// Percentile of past gas usage a trade is priced at, and the band around it
+export const GAS_ESTIMATE_PERCENTILE = 75;
+export const GAS_BAND_PERCENTILES = { low: 10, high: 90 };
+
+// What decides how much gas a trade uses: the strategy that builds it, how many
+// hops its route has and the DEX adapters those hops go through
+export interface RouteShape {
+  strategy: string;
+  hops: number;
+  dexes: string[];
+}
+
+// Where a gas estimate came from: enough confirmed receipts of the shape, the
+// last simulation of it, or the flat figure for its opportunity type
+export type GasEstimateSource = 'receipts' | 'simulation' | 'default';
+
+export interface GasEstimate {
+  shape: string;
+  gasLimit: number; // gas the trade is expected to use
+  low: number;
+  high: number;
+  samples: number; // confirmed receipts of the shape
+  source: GasEstimateSource;
+}
+
+// Stored trade legs and routes being priced both name the DEX of each hop
+export function routeShape(strategy: string, route: Array<{ dex: string }> | null | undefined): RouteShape {
+  const legs = route ?? [];
+  const dexes = Array.from(new Set(legs.map(leg => leg.dex))).sort();
+  return { strategy, hops: legs.length, dexes };
+}
+
+export function shapeKey(shape: RouteShape): string {
+  return `${shape.strategy}|${shape.hops}|${shape.dexes.join('+')}`;
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+// Learns how much gas each route shape uses from the receipts of confirmed
+// trades. Until a shape has MIN_GAS_SAMPLES of them, the gas its last
+// simulation used stands in; without either, the caller's default does.
+export class GasModel {
+  private receipts = new Map<string, number[]>();
+  private simulated = new Map<string, number>();
+
+  recordReceipt(shape: RouteShape, gasUsed: number) {
+    const key = shapeKey(shape);
+    const samples = this.receipts.get(key) ?? [];
+    samples.push(gasUsed);
+    if (samples.length > MAX_GAS_SAMPLES) samples.shift();
+    this.receipts.set(key, samples);
+  }
+
+  recordSimulation(shape: RouteShape, gasUsed: number) {
+    if (gasUsed > 0) this.simulated.set(shapeKey(shape), gasUsed);
+  }
+
+  estimate(shape: RouteShape, defaultGasLimit: number): GasEstimate {
+    return this.estimateKey(shapeKey(shape), defaultGasLimit);
+  }
+
+  // Estimates for every shape seen so far
+  getEstimates(): GasEstimate[] {
+    const keys = new Set([...Array.from(this.receipts.keys()), ...Array.from(this.simulated.keys())]);
+    return Array.from(keys).sort().map(key => this.estimateKey(key, 0));
+  }
+
+  clear() {
+    this.receipts.clear();
+    this.simulated.clear();
+  }
+
+  private estimateKey(key: string, defaultGasLimit: number): GasEstimate {
+    const samples = this.receipts.get(key) ?? [];
+    if (samples.length >= MIN_GAS_SAMPLES) {
+      const sorted = [...samples].sort((a, b) => a - b);
+      return {
+        shape: key,
+        gasLimit: percentile(sorted, GAS_ESTIMATE_PERCENTILE),
+        low: percentile(sorted, GAS_BAND_PERCENTILES.low),
+        high: percentile(sorted, GAS_BAND_PERCENTILES.high),
+        samples: samples.length,
+        source: 'receipts',
+      };
+    }
+
+    const simulated = this.simulated.get(key);
+    const gasLimit = simulated ?? defaultGasLimit;
+    return {
+      shape: key,
+      gasLimit,
+      low: gasLimit,
+      high: gasLimit,
+      samples: samples.length,
+      source: simulated !== undefined ? 'simulation' : 'default',
+    };
+  }
+}
+
+// One model, shared by detection, execution and the receipt tracker
+let gasModelInstance: GasModel | null = null;
+
+export function getGasModel(): GasModel {
+  if (!gasModelInstance) gasModelInstance = new GasModel();
+  return gasModelInstance;
+}
@@ -0,0 +1,366 @@
+import { ethers } from 'ethers';
+import { AAVE_V3_POOL_ADDRESS } from './flash-loans';
+import { TokenInfo, findToken, formatTokenAmount, isSameToken } from './tokens';
+import { getRpcUrl } from './rpc';
+
+const WAD = 10n ** 18n;
+const PERCENTAGE_FACTOR = 10000n;
+
+// A position can be liquidated once its health factor drops below 1
+export const HEALTH_FACTOR_LIQUIDATION_THRESHOLD = WAD;
+
+// Aave V3 lets a liquidator repay half of a debt at once, or all of it once the
+// health factor is below 0.95
+export const DEFAULT_CLOSE_FACTOR_BPS = 5000;
+export const CLOSE_FACTOR_HF_THRESHOLD = (WAD * 95n) / 100n;
+
+const AAVE_POOL_ABI = [
+  'function ADDRESSES_PROVIDER() view returns (address)',
+  'function getReservesList() view returns (address[])',
+  'function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+  'function getUserConfiguration(address user) view returns (tuple(uint256 data))',
+  'function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)',
+];
+const ADDRESSES_PROVIDER_ABI = ['function getPriceOracle() view returns (address)'];
+const PRICE_ORACLE_ABI = ['function getAssetsPrices(address[] assets) view returns (uint256[])'];
+const BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+const aavePool = new ethers.Interface(AAVE_POOL_ABI);
+
+// Lending parameters of one reserve, with its current oracle price
+export interface ReserveConfig {
+  token: TokenInfo;
+  liquidationThresholdBps: number; // collateral value that counts towards the health factor
+  liquidationBonusBps: number; // e.g. 10500: a liquidator seizes 105% of the debt it repays
+  liquidationProtocolFeeBps: number; // share of the bonus the protocol keeps
+  price: bigint; // one whole token in the market's base currency, e.g. USD with 8 decimals
+}
+
+export interface PositionEntry {
+  reserve: ReserveConfig;
+  amount: bigint; // raw token amount
+}
+
+// A borrower's collateral and debt in one market
+export interface BorrowerPosition {
+  market: string; // lending market id
+  borrower: string;
+  collateral: PositionEntry[]; // only reserves the borrower uses as collateral
+  debt: PositionEntry[];
+}
+
+// What one liquidation call repays and seizes
+export interface LiquidationAmounts {
+  debtToCover: bigint; // in the debt token
+  collateralSeized: bigint; // in the collateral token, after the protocol's fee
+  protocolFee: bigint; // in the collateral token
+}
+
+// An underwater position and the most valuable collateral/debt pair to liquidate it with
+export interface LiquidationCandidate {
+  position: BorrowerPosition;
+  healthFactor: bigint; // WAD
+  collateral: PositionEntry;
+  debt: PositionEntry;
+  amounts: LiquidationAmounts;
+}
+
+// A lending protocol the tracker can read positions from and liquidate on
+export interface LendingMarket {
+  id: string;
+  name: string;
+  poolAddress: string; // contract liquidations are sent to, and that pulls the repaid debt
+  loadPositions(provider: ethers.Provider, borrowers: string[]): Promise<BorrowerPosition[]>;
+  encodeLiquidation(collateral: TokenInfo, debt: TokenInfo, borrower: string, debtToCover: bigint): string;
+}
+
+// Aave's percentMul and percentDiv, which round half up
+function percentMul(value: bigint, bps: number): bigint {
+  return (value * BigInt(bps) + PERCENTAGE_FACTOR / 2n) / PERCENTAGE_FACTOR;
+}
+
+function percentDiv(value: bigint, bps: number): bigint {
+  return (value * PERCENTAGE_FACTOR + BigInt(bps) / 2n) / BigInt(bps);
+}
+
+// Value of a position entry in the market's base currency
+export function valueInBase(entry: PositionEntry): bigint {
+  return (entry.amount * entry.reserve.price) / 10n ** BigInt(entry.reserve.token.decimals);
+}
+
+// Risk-adjusted collateral over debt, as a WAD; unbounded when there is no debt
+export function healthFactor(position: Pick<BorrowerPosition, 'collateral' | 'debt'>): bigint {
+  const totalDebt = position.debt.reduce((total, entry) => total + valueInBase(entry), 0n);
+  if (totalDebt === 0n) return ethers.MaxUint256;
+
+  const adjustedCollateral = position.collateral.reduce(
+    (total, entry) => total + valueInBase(entry) * BigInt(entry.reserve.liquidationThresholdBps),
+    0n
+  ) / PERCENTAGE_FACTOR;
+  return (adjustedCollateral * WAD) / totalDebt;
+}
+
+export function formatHealthFactor(value: bigint): number {
+  return value === ethers.MaxUint256 ? Infinity : Number(value / 10n ** 14n) / 10000;
+}
+
+// Amounts a liquidation repays and seizes, following Aave V3's LiquidationLogic:
+// the close factor caps the debt, and the seizure is capped by the collateral held
+export function calculateLiquidation(
+  collateral: PositionEntry,
+  debt: PositionEntry,
+  healthFactor: bigint,
+  debtToCover: bigint = ethers.MaxUint256
+): LiquidationAmounts {
+  const closeFactorBps = healthFactor > CLOSE_FACTOR_HF_THRESHOLD ? DEFAULT_CLOSE_FACTOR_BPS : 10000;
+  const maxDebt = percentMul(debt.amount, closeFactorBps);
+  let debtAmount = debtToCover < maxDebt ? debtToCover : maxDebt;
+
+  const { liquidationBonusBps: bonusBps, liquidationProtocolFeeBps: feeBps } = collateral.reserve;
+  const collateralUnit = 10n ** BigInt(collateral.reserve.token.decimals);
+  const debtUnit = 10n ** BigInt(debt.reserve.token.decimals);
+
+  const baseCollateral = (debt.reserve.price * debtAmount * collateralUnit) / (collateral.reserve.price * debtUnit);
+  let collateralAmount = percentMul(baseCollateral, bonusBps);
+  if (collateralAmount > collateral.amount) {
+    collateralAmount = collateral.amount;
+    debtAmount = percentDiv((collateral.reserve.price * collateralAmount * debtUnit) / (debt.reserve.price * collateralUnit), bonusBps);
+  }
+
+  const bonus = collateralAmount - percentDiv(collateralAmount, bonusBps);
+  const protocolFee = feeBps > 0 ? percentMul(bonus, feeBps) : 0n;
+  return { debtToCover: debtAmount, collateralSeized: collateralAmount - protocolFee, protocolFee };
+}
+
+// Pick the collateral/debt pair that earns the most bonus, when the position is underwater.
+// Seizing the debt asset itself would need no swap but is left out, as the route is what we price.
+export function planLiquidation(position: BorrowerPosition): LiquidationCandidate | null {
+  const factor = healthFactor(position);
+  if (factor >= HEALTH_FACTOR_LIQUIDATION_THRESHOLD) return null;
+
+  let best: LiquidationCandidate | null = null;
+  let bestGain = 0n;
+  for (const collateral of position.collateral) {
+    for (const debt of position.debt) {
+      if (isSameToken(collateral.reserve.token, debt.reserve.token)) continue;
+
+      const amounts = calculateLiquidation(collateral, debt, factor);
+      const gain = valueInBase({ reserve: collateral.reserve, amount: amounts.collateralSeized })
+        - valueInBase({ reserve: debt.reserve, amount: amounts.debtToCover });
+      if (amounts.debtToCover > 0n && gain > bestGain) {
+        best = { position, healthFactor: factor, collateral, debt, amounts };
+        bestGain = gain;
+      }
+    }
+  }
+  return best;
+}
+
+// Reserve configuration bitmap fields, as laid out by Aave V3's ReserveConfiguration
+function configField(data: bigint, offset: number, bits: number): number {
+  return Number((data >> BigInt(offset)) & ((1n << BigInt(bits)) - 1n));
+}
+
+// Reads positions from an Aave V3 pool: the reserve list and configuration,
+// the oracle's prices, and each borrower's aToken and variable-debt balances
+export function createAaveV3Market(poolAddress = AAVE_V3_POOL_ADDRESS): LendingMarket {
+  const loadReserves = async (pool: ethers.Contract, provider: ethers.Provider) => {
+    const assets: string[] = Array.from(await pool.getReservesList());
+    const [data, prices] = await Promise.all([
+      Promise.all(assets.map(asset => pool.getReserveData(asset))),
+      (async () => {
+        const addressesProvider = new ethers.Contract(await pool.ADDRESSES_PROVIDER(), ADDRESSES_PROVIDER_ABI, provider);
+        const oracle = new ethers.Contract(await addressesProvider.getPriceOracle(), PRICE_ORACLE_ABI, provider);
+        return oracle.getAssetsPrices(assets) as Promise<bigint[]>;
+      })(),
+    ]);
+
+    return assets.map((asset, i) => {
+      const config = BigInt(data[i].configuration.data);
+      const decimals = configField(config, 48, 8);
+      const token = findToken(asset) ?? { address: ethers.getAddress(asset), symbol: asset.slice(0, 8), decimals };
+      return {
+        id: Number(data[i].id),
+        aToken: data[i].aTokenAddress as string,
+        variableDebtToken: data[i].variableDebtTokenAddress as string,
+        config: {
+          token,
+          liquidationThresholdBps: configField(config, 16, 16),
+          liquidationBonusBps: configField(config, 32, 16),
+          liquidationProtocolFeeBps: configField(config, 152, 16),
+          price: BigInt(prices[i]),
+        } satisfies ReserveConfig,
+      };
+    });
+  };
+
+  return {
+    id: 'aave-v3',
+    name: 'Aave V3',
+    poolAddress,
+
+    async loadPositions(provider, borrowers) {
+      const pool = new ethers.Contract(poolAddress, AAVE_POOL_ABI, provider);
+      const reserves = await loadReserves(pool, provider);
+      const balanceOf = (token: string, owner: string): Promise<bigint> =>
+        new ethers.Contract(token, BALANCE_ABI, provider).balanceOf(owner);
+
+      return Promise.all(borrowers.map(async borrower => {
+        // Two bits per reserve: borrowing, then used as collateral
+        const { data } = await pool.getUserConfiguration(borrower);
+        const userConfig = BigInt(data);
+        const collateral: PositionEntry[] = [];
+        const debt: PositionEntry[] = [];
+
+        await Promise.all(reserves.map(async reserve => {
+          const borrowing = (userConfig >> BigInt(reserve.id * 2)) & 1n;
+          const usingAsCollateral = (userConfig >> BigInt(reserve.id * 2 + 1)) & 1n;
+          // Stable-rate borrowing is disabled on V3, so variable debt is all of it
+          if (borrowing) {
+            debt.push({ reserve: reserve.config, amount: await balanceOf(reserve.variableDebtToken, borrower) });
+          }
+          if (usingAsCollateral) {
+            collateral.push({ reserve: reserve.config, amount: await balanceOf(reserve.aToken, borrower) });
+          }
+        }));
+
+        return { market: 'aave-v3', borrower: ethers.getAddress(borrower), collateral, debt };
+      }));
+    },
+
+    encodeLiquidation(collateral, debt, borrower, debtToCover) {
+      // Take the collateral itself rather than its aToken, so it can be swapped straight away
+      return aavePool.encodeFunctionData('liquidationCall', [collateral.address, debt.address, borrower, debtToCover, false]);
+    },
+  };
+}
+
+const LENDING_MARKETS = new Map<string, LendingMarket>();
+
+export function registerLendingMarket(market: LendingMarket) {
+  if (LENDING_MARKETS.has(market.id)) {
+    throw new Error(`Lending market ${market.id} is already registered`);
+  }
+  LENDING_MARKETS.set(market.id, market);
+}
+
+export function requireLendingMarket(id: string): LendingMarket {
+  const market = LENDING_MARKETS.get(id);
+  if (!market) throw new Error(`Unknown lending market: ${id}`);
+  return market;
+}
+
+export function getLendingMarkets(): LendingMarket[] {
+  return Array.from(LENDING_MARKETS.values());
+}
+
+registerLendingMarket(createAaveV3Market());
+
+// A watched position as of its last refresh
+export interface TrackedPosition extends BorrowerPosition {
+  healthFactor: bigint;
+  updatedAt: Date;
+}
+
+// Follows a set of borrowers across the registered markets, re-reading their
+// positions on refresh so the scanner can find the ones that fell below 1
+export class PositionTracker {
+  private borrowers = new Set<string>();
+  private positions = new Map<string, TrackedPosition>(); // `${market}:${borrower}`
+
+  constructor(private provider: ethers.Provider) {}
+
+  watch(borrower: string) {
+    this.borrowers.add(ethers.getAddress(borrower));
+  }
+
+  unwatch(borrower: string): boolean {
+    const address = ethers.getAddress(borrower);
+    for (const id of Array.from(this.positions.keys())) {
+      if (id.endsWith(`:${address}`)) this.positions.delete(id);
+    }
+    return this.borrowers.delete(address);
+  }
+
+  getBorrowers(): string[] {
+    return Array.from(this.borrowers);
+  }
+
+  // Positions with debt, riskiest first
+  getPositions(): TrackedPosition[] {
+    return Array.from(this.positions.values())
+      .filter(position => position.debt.length > 0)
+      .sort((a, b) => (a.healthFactor < b.healthFactor ? -1 : a.healthFactor > b.healthFactor ? 1 : 0));
+  }
+
+  getLiquidatable(): LiquidationCandidate[] {
+    return this.getPositions().flatMap(position => planLiquidation(position) ?? []);
+  }
+
+  // Re-read every watched borrower in every market, keeping the last known
+  // position for a market that can't be read
+  async refresh() {
+    const borrowers = this.getBorrowers();
+    let updated = 0;
+    if (borrowers.length === 0) return { updated, total: 0 };
+
+    await Promise.all(getLendingMarkets().map(async market => {
+      try {
+        const positions = await market.loadPositions(this.provider, borrowers);
+        for (const position of positions) {
+          this.positions.set(`${market.id}:${position.borrower}`, {
+            ...position,
+            healthFactor: healthFactor(position),
+            updatedAt: new Date(),
+          });
+          updated++;
+        }
+      } catch (error) {
+        console.error(`Failed to load ${market.name} positions:`, error);
+      }
+    }));
+
+    return { updated, total: borrowers.length * LENDING_MARKETS.size };
+  }
+}
+
+// JSON-safe view of a tracked position, with amounts in whole tokens
+export function serializePosition(position: TrackedPosition) {
+  const entry = ({ reserve, amount }: PositionEntry) => ({
+    token: reserve.token.symbol,
+    amount: formatTokenAmount(reserve.token, amount),
+    value: valueInBase({ reserve, amount }).toString(),
+  });
+  return {
+    market: position.market,
+    borrower: position.borrower,
+    healthFactor: formatHealthFactor(position.healthFactor),
+    collateral: position.collateral.map(entry),
+    debt: position.debt.map(entry),
+    updatedAt: position.updatedAt,
+  };
+}
+
+// Singleton instance
+let positionTrackerInstance: PositionTracker | null = null;
+
+export function initPositionTracker() {
+  const rpcUrl = getRpcUrl();
+  if (!rpcUrl) {
+    console.error('Cannot initialize PositionTracker: set ETHEREUM_RPC_URL or INFURA_API_KEY');
+    return null;
+  }
+
+  positionTrackerInstance = new PositionTracker(new ethers.JsonRpcProvider(rpcUrl));
+
+  // Borrowers to watch from the start, e.g. found by indexing Borrow events offline
+  const env = typeof process !== 'undefined' ? process.env : {};
+  for (const borrower of (env.LIQUIDATION_BORROWERS ?? '').split(',').map(value => value.trim())) {
+    if (ethers.isAddress(borrower)) positionTrackerInstance.watch(borrower);
+  }
+  return positionTrackerInstance;
+}
+
+export function getPositionTracker() {
+  return positionTrackerInstance ?? initPositionTracker();
+}
@@ -2,25 +2,7 @@ import { ethers } from 'ethers';
 import { getBlockchainStatus, simulateTransaction } from './ethereum';
 import { apiRequest } from './queryClient';
 import { ArbitrageOpportunity } from './arbitrage';
-
-// ABIs for common DEX interactions
-const UNISWAP_ROUTER_ABI = [
-  'function getAmountsOut(uint amountIn, address[] memory path) view returns (uint[] memory amounts)',
-  'function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) external payable returns (uint[] memory amounts)',
-  'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)',
-  'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)'
-];
-
-// Token addresses for commonly used assets
-const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
-const USDC_ADDRESS = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
-const USDT_ADDRESS = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
-const DAI_ADDRESS = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
-const WBTC_ADDRESS = '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599';
-
-// DEX Addresses
-const UNISWAP_ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
-const SUSHISWAP_ROUTER = '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F';
+import { getRpcUrl } from './rpc';
 
 // Profit tracking
 interface ProfitReport {
@@ -41,10 +23,8 @@ export class MevExecutor {
   private isRunning: boolean = false;
   private targetProfitGBP: number = 20; // £20 target
 
-  constructor(privateKey: string, infuraApiKey: string) {
-    // Initialize the provider with Infura
-    const infuraUrl = `https://mainnet.infura.io/v3/${infuraApiKey}`;
-    this.provider = new ethers.JsonRpcProvider(infuraUrl);
+  constructor(privateKey: string, rpcUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
     
     // Create a wallet with the private key
     this.wallet = new ethers.Wallet(privateKey, this.provider);
@@ -258,17 +238,17 @@ let mevExecutorInstance: MevExecutor | null = null;
 
 export function initMevExecutor() {
   const privateKey = process.env.ETHEREUM_PRIVATE_KEY || '';
-  const infuraApiKey = process.env.INFURA_API_KEY || '';
+  const rpcUrl = getRpcUrl();
   
-  if (!privateKey || !infuraApiKey) {
-    console.error('Cannot initialize MevExecutor: missing private key or Infura API key');
+  if (!privateKey || !rpcUrl) {
+    console.error('Cannot initialize MevExecutor: missing private key or RPC URL');
     return null;
   }
   
-  console.log('Initializing MEV Executor with valid private key and Infura API credentials');
+  console.log('Initializing MEV Executor with valid private key');
   
   if (!mevExecutorInstance) {
-    mevExecutorInstance = new MevExecutor(privateKey, infuraApiKey);
+    mevExecutorInstance = new MevExecutor(privateKey, rpcUrl);
   }
   
   return mevExecutorInstance;
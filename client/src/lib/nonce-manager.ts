@@ -0,0 +1,203 @@
+import { ethers } from 'ethers';
+
+// How far a replacement raises both fee caps over the transaction it replaces;
+// nodes only accept a replacement that bids at least 10% more
+export const DEFAULT_FEE_BUMP_PERCENT = 15;
+
+// Gas for a plain ETH transfer, which is all a cancellation is
+const TRANSFER_GAS_LIMIT = 21000n;
+
+// A transaction sent on one of our nonces that has not been mined yet
+export interface InFlightTransaction {
+  nonce: number;
+  hash: string;
+  sentAt: Date;
+  lastBlock?: number; // set for bundled transactions, which are gone once this block passes
+}
+
+export interface NonceState {
+  address: string;
+  minedNonce: number; // next nonce the chain will mine
+  nextNonce: number | null; // next nonce we hand out; null until the first send
+  inFlight: InFlightTransaction[];
+  gaps: number[]; // nonces nothing was sent on; every later transaction waits behind them
+}
+
+// Hands out the nonces of one signer so concurrent sends never collide, and
+// keeps track of what was sent on them until it is mined. Stuck transactions
+// can be sped up or cancelled by re-sending on their nonce.
+export class NonceManager {
+  private nextNonce: number | null = null;
+  private reserved = new Set<number>();
+  private inFlight = new Map<number, InFlightTransaction>();
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private signer: ethers.Signer) {}
+
+  private getProvider(): ethers.Provider {
+    if (!this.signer.provider) throw new Error('Signer has no provider to read nonces from');
+    return this.signer.provider;
+  }
+
+  // Reserve `count` consecutive nonces and return the first. Never below the
+  // node's pending count, so transactions sent from elsewhere are respected.
+  async reserve(count = 1): Promise<number> {
+    const reservation = this.lock.then(async () => {
+      const address = await this.signer.getAddress();
+      const pending = await this.getProvider().getTransactionCount(address, 'pending');
+      const first = Math.max(this.nextNonce ?? 0, pending);
+      for (let i = 0; i < count; i++) this.reserved.add(first + i);
+      this.nextNonce = first + count;
+      return first;
+    });
+    this.lock = reservation.catch(() => {});
+    return reservation;
+  }
+
+  // Give back reserved nonces nothing was sent on. If they were the last handed
+  // out they are reused; otherwise they are left as a gap.
+  release(first: number, count = 1) {
+    for (let i = 0; i < count; i++) this.reserved.delete(first + i);
+    if (this.nextNonce === first + count) this.nextNonce = first;
+  }
+
+  // Record a transaction sent on a reserved nonce
+  track(nonce: number, hash: string, lastBlock?: number) {
+    this.reserved.delete(nonce);
+    this.inFlight.set(nonce, { nonce, hash, sentAt: new Date(), lastBlock });
+  }
+
+  // Send on the next free nonce; the nonce is given back if the send fails
+  async sendTransaction(request: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+    const nonce = await this.reserve();
+    try {
+      const response = await this.signer.sendTransaction({ ...request, nonce });
+      this.track(nonce, response.hash);
+      return response;
+    } catch (error) {
+      this.release(nonce);
+      throw error;
+    }
+  }
+
+  // Forget what was mined, replaced or dropped, then report where the nonces stand
+  async refresh(): Promise<NonceState> {
+    const provider = this.getProvider();
+    const address = await this.signer.getAddress();
+    const [minedNonce, pendingNonce, blockNumber] = await Promise.all([
+      provider.getTransactionCount(address, 'latest'),
+      provider.getTransactionCount(address, 'pending'),
+      provider.getBlockNumber(),
+    ]);
+
+    for (const tx of Array.from(this.inFlight.values())) {
+      if (tx.nonce < minedNonce) {
+        this.inFlight.delete(tx.nonce);
+      } else if (tx.lastBlock !== undefined) {
+        // Bundles never reach the public mempool; they are gone once their last block passes
+        if (blockNumber > tx.lastBlock) this.inFlight.delete(tx.nonce);
+      } else if (!(await provider.getTransaction(tx.hash))) {
+        this.inFlight.delete(tx.nonce);
+      }
+    }
+
+    // Nonces at the top that nothing holds any more are handed out again
+    const isHeld = (nonce: number) => this.inFlight.has(nonce) || this.reserved.has(nonce);
+    while (this.nextNonce !== null && this.nextNonce > pendingNonce && !isHeld(this.nextNonce - 1)) {
+      this.nextNonce--;
+    }
+
+    const gaps: number[] = [];
+    for (let nonce = pendingNonce; nonce < (this.nextNonce ?? pendingNonce); nonce++) {
+      if (!isHeld(nonce)) gaps.push(nonce);
+    }
+
+    return {
+      address,
+      minedNonce,
+      nextNonce: this.nextNonce,
+      inFlight: Array.from(this.inFlight.values()).sort((a, b) => a.nonce - b.nonce),
+      gaps,
+    };
+  }
+
+  // Re-send a pending transaction on its nonce with both fee caps raised
+  async speedUp(hash: string, bumpPercent = DEFAULT_FEE_BUMP_PERCENT): Promise<ethers.TransactionResponse> {
+    const original = await this.getPendingTransaction(hash);
+    return this.replace(original.nonce, {
+      to: original.to,
+      data: original.data,
+      value: original.value,
+      gasLimit: original.gasLimit,
+    }, original, bumpPercent);
+  }
+
+  // Replace a pending transaction with a 0-value send to ourselves, so that
+  // nothing it would have done happens
+  async cancel(hash: string, bumpPercent = DEFAULT_FEE_BUMP_PERCENT): Promise<ethers.TransactionResponse> {
+    const original = await this.getPendingTransaction(hash);
+    return this.replace(original.nonce, await this.selfSend(), original, bumpPercent);
+  }
+
+  // Send a 0-value transaction to ourselves on a nonce nothing was sent on, so
+  // the transactions waiting behind it can be mined
+  async fillGap(nonce: number): Promise<ethers.TransactionResponse> {
+    const { gaps } = await this.refresh();
+    if (!gaps.includes(nonce)) throw new Error(`Nonce ${nonce} is not a gap`);
+    return this.replace(nonce, await this.selfSend(), null, 0);
+  }
+
+  private async selfSend(): Promise<ethers.TransactionRequest> {
+    return { to: await this.signer.getAddress(), value: 0n, data: '0x', gasLimit: TRANSFER_GAS_LIMIT };
+  }
+
+  private async getPendingTransaction(hash: string): Promise<ethers.TransactionResponse> {
+    const tx = await this.getProvider().getTransaction(hash);
+    if (!tx) throw new Error(`Transaction ${hash} is not known to the node`);
+    if (tx.blockNumber !== null) throw new Error(`Transaction ${hash} is already mined`);
+    if (tx.from.toLowerCase() !== (await this.signer.getAddress()).toLowerCase()) {
+      throw new Error(`Transaction ${hash} was not sent from this wallet`);
+    }
+    return tx;
+  }
+
+  // Send on a nonce already in use, outbidding what is there by bumpPercent
+  // and never bidding below the network's current fees
+  private async replace(
+    nonce: number,
+    request: ethers.TransactionRequest,
+    original: ethers.TransactionResponse | null,
+    bumpPercent: number
+  ): Promise<ethers.TransactionResponse> {
+    const feeData = await this.getProvider().getFeeData();
+    const bump = (fee: bigint | null | undefined) => ((fee ?? 0n) * BigInt(100 + bumpPercent) + 99n) / 100n;
+    const max = (...fees: bigint[]) => fees.reduce((a, b) => (a > b ? a : b));
+
+    const originalTip = original?.maxPriorityFeePerGas ?? original?.gasPrice;
+    const originalCap = original?.maxFeePerGas ?? original?.gasPrice;
+    const maxPriorityFeePerGas = max(bump(originalTip), feeData.maxPriorityFeePerGas ?? 0n);
+    const maxFeePerGas = max(bump(originalCap), feeData.maxFeePerGas ?? 0n, maxPriorityFeePerGas);
+
+    const response = await this.signer.sendTransaction({
+      ...request,
+      nonce,
+      type: 2,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+    });
+    this.track(nonce, response.hash);
+    return response;
+  }
+}
+
+// One manager per signer, shared by everything that sends from it
+const NONCE_MANAGERS = new WeakMap<ethers.Signer, NonceManager>();
+
+export function getNonceManager(signer: ethers.Signer): NonceManager {
+  let manager = NONCE_MANAGERS.get(signer);
+  if (!manager) {
+    manager = new NonceManager(signer);
+    NONCE_MANAGERS.set(signer, manager);
+  }
+  return manager;
+}
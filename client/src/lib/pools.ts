@@ -0,0 +1,427 @@
+import { ethers } from 'ethers';
+import { TOKENS, TokenInfo, isSameToken, parseTokenAmount } from './tokens';
+import { requireDex } from './dex-registry';
+import { V2_DEFAULT_FEE_BPS } from './uniswap-v2';
+import { V3PoolState, V3_FEE_TIERS, createV3PoolState, flipTick } from './uniswap-v3';
+import { CURVE_FEE_DENOMINATOR, CurvePoolState, rateForDecimals } from './curve-stableswap';
+import { WeightedPoolState, scalingFactorForDecimals } from './balancer-weighted';
+
+// Constant-product pool state
+export interface V2Pool {
+  type: 'v2';
+  dex: string;
+  address: string;
+  token0: TokenInfo;
+  token1: TokenInfo;
+  reserve0: bigint;
+  reserve1: bigint;
+  feeBps: number;
+}
+
+// Concentrated-liquidity pool state
+export interface V3Pool extends V3PoolState {
+  type: 'v3';
+  dex: string;
+  address: string;
+  token0: TokenInfo;
+  token1: TokenInfo;
+}
+
+// StableSwap pool state, with coins in pool index order
+export interface CurvePool extends CurvePoolState {
+  type: 'curve';
+  dex: string;
+  address: string;
+  coins: TokenInfo[];
+}
+
+// Weighted pool state, with tokens in Vault index order
+export interface BalancerPool extends WeightedPoolState {
+  type: 'balancer';
+  dex: string;
+  address: string;
+  poolId: string;
+  tokens: TokenInfo[];
+}
+
+export type Pool = V2Pool | V3Pool | CurvePool | BalancerPool;
+
+const PAIR_ABI = [
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+];
+
+const V3_POOL_ABI = [
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+];
+
+const CURVE_POOL_ABI = [
+  'function A() view returns (uint256)',
+  'function fee() view returns (uint256)',
+  'function balances(uint256 i) view returns (uint256)',
+  'function offpeg_fee_multiplier() view returns (uint256)',
+];
+
+const BALANCER_POOL_ABI = [
+  'function getNormalizedWeights() view returns (uint256[])',
+  'function getSwapFeePercentage() view returns (uint256)',
+];
+
+const BALANCER_VAULT_ABI = [
+  'function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)',
+];
+
+// Bitmap words either side of the current tick to sync when loading V3 state
+const V3_WORD_RADIUS = 2;
+
+// Build a V2 pool from human-readable reserves, ordering tokens the way the factory does
+function v2Pool(
+  dex: string,
+  address: string,
+  tokenA: TokenInfo,
+  amountA: string,
+  tokenB: TokenInfo,
+  amountB: string,
+  feeBps = V2_DEFAULT_FEE_BPS
+): V2Pool {
+  const reserveA = parseTokenAmount(tokenA, amountA);
+  const reserveB = parseTokenAmount(tokenB, amountB);
+  const aIsToken0 = tokenA.address.toLowerCase() < tokenB.address.toLowerCase();
+
+  return {
+    type: 'v2',
+    dex,
+    address,
+    token0: aIsToken0 ? tokenA : tokenB,
+    token1: aIsToken0 ? tokenB : tokenA,
+    reserve0: aIsToken0 ? reserveA : reserveB,
+    reserve1: aIsToken0 ? reserveB : reserveA,
+    feeBps,
+  };
+}
+
+// Build a V3 pool around a price (tokenB per tokenA), with positions given as a
+// width either side of the price and the virtual tokenA reserve they provide
+function v3Pool(
+  dex: string,
+  address: string,
+  tokenA: TokenInfo,
+  tokenB: TokenInfo,
+  fee: number,
+  price: number,
+  positions: Array<{ widthPct: number; depth: string }>
+): V3Pool {
+  const aIsToken0 = tokenA.address.toLowerCase() < tokenB.address.toLowerCase();
+  const [token0, token1] = aIsToken0 ? [tokenA, tokenB] : [tokenB, tokenA];
+  const tickSpacing = V3_FEE_TIERS[fee];
+
+  // Raw token1 per raw token0, as the pool stores it
+  const rawPrice = (aIsToken0 ? price : 1 / price) * 10 ** (token1.decimals - token0.decimals);
+  const tick = Math.floor(Math.log(rawPrice) / Math.log(1.0001));
+  const sqrtPrice = Math.sqrt(rawPrice);
+
+  const ranges = positions.map(({ widthPct, depth }) => {
+    const width = Math.round(Math.log(1 + widthPct / 100) / Math.log(1.0001));
+    const depthRaw = parseFloat(depth) * 10 ** tokenA.decimals;
+    return {
+      tickLower: Math.floor((tick - width) / tickSpacing) * tickSpacing,
+      tickUpper: Math.ceil((tick + width) / tickSpacing) * tickSpacing,
+      liquidity: BigInt(Math.floor(aIsToken0 ? depthRaw * sqrtPrice : depthRaw / sqrtPrice)),
+    };
+  });
+
+  return {
+    type: 'v3',
+    dex,
+    address,
+    token0,
+    token1,
+    ...createV3PoolState(fee, tick, ranges),
+  };
+}
+
+// Build a StableSwap pool from human-readable balances; fees are percentages
+function curvePool(
+  dex: string,
+  address: string,
+  coins: Array<[TokenInfo, string]>,
+  amp: number,
+  feePct: number,
+  offpegFeeMultiplier = 1
+): CurvePool {
+  return {
+    type: 'curve',
+    dex,
+    address,
+    coins: coins.map(([token]) => token),
+    amp: BigInt(amp),
+    balances: coins.map(([token, amount]) => parseTokenAmount(token, amount)),
+    rates: coins.map(([token]) => rateForDecimals(token.decimals)),
+    fee: BigInt(Math.round(feePct * 1e8)),
+    offpegFeeMultiplier: BigInt(offpegFeeMultiplier) * CURVE_FEE_DENOMINATOR,
+  };
+}
+
+// Build a weighted pool from its Vault pool id (which embeds the pool address),
+// human-readable balances and percentage weights
+function balancerPool(
+  dex: string,
+  poolId: string,
+  tokens: Array<[TokenInfo, string, number]>,
+  swapFeePct: number
+): BalancerPool {
+  return {
+    type: 'balancer',
+    dex,
+    address: poolId.slice(0, 42),
+    poolId,
+    tokens: tokens.map(([token]) => token),
+    balances: tokens.map(([token, amount]) => parseTokenAmount(token, amount)),
+    weights: tokens.map(([, , weightPct]) => ethers.parseUnits(String(weightPct / 100), 18)),
+    scalingFactors: tokens.map(([token]) => scalingFactorForDecimals(token.decimals)),
+    swapFee: ethers.parseUnits(String(swapFeePct / 100), 18),
+  };
+}
+
+// Reserve snapshot used until live reserves are loaded, so quotes stay deterministic offline
+const POOLS: Pool[] = [
+  // Uniswap V2
+  v2Pool('uniswap', '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc', TOKENS.USDC, '40000000', TOKENS.WETH, '20000'),
+  v2Pool('uniswap', '0x0d4a11d5eeaac28ec3f61d100daf4d40471f1852', TOKENS.USDT, '30000000', TOKENS.WETH, '15060'),
+  v2Pool('uniswap', '0xa478c2975ab1ea89e8196811f51a7b7ade33eb11', TOKENS.DAI, '12000000', TOKENS.WETH, '6000'),
+  v2Pool('uniswap', '0xbb2b8038a1640196fbe3e38816f3e67cba72d940', TOKENS.WBTC, '1000', TOKENS.WETH, '20150'),
+  v2Pool('uniswap', '0x004375dff511095cc5a197a54140a24efef3a416', TOKENS.WBTC, '300', TOKENS.USDC, '12000000'),
+  v2Pool('uniswap', '0x3041cbd36888becc7bbcbc0045e3b1f144466f5f', TOKENS.USDC, '5000000', TOKENS.USDT, '5000000'),
+  v2Pool('uniswap', '0xae461ca67b15dc8dc81ce7615e0320da1a9ab8d5', TOKENS.DAI, '4000000', TOKENS.USDC, '4000000'),
+  v2Pool('uniswap', '0xb20bd5d04be54f870d5c0d3ca85d82b34b836405', TOKENS.DAI, '2000000', TOKENS.USDT, '2003000'),
+  // SushiSwap
+  v2Pool('sushiswap', '0x397ff1542f962076d0bfe58ea045ffa2d347aca0', TOKENS.USDC, '10000000', TOKENS.WETH, '5060'),
+  v2Pool('sushiswap', '0x06da0fd433c1a5d7a4faa01111c044910a184553', TOKENS.USDT, '6048000', TOKENS.WETH, '3000'),
+  v2Pool('sushiswap', '0xc3d03e4f041fd4cd388c549ee2a29a9e5075882f', TOKENS.DAI, '4000000', TOKENS.WETH, '2000'),
+  v2Pool('sushiswap', '0xceff51756c56ceffca006cd410b03ffc46dd3a58', TOKENS.WBTC, '200', TOKENS.WETH, '4000'),
+  // Uniswap V3
+  v3Pool('uniswapV3', '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640', TOKENS.WETH, TOKENS.USDC, 500, 2004, [
+    { widthPct: 2, depth: '8000' },
+    { widthPct: 10, depth: '12000' },
+    { widthPct: 50, depth: '5000' },
+  ]),
+  v3Pool('uniswapV3', '0x8ad599c3a0ff1de082011efddc58f1908eb6e6d8', TOKENS.WETH, TOKENS.USDC, 3000, 2000, [
+    { widthPct: 5, depth: '4000' },
+    { widthPct: 30, depth: '6000' },
+  ]),
+  v3Pool('uniswapV3', '0x7bea39867e4169dbe237d55c8242a8f2fcdcc387', TOKENS.WETH, TOKENS.USDC, 10000, 1990, [
+    { widthPct: 40, depth: '800' },
+  ]),
+  v3Pool('uniswapV3', '0x11b815efb8f581194ae79006d24e0d814b7697f6', TOKENS.WETH, TOKENS.USDT, 500, 1998, [
+    { widthPct: 2, depth: '5000' },
+    { widthPct: 10, depth: '7000' },
+  ]),
+  v3Pool('uniswapV3', '0xcbcdf9626bc03e24f779434178a73a0b4bad62ed', TOKENS.WBTC, TOKENS.WETH, 3000, 20.05, [
+    { widthPct: 5, depth: '300' },
+    { widthPct: 25, depth: '400' },
+  ]),
+  v3Pool('uniswapV3', '0x3416cf6c708da44db2624d63ea0aaef7113527c6', TOKENS.USDC, TOKENS.USDT, 100, 1.0002, [
+    { widthPct: 0.1, depth: '20000000' },
+    { widthPct: 1, depth: '10000000' },
+  ]),
+  v3Pool('uniswapV3', '0x5777d92f208679db4b9778590fa3cab3ac9e2168', TOKENS.DAI, TOKENS.USDC, 100, 0.9999, [
+    { widthPct: 0.1, depth: '15000000' },
+    { widthPct: 1, depth: '5000000' },
+  ]),
+  // Curve
+  curvePool('curve', '0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7', [
+    [TOKENS.DAI, '62000000'],
+    [TOKENS.USDC, '60000000'],
+    [TOKENS.USDT, '58500000'],
+  ], 2000, 0.01),
+  curvePool('curve', '0xdc24316b9ae028f1497c275eb9192a3ea0f67022', [
+    [TOKENS.ETH, '61000'],
+    [TOKENS.stETH, '59000'],
+  ], 50, 0.01, 2),
+  curvePool('curve', '0x21e27a5e5513d6e65c4f830167390997aa84843a', [
+    [TOKENS.ETH, '21000'],
+    [TOKENS.stETH, '22400'],
+  ], 1500, 0.01, 5),
+  // Balancer
+  balancerPool('balancer', '0xa6f548df93de924d73be7d25dc02554c6bd66db500020000000000000000000e', [
+    [TOKENS.WBTC, '150', 50],
+    [TOKENS.WETH, '3030', 50],
+  ], 0.25),
+  balancerPool('balancer', '0x0b09dea16768f0799065c475be02919503cb2a3500020000000000000000001a', [
+    [TOKENS.WETH, '1500', 60],
+    [TOKENS.DAI, '1990000', 40],
+  ], 0.1),
+];
+
+// Get all known pools
+export function getPools(): Pool[] {
+  return POOLS;
+}
+
+// Tokens a pool trades between, in pool index order
+export function getPoolTokens(pool: Pool): TokenInfo[] {
+  switch (pool.type) {
+    case 'v2':
+    case 'v3':
+      return [pool.token0, pool.token1];
+    case 'curve':
+      return pool.coins;
+    case 'balancer':
+      return pool.tokens;
+  }
+}
+
+// Find a known pool by its address
+export function findPoolByAddress(address: string): Pool | undefined {
+  return POOLS.find(pool => pool.address.toLowerCase() === address.toLowerCase());
+}
+
+// Index of a token within a pool
+export function getTokenIndex(pool: Pool, token: TokenInfo): number {
+  const index = getPoolTokens(pool).findIndex(poolToken => isSameToken(poolToken, token));
+  if (index < 0) {
+    throw new Error(`Token ${token.symbol} is not in pool ${pool.address}`);
+  }
+  return index;
+}
+
+// Find the pool for a token pair on a given DEX
+export function findPool(dex: string, tokenA: TokenInfo, tokenB: TokenInfo): Pool | undefined {
+  return POOLS.find(pool => {
+    const tokens = getPoolTokens(pool);
+    return pool.dex === dex &&
+      tokens.some(token => isSameToken(token, tokenA)) &&
+      tokens.some(token => isSameToken(token, tokenB));
+  });
+}
+
+// Pool on a DEX for one hop of a decoded swap; V3 hops also match the fee tier
+export function findHopPool(dex: string, tokenIn: TokenInfo, tokenOut: TokenInfo, fee?: number): Pool | undefined {
+  if (fee === undefined) return findPool(dex, tokenIn, tokenOut);
+  return POOLS.find(pool => {
+    const tokens = getPoolTokens(pool);
+    return pool.dex === dex && pool.type === 'v3' && pool.fee === fee &&
+      tokens.some(token => isSameToken(token, tokenIn)) &&
+      tokens.some(token => isSameToken(token, tokenOut));
+  });
+}
+
+// Sync a V3 pool's price, active liquidity and the initialized ticks near the
+// current tick. Quotes refuse to move the price past the words read here.
+async function loadV3PoolState(pool: V3Pool, provider: ethers.Provider) {
+  const contract = new ethers.Contract(pool.address, V3_POOL_ABI, provider);
+  const [slot0, liquidity] = await Promise.all([contract.slot0(), contract.liquidity()]);
+
+  const tick = Number(slot0.tick);
+  const centerWord = Math.floor(Math.floor(tick / pool.tickSpacing) / 256);
+  const loadedWords = { lower: centerWord - V3_WORD_RADIUS, upper: centerWord + V3_WORD_RADIUS };
+
+  // Issued together so the provider sends each round as one batch
+  const wordPositions = Array.from({ length: loadedWords.upper - loadedWords.lower + 1 }, (_, i) => loadedWords.lower + i);
+  const words: bigint[] = await Promise.all(wordPositions.map(async wordPos => BigInt(await contract.tickBitmap(wordPos))));
+
+  const initializedTicks: number[] = [];
+  words.forEach((word, i) => {
+    for (let bit = 0; bit < 256; bit++) {
+      if ((word & (1n << BigInt(bit))) !== 0n) {
+        initializedTicks.push((wordPositions[i] * 256 + bit) * pool.tickSpacing);
+      }
+    }
+  });
+  const infos = await Promise.all(initializedTicks.map(initializedTick => contract.ticks(initializedTick)));
+
+  const ticks = new Map<number, bigint>();
+  const tickBitmap = new Map<number, bigint>();
+  initializedTicks.forEach((initializedTick, i) => {
+    ticks.set(initializedTick, BigInt(infos[i].liquidityNet));
+    flipTick(tickBitmap, initializedTick, pool.tickSpacing);
+  });
+
+  pool.sqrtPriceX96 = BigInt(slot0.sqrtPriceX96);
+  pool.tick = tick;
+  pool.liquidity = BigInt(liquidity);
+  pool.ticks = ticks;
+  pool.tickBitmap = tickBitmap;
+  pool.loadedWords = loadedWords;
+}
+
+// Sync a StableSwap pool's balances, amplification and fee
+async function loadCurvePoolState(pool: CurvePool, provider: ethers.Provider) {
+  const contract = new ethers.Contract(pool.address, CURVE_POOL_ABI, provider);
+  const [amp, fee, balances] = await Promise.all([
+    contract.A(),
+    contract.fee(),
+    Promise.all(pool.coins.map((_, i) => contract.balances(i))),
+  ]);
+
+  // Older pools charge a static fee and have no off-peg multiplier
+  let offpegFeeMultiplier = CURVE_FEE_DENOMINATOR;
+  try {
+    offpegFeeMultiplier = BigInt(await contract.offpeg_fee_multiplier());
+  } catch {
+    // keep the static fee
+  }
+
+  pool.amp = BigInt(amp);
+  pool.fee = BigInt(fee);
+  pool.balances = balances.map((balance: bigint) => BigInt(balance));
+  pool.offpegFeeMultiplier = offpegFeeMultiplier;
+}
+
+// Sync a weighted pool's balances from the Vault, plus its weights and swap fee
+async function loadBalancerPoolState(pool: BalancerPool, provider: ethers.Provider) {
+  const contract = new ethers.Contract(pool.address, BALANCER_POOL_ABI, provider);
+  const vault = new ethers.Contract(requireDex(pool.dex).routerAddress, BALANCER_VAULT_ABI, provider);
+  const [weights, swapFee, { tokens, balances }] = await Promise.all([
+    contract.getNormalizedWeights(),
+    contract.getSwapFeePercentage(),
+    vault.getPoolTokens(pool.poolId),
+  ]);
+
+  // Keep our token order, matching Vault entries by address
+  const order = pool.tokens.map(token =>
+    tokens.findIndex((address: string) => address.toLowerCase() === token.address.toLowerCase())
+  );
+  if (order.some(index => index < 0)) {
+    throw new Error('Vault token list does not match pool snapshot');
+  }
+
+  pool.balances = order.map(index => BigInt(balances[index]));
+  pool.weights = order.map(index => BigInt(weights[index]));
+  pool.swapFee = BigInt(swapFee);
+}
+
+// Refresh pool state from chain, keeping the snapshot for any pool that can't be read
+export async function loadPoolState(provider: ethers.Provider) {
+  let updated = 0;
+
+  await Promise.all(POOLS.map(async (pool) => {
+    try {
+      switch (pool.type) {
+        case 'v2': {
+          const pair = new ethers.Contract(pool.address, PAIR_ABI, provider);
+          const [reserve0, reserve1] = await pair.getReserves();
+          pool.reserve0 = BigInt(reserve0);
+          pool.reserve1 = BigInt(reserve1);
+          break;
+        }
+        case 'v3':
+          await loadV3PoolState(pool, provider);
+          break;
+        case 'curve':
+          await loadCurvePoolState(pool, provider);
+          break;
+        case 'balancer':
+          await loadBalancerPoolState(pool, provider);
+          break;
+      }
+      updated++;
+    } catch (error) {
+      console.error(`Failed to load state for ${pool.dex} pool ${pool.address}:`, error);
+    }
+  }));
+
+  return { updated, total: POOLS.length };
+}
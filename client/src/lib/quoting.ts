@@ -0,0 +1,165 @@
+import type { TradeLeg } from '@shared/schema';
+import { Pool, findPool, findPoolByAddress, getTokenIndex } from './pools';
+import { getDexes, requireDex } from './dex-registry';
+import { TOKENS, TokenInfo, findToken, formatTokenAmount, isSameToken } from './tokens';
+import { Q96 } from './uniswap-v3';
+import { getCurrentFee, getMarginalPrice } from './curve-stableswap';
+import { getSpotPrice as getWeightedSpotPrice } from './balancer-weighted';
+
+// A single hop of a route
+export interface RouteLeg {
+  pool: Pool;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+}
+
+// Quote an exact-input swap through one pool, using its DEX's adapter
+export function quoteExactIn(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: bigint): bigint {
+  if (getTokenIndex(pool, tokenIn) === getTokenIndex(pool, tokenOut)) {
+    throw new Error(`Cannot swap ${tokenIn.symbol} for itself`);
+  }
+  return requireDex(pool.dex).quote(pool, tokenIn, tokenOut, amountIn);
+}
+
+// Quote every leg of a route in turn; returns the amount after each hop
+export function quoteRoute(legs: RouteLeg[], amountIn: bigint): bigint[] {
+  const amounts = [amountIn];
+  for (const leg of legs) {
+    amounts.push(quoteExactIn(leg.pool, leg.tokenIn, leg.tokenOut, amounts[amounts.length - 1]));
+  }
+  return amounts;
+}
+
+// Build the legs for a token path on a single DEX
+export function buildRoute(dex: string, path: TokenInfo[]): RouteLeg[] | null {
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i < path.length - 1; i++) {
+    const pool = findPool(dex, path[i], path[i + 1]);
+    if (!pool) return null;
+    legs.push({ pool, tokenIn: path[i], tokenOut: path[i + 1] });
+  }
+  return legs;
+}
+
+// Route that turns amountIn of one token into the most of another on a single
+// DEX, swapping directly or through WETH; null when no DEX connects them
+export function findBestRoute(tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: bigint): RouteLeg[] | null {
+  const paths = [[tokenIn, tokenOut]];
+  if (!isSameToken(tokenIn, TOKENS.WETH) && !isSameToken(tokenOut, TOKENS.WETH)) {
+    paths.push([tokenIn, TOKENS.WETH, tokenOut]);
+  }
+
+  let best: RouteLeg[] | null = null;
+  let bestOut = 0n;
+  for (const dex of getDexes()) {
+    for (const path of paths) {
+      const route = buildRoute(dex.id, path);
+      if (!route) continue;
+      try {
+        const amounts = quoteRoute(route, amountIn);
+        if (amounts[amounts.length - 1] > bestOut) {
+          best = route;
+          bestOut = amounts[amounts.length - 1];
+        }
+      } catch {
+        // too large for this route's pools
+      }
+    }
+  }
+  return best;
+}
+
+// Record a route with the amounts it quotes at the given input, for storage and display
+export function toTradeLegs(legs: RouteLeg[], amountIn: bigint): TradeLeg[] {
+  const amounts = quoteRoute(legs, amountIn);
+  const describe = ({ address, symbol, decimals }: TokenInfo) => ({ address, symbol, decimals });
+
+  return legs.map((leg, i) => ({
+    dex: leg.pool.dex,
+    pool: leg.pool.address,
+    tokenIn: describe(leg.tokenIn),
+    tokenOut: describe(leg.tokenOut),
+    amountIn: amounts[i].toString(),
+    amountOut: amounts[i + 1].toString(),
+  }));
+}
+
+// Rebuild quotable legs from a stored route; null if a pool or token is no longer known
+export function resolveTradeLegs(legs: TradeLeg[]): RouteLeg[] | null {
+  const resolved: RouteLeg[] = [];
+  for (const leg of legs) {
+    const pool = findPoolByAddress(leg.pool);
+    const tokenIn = findToken(leg.tokenIn.address) ?? leg.tokenIn;
+    const tokenOut = findToken(leg.tokenOut.address) ?? leg.tokenOut;
+    if (!pool || pool.dex !== leg.dex) return null;
+    resolved.push({ pool, tokenIn, tokenOut });
+  }
+  return resolved;
+}
+
+// Mid-market price of a pool before fees, in whole-token units (tokenOut per tokenIn)
+export function getMidPrice(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo): number {
+  const i = getTokenIndex(pool, tokenIn);
+  const j = getTokenIndex(pool, tokenOut);
+
+  // Multi-token pools price each pair directly
+  switch (pool.type) {
+    case 'curve':
+      return getMarginalPrice(pool, i, j);
+    case 'balancer':
+      return getWeightedSpotPrice(pool, i, j);
+  }
+
+  // Price of token0 in token1, adjusted for decimals
+  let price0In1: number;
+  switch (pool.type) {
+    case 'v2': {
+      const amount0 = parseFloat(formatTokenAmount(pool.token0, pool.reserve0));
+      const amount1 = parseFloat(formatTokenAmount(pool.token1, pool.reserve1));
+      price0In1 = amount1 / amount0;
+      break;
+    }
+    case 'v3': {
+      const sqrtPrice = Number(pool.sqrtPriceX96) / Number(Q96);
+      price0In1 = sqrtPrice * sqrtPrice * 10 ** (pool.token0.decimals - pool.token1.decimals);
+      break;
+    }
+  }
+
+  return i === 0 ? price0In1 : 1 / price0In1;
+}
+
+// Fee charged on a swap between two of the pool's tokens, as a fraction
+export function getPoolFee(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo): number {
+  switch (pool.type) {
+    case 'v2':
+      return pool.feeBps / 10000;
+    case 'v3':
+      return pool.fee / 1000000;
+    case 'curve':
+      return getCurrentFee(pool, getTokenIndex(pool, tokenIn), getTokenIndex(pool, tokenOut));
+    case 'balancer':
+      return Number(pool.swapFee) / 1e18;
+  }
+}
+
+// Marginal exchange rate of a pool after fees, in whole-token units (tokenOut per tokenIn)
+export function getSpotRate(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo): number {
+  return getMidPrice(pool, tokenIn, tokenOut) * (1 - getPoolFee(pool, tokenIn, tokenOut));
+}
+
+// Mid-market price of a token in ETH, read from the WETH pool on the given DEX
+export function getPriceInEth(token: TokenInfo, dex = 'uniswap'): number {
+  if (isSameToken(token, TOKENS.WETH)) return 1;
+
+  const pool = findPool(dex, token, TOKENS.WETH);
+  if (!pool) {
+    throw new Error(`No ${token.symbol}/WETH pool on ${dex} to price against`);
+  }
+  return getMidPrice(pool, token, TOKENS.WETH);
+}
+
+// Convert a raw token amount to its ETH value
+export function valueInEth(token: TokenInfo, amount: bigint): number {
+  return parseFloat(formatTokenAmount(token, amount)) * getPriceInEth(token);
+}
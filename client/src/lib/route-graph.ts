@@ -0,0 +1,141 @@
+import { Pool, getPoolTokens } from './pools';
+import { RouteLeg, getSpotRate } from './quoting';
+import { TokenInfo, toPoolToken } from './tokens';
+
+// Longest cycle the scanner will consider
+export const DEFAULT_MAX_HOPS = 4;
+
+// Directed edge for one swap direction through a pool, weighted by -log(rate)
+interface GraphEdge {
+  from: string;
+  to: string;
+  pool: Pool;
+  tokenIn: TokenInfo;
+  tokenOut: TokenInfo;
+  weight: number;
+}
+
+export interface TokenGraph {
+  tokens: Map<string, TokenInfo>;
+  edges: GraphEdge[];
+}
+
+function tokenKey(token: TokenInfo): string {
+  return toPoolToken(token).address.toLowerCase();
+}
+
+// Build a token graph with one edge per pool per direction
+export function buildTokenGraph(tokens: TokenInfo[], pools: Pool[]): TokenGraph {
+  const graphTokens = new Map<string, TokenInfo>();
+  for (const token of tokens) {
+    const poolToken = toPoolToken(token);
+    graphTokens.set(tokenKey(poolToken), poolToken);
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const pool of pools) {
+    const poolTokens = getPoolTokens(pool).filter(token => graphTokens.has(tokenKey(token)));
+
+    for (const tokenIn of poolTokens) {
+      for (const tokenOut of poolTokens) {
+        if (tokenIn === tokenOut) continue;
+
+        const rate = getSpotRate(pool, tokenIn, tokenOut);
+        if (!(rate > 0) || !isFinite(rate)) continue;
+
+        edges.push({
+          from: tokenKey(tokenIn),
+          to: tokenKey(tokenOut),
+          pool,
+          tokenIn,
+          tokenOut,
+          weight: -Math.log(rate),
+        });
+      }
+    }
+  }
+
+  return { tokens: graphTokens, edges };
+}
+
+// Hop-limited Bellman-Ford from a single source token. Returns every negative-weight
+// (i.e. profitable before gas) cycle through the source with at most maxHops legs.
+function findCyclesFrom(graph: TokenGraph, source: string, maxHops: number): RouteLeg[][] {
+  // dist[k] / path[k] hold the cheapest known k-hop walk from the source to each token
+  let dist = new Map<string, number>([[source, 0]]);
+  let path = new Map<string, GraphEdge[]>([[source, []]]);
+  const cycles: RouteLeg[][] = [];
+
+  for (let hop = 1; hop <= maxHops; hop++) {
+    const nextDist = new Map<string, number>();
+    const nextPath = new Map<string, GraphEdge[]>();
+
+    for (const edge of graph.edges) {
+      const base = dist.get(edge.from);
+      if (base === undefined) continue;
+
+      const walk = path.get(edge.from)!;
+      const candidate = base + edge.weight;
+
+      // Closing the loop back to the source
+      if (edge.to === source) {
+        if (hop >= 2 && candidate < -1e-12 && !walk.some(step => step.pool === edge.pool)) {
+          cycles.push([...walk, edge].map(step => ({
+            pool: step.pool,
+            tokenIn: step.tokenIn,
+            tokenOut: step.tokenOut,
+          })));
+        }
+        continue;
+      }
+
+      // Keep walks simple: never revisit a token
+      if (walk.some(step => step.from === edge.to)) continue;
+
+      if (candidate < (nextDist.get(edge.to) ?? Infinity)) {
+        nextDist.set(edge.to, candidate);
+        nextPath.set(edge.to, [...walk, edge]);
+      }
+    }
+
+    dist = nextDist;
+    path = nextPath;
+  }
+
+  return cycles;
+}
+
+// Identify a cycle independent of where it starts
+function cycleSignature(legs: RouteLeg[]): string {
+  const steps = legs.map(leg => `${leg.pool.address}:${tokenKey(leg.tokenIn)}`);
+  const rotations = steps.map((_, i) => [...steps.slice(i), ...steps.slice(0, i)].join('|'));
+  return rotations.sort()[0];
+}
+
+// Rotate a cycle so it starts (and ends) at the preferred token when it passes through it
+function rotateToToken(legs: RouteLeg[], token: TokenInfo): RouteLeg[] {
+  const start = legs.findIndex(leg => tokenKey(leg.tokenIn) === tokenKey(token));
+  if (start <= 0) return legs;
+  return [...legs.slice(start), ...legs.slice(0, start)];
+}
+
+// Find all profitable cycles in the graph, deduplicated and starting from the preferred token
+export function findArbitrageCycles(
+  graph: TokenGraph,
+  maxHops = DEFAULT_MAX_HOPS,
+  preferredStart?: TokenInfo
+): RouteLeg[][] {
+  const seen = new Set<string>();
+  const cycles: RouteLeg[][] = [];
+
+  for (const source of Array.from(graph.tokens.keys())) {
+    for (const cycle of findCyclesFrom(graph, source, maxHops)) {
+      const signature = cycleSignature(cycle);
+      if (seen.has(signature)) continue;
+      seen.add(signature);
+      cycles.push(preferredStart ? rotateToToken(cycle, preferredStart) : cycle);
+    }
+  }
+
+  return cycles;
+}
@@ -0,0 +1,20 @@
+// Mainnet node used for reads and sends.
+// ETHEREUM_RPC_URL points anywhere (a local node, the mock node in dev);
+// otherwise we fall back to Infura when a key is configured.
+export function getRpcUrl(): string | null {
+  const env = typeof process !== 'undefined' ? process.env : {};
+  if (env.ETHEREUM_RPC_URL) return env.ETHEREUM_RPC_URL;
+  if (env.INFURA_API_KEY) return `https://mainnet.infura.io/v3/${env.INFURA_API_KEY}`;
+  return null;
+}
+
+// WebSocket endpoint of the same node, for subscriptions. ETHEREUM_WS_URL wins;
+// otherwise the RPC URL's scheme is swapped, which suits local nodes and the
+// mock node, and Infura's has its own path.
+export function getWsRpcUrl(): string | null {
+  const env = typeof process !== 'undefined' ? process.env : {};
+  if (env.ETHEREUM_WS_URL) return env.ETHEREUM_WS_URL;
+  if (env.ETHEREUM_RPC_URL) return env.ETHEREUM_RPC_URL.replace(/^http(s?):\/\//, 'ws$1://');
+  if (env.INFURA_API_KEY) return `wss://mainnet.infura.io/ws/v3/${env.INFURA_API_KEY}`;
+  return null;
+}
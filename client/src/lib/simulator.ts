@@ -0,0 +1,211 @@
+import { ethers } from 'ethers';
+import { MAINNET_CHAIN_ID, TOKENS, TokenInfo, toPoolToken } from './tokens';
+
+// Local anvil or hardhat fork
+export const DEFAULT_SIMULATION_RPC_URL = 'http://127.0.0.1:8545';
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// A call to simulate, as it would be sent
+export interface SimulationCall {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface BalanceDelta {
+  token: TokenInfo;
+  delta: bigint; // for ETH, excludes the gas the simulation paid
+}
+
+export interface SimulationResult {
+  success: boolean;
+  gasUsed: number;
+  error: string | null; // decoded revert reason
+  failedCall: number | null; // index of the call that reverted
+  balanceDeltas: BalanceDelta[];
+  forked: boolean; // calls ran in sequence on a fork, rather than one eth_call
+}
+
+// Human-readable reason for a failed call: the revert string, panic or custom error
+export function decodeRevertReason(error: unknown): string {
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    if (error.reason) return error.reason;
+    if (error.revert) return `${error.revert.name}(${error.revert.args.join(', ')})`;
+    if (error.data && error.data !== '0x') return `Custom error ${error.data.slice(0, 10)}`;
+    return error.shortMessage;
+  }
+  return (error as Error).message;
+}
+
+// Runs transactions against a JSON-RPC node before they are sent for real.
+// On a fork the calls are executed in order as the sender and then rolled back,
+// so later calls see earlier approvals and swaps; elsewhere a single call is
+// checked with eth_estimateGas.
+export class TransactionSimulator {
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(public readonly rpcUrl = DEFAULT_SIMULATION_RPC_URL, chainId = MAINNET_CHAIN_ID) {
+    // Fork state changes between identical requests, so nothing may be served from cache
+    this.provider = new ethers.JsonRpcProvider(rpcUrl, chainId, {
+      staticNetwork: ethers.Network.from(chainId),
+      cacheTimeout: -1,
+    });
+  }
+
+  // Simulate calls sent in order from one address, tracking its balances of the given tokens.
+  // Signed transactions from others, such as a swap being backrun, can be mined first.
+  async simulate(
+    from: string,
+    calls: SimulationCall[],
+    tokens: TokenInfo[] = [],
+    precedingTransactions: string[] = []
+  ): Promise<SimulationResult> {
+    // Anvil and hardhat both name a snapshot with a hex quantity
+    const snapshot = await this.trySend('evm_snapshot', []);
+    if (!snapshot || typeof snapshot.result !== 'string') {
+      if (precedingTransactions.length > 0) {
+        return this.failure('Replaying pending transactions needs a fork that supports evm_snapshot (anvil or hardhat)', null, 0, false);
+      }
+      return this.estimateOnly(from, calls);
+    }
+
+    try {
+      const replayError = await this.replay(precedingTransactions);
+      if (replayError) return this.failure(replayError, null, 0, true);
+
+      await this.impersonate(from);
+      const watched = this.uniqueTokens(tokens);
+      const before = await this.getBalances(from, watched);
+
+      let gasUsed = 0;
+      let gasPaid = 0n;
+      for (let i = 0; i < calls.length; i++) {
+        const tx = { from, to: calls[i].to, data: calls[i].data, value: calls[i].value ?? 0n };
+
+        let gasLimit: bigint;
+        try {
+          gasLimit = await this.provider.estimateGas(tx);
+        } catch (error) {
+          return this.failure(decodeRevertReason(error), i, gasUsed, true);
+        }
+
+        const hash: string = await this.provider.send('eth_sendTransaction', [{
+          from,
+          to: tx.to,
+          data: tx.data,
+          value: ethers.toQuantity(tx.value),
+          gas: ethers.toQuantity((gasLimit * 12n) / 10n),
+        }]);
+        const receipt = await this.provider.waitForTransaction(hash, 1, 30000);
+        if (!receipt) {
+          return this.failure(`Fork did not mine simulated call ${hash}`, i, gasUsed, true);
+        }
+        gasUsed += Number(receipt.gasUsed);
+        gasPaid += receipt.gasUsed * receipt.gasPrice;
+        if (receipt.status !== 1) {
+          return this.failure(`Call reverted on the fork: ${hash}`, i, gasUsed, true);
+        }
+      }
+
+      const after = await this.getBalances(from, watched);
+      const balanceDeltas = watched.map((token, k) => ({
+        token,
+        delta: after[k] - before[k] + (token.address === TOKENS.ETH.address ? gasPaid : 0n),
+      }));
+      return { success: true, gasUsed, error: null, failedCall: null, balanceDeltas, forked: true };
+    } finally {
+      await this.trySend('evm_revert', [snapshot.result]);
+    }
+  }
+
+  // Mine signed transactions on the fork ahead of our calls; returns why one could not be
+  private async replay(transactions: string[]): Promise<string | null> {
+    if (transactions.length === 0) return null;
+    for (const raw of transactions) {
+      // Already pending when the fork shares a mempool with the chain we watch
+      await this.trySend('eth_sendRawTransaction', [raw]);
+    }
+    await this.trySend('evm_mine', []);
+
+    for (const raw of transactions) {
+      const hash = ethers.Transaction.from(raw).hash!;
+      if (!await this.provider.getTransactionReceipt(hash)) {
+        return `Fork did not mine pending transaction ${hash}`;
+      }
+    }
+    return null;
+  }
+
+  // Without a fork we can only check a call against current state
+  private async estimateOnly(from: string, calls: SimulationCall[]): Promise<SimulationResult> {
+    if (calls.length > 1) {
+      return this.failure(
+        `Simulating ${calls.length} dependent calls needs a fork that supports evm_snapshot (anvil or hardhat)`,
+        null, 0, false
+      );
+    }
+
+    const [call] = calls;
+    try {
+      const gasUsed = await this.provider.estimateGas({ from, to: call.to, data: call.data, value: call.value ?? 0n });
+      return { success: true, gasUsed: Number(gasUsed), error: null, failedCall: null, balanceDeltas: [], forked: false };
+    } catch (error) {
+      return this.failure(decodeRevertReason(error), 0, 0, false);
+    }
+  }
+
+  private failure(error: string, failedCall: number | null, gasUsed: number, forked: boolean): SimulationResult {
+    return { success: false, gasUsed, error, failedCall, balanceDeltas: [], forked };
+  }
+
+  // Send a JSON-RPC request the node may not support; null if it does not
+  private async trySend(method: string, params: unknown[]): Promise<{ result: unknown } | null> {
+    try {
+      return { result: await this.provider.send(method, params) };
+    } catch {
+      return null;
+    }
+  }
+
+  // Let the fork send from our wallet without its key
+  private async impersonate(address: string) {
+    const impersonated = await this.trySend('anvil_impersonateAccount', [address])
+      || await this.trySend('hardhat_impersonateAccount', [address]);
+    if (!impersonated) {
+      throw new Error(`Simulation node at ${this.rpcUrl} cannot impersonate ${address}`);
+    }
+  }
+
+  // ETH plus each distinct ERC20, with WETH kept apart from ETH
+  private uniqueTokens(tokens: TokenInfo[]): TokenInfo[] {
+    const unique = new Map<string, TokenInfo>();
+    for (const token of tokens) {
+      unique.set(token.address.toLowerCase(), token);
+    }
+    return Array.from(unique.values());
+  }
+
+  private async getBalances(owner: string, tokens: TokenInfo[]): Promise<bigint[]> {
+    return Promise.all(tokens.map(token => {
+      if (token.address === TOKENS.ETH.address) {
+        return this.provider.getBalance(owner);
+      }
+      const contract = new ethers.Contract(toPoolToken(token).address, ERC20_BALANCE_ABI, this.provider);
+      return contract.balanceOf(owner) as Promise<bigint>;
+    }));
+  }
+}
+
+// Singleton instance
+let simulatorInstance: TransactionSimulator | null = null;
+
+export function initSimulator(rpcUrl?: string) {
+  const url = rpcUrl || (typeof process !== 'undefined' ? process.env.SIMULATION_RPC_URL : undefined);
+  simulatorInstance = new TransactionSimulator(url || DEFAULT_SIMULATION_RPC_URL);
+  return simulatorInstance;
+}
+
+export function getSimulator() {
+  return simulatorInstance ?? initSimulator();
+}
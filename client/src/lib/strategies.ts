@@ -0,0 +1,135 @@
+import { ethers } from 'ethers';
+import type { Transaction } from '@shared/schema';
+import type { ArbitrageOpportunity } from './arbitrage';
+import type { BuiltTransaction, ExecutionOptions } from './execution-builder';
+
+// botSettings.strategy value that runs every registered strategy
+export const ALL_STRATEGIES = 'all';
+
+// A number a strategy reads from its stored parameters
+export interface StrategyParameter {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export type StrategyParams = Record<string, number>;
+
+export interface Strategy {
+  id: string; // stored in botSettings.strategy and as the key of its parameters
+  name: string;
+  description: string;
+  parameters: StrategyParameter[];
+  // Find opportunities in the current market state
+  detect(params: StrategyParams): Promise<ArbitrageOpportunity[]>;
+  // Why an opportunity should no longer be executed; null when it still should
+  validate(opportunity: ArbitrageOpportunity, params: StrategyParams): Promise<string | null>;
+  buildExecution(opportunity: ArbitrageOpportunity, options: ExecutionOptions): BuiltTransaction;
+  // Profit in ETH to book for one of its transactions once the receipt watcher has settled it
+  accountTrade(transaction: Transaction): number;
+}
+
+// Running totals of what a strategy has executed since the server started
+export interface StrategyStats {
+  trades: number;
+  failed: number;
+  profitEth: number;
+  lastTrade: Date | null;
+}
+
+const STRATEGY_REGISTRY = new Map<string, Strategy>();
+const STRATEGY_STATS = new Map<string, StrategyStats>();
+
+// Register a strategy so it can be selected, detected and executed
+export function registerStrategy(strategy: Strategy) {
+  if (strategy.id === ALL_STRATEGIES || STRATEGY_REGISTRY.has(strategy.id)) {
+    throw new Error(`Strategy ${strategy.id} is already registered`);
+  }
+  STRATEGY_REGISTRY.set(strategy.id, strategy);
+}
+
+export function getStrategy(id: string): Strategy | undefined {
+  return STRATEGY_REGISTRY.get(id);
+}
+
+export function requireStrategy(id: string): Strategy {
+  const strategy = STRATEGY_REGISTRY.get(id);
+  if (!strategy) throw new Error(`Unknown strategy: ${id}`);
+  return strategy;
+}
+
+// All registered strategies, in the order they were registered
+export function getStrategies(): Strategy[] {
+  return Array.from(STRATEGY_REGISTRY.values());
+}
+
+export function isStrategySelection(selection: string): boolean {
+  return selection === ALL_STRATEGIES || STRATEGY_REGISTRY.has(selection);
+}
+
+// Strategies enabled by a botSettings.strategy value
+export function getActiveStrategies(selection: string): Strategy[] {
+  if (selection === ALL_STRATEGIES) return getStrategies();
+  const strategy = STRATEGY_REGISTRY.get(selection);
+  if (!strategy) {
+    console.warn(`Strategy "${selection}" is not registered; nothing will be detected`);
+    return [];
+  }
+  return [strategy];
+}
+
+// Stored parameters over the strategy's defaults, each kept within its bounds
+export function resolveStrategyParams(strategy: Strategy, stored: Record<string, number> = {}): StrategyParams {
+  const params: StrategyParams = {};
+  for (const { key, defaultValue, min, max } of strategy.parameters) {
+    const value = Number.isFinite(stored[key]) ? stored[key] : defaultValue;
+    params[key] = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, value));
+  }
+  return params;
+}
+
+// Gas a trade actually paid, from its receipt when we have one, in ETH. The
+// calls bundled before it landed in the same block at the same price.
+export function gasPaidEth(transaction: Transaction): number {
+  if (transaction.gasUsed !== null && transaction.effectiveGasPrice !== null) {
+    const gasUsed = BigInt(transaction.gasUsed + (transaction.setupGasUsed ?? 0));
+    return Number(ethers.formatEther(gasUsed * BigInt(transaction.effectiveGasPrice)));
+  }
+  return parseFloat(transaction.gasCostEth);
+}
+
+// What a settled trade made, in ETH: for a confirmed one, what its block left
+// in the wallet as measured from its balances, or its estimate less all the gas
+// paid when they could not be read; a reverted one only paid gas
+export function realizedProfitEth(transaction: Transaction): number {
+  switch (transaction.status) {
+    case 'Confirmed':
+      return transaction.realizedProfitEth !== null
+        ? parseFloat(transaction.realizedProfitEth)
+        : parseFloat(transaction.profitEth) - gasPaidEth(transaction);
+    case 'Reverted':
+      return -gasPaidEth(transaction);
+    default:
+      return 0;
+  }
+}
+
+// Book a settled transaction against its strategy; returns the profit booked, in ETH
+export function recordTrade(strategy: Strategy, transaction: Transaction): number {
+  const profitEth = strategy.accountTrade(transaction);
+  const stats = getStrategyStats(strategy.id);
+  STRATEGY_STATS.set(strategy.id, {
+    trades: stats.trades + 1,
+    failed: stats.failed + (transaction.status !== 'Confirmed' ? 1 : 0),
+    profitEth: stats.profitEth + profitEth,
+    lastTrade: new Date(),
+  });
+  return profitEth;
+}
+
+export function getStrategyStats(id: string): StrategyStats {
+  return STRATEGY_STATS.get(id) ?? { trades: 0, failed: 0, profitEth: 0, lastTrade: null };
+}
@@ -0,0 +1,358 @@
+import { ethers } from 'ethers';
+import type { SwapIntentKind, SwapRouter } from '@shared/schema';
+import { decodeV3Path, getDex, getDexes } from './dex-registry';
+import { findHopPool } from './pools';
+import { findToken } from './tokens';
+
+// Uniswap routers with no DEX adapter of their own
+export const SWAP_ROUTER_ADDRESS = '0xE592427A0AEce92De3Edee1F18E0157C05861564';
+export const UNIVERSAL_ROUTER_ADDRESSES = [
+  '0xEf1c6E67703c7BD7107eed8303Fbe6EC2554BF6B',
+  '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD',
+];
+
+// Registered DEXes whose pools those routers trade through
+const UNISWAP_V2_DEX = 'uniswap';
+const UNISWAP_V3_DEX = 'uniswapV3';
+
+// Recipients the routers read as "the caller" and "the router itself"; the
+// original SwapRouter also keeps what is sent to the zero address
+const MSG_SENDER = '0x0000000000000000000000000000000000000001';
+const ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+// A Universal Router amount meaning "everything the router holds"
+const CONTRACT_BALANCE = 1n << 255n;
+
+// Universal Router commands we read; the top bits of a command byte are flags
+const COMMAND_TYPE_MASK = 0x3f;
+const V3_SWAP_EXACT_IN = 0x00;
+const V3_SWAP_EXACT_OUT = 0x01;
+const SWEEP = 0x04;
+const V2_SWAP_EXACT_IN = 0x08;
+const V2_SWAP_EXACT_OUT = 0x09;
+const WRAP_ETH = 0x0b;
+const UNWRAP_WETH = 0x0c;
+
+const V2_ROUTER_ABI = [
+  'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline)',
+  'function swapTokensForExactTokens(uint amountOut, uint amountInMax, address[] path, address to, uint deadline)',
+  'function swapExactETHForTokens(uint amountOutMin, address[] path, address to, uint deadline) payable',
+  'function swapTokensForExactETH(uint amountOut, uint amountInMax, address[] path, address to, uint deadline)',
+  'function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline)',
+  'function swapETHForExactTokens(uint amountOut, address[] path, address to, uint deadline) payable',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint amountOutMin, address[] path, address to, uint deadline) payable',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline)',
+];
+
+// The original SwapRouter: every swap carries its own deadline
+const SWAP_ROUTER_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params) payable',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params) payable',
+  'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params) payable',
+  'function multicall(bytes[] data) payable',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function sweepToken(address token, uint256 amountMinimum, address recipient) payable',
+];
+
+// SwapRouter02: the deadline moves to multicall, and V2 swaps go through it too
+const SWAP_ROUTER_02_ABI = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params) payable',
+  'function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params) payable',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to) payable',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to) payable',
+  'function multicall(uint256 deadline, bytes[] data) payable',
+  'function multicall(bytes32 previousBlockhash, bytes[] data) payable',
+  'function multicall(bytes[] data) payable',
+  'function unwrapWETH9(uint256 amountMinimum, address recipient) payable',
+  'function unwrapWETH9(uint256 amountMinimum) payable',
+  'function sweepToken(address token, uint256 amountMinimum, address recipient) payable',
+  'function sweepToken(address token, uint256 amountMinimum) payable',
+];
+
+const UNIVERSAL_ROUTER_ABI = [
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline) payable',
+  'function execute(bytes commands, bytes[] inputs) payable',
+];
+
+const v2Router = new ethers.Interface(V2_ROUTER_ABI);
+const swapRouter = new ethers.Interface(SWAP_ROUTER_ABI);
+const swapRouter02 = new ethers.Interface(SWAP_ROUTER_02_ABI);
+const universalRouter = new ethers.Interface(UNIVERSAL_ROUTER_ABI);
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+// A call as it sits in the mempool
+export interface RouterCall {
+  from: string;
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+// One swap a pending call will make
+export interface DecodedSwapIntent {
+  router: SwapRouter;
+  routerAddress: string;
+  dex: string | null;
+  kind: SwapIntentKind;
+  path: string[]; // token addresses, tokenIn first
+  fees?: number[];
+  amountIn: bigint | null; // the most spent, for exact output; null when it spends an earlier swap's output we could not quote
+  amountOut: bigint; // the least accepted, for exact input
+  recipient: string;
+  deadline: number | null; // unix seconds
+}
+
+type Swap = Omit<DecodedSwapIntent, 'router' | 'routerAddress'>;
+
+// The router a call goes to, and the DEX it trades on when there is only one
+function findRouter(address: string): { router: SwapRouter; dex: string | null } | null {
+  const lower = address.toLowerCase();
+  const adapter = getDexes().find(dex => dex.routerAddress.toLowerCase() === lower);
+  if (adapter?.poolType === 'v2') return { router: 'uniswap_v2_router', dex: adapter.id };
+  if (adapter?.poolType === 'v3') return { router: 'uniswap_v3_swap_router_02', dex: adapter.id };
+  if (lower === SWAP_ROUTER_ADDRESS.toLowerCase()) return { router: 'uniswap_v3_swap_router', dex: UNISWAP_V3_DEX };
+  if (UNIVERSAL_ROUTER_ADDRESSES.some(router => router.toLowerCase() === lower)) {
+    return { router: 'universal_router', dex: null };
+  }
+  return null;
+}
+
+export function isSwapRouter(address: string | null | undefined): boolean {
+  return Boolean(address && findRouter(address));
+}
+
+function parse(router: ethers.Interface, data: string, value: bigint): ethers.TransactionDescription | null {
+  try {
+    return router.parseTransaction({ data, value });
+  } catch {
+    return null;
+  }
+}
+
+function hasDeadline(parsed: ethers.TransactionDescription): boolean {
+  return parsed.fragment.inputs[0].components?.some(input => input.name === 'deadline') ?? false;
+}
+
+// The V2 router's swaps, and SwapRouter02's copies of two of them without a deadline
+function decodeV2Swap(parsed: ethers.TransactionDescription, value: bigint, dex: string | null): Swap | null {
+  const args = parsed.args;
+  const deadline = (index: number) => (parsed.fragment.inputs.length > index ? Number(args[index]) : null);
+  const swap = (kind: SwapIntentKind, amountIn: bigint, amountOut: bigint, path: string[], recipient: string, deadlineAt: number | null): Swap =>
+    ({ dex, kind, path: Array.from(path), amountIn, amountOut, recipient, deadline: deadlineAt });
+
+  switch (parsed.name.replace('SupportingFeeOnTransferTokens', '')) {
+    case 'swapExactTokensForTokens':
+    case 'swapExactTokensForETH':
+      return swap('exact_in', args[0], args[1], args[2], args[3], deadline(4));
+    case 'swapExactETHForTokens':
+      return swap('exact_in', value, args[0], args[1], args[2], deadline(3));
+    case 'swapTokensForExactTokens':
+    case 'swapTokensForExactETH':
+      return swap('exact_out', args[1], args[0], args[2], args[3], deadline(4));
+    case 'swapETHForExactTokens':
+      return swap('exact_out', value, args[0], args[1], args[2], deadline(3));
+  }
+  return null;
+}
+
+// A V3 path is packed, and from tokenOut back for exact output; a V2 path is a list
+function readPath(v3: boolean, path: string | string[], exactOut: boolean): { path: string[]; fees?: number[] } {
+  if (!v3) return { path: Array.from(path as string[]) };
+  const decoded = decodeV3Path(path as string);
+  return exactOut ? { path: decoded.path.reverse(), fees: decoded.fees.reverse() } : decoded;
+}
+
+// SwapRouter and SwapRouter02 swaps
+function decodeV3Swap(parsed: ethers.TransactionDescription, dex: string | null): Swap | null {
+  const params = parsed.args[0];
+  const deadline = hasDeadline(parsed) ? Number(params.deadline) : null;
+  switch (parsed.name) {
+    case 'exactInputSingle':
+      return { dex, kind: 'exact_in', path: [params.tokenIn, params.tokenOut], fees: [Number(params.fee)], amountIn: params.amountIn, amountOut: params.amountOutMinimum, recipient: params.recipient, deadline };
+    case 'exactInput':
+      return { dex, kind: 'exact_in', ...readPath(true, params.path, false), amountIn: params.amountIn, amountOut: params.amountOutMinimum, recipient: params.recipient, deadline };
+    case 'exactOutputSingle':
+      return { dex, kind: 'exact_out', path: [params.tokenIn, params.tokenOut], fees: [Number(params.fee)], amountIn: params.amountInMaximum, amountOut: params.amountOut, recipient: params.recipient, deadline };
+    case 'exactOutput':
+      return { dex, kind: 'exact_out', ...readPath(true, params.path, true), amountIn: params.amountInMaximum, amountOut: params.amountOut, recipient: params.recipient, deadline };
+  }
+  return null;
+}
+
+// Swaps paid to the router are passed on by a later unwrap or sweep; credit its recipient
+function forwardFromRouter(swaps: Swap[], routerAddress: string, recipient: string) {
+  const router = [routerAddress.toLowerCase(), ADDRESS_THIS, ethers.ZeroAddress];
+  for (const swap of swaps) {
+    if (router.includes(swap.recipient.toLowerCase())) swap.recipient = recipient;
+  }
+}
+
+// SwapRouter and SwapRouter02 calls, reading into multicalls
+function decodeSwapRouterCall(router: ethers.Interface, call: RouterCall, dex: string | null): Swap[] {
+  const parsed = parse(router, call.data, call.value);
+  if (!parsed) return [];
+
+  if (parsed.name === 'multicall') {
+    const inner: string[] = parsed.args[parsed.args.length - 1];
+    const deadline = parsed.fragment.inputs[0].type === 'uint256' ? Number(parsed.args[0]) : null;
+    const swaps: Swap[] = [];
+    for (const data of inner) {
+      const step = parse(router, data, call.value);
+      if (step?.name === 'unwrapWETH9' || step?.name === 'sweepToken') {
+        const recipientIndex = step.name === 'unwrapWETH9' ? 1 : 2;
+        forwardFromRouter(swaps, call.to, step.args.length > recipientIndex ? step.args[recipientIndex] : MSG_SENDER);
+        continue;
+      }
+      for (const swap of decodeSwapRouterCall(router, { ...call, data }, dex)) {
+        swaps.push({ ...swap, deadline: swap.deadline ?? deadline });
+      }
+    }
+    return swaps;
+  }
+
+  const swap = parsed.name.startsWith('exact')
+    ? decodeV3Swap(parsed, dex)
+    : decodeV2Swap(parsed, call.value, UNISWAP_V2_DEX);
+  return swap ? [swap] : [];
+}
+
+// A Universal Router execute: each command byte runs with its input. Amounts of
+// CONTRACT_BALANCE spend what earlier commands left in the router: an
+// exact-input swap's output is quoted, as its minimum is not what it returns.
+function decodeUniversalRouterCall(call: RouterCall): Swap[] {
+  const parsed = parse(universalRouter, call.data, call.value);
+  if (!parsed) return [];
+
+  const commands = ethers.getBytes(parsed.args[0]);
+  const inputs: string[] = parsed.args[1];
+  const deadline = parsed.args.length > 2 ? Number(parsed.args[2]) : null;
+  const swaps: Swap[] = [];
+  let routerBalance: bigint | null = 0n;
+  const amount = (value: bigint) => (value === CONTRACT_BALANCE ? routerBalance : value);
+
+  commands.forEach((command, i) => {
+    const input = inputs[i];
+    switch (command & COMMAND_TYPE_MASK) {
+      case WRAP_ETH: {
+        const [, amountMin] = abiCoder.decode(['address', 'uint256'], input);
+        routerBalance = amountMin === CONTRACT_BALANCE ? call.value : amountMin;
+        break;
+      }
+      case V3_SWAP_EXACT_IN:
+      case V3_SWAP_EXACT_OUT:
+      case V2_SWAP_EXACT_IN:
+      case V2_SWAP_EXACT_OUT: {
+        const type = command & COMMAND_TYPE_MASK;
+        const v3 = type === V3_SWAP_EXACT_IN || type === V3_SWAP_EXACT_OUT;
+        const exactOut = type === V3_SWAP_EXACT_OUT || type === V2_SWAP_EXACT_OUT;
+        // (recipient, exact amount, its limit, path, payerIsUser)
+        const [recipient, exact, limit, path] = abiCoder.decode(['address', 'uint256', 'uint256', v3 ? 'bytes' : 'address[]', 'bool'], input);
+        const swap: Swap = {
+          dex: v3 ? UNISWAP_V3_DEX : UNISWAP_V2_DEX,
+          kind: exactOut ? 'exact_out' : 'exact_in',
+          ...readPath(v3, path, exactOut),
+          amountIn: amount(exactOut ? limit : exact),
+          amountOut: exactOut ? exact : limit,
+          recipient,
+          deadline,
+        };
+        swaps.push(swap);
+        routerBalance = exactOut ? exact : quoteSwapOutput(swap);
+        break;
+      }
+      case UNWRAP_WETH: {
+        const [recipient] = abiCoder.decode(['address', 'uint256'], input);
+        forwardFromRouter(swaps, call.to, recipient);
+        break;
+      }
+      case SWEEP: {
+        const [, recipient] = abiCoder.decode(['address', 'address', 'uint256'], input);
+        forwardFromRouter(swaps, call.to, recipient);
+        break;
+      }
+    }
+  });
+  return swaps;
+}
+
+// Read the swaps a call to one of the routers we know will make; empty for
+// anything else, including calls whose calldata does not decode
+export function decodeSwapIntents(call: RouterCall): DecodedSwapIntent[] {
+  const known = findRouter(call.to);
+  if (!known) return [];
+
+  let swaps: Swap[];
+  try {
+    switch (known.router) {
+      case 'uniswap_v2_router': {
+        const parsed = parse(v2Router, call.data, call.value);
+        const swap = parsed && decodeV2Swap(parsed, call.value, known.dex);
+        swaps = swap ? [swap] : [];
+        break;
+      }
+      case 'uniswap_v3_swap_router':
+        swaps = decodeSwapRouterCall(swapRouter, call, known.dex);
+        break;
+      case 'uniswap_v3_swap_router_02':
+        swaps = decodeSwapRouterCall(swapRouter02, call, known.dex);
+        break;
+      case 'universal_router':
+        swaps = decodeUniversalRouterCall(call);
+        break;
+    }
+  } catch (error) {
+    console.error(`Could not decode a ${known.router} call from ${call.from}:`, error);
+    return [];
+  }
+
+  // The routers' placeholder recipients stand for the caller and the router itself
+  const resolve = (recipient: string) => {
+    if (recipient.toLowerCase() === MSG_SENDER) return call.from;
+    if (recipient.toLowerCase() === ADDRESS_THIS || recipient === ethers.ZeroAddress) return call.to;
+    return recipient;
+  };
+  return swaps
+    .filter(swap => swap.path.length >= 2)
+    .map(swap => ({
+      ...swap,
+      router: known.router,
+      routerAddress: ethers.getAddress(call.to),
+      path: swap.path.map(address => ethers.getAddress(address)),
+      recipient: ethers.getAddress(resolve(swap.recipient)),
+    }));
+}
+
+// What an exact-input swap returns at current pool prices; null for
+// exact-output swaps and for tokens or pools we do not price
+function quoteSwapOutput(swap: Pick<Swap, 'dex' | 'kind' | 'path' | 'fees' | 'amountIn'>): bigint | null {
+  if (swap.kind !== 'exact_in' || !swap.dex || swap.amountIn === null || swap.amountIn <= 0n) return null;
+
+  let amount = swap.amountIn;
+  for (let i = 0; i < swap.path.length - 1; i++) {
+    const [tokenIn, tokenOut] = [findToken(swap.path[i]), findToken(swap.path[i + 1])];
+    if (!tokenIn || !tokenOut) return null;
+    const pool = findHopPool(swap.dex, tokenIn, tokenOut, swap.fees?.[i]);
+    const adapter = pool && getDex(pool.dex);
+    if (!pool || !adapter) return null;
+    try {
+      amount = adapter.quote(pool, tokenIn, tokenOut, amount);
+    } catch {
+      return null; // more than the pool can fill
+    }
+  }
+  return amount > 0n ? amount : null;
+}
+
+// How far below the current quote an exact-input swap's minimum output sits,
+// in basis points: the slippage its sender allowed. Null for exact-output
+// swaps and for tokens or pools we do not price.
+export function estimateSlippageBps(intent: DecodedSwapIntent): number | null {
+  const amount = quoteSwapOutput(intent);
+  if (amount === null) return null;
+  const slippage = ((amount - intent.amountOut) * 10000n) / amount;
+  return Number(slippage > 0n ? slippage : 0n);
+}
@@ -0,0 +1,101 @@
+import { ethers } from 'ethers';
+import type { TokenList } from '@shared/schema';
+
+export const MAINNET_CHAIN_ID = 1;
+
+// Token metadata
+export interface TokenInfo {
+  address: string;
+  decimals: number;
+  symbol: string;
+  chainId?: number; // mainnet when omitted
+  name?: string;
+  tags?: string[];
+}
+
+// Common tokens
+export const TOKENS = {
+  ETH: { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', decimals: 18, symbol: 'ETH' },
+  WETH: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', decimals: 18, symbol: 'WETH' },
+  USDT: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', decimals: 6, symbol: 'USDT' },
+  USDC: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6, symbol: 'USDC' },
+  DAI: { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', decimals: 18, symbol: 'DAI' },
+  WBTC: { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', decimals: 8, symbol: 'WBTC' },
+  stETH: { address: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84', decimals: 18, symbol: 'stETH' },
+} satisfies Record<string, TokenInfo>;
+
+// Pools never hold native ETH, so route through WETH instead
+export function toPoolToken(token: TokenInfo): TokenInfo {
+  return token.address === TOKENS.ETH.address ? TOKENS.WETH : token;
+}
+
+export function isSameToken(a: TokenInfo, b: TokenInfo): boolean {
+  return toPoolToken(a).address.toLowerCase() === toPoolToken(b).address.toLowerCase();
+}
+
+// Every token we know the decimals of, keyed by chain and lowercase address
+const TOKEN_REGISTRY = new Map<string, TokenInfo>();
+
+function registryKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+// Add or replace a token in the registry
+export function registerToken(token: TokenInfo) {
+  const chainId = token.chainId ?? MAINNET_CHAIN_ID;
+  TOKEN_REGISTRY.set(registryKey(chainId, token.address), { ...token, chainId });
+}
+
+export function registerTokens(tokens: TokenInfo[]) {
+  tokens.forEach(registerToken);
+}
+
+// Register every token in a token-list document, optionally limited to one chain.
+// Returns the number of tokens registered.
+export function loadTokenList(list: TokenList, chainId?: number): number {
+  const tokens = list.tokens.filter(token => chainId === undefined || token.chainId === chainId);
+  registerTokens(tokens);
+  return tokens.length;
+}
+
+export function getRegisteredTokens(chainId = MAINNET_CHAIN_ID): TokenInfo[] {
+  return Array.from(TOKEN_REGISTRY.values()).filter(token => token.chainId === chainId);
+}
+
+// Look a token up by address, or by symbol when the symbol is unambiguous
+export function findToken(addressOrSymbol: string, chainId = MAINNET_CHAIN_ID): TokenInfo | undefined {
+  if (ethers.isAddress(addressOrSymbol)) {
+    return TOKEN_REGISTRY.get(registryKey(chainId, addressOrSymbol));
+  }
+
+  const matches = getRegisteredTokens(chainId).filter(token => token.symbol === addressOrSymbol);
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+function resolveToken(token: TokenInfo | string, chainId?: number): TokenInfo {
+  if (typeof token !== 'string') return token;
+
+  const found = findToken(token, chainId);
+  if (!found) throw new Error(`Unknown token: ${token}`);
+  return found;
+}
+
+// Parse a human-readable amount into the token's smallest unit
+export function parseTokenAmount(token: TokenInfo | string, amount: string, chainId?: number): bigint {
+  return ethers.parseUnits(amount, resolveToken(token, chainId).decimals);
+}
+
+// Format a raw amount in the token's smallest unit as a human-readable string
+export function formatTokenAmount(token: TokenInfo | string, amount: bigint, chainId?: number): string {
+  return ethers.formatUnits(amount, resolveToken(token, chainId).decimals);
+}
+
+registerTokens([
+  { ...TOKENS.ETH, name: 'Ether', tags: ['native'] },
+  { ...TOKENS.WETH, name: 'Wrapped Ether' },
+  { ...TOKENS.USDT, name: 'Tether USD', tags: ['stablecoin'] },
+  { ...TOKENS.USDC, name: 'USD Coin', tags: ['stablecoin'] },
+  { ...TOKENS.DAI, name: 'Dai Stablecoin', tags: ['stablecoin'] },
+  { ...TOKENS.WBTC, name: 'Wrapped BTC' },
+  { ...TOKENS.stETH, name: 'Liquid staked Ether', tags: ['lst'] },
+]);
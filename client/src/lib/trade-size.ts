@@ -0,0 +1,154 @@
+import { RouteLeg, quoteRoute } from './quoting';
+import { isSameToken } from './tokens';
+
+const FEE_DENOMINATOR = 10000n;
+
+// Golden-section search settings
+const INVERSE_PHI = (Math.sqrt(5) - 1) / 2;
+const MAX_SEARCH_ITERATIONS = 100;
+const MAX_BRACKET_DOUBLINGS = 128;
+
+export interface TradeSize {
+  amountIn: bigint;
+  amountOut: bigint;
+  profit: bigint; // before gas, after any loan premium, in the route's start token
+  netProfit: bigint; // after gas, in the route's start token
+  premium: bigint; // flash-loan premium on amountIn, in the route's start token
+  method: 'closed-form' | 'golden-section';
+}
+
+// Integer square root (floor)
+function sqrt(value: bigint): bigint {
+  if (value < 0n) throw new Error('Square root of negative number');
+  if (value < 2n) return value;
+
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+// Premium on a borrowed amount, rounded half up like Aave's percentMul
+function premiumOn(amountIn: bigint, premiumBps: number): bigint {
+  return (amountIn * BigInt(premiumBps) + FEE_DENOMINATOR / 2n) / FEE_DENOMINATOR;
+}
+
+// Quote a route, treating any failure (e.g. draining a pool) as zero output
+function profitAt(route: RouteLeg[], amountIn: bigint, premiumBps = 0): { amountOut: bigint; profit: bigint } {
+  if (amountIn <= 0n) return { amountOut: 0n, profit: 0n };
+  const premium = premiumOn(amountIn, premiumBps);
+  try {
+    const amounts = quoteRoute(route, amountIn);
+    const amountOut = amounts[amounts.length - 1];
+    return { amountOut, profit: amountOut - amountIn - premium };
+  } catch {
+    return { amountOut: 0n, profit: -amountIn - premium };
+  }
+}
+
+// Closed-form optimum for a two-pool V2 cycle.
+// Two chained constant-product swaps reduce to out = A·x / (B + C·x), whose
+// profit (out - x) is maximised at x* = (sqrt(A·B) - B) / C. A loan premium p
+// makes the cost (1 + p)·x, which is the same problem with A / (1 + p).
+function optimalTwoPoolV2Input(route: RouteLeg[], premiumBps = 0): bigint {
+  const [first, second] = route;
+  if (first.pool.type !== 'v2' || second.pool.type !== 'v2') {
+    throw new Error('Closed form only applies to V2 pools');
+  }
+
+  const reservesOf = (leg: RouteLeg): [bigint, bigint] => {
+    const pool = leg.pool as Extract<RouteLeg['pool'], { type: 'v2' }>;
+    return isSameToken(pool.token0, leg.tokenIn)
+      ? [pool.reserve0, pool.reserve1]
+      : [pool.reserve1, pool.reserve0];
+  };
+
+  const [reserveIn1, reserveOut1] = reservesOf(first);
+  const [reserveIn2, reserveOut2] = reservesOf(second);
+  const gamma1 = FEE_DENOMINATOR - BigInt(first.pool.feeBps);
+  const gamma2 = FEE_DENOMINATOR - BigInt(second.pool.feeBps);
+
+  const a = (gamma1 * gamma2 * reserveOut1 * reserveOut2 * FEE_DENOMINATOR) / (FEE_DENOMINATOR + BigInt(premiumBps));
+  const b = FEE_DENOMINATOR * FEE_DENOMINATOR * reserveIn1 * reserveIn2;
+  const c = gamma1 * (FEE_DENOMINATOR * reserveIn2 + gamma2 * reserveOut1);
+
+  // No trade size is profitable when the marginal rate round the cycle is below 1
+  if (a <= b) return 0n;
+  return (sqrt(a * b) - b) / c;
+}
+
+// Golden-section search for the input that maximises profit. AMM routes have a
+// concave profit curve, so the bracket is grown by doubling until profit falls.
+function goldenSectionSearch(route: RouteLeg[], maxAmountIn?: bigint, premiumBps = 0): bigint {
+  // Start well above integer rounding noise, e.g. 0.0001 WETH or 1 USDC
+  const probe = 10n ** BigInt(Math.max(route[0].tokenIn.decimals - 4, 6));
+  let upper = probe;
+  for (let i = 0; i < MAX_BRACKET_DOUBLINGS; i++) {
+    if (maxAmountIn !== undefined && upper >= maxAmountIn) {
+      upper = maxAmountIn;
+      break;
+    }
+    if (profitAt(route, upper * 2n, premiumBps).profit <= profitAt(route, upper, premiumBps).profit) {
+      upper *= 2n;
+      break;
+    }
+    upper *= 2n;
+  }
+
+  let lo = 0;
+  let hi = Number(upper);
+  let x1 = hi - INVERSE_PHI * (hi - lo);
+  let x2 = lo + INVERSE_PHI * (hi - lo);
+  let f1 = profitAt(route, BigInt(Math.floor(x1)), premiumBps).profit;
+  let f2 = profitAt(route, BigInt(Math.floor(x2)), premiumBps).profit;
+
+  for (let i = 0; i < MAX_SEARCH_ITERATIONS && hi - lo > 1; i++) {
+    if (f1 < f2) {
+      lo = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = lo + INVERSE_PHI * (hi - lo);
+      f2 = profitAt(route, BigInt(Math.floor(x2)), premiumBps).profit;
+    } else {
+      hi = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = hi - INVERSE_PHI * (hi - lo);
+      f1 = profitAt(route, BigInt(Math.floor(x1)), premiumBps).profit;
+    }
+  }
+
+  return BigInt(Math.floor((lo + hi) / 2));
+}
+
+// Find the input size that maximises a cyclic route's net profit.
+// gasCost is expressed in the route's start token; maxAmountIn caps the size (e.g. wallet balance);
+// premiumBps is charged on the input when it is flash-borrowed.
+export function findOptimalTradeSize(
+  route: RouteLeg[],
+  gasCost = 0n,
+  maxAmountIn?: bigint,
+  premiumBps = 0
+): TradeSize {
+  const useClosedForm = route.length === 2 && route.every(leg => leg.pool.type === 'v2');
+
+  let amountIn = useClosedForm
+    ? optimalTwoPoolV2Input(route, premiumBps)
+    : goldenSectionSearch(route, maxAmountIn, premiumBps);
+  if (maxAmountIn !== undefined && amountIn > maxAmountIn) {
+    amountIn = maxAmountIn;
+  }
+
+  const method = useClosedForm ? 'closed-form' : 'golden-section';
+  const { amountOut, profit } = profitAt(route, amountIn, premiumBps);
+
+  // Gas doesn't change with size, so a route with no gross profit is best left alone
+  if (profit <= 0n) {
+    return { amountIn: 0n, amountOut: 0n, profit: 0n, netProfit: -gasCost, premium: 0n, method };
+  }
+
+  return { amountIn, amountOut, profit, netProfit: profit - gasCost, premium: premiumOn(amountIn, premiumBps), method };
+}
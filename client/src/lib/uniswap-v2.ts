@@ -0,0 +1,55 @@
+// Constant-product (Uniswap V2) pricing math.
+// Mirrors UniswapV2Library so quotes match what the router would return on-chain.
+
+const FEE_DENOMINATOR = 10000n;
+
+// Default V2 fee is 0.3% (30 basis points)
+export const V2_DEFAULT_FEE_BPS = 30;
+
+// Given an input amount and pair reserves, return the maximum output amount
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number = V2_DEFAULT_FEE_BPS
+): bigint {
+  if (amountIn <= 0n) return 0n;
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(feeBps));
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * FEE_DENOMINATOR + amountInWithFee;
+  return numerator / denominator;
+}
+
+// Given an output amount and pair reserves, return the required input amount
+export function getAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number = V2_DEFAULT_FEE_BPS
+): bigint {
+  if (amountOut <= 0n) return 0n;
+  if (reserveIn <= 0n || reserveOut <= amountOut) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  const numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (FEE_DENOMINATOR - BigInt(feeBps));
+  return numerator / denominator + 1n;
+}
+
+// Chain getAmountOut across consecutive pairs, like the router's getAmountsOut
+export function getAmountsOut(
+  amountIn: bigint,
+  hops: Array<{ reserveIn: bigint; reserveOut: bigint; feeBps?: number }>
+): bigint[] {
+  const amounts = [amountIn];
+  for (const hop of hops) {
+    const previous = amounts[amounts.length - 1];
+    amounts.push(getAmountOut(previous, hop.reserveIn, hop.reserveOut, hop.feeBps));
+  }
+  return amounts;
+}
@@ -0,0 +1,367 @@
+// Concentrated-liquidity (Uniswap V3) pricing math.
+// Ports TickMath, SqrtPriceMath, SwapMath and TickBitmap from v3-core so that
+// simulated exact-in swaps match the pool contract, including tick crossings.
+
+export const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+// Fees are in hundredths of a basis point (pips)
+const FEE_DENOMINATOR = 1000000n;
+
+// Supported fee tiers and their tick spacing
+export const V3_FEE_TIERS: Record<number, number> = {
+  100: 1, // 0.01%
+  500: 10, // 0.05%
+  3000: 60, // 0.3%
+  10000: 200, // 1%
+};
+
+// On-chain state needed to simulate a swap
+export interface V3PoolState {
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  ticks: Map<number, bigint>; // liquidityNet per initialized tick
+  tickBitmap: Map<number, bigint>; // word position -> 256-bit word
+  // Bitmap words read from chain, inclusive; unset when the bitmap is complete
+  loadedWords?: { lower: number; upper: number };
+}
+
+export interface V3SwapResult {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  liquidityAfter: bigint;
+  ticksCrossed: number;
+}
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+// TickMath
+
+// sqrt(1.0001^tick) * 2^96
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+
+  const absTick = BigInt(Math.abs(tick));
+  let ratio = (absTick & 0x1n) !== 0n
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+
+  const multipliers: Array<[bigint, bigint]> = [
+    [0x2n, 0xfff97272373d413259a46990580e213an],
+    [0x4n, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+    [0x8n, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+    [0x10n, 0xffcb9843d60f6159c9db58835c926644n],
+    [0x20n, 0xff973b41fa98c081472e6896dfb254c0n],
+    [0x40n, 0xff2ea16466c96a3843ec78b326b52861n],
+    [0x80n, 0xfe5dee046a99a2a811c461f1969c3053n],
+    [0x100n, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+    [0x200n, 0xf987a7253ac413176f2b074cf7815e54n],
+    [0x400n, 0xf3392b0822b70005940c7a398e4b70f3n],
+    [0x800n, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+    [0x1000n, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+    [0x2000n, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+    [0x4000n, 0x70d869a156d2a1b890bb3df62baf32f7n],
+    [0x8000n, 0x31be135f97d08fd981231505542fcfa6n],
+    [0x10000n, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+    [0x20000n, 0x5d6af8dedb81196699c329225ee604n],
+    [0x40000n, 0x2216e584f5fa1ea926041bedfe98n],
+    [0x80000n, 0x48a170391f7dc42444e8fa2n],
+  ];
+  for (const [bit, multiplier] of multipliers) {
+    if ((absTick & bit) !== 0n) ratio = (ratio * multiplier) >> 128n;
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Round up from Q128.128 to Q64.96
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+// Greatest tick whose sqrt ratio is <= sqrtPriceX96
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error('Sqrt price out of range');
+  }
+
+  let lo = MIN_TICK;
+  let hi = MAX_TICK;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+// SqrtPriceMath
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96: bigint, liquidity: bigint, amount: bigint): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  // Match the contract's fallback path when the product would overflow uint256
+  if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+  }
+  return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96: bigint, liquidity: bigint, amount: bigint): bigint {
+  return sqrtPriceX96 + (amount << 96n) / liquidity;
+}
+
+function getNextSqrtPriceFromInput(sqrtPriceX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  if (sqrtPriceX96 <= 0n || liquidity <= 0n) throw new Error('Invalid price or liquidity');
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn);
+}
+
+export function getAmount0Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioA > sqrtRatioB ? [sqrtRatioB, sqrtRatioA] : [sqrtRatioA, sqrtRatioB];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+export function getAmount1Delta(sqrtRatioA: bigint, sqrtRatioB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtRatioA > sqrtRatioB ? [sqrtRatioB, sqrtRatioA] : [sqrtRatioA, sqrtRatioB];
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+// SwapMath (exact input only)
+
+function computeSwapStep(
+  sqrtRatioCurrent: bigint,
+  sqrtRatioTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  fee: number
+) {
+  const zeroForOne = sqrtRatioCurrent >= sqrtRatioTarget;
+  const feePips = BigInt(fee);
+
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTarget, sqrtRatioCurrent, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrent, sqrtRatioTarget, liquidity, true);
+
+  const sqrtRatioNext = amountRemainingLessFee >= amountIn
+    ? sqrtRatioTarget
+    : getNextSqrtPriceFromInput(sqrtRatioCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+  const reachedTarget = sqrtRatioNext === sqrtRatioTarget;
+
+  let amountOut: bigint;
+  if (zeroForOne) {
+    if (!reachedTarget) amountIn = getAmount0Delta(sqrtRatioNext, sqrtRatioCurrent, liquidity, true);
+    amountOut = getAmount1Delta(sqrtRatioNext, sqrtRatioCurrent, liquidity, false);
+  } else {
+    if (!reachedTarget) amountIn = getAmount1Delta(sqrtRatioCurrent, sqrtRatioNext, liquidity, true);
+    amountOut = getAmount0Delta(sqrtRatioCurrent, sqrtRatioNext, liquidity, false);
+  }
+
+  // Whatever input is left after a partial step is taken as fee
+  const feeAmount = reachedTarget
+    ? mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips)
+    : amountRemaining - amountIn;
+
+  return { sqrtRatioNext, amountIn, amountOut, feeAmount };
+}
+
+// TickBitmap
+
+function position(compressed: number): [number, number] {
+  return [Math.floor(compressed / 256), ((compressed % 256) + 256) % 256];
+}
+
+function compress(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing);
+}
+
+function mostSignificantBit(x: bigint): number {
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  let bit = 0;
+  while ((x & 1n) === 0n) {
+    x >>= 1n;
+    bit++;
+  }
+  return bit;
+}
+
+// Flip a tick's initialized bit
+export function flipTick(tickBitmap: Map<number, bigint>, tick: number, tickSpacing: number) {
+  if (tick % tickSpacing !== 0) throw new Error(`Tick ${tick} is not a multiple of spacing ${tickSpacing}`);
+  const [wordPos, bitPos] = position(tick / tickSpacing);
+  tickBitmap.set(wordPos, (tickBitmap.get(wordPos) ?? 0n) ^ (1n << BigInt(bitPos)));
+}
+
+// Bitmap word the next initialized tick is searched for in
+function searchWord(tick: number, tickSpacing: number, lte: boolean): number {
+  const compressed = compress(tick, tickSpacing);
+  return position(lte ? compressed : compressed + 1)[0];
+}
+
+// Next initialized tick in the same 256-tick word, or the word boundary if there is none
+function nextInitializedTickWithinOneWord(
+  tickBitmap: Map<number, bigint>,
+  tick: number,
+  tickSpacing: number,
+  lte: boolean
+): [number, boolean] {
+  const compressed = compress(tick, tickSpacing);
+
+  if (lte) {
+    const [wordPos, bitPos] = position(compressed);
+    const mask = (1n << BigInt(bitPos)) - 1n + (1n << BigInt(bitPos));
+    const masked = (tickBitmap.get(wordPos) ?? 0n) & mask;
+    const initialized = masked !== 0n;
+    const next = initialized
+      ? (compressed - (bitPos - mostSignificantBit(masked))) * tickSpacing
+      : (compressed - bitPos) * tickSpacing;
+    return [next, initialized];
+  }
+
+  const [wordPos, bitPos] = position(compressed + 1);
+  const mask = MAX_UINT256 ^ ((1n << BigInt(bitPos)) - 1n);
+  const masked = (tickBitmap.get(wordPos) ?? 0n) & mask;
+  const initialized = masked !== 0n;
+  const next = initialized
+    ? (compressed + 1 + (leastSignificantBit(masked) - bitPos)) * tickSpacing
+    : (compressed + 1 + (255 - bitPos)) * tickSpacing;
+  return [next, initialized];
+}
+
+// Simulate an exact-input swap, crossing initialized ticks as the price moves
+export function simulateExactIn(pool: V3PoolState, zeroForOne: boolean, amountIn: bigint): V3SwapResult {
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountIn;
+  let amountOut = 0n;
+  let sqrtPriceX96 = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let ticksCrossed = 0;
+
+  while (amountRemaining > 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const sqrtPriceStartX96 = sqrtPriceX96;
+
+    // Past the words we read, ticks we never saw could change liquidity
+    if (pool.loadedWords) {
+      const wordPos = searchWord(tick, pool.tickSpacing, zeroForOne);
+      if (wordPos < pool.loadedWords.lower || wordPos > pool.loadedWords.upper) {
+        throw new Error('Swap moves the price past the loaded tick range');
+      }
+    }
+
+    let [tickNext, initialized] = nextInitializedTickWithinOneWord(pool.tickBitmap, tick, pool.tickSpacing, zeroForOne);
+    tickNext = Math.min(Math.max(tickNext, MIN_TICK), MAX_TICK);
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+
+    const sqrtPriceTargetX96 = (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, amountRemaining, pool.fee);
+    sqrtPriceX96 = step.sqrtRatioNext;
+    amountRemaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      // Crossing into the next range picks up (or drops) that tick's liquidity
+      if (initialized) {
+        const liquidityNet = pool.ticks.get(tickNext) ?? 0n;
+        liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  if (amountRemaining > 0n) {
+    throw new Error('Insufficient liquidity');
+  }
+
+  return {
+    amountIn,
+    amountOut,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    liquidityAfter: liquidity,
+    ticksCrossed,
+  };
+}
+
+// Build pool state from a price and a set of liquidity positions
+export function createV3PoolState(
+  fee: number,
+  tick: number,
+  positions: Array<{ tickLower: number; tickUpper: number; liquidity: bigint }>
+): V3PoolState {
+  const tickSpacing = V3_FEE_TIERS[fee];
+  if (!tickSpacing) throw new Error(`Unsupported V3 fee tier ${fee}`);
+
+  const ticks = new Map<number, bigint>();
+  const tickBitmap = new Map<number, bigint>();
+  let liquidity = 0n;
+
+  const updateTick = (t: number, delta: bigint) => {
+    const before = ticks.get(t);
+    const after = (before ?? 0n) + delta;
+    if (before === undefined) flipTick(tickBitmap, t, tickSpacing);
+    ticks.set(t, after);
+  };
+
+  for (const { tickLower, tickUpper, liquidity: amount } of positions) {
+    updateTick(tickLower, amount);
+    updateTick(tickUpper, -amount);
+    if (tickLower <= tick && tick < tickUpper) liquidity += amount;
+  }
+
+  return {
+    fee,
+    tickSpacing,
+    sqrtPriceX96: getSqrtRatioAtTick(tick),
+    tick,
+    liquidity,
+    ticks,
+    tickBitmap,
+  };
+}
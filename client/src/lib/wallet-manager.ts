@@ -1,15 +1,15 @@
 import { ethers } from 'ethers';
 import { apiRequest } from './queryClient';
+import { getRpcUrl } from './rpc';
+import { getNonceManager } from './nonce-manager';
 
 // Wallet management functionality
 export class WalletManager {
   private provider: ethers.JsonRpcProvider;
   private wallet: ethers.Wallet | null = null;
   
-  constructor(infuraApiKey: string) {
-    // Initialize the provider with Infura
-    const infuraUrl = `https://mainnet.infura.io/v3/${infuraApiKey}`;
-    this.provider = new ethers.JsonRpcProvider(infuraUrl);
+  constructor(rpcUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
   }
   
   // Initialize wallet with private key
@@ -49,6 +49,21 @@ export class WalletManager {
     }
   }
   
+  // Address of the initialized wallet, if any
+  public getAddress(): string | null {
+    return this.wallet?.address ?? null;
+  }
+  
+  // Provider the wallet sends through, for tracking what it sent
+  public getProvider(): ethers.JsonRpcProvider {
+    return this.provider;
+  }
+  
+  // Signer for sending built transactions
+  public getSigner(): ethers.Wallet | null {
+    return this.wallet;
+  }
+  
   // Withdraw profits to an address
   public async withdrawProfits(amountEth: number, toAddress?: string) {
     if (!this.wallet) {
@@ -69,18 +84,17 @@ export class WalletManager {
       const gasPrice = await this.provider.getFeeData();
       const gasLimit = BigInt(21000); // Standard ETH transfer gas limit
       
-      // Create transaction
+      // Create transaction; the nonce comes from the wallet's nonce manager
       const transaction = {
         to: targetAddress,
         value: amountWei,
         gasLimit,
         maxFeePerGas: gasPrice.maxFeePerGas,
-        maxPriorityFeePerGas: gasPrice.maxPriorityFeePerGas,
-        nonce: await this.provider.getTransactionCount(this.wallet.address)
+        maxPriorityFeePerGas: gasPrice.maxPriorityFeePerGas
       };
       
       // Sign and send transaction
-      const txResponse = await this.wallet.sendTransaction(transaction);
+      const txResponse = await getNonceManager(this.wallet).sendTransaction(transaction);
       console.log('Withdrawal transaction sent:', txResponse.hash);
       
       // Wait for confirmation (1 block)
@@ -122,18 +136,18 @@ export class WalletManager {
 let walletManagerInstance: WalletManager | null = null;
 
 export function initWalletManager() {
-  const infuraApiKey = process.env.INFURA_API_KEY || '';
+  const rpcUrl = getRpcUrl();
   const privateKey = process.env.ETHEREUM_PRIVATE_KEY || '';
   
-  if (!infuraApiKey) {
-    console.error('Cannot initialize WalletManager: missing Infura API key');
+  if (!rpcUrl) {
+    console.error('Cannot initialize WalletManager: set ETHEREUM_RPC_URL or INFURA_API_KEY');
     return null;
   }
   
-  console.log('Initializing Wallet Manager with Infura API credentials');
+  console.log('Initializing Wallet Manager');
   
   if (!walletManagerInstance) {
-    walletManagerInstance = new WalletManager(infuraApiKey);
+    walletManagerInstance = new WalletManager(rpcUrl);
     
     // Initialize the wallet with the private key if available
     if (privateKey) {
@@ -91,6 +91,8 @@ export default function Dashboard() {
       const formattedStatus = {
         pendingTransactions: status.pendingTransactions,
         gasPrice: status.gasPrice.toString(),
+        baseFee: status.baseFee.toString(),
+        priorityFee: status.priorityFee.toString(),
         networkCongestion: status.networkCongestion
       };
       await apiRequest('POST', '/api/blockchain-status', formattedStatus);
@@ -217,6 +219,8 @@ export default function Dashboard() {
               <MempoolMonitor
                 pendingTx={blockchainStatusQuery.data?.pendingTransactions || 0}
                 gasPrice={blockchainStatusQuery.data?.gasPrice || 0}
+                baseFee={blockchainStatusQuery.data?.baseFee ?? null}
+                priorityFee={blockchainStatusQuery.data?.priorityFee ?? null}
                 networkCongestion={blockchainStatusQuery.data?.networkCongestion || "Medium"}
                 mempoolLogs={mempoolActivityQuery.data || []}
                 isLoading={blockchainStatusQuery.isLoading || mempoolActivityQuery.isLoading}
@@ -228,7 +232,14 @@ export default function Dashboard() {
                   maxGasPrice: 50,
                   strategy: "arbitrage",
                   autoExecute: true,
-                  runSimulations: true
+                  runSimulations: true,
+                  slippageBps: 50,
+                  txDeadlineSeconds: 120,
+                  opportunityTtlSeconds: 36,
+                  feeUrgency: "medium",
+                  submissionModes: {},
+                  strategyParams: {},
+                  bidPolicies: {}
                 }}
                 isLoading={settingsQuery.isLoading}
               />
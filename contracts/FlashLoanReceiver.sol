@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.24;
+
+interface IAavePool {
+    function flashLoanSimple(
+        address receiverAddress,
+        address asset,
+        uint256 amount,
+        bytes calldata params,
+        uint16 referralCode
+    ) external;
+}
+
+interface IERC20Balance {
+    function balanceOf(address owner) external view returns (uint256);
+}
+
+// Borrows one asset from Aave V3, runs the bot's swap calls inside the
+// flash-loan callback, repays the loan plus premium and sends what is left
+// to the owner. The calls are the same router calls the bot sends from its
+// wallet, built with this contract as the recipient.
+contract FlashLoanReceiver {
+    struct Call {
+        address target;
+        uint256 value;
+        bytes data;
+    }
+
+    address public immutable owner;
+    address public immutable pool;
+
+    constructor(address aavePool) {
+        owner = msg.sender;
+        pool = aavePool;
+    }
+
+    // Borrow `amount` of `asset`, run `calls`, and require at least `minProfit` of it left over
+    function execute(address asset, uint256 amount, Call[] calldata calls, uint256 minProfit) external {
+        require(msg.sender == owner, "FlashLoanReceiver: caller is not the owner");
+        IAavePool(pool).flashLoanSimple(address(this), asset, amount, abi.encode(calls, minProfit), 0);
+
+        uint256 profit = IERC20Balance(asset).balanceOf(address(this));
+        if (profit > 0) _tokenCall(asset, abi.encodeWithSignature("transfer(address,uint256)", owner, profit));
+    }
+
+    // Aave V3 flash-loan callback
+    function executeOperation(
+        address asset,
+        uint256 amount,
+        uint256 premium,
+        address initiator,
+        bytes calldata params
+    ) external returns (bool) {
+        require(msg.sender == pool, "FlashLoanReceiver: caller is not the pool");
+        require(initiator == address(this), "FlashLoanReceiver: loan not started here");
+
+        (Call[] memory calls, uint256 minProfit) = abi.decode(params, (Call[], uint256));
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory result) = calls[i].target.call{value: calls[i].value}(calls[i].data);
+            if (!success) {
+                // Bubble up the swap's own revert reason
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+        }
+
+        uint256 owed = amount + premium;
+        require(
+            IERC20Balance(asset).balanceOf(address(this)) >= owed + minProfit,
+            "FlashLoanReceiver: profit below minimum"
+        );
+        _tokenCall(asset, abi.encodeWithSignature("approve(address,uint256)", pool, owed));
+        return true;
+    }
+
+    // Tokens like USDT return nothing from transfer and approve, so accept an empty result
+    function _tokenCall(address token, bytes memory data) private {
+        (bool success, bytes memory result) = token.call(data);
+        require(
+            success && (result.length == 0 || abi.decode(result, (bool))),
+            "FlashLoanReceiver: token call failed"
+        );
+    }
+
+    // Routes that unwrap WETH pay out native ETH
+    receive() external payable {}
+}
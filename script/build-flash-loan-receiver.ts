@@ -0,0 +1,92 @@
+// Compiles contracts/FlashLoanReceiver.sol and writes its ABI and creation
+// bytecode to client/src/lib/flash-loan-receiver.ts. With --check it only
+// fails when the committed module no longer matches the contract.
+//
+//   npm run build:contracts
+//   npm run build:contracts -- --check
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ethers } from "ethers";
+import solc from "solc";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const SOURCE_PATH = "contracts/FlashLoanReceiver.sol";
+const OUTPUT_PATH = "client/src/lib/flash-loan-receiver.ts";
+const CONTRACT_NAME = "FlashLoanReceiver";
+
+// Pinned so the bytecode, including its metadata hash, is reproducible
+const SOLC_VERSION = "0.8.24";
+const SETTINGS = {
+  optimizer: { enabled: true, runs: 200 },
+  evmVersion: "paris",
+  outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+};
+
+// Hex characters per line of the bytecode literal
+const BYTECODE_LINE_LENGTH = 100;
+
+interface CompilerOutput {
+  errors?: Array<{ severity: string; formattedMessage: string }>;
+  contracts?: Record<string, Record<string, { abi: ethers.InterfaceAbi; evm: { bytecode: { object: string } } }>>;
+}
+
+function compile(): { abi: string[]; bytecode: string } {
+  const version = solc.version();
+  if (!version.startsWith(`${SOLC_VERSION}+`)) {
+    throw new Error(`Expected solc ${SOLC_VERSION}, found ${version}`);
+  }
+
+  const input = {
+    language: "Solidity",
+    sources: { [SOURCE_PATH]: { content: readFileSync(path.join(root, SOURCE_PATH), "utf8") } },
+    settings: SETTINGS,
+  };
+  const output: CompilerOutput = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors ?? []).filter(error => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map(error => error.formattedMessage).join("\n"));
+  }
+
+  const contract = output.contracts?.[SOURCE_PATH]?.[CONTRACT_NAME];
+  if (!contract) throw new Error(`${SOURCE_PATH} did not produce ${CONTRACT_NAME}`);
+  return {
+    abi: new ethers.Interface(contract.abi).format(),
+    bytecode: `0x${contract.evm.bytecode.object}`,
+  };
+}
+
+function render({ abi, bytecode }: { abi: string[]; bytecode: string }): string {
+  const lines: string[] = [];
+  for (let i = 0; i < bytecode.length; i += BYTECODE_LINE_LENGTH) {
+    lines.push(`'${bytecode.slice(i, i + BYTECODE_LINE_LENGTH)}'`);
+  }
+
+  return [
+    `// Compiled from ${SOURCE_PATH} with solc ${SOLC_VERSION}`,
+    `// (optimizer on, ${SETTINGS.optimizer.runs} runs, evmVersion ${SETTINGS.evmVersion}).`,
+    "// Generated by script/build-flash-loan-receiver.ts: npm run build:contracts",
+    "",
+    "export const FLASH_LOAN_RECEIVER_ABI = [",
+    ...abi.map(fragment => `  '${fragment}',`),
+    "];",
+    "",
+    "export const FLASH_LOAN_RECEIVER_BYTECODE =",
+    `  ${lines.join(" +\n  ")};`,
+    "",
+  ].join("\n");
+}
+
+const outputFile = path.join(root, OUTPUT_PATH);
+const generated = render(compile());
+
+if (process.argv.includes("--check")) {
+  if (readFileSync(outputFile, "utf8") !== generated) {
+    console.error(`${OUTPUT_PATH} is out of date with ${SOURCE_PATH}; run npm run build:contracts`);
+    process.exit(1);
+  }
+  console.log(`${OUTPUT_PATH} matches ${SOURCE_PATH}`);
+} else {
+  writeFileSync(outputFile, generated);
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
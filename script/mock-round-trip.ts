@@ -0,0 +1,102 @@
+// Runs the bot's chain path end to end against the in-process mock node:
+// sync pools, detect cyclic arbitrage, simulate and send the best route that
+// passes, mine it and check what the wallet gained. Exits non-zero when no
+// trade confirms, so it can gate changes to the mock or the execution path.
+//
+//   npm run mock:round-trip
+import { ethers } from "ethers";
+import { MockRpcNode } from "../server/mock-rpc-node";
+import { DEV_PRIVATE_KEY, createDevFixtures } from "../server/mock-rpc-fixtures";
+import { loadPoolState } from "../client/src/lib/pools";
+import { loadFeeEstimate } from "../client/src/lib/fees";
+import { loadTradingCapital } from "../client/src/lib/capital";
+import { getStrategies } from "../client/src/lib/strategies";
+import { executeArbitrage, generateArbitrageOpportunities } from "../client/src/lib/arbitrage";
+import { TOKENS } from "../client/src/lib/tokens";
+
+// Routes to try before giving up, best first
+const MAX_ATTEMPTS = 5;
+
+// Blocks to mine while waiting for a sent trade to land
+const MAX_BLOCKS = 5;
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+async function main() {
+  const wallet = new ethers.Wallet(DEV_PRIVATE_KEY);
+  // Blocks are mined here, when the script asks for them
+  const node = new MockRpcNode({ ...createDevFixtures(wallet.address), blockTimeMs: 0 });
+  const url = await node.start();
+  process.env.ETHEREUM_RPC_URL = url;
+  process.env.SIMULATION_RPC_URL = url;
+  process.env.FLASHBOTS_RELAY_URL = url;
+  console.log(`Mock node serving on ${url}`);
+
+  const provider = new ethers.JsonRpcProvider(url, 1, { staticNetwork: ethers.Network.from(1) });
+  const signer = wallet.connect(provider);
+  const weth = new ethers.Contract(TOKENS.WETH.address, ERC20_BALANCE_ABI, provider);
+
+  try {
+    // Detect
+    const { updated, total } = await loadPoolState(provider);
+    await Promise.all([loadFeeEstimate(provider), loadTradingCapital(provider, signer.address)]);
+    console.log(`Synced ${updated}/${total} pools`);
+
+    const strategies = getStrategies().filter(strategy => strategy.id === "arbitrage");
+    const candidates = (await generateArbitrageOpportunities(strategies))
+      .filter(opportunity => opportunity.isExecutable)
+      .sort((a, b) => b.estimatedProfitEth - a.estimatedProfitEth);
+    console.log(`Detected ${candidates.length} executable opportunities`);
+
+    // Simulate and execute, falling through to the next route when one fails
+    for (const opportunity of candidates.slice(0, MAX_ATTEMPTS)) {
+      let txHash: string;
+      try {
+        ({ txHash } = await executeArbitrage(opportunity, signer, {}, progress => {
+          console.log(`  ${progress.status}${progress.revertReason ? `: ${progress.revertReason}` : ""}`);
+        }));
+      } catch {
+        continue;
+      }
+
+      let receipt: ethers.TransactionReceipt | null = null;
+      for (let i = 0; i < MAX_BLOCKS && !receipt; i++) {
+        await provider.send("evm_mine", []);
+        receipt = await provider.getTransactionReceipt(txHash);
+      }
+      if (!receipt) {
+        console.log(`  ${txHash} did not land within ${MAX_BLOCKS} blocks`);
+        continue;
+      }
+      if (receipt.status !== 1) {
+        console.log(`  ${txHash} reverted in block ${receipt.blockNumber}`);
+        continue;
+      }
+
+      // What the block left the wallet with, net of gas for every call sent
+      const [ethBefore, ethAfter, wethBefore, wethAfter]: bigint[] = await Promise.all([
+        provider.getBalance(signer.address, receipt.blockNumber - 1),
+        provider.getBalance(signer.address, receipt.blockNumber),
+        weth.balanceOf(signer.address, { blockTag: receipt.blockNumber - 1 }),
+        weth.balanceOf(signer.address, { blockTag: receipt.blockNumber }),
+      ]);
+      const realized = ethAfter - ethBefore + wethAfter - wethBefore;
+      console.log(`Confirmed ${txHash} in block ${receipt.blockNumber}`);
+      console.log(`Estimated ${opportunity.estimatedProfitEth} ETH, realized ${ethers.formatEther(realized)} ETH after gas`);
+      return;
+    }
+
+    throw new Error(`None of the ${Math.min(candidates.length, MAX_ATTEMPTS)} best opportunities confirmed`);
+  } finally {
+    provider.destroy();
+    await node.stop();
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  error => {
+    console.error("Mock round trip failed:", error);
+    process.exit(1);
+  }
+);
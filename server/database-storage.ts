@@ -5,11 +5,14 @@ import {
   transactions, type Transaction, type InsertTransaction,
   opportunities, type Opportunity, type InsertOpportunity,
   mempoolActivity, type MempoolActivity, type InsertMempoolActivity,
+  swapIntents, type SwapIntent, type InsertSwapIntent,
   blockchainStatus, type BlockchainStatus, type InsertBlockchainStatus,
-  botStats, type BotStats, type InsertBotStats
+  botStats, type BotStats, type InsertBotStats,
+  tokens, type Token, type InsertToken,
+  type TransactionStatus
 } from "@shared/schema";
-import { IStorage } from "./storage";
-import { eq } from "drizzle-orm";
+import { IStorage, defaultTokens, withRoutePairs } from "./storage";
+import { and, asc, desc, eq, inArray, isNotNull, lt, lte, ne, or, sql } from "drizzle-orm";
 
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -55,6 +58,14 @@ export class DatabaseStorage implements IStorage {
           strategy: settings.strategy || "arbitrage",
           autoExecute: settings.autoExecute !== undefined ? settings.autoExecute : true,
           runSimulations: settings.runSimulations !== undefined ? settings.runSimulations : true,
+          slippageBps: settings.slippageBps ?? 50,
+          txDeadlineSeconds: settings.txDeadlineSeconds ?? 120,
+          opportunityTtlSeconds: settings.opportunityTtlSeconds ?? 36,
+          feeUrgency: settings.feeUrgency ?? "medium",
+          submissionModes: settings.submissionModes ?? {},
+          flashLoanReceiver: settings.flashLoanReceiver ?? null,
+          strategyParams: settings.strategyParams ?? {},
+          bidPolicies: settings.bidPolicies ?? {},
         })
         .returning();
       return newSettings;
@@ -75,11 +86,29 @@ export class DatabaseStorage implements IStorage {
   async addTransaction(transaction: InsertTransaction): Promise<Transaction> {
     const [newTransaction] = await db
       .insert(transactions)
-      .values(transaction)
+      .values(withRoutePairs(transaction))
       .returning();
     return newTransaction;
   }
 
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction || undefined;
+  }
+
+  async getTransactionsByStatus(statuses: TransactionStatus[]): Promise<Transaction[]> {
+    return await db.select().from(transactions).where(inArray(transactions.status, statuses));
+  }
+
+  async updateTransaction(id: number, update: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const [updatedTransaction] = await db
+      .update(transactions)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(transactions.id, id))
+      .returning();
+    return updatedTransaction || undefined;
+  }
+
   // Opportunity methods
   async getOpportunities(limit?: number): Promise<Opportunity[]> {
     const query = db.select().from(opportunities).orderBy(opportunities.identified);
@@ -94,7 +123,7 @@ export class DatabaseStorage implements IStorage {
   async addOpportunity(opportunity: InsertOpportunity): Promise<Opportunity> {
     const [newOpportunity] = await db
       .insert(opportunities)
-      .values(opportunity)
+      .values(withRoutePairs(opportunity))
       .returning();
     return newOpportunity;
   }
@@ -111,6 +140,66 @@ export class DatabaseStorage implements IStorage {
     await db.delete(opportunities);
   }
 
+  async updateOpportunity(id: number, update: Partial<InsertOpportunity>): Promise<Opportunity | undefined> {
+    const [updatedOpportunity] = await db
+      .update(opportunities)
+      .set(update)
+      .where(eq(opportunities.id, id))
+      .returning();
+    return updatedOpportunity || undefined;
+  }
+
+  async upsertOpportunity(opportunity: InsertOpportunity & { key: string }): Promise<Opportunity> {
+    const [upserted] = await db
+      .insert(opportunities)
+      .values({ ...withRoutePairs(opportunity), lastSeen: new Date() }) // our clock, as expiry compares against it
+      .onConflictDoUpdate({
+        target: opportunities.key,
+        set: {
+          pairs: sql`excluded.pairs`,
+          estimatedProfitEth: sql`excluded.estimated_profit_eth`,
+          estimatedGasCostEth: sql`excluded.estimated_gas_cost_eth`,
+          isExecutable: sql`excluded.is_executable`,
+          route: sql`excluded.route`,
+          amountIn: sql`excluded.amount_in`,
+          tokenIn: sql`excluded.token_in`,
+          liquidation: sql`excluded.liquidation`,
+          backrun: sql`excluded.backrun`,
+          strategy: sql`excluded.strategy`,
+          rejection: sql`excluded.rejection`,
+          estimatedBidEth: sql`excluded.estimated_bid_eth`,
+          contested: sql`excluded.contested`,
+          blockNumber: sql`excluded.block_number`,
+          lastSeen: sql`excluded.last_seen`,
+          expiresAt: sql`excluded.expires_at`,
+          expired: false,
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
+  async deleteExpiredOpportunities(expiredBefore: Date): Promise<number> {
+    const result = await db
+      .delete(opportunities)
+      .where(and(
+        isNotNull(opportunities.key),
+        eq(opportunities.expired, true),
+        lt(opportunities.expiresAt, expiredBefore),
+      ))
+      .returning();
+    return result.length;
+  }
+
+  async expireOpportunities(now: Date): Promise<number> {
+    const result = await db
+      .update(opportunities)
+      .set({ expired: true })
+      .where(and(eq(opportunities.expired, false), lte(opportunities.expiresAt, now)))
+      .returning();
+    return result.length;
+  }
+
   // Mempool activity methods
   async getMempoolActivity(limit?: number): Promise<MempoolActivity[]> {
     const query = db.select().from(mempoolActivity).orderBy(mempoolActivity.timestamp);
@@ -134,6 +223,65 @@ export class DatabaseStorage implements IStorage {
     await db.delete(mempoolActivity);
   }
 
+  // Swap intent methods
+  async getSwapIntents(limit?: number): Promise<SwapIntent[]> {
+    const query = db.select().from(swapIntents).orderBy(desc(swapIntents.firstSeen));
+    
+    if (limit) {
+      query.limit(limit);
+    }
+    
+    return await query;
+  }
+
+  async getPendingSwapIntents(): Promise<SwapIntent[]> {
+    return await db
+      .select()
+      .from(swapIntents)
+      .where(eq(swapIntents.status, "pending"))
+      .orderBy(asc(swapIntents.firstSeen), asc(swapIntents.position));
+  }
+
+  // Hashes are stored and matched lowercased, however the node spelled them
+  async addSwapIntents(intents: InsertSwapIntent[]): Promise<SwapIntent[]> {
+    if (intents.length === 0) return [];
+    return await db
+      .insert(swapIntents)
+      .values(intents.map(intent => ({ ...intent, txHash: intent.txHash.toLowerCase() })))
+      .onConflictDoNothing({ target: [swapIntents.txHash, swapIntents.position] })
+      .returning();
+  }
+
+  async markSwapIntentsMined(txHashes: string[], blockNumber: number): Promise<number> {
+    if (txHashes.length === 0) return 0;
+    const result = await db
+      .update(swapIntents)
+      .set({ status: "mined", blockNumber })
+      .where(and(eq(swapIntents.status, "pending"), inArray(swapIntents.txHash, txHashes.map(hash => hash.toLowerCase()))))
+      .returning();
+    return result.length;
+  }
+
+  async expireSwapIntents(now: Date, seenBefore: Date): Promise<number> {
+    const result = await db
+      .update(swapIntents)
+      .set({ status: "expired" })
+      .where(and(
+        eq(swapIntents.status, "pending"),
+        or(lte(swapIntents.deadline, now), lt(swapIntents.firstSeen, seenBefore))
+      ))
+      .returning();
+    return result.length;
+  }
+
+  async deleteSwapIntents(seenBefore: Date): Promise<number> {
+    const result = await db
+      .delete(swapIntents)
+      .where(and(ne(swapIntents.status, "pending"), lt(swapIntents.firstSeen, seenBefore)))
+      .returning();
+    return result.length;
+  }
+
   // Blockchain status methods
   async getBlockchainStatus(): Promise<BlockchainStatus | undefined> {
     const [status] = await db.select().from(blockchainStatus).limit(1);
@@ -193,8 +341,45 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Token registry methods
+  async getTokens(chainId?: number): Promise<Token[]> {
+    const query = db.select().from(tokens);
+    
+    if (chainId !== undefined) {
+      return await query.where(eq(tokens.chainId, chainId));
+    }
+    
+    return await query;
+  }
+
+  async upsertTokens(insertTokens: InsertToken[]): Promise<Token[]> {
+    if (insertTokens.length === 0) return [];
+    
+    return await db
+      .insert(tokens)
+      .values(insertTokens)
+      .onConflictDoUpdate({
+        target: [tokens.chainId, tokens.address],
+        set: {
+          symbol: sql`excluded.symbol`,
+          name: sql`excluded.name`,
+          decimals: sql`excluded.decimals`,
+          logoURI: sql`excluded.logo_uri`,
+          tags: sql`excluded.tags`,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+  }
+  
   // Initialize the database with some initial data
   async initializeData(): Promise<void> {
+    // Seed the token registry separately, so existing databases pick it up too
+    const existingTokens = await this.getTokens();
+    if (existingTokens.length === 0) {
+      await this.upsertTokens(defaultTokens());
+    }
+    
     // Check if we already have data
     const existingSettings = await this.getBotSettings();
     
@@ -220,6 +405,8 @@ export class DatabaseStorage implements IStorage {
       await this.updateBlockchainStatus({
         pendingTransactions: 347,
         gasPrice: "23.4",
+        baseFee: "21.4",
+        priorityFee: "2",
         networkCongestion: "Medium"
       });
       
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { ethers } from "ethers";
+import { MockRpcNode } from "./mock-rpc-node";
+import { DEV_PRIVATE_KEY, createDevFixtures } from "./mock-rpc-fixtures";
 
 const app = express();
 app.use(express.json());
@@ -40,6 +43,20 @@ app.use((req, res, next) => {
 import { storage } from "./storage";
 
 (async () => {
+  // Offline mode: chain reads, sends, bundles and simulations all go to an in-process mock node
+  if (process.env.MOCK_RPC === "true") {
+    process.env.ETHEREUM_PRIVATE_KEY ||= DEV_PRIVATE_KEY;
+    const wallet = new ethers.Wallet(process.env.ETHEREUM_PRIVATE_KEY);
+    const fixtures = createDevFixtures(wallet.address);
+    const mockNode = new MockRpcNode(fixtures);
+    const url = await mockNode.start(Number(process.env.MOCK_RPC_PORT ?? 0));
+    process.env.ETHEREUM_RPC_URL = url;
+    process.env.SIMULATION_RPC_URL = url;
+    process.env.FLASHBOTS_RELAY_URL = url;
+    process.env.LIQUIDATION_BORROWERS ||= (fixtures.lending?.positions ?? []).map(position => position.borrower).join(",");
+    log(`mock JSON-RPC node serving on ${url}`);
+  }
+
   // Initialize database with sample data
   try {
     // Initialize the database with sample data if it's empty
@@ -0,0 +1,338 @@
+import { ethers } from "ethers";
+import WebSocket from "ws";
+import type { InsertSwapIntent, SwapIntent } from "@shared/schema";
+import { storage } from "./storage";
+import { getWsRpcUrl } from "../client/src/lib/rpc";
+import { getDex } from "../client/src/lib/dex-registry";
+import { findToken, formatTokenAmount } from "../client/src/lib/tokens";
+import { type DecodedSwapIntent, decodeSwapIntents, estimateSlippageBps, isSwapRouter } from "../client/src/lib/swap-intents";
+
+// Wait before reconnecting after the node drops the socket
+const RECONNECT_DELAY_MS = 5000;
+
+// A swap not mined this long after it was first seen has most likely been dropped
+const PENDING_SWAP_TTL_MS = 30 * 60 * 1000;
+
+// Mined and expired swaps are kept this long for the dashboard
+const SETTLED_SWAP_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// A pending transaction as the node sends it, in full or fetched by hash
+interface RpcTransaction {
+  hash: string;
+  type?: string;
+  chainId?: string;
+  from: string;
+  to: string | null;
+  nonce: string;
+  gas: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  value: string;
+  input: string;
+  accessList?: ethers.AccessList;
+  r: string;
+  s: string;
+  v: string;
+}
+
+// A new head, and the block fetched for it with transaction hashes only
+interface RpcHead {
+  number: string;
+  timestamp: string;
+}
+
+interface RpcBlock {
+  transactions: string[];
+}
+
+// A reply to one of our requests
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// A message pushed for one of our subscriptions
+interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: "eth_subscription";
+  params: { subscription: string; result: unknown };
+}
+
+type JsonRpcMessage = JsonRpcResponse | JsonRpcNotification;
+
+type SubscriptionKind = "pending" | "heads";
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function parseMessage(raw: string): JsonRpcMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+  if (typeof message.id === "number") return message as unknown as JsonRpcResponse;
+  if (message.method === "eth_subscription" && isObject(message.params) && typeof message.params.subscription === "string") {
+    return message as unknown as JsonRpcNotification;
+  }
+  return null;
+}
+
+function isRpcTransaction(value: unknown): value is RpcTransaction {
+  return isObject(value) && typeof value.hash === "string" && typeof value.from === "string" && typeof value.input === "string";
+}
+
+function isRpcHead(value: unknown): value is RpcHead {
+  return isObject(value) && typeof value.number === "string" && typeof value.timestamp === "string";
+}
+
+function symbolOf(address: string): string {
+  return findToken(address)?.symbol ?? `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function amountOf(address: string, amount: bigint | null): string {
+  if (amount === null) return "an unquoted amount of";
+  const token = findToken(address);
+  return token ? formatTokenAmount(token, amount) : amount.toString();
+}
+
+// One line for the mempool feed
+function describeSwapIntent(intent: SwapIntent): string {
+  const [tokenIn, tokenOut] = [intent.tokenIn, intent.tokenOut];
+  const venue = (intent.dex && getDex(intent.dex)?.name) ?? intent.router;
+  const amountIn = intent.amountIn !== null ? BigInt(intent.amountIn) : null;
+  const amounts = intent.kind === "exact_in"
+    ? `${amountOf(tokenIn, amountIn)} ${symbolOf(tokenIn)} → at least ${amountOf(tokenOut, BigInt(intent.amountOut))} ${symbolOf(tokenOut)}`
+    : `at most ${amountOf(tokenIn, amountIn)} ${symbolOf(tokenIn)} → ${amountOf(tokenOut, BigInt(intent.amountOut))} ${symbolOf(tokenOut)}`;
+  const slippage = intent.slippageBps !== null ? ` (max slippage ${(intent.slippageBps / 100).toFixed(2)}%)` : "";
+  return `Pending swap: ${amounts} on ${venue}${slippage}`;
+}
+
+// The signed transaction the node describes, so a backrun can be bundled behind
+// it; null when it does not hash back to the node's hash
+function serializeSigned(tx: RpcTransaction): string | null {
+  try {
+    const type = tx.type !== undefined ? Number(tx.type) : 0;
+    const signed = ethers.Transaction.from({
+      type,
+      chainId: tx.chainId,
+      nonce: Number(tx.nonce),
+      gasLimit: tx.gas,
+      ...(type === 2
+        ? { maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas }
+        : { gasPrice: tx.gasPrice }),
+      to: tx.to,
+      value: tx.value,
+      data: tx.input,
+      accessList: type === 0 ? undefined : tx.accessList,
+      signature: { r: tx.r, s: tx.s, v: tx.v },
+    });
+    return signed.hash === tx.hash ? signed.serialized : null;
+  } catch {
+    return null;
+  }
+}
+
+function toStoredSwapIntent(tx: RpcTransaction, position: number, intent: DecodedSwapIntent, raw: string | null): InsertSwapIntent {
+  return {
+    txHash: tx.hash,
+    position,
+    fromAddress: ethers.getAddress(tx.from),
+    router: intent.router,
+    routerAddress: intent.routerAddress,
+    dex: intent.dex,
+    kind: intent.kind,
+    path: intent.path,
+    fees: intent.fees ?? null,
+    tokenIn: intent.path[0],
+    tokenOut: intent.path[intent.path.length - 1],
+    amountIn: intent.amountIn?.toString() ?? null,
+    amountOut: intent.amountOut.toString(),
+    recipient: intent.recipient,
+    deadline: intent.deadline !== null ? new Date(intent.deadline * 1000) : null,
+    rawTransaction: raw,
+    slippageBps: estimateSlippageBps(intent),
+  };
+}
+
+// Follows the node's mempool over a WebSocket subscription and stores the swaps
+// pending calls to the Uniswap routers will make. Nodes that send whole pending
+// transactions (Geth's full mode) are read as they come; others send hashes,
+// and each transaction is fetched over the same socket. New heads mark the
+// swaps they include as mined and expire the ones past their deadline.
+export class MempoolIngester {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private mode: "full" | "hash" | null = null;
+  private nextRequestId = 1;
+  private requests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private subscriptions = new Map<string, SubscriptionKind>();
+  private transactionsSeen = 0;
+  private swapsStored = 0;
+  private lastError: string | null = null;
+
+  // Whether the subscription is up, how pending transactions arrive, and what it has stored
+  getStatus() {
+    return {
+      running: this.running,
+      connected: this.subscriptions.size > 0,
+      mode: this.mode,
+      transactionsSeen: this.transactionsSeen,
+      swapsStored: this.swapsStored,
+      lastError: this.lastError,
+    };
+  }
+
+  start() {
+    if (this.running) return;
+    if (!getWsRpcUrl()) {
+      console.warn("No RPC configured; not following the mempool");
+      return;
+    }
+    this.running = true;
+    this.connect();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect() {
+    const url = getWsRpcUrl();
+    if (!url) return;
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    socket.on("open", () => {
+      this.subscribe().catch(error => {
+        console.error("Failed to subscribe to the mempool:", error);
+        this.lastError = error instanceof Error ? error.message : String(error);
+        socket.close();
+      });
+    });
+    socket.on("message", data => this.onMessage(data.toString()));
+    socket.on("error", error => {
+      console.error("Mempool subscription error:", error);
+      this.lastError = error.message;
+    });
+    socket.on("close", () => {
+      this.subscriptions.clear();
+      this.requests.forEach(request => request.reject(new Error("mempool socket closed")));
+      this.requests.clear();
+      if (this.socket === socket) this.socket = null;
+      if (this.running && !this.reconnectTimer) {
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (this.running) this.connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    });
+  }
+
+  // Ask for whole pending transactions, and settle for hashes from nodes without full mode
+  private async subscribe() {
+    let pending: string;
+    try {
+      pending = await this.request<string>("eth_subscribe", ["newPendingTransactions", true]);
+      this.mode = "full";
+    } catch {
+      pending = await this.request<string>("eth_subscribe", ["newPendingTransactions"]);
+      this.mode = "hash";
+    }
+    this.subscriptions.set(pending, "pending");
+    this.subscriptions.set(await this.request<string>("eth_subscribe", ["newHeads"]), "heads");
+    this.lastError = null;
+  }
+
+  // The result the node replies with; its shape is the caller's to know for the method
+  private request<T>(method: string, params: unknown[]): Promise<T> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error("mempool socket is not open"));
+    }
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.requests.set(id, { resolve: result => resolve(result as T), reject });
+      socket.send(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
+    });
+  }
+
+  private onMessage(raw: string) {
+    const message = parseMessage(raw);
+    if (!message) return;
+
+    if ("id" in message) {
+      const request = this.requests.get(message.id);
+      if (!request) return;
+      this.requests.delete(message.id);
+      if (message.error) request.reject(new Error(message.error.message));
+      else request.resolve(message.result);
+      return;
+    }
+
+    const { subscription, result } = message.params;
+    const kind = this.subscriptions.get(subscription);
+    if (kind === "pending" && (typeof result === "string" || isRpcTransaction(result))) void this.onPendingTransaction(result);
+    if (kind === "heads" && isRpcHead(result)) void this.onHead(result);
+  }
+
+  private async onPendingTransaction(result: RpcTransaction | string) {
+    try {
+      // Some nodes accept full mode but send hashes anyway
+      if (typeof result === "string") {
+        this.mode = "hash";
+        const tx = await this.request<RpcTransaction | null>("eth_getTransactionByHash", [result]);
+        if (tx) await this.ingest(tx);
+      } else {
+        await this.ingest(result);
+      }
+    } catch (error) {
+      console.error("Error reading a pending transaction:", error);
+    }
+  }
+
+  // Store the swaps a pending transaction will make; the ones newly stored
+  async ingest(tx: RpcTransaction): Promise<SwapIntent[]> {
+    this.transactionsSeen++;
+    if (!isSwapRouter(tx.to)) return [];
+
+    const decoded = decodeSwapIntents({ from: tx.from, to: tx.to!, data: tx.input, value: BigInt(tx.value) });
+    if (decoded.length === 0) return [];
+
+    const raw = serializeSigned(tx);
+    const added = await storage.addSwapIntents(decoded.map((intent, position) => toStoredSwapIntent(tx, position, intent, raw)));
+    this.swapsStored += added.length;
+    for (const intent of added) {
+      await storage.addMempoolActivity({ message: describeSwapIntent(intent), type: "swap" });
+    }
+    return added;
+  }
+
+  private async onHead(head: RpcHead) {
+    try {
+      const blockNumber = Number(head.number);
+      const block = await this.request<RpcBlock | null>("eth_getBlockByNumber", [head.number, false]);
+      if (block?.transactions?.length) {
+        await storage.markSwapIntentsMined(block.transactions, blockNumber);
+      }
+
+      // Deadlines are checked against the chain's clock
+      const now = new Date(Number(head.timestamp) * 1000);
+      await storage.expireSwapIntents(now, new Date(Date.now() - PENDING_SWAP_TTL_MS));
+      await storage.deleteSwapIntents(new Date(Date.now() - SETTLED_SWAP_RETENTION_MS));
+    } catch (error) {
+      console.error("Error settling swap intents:", error);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { ethers } from "ethers";
+import { TOKENS, type TokenInfo, parseTokenAmount } from "../client/src/lib/tokens";
+import { requireDex } from "../client/src/lib/dex-registry";
+import { AAVE_V3_POOL_ADDRESS } from "../client/src/lib/flash-loans";
+import { getPriceInEth } from "../client/src/lib/quoting";
+import type { MockChainFixtures, MockReserve } from "./mock-rpc-node";
+
+// Hardhat's well-known development keys; funded on the mock chain only
+export const DEV_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const SWAPPER_PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+const V2_ROUTER_ABI = [
+  "function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) payable returns (uint[] memory amounts)",
+];
+
+// Far enough out that scripted swaps never expire
+const SCRIPTED_DEADLINE = 4102444800; // 2100-01-01
+
+const GWEI = 1000000000n;
+
+// Aave borrowers on the dev chain: one already below a health factor of 1, one safe
+const UNDERWATER_BORROWER = "0x1000000000000000000000000000000000000001";
+const HEALTHY_BORROWER = "0x1000000000000000000000000000000000000002";
+
+// Aave V3 reserves with mainnet-like risk parameters, priced in USD off the pool snapshot
+function createReserves(): MockReserve[] {
+  const usdPerEth = 1 / getPriceInEth(TOKENS.USDC);
+  const reserve = (token: TokenInfo, liquidationThresholdBps: number, liquidationBonusBps: number): MockReserve => ({
+    asset: token.address,
+    liquidationThresholdBps,
+    liquidationBonusBps,
+    liquidationProtocolFeeBps: 1000,
+    price: BigInt(Math.round(getPriceInEth(token) * usdPerEth * 1e8)),
+  });
+  return [
+    reserve(TOKENS.WETH, 8300, 10500),
+    reserve(TOKENS.WBTC, 7800, 10500),
+    reserve(TOKENS.USDC, 7800, 10450),
+    reserve(TOKENS.USDT, 7800, 10450),
+    reserve(TOKENS.DAI, 7700, 10500),
+  ];
+}
+
+// Dev chain: a funded bot wallet, Aave liquidity to flash-borrow, Aave borrowers to
+// watch for liquidation, plus another user swapping ETH on the V2 DEXes at a fixed
+// rhythm so prices drift and the mempool has something in it
+export function createDevFixtures(walletAddress = new ethers.Wallet(DEV_PRIVATE_KEY).address): MockChainFixtures {
+  const swapper = new ethers.Wallet(SWAPPER_PRIVATE_KEY).address;
+  const router = new ethers.Interface(V2_ROUTER_ABI);
+  const blockNumber = 19000000;
+  const reserves = createReserves();
+  const priceOf = (token: TokenInfo) => reserves.find(reserve => reserve.asset === token.address)!.price;
+  const worth = (token: TokenInfo, usd: bigint) => (usd * 10n ** BigInt(token.decimals)) / priceOf(token);
+
+  const sellEth = (dex: string, token: TokenInfo, eth: string, atBlock: number, repeatEvery: number) => ({
+    privateKey: SWAPPER_PRIVATE_KEY,
+    atBlock: blockNumber + atBlock,
+    repeatEvery,
+    to: requireDex(dex).routerAddress,
+    data: router.encodeFunctionData("swapExactETHForTokens", [
+      0,
+      [TOKENS.WETH.address, token.address],
+      swapper,
+      SCRIPTED_DEADLINE,
+    ]),
+    value: ethers.parseEther(eth),
+    gasLimit: 200000n,
+    maxPriorityFeePerGas: 2n * GWEI,
+  });
+
+  return {
+    blockNumber,
+    blockTimeMs: 3000,
+    baseFeePerGas: 20n * GWEI,
+    blockFullness: [0.5, 0.62, 0.44, 0.55, 0.38, 0.7],
+    backgroundTips: [10000000n, 50000000n, 100000000n, 500000000n, GWEI, 1500000000n, 2n * GWEI, 3n * GWEI, 5n * GWEI],
+    accounts: [
+      {
+        address: walletAddress,
+        balance: ethers.parseEther("100"),
+        tokens: {
+          [TOKENS.WETH.address]: parseTokenAmount(TOKENS.WETH, "50"),
+          [TOKENS.USDC.address]: parseTokenAmount(TOKENS.USDC, "100000"),
+          [TOKENS.USDT.address]: parseTokenAmount(TOKENS.USDT, "100000"),
+          [TOKENS.DAI.address]: parseTokenAmount(TOKENS.DAI, "100000"),
+          [TOKENS.WBTC.address]: parseTokenAmount(TOKENS.WBTC, "2"),
+          [TOKENS.stETH.address]: parseTokenAmount(TOKENS.stETH, "50"),
+        },
+      },
+      { address: swapper, balance: ethers.parseEther("10000") },
+      {
+        address: AAVE_V3_POOL_ADDRESS,
+        balance: 0n,
+        tokens: {
+          [TOKENS.WETH.address]: parseTokenAmount(TOKENS.WETH, "200000"),
+          [TOKENS.USDC.address]: parseTokenAmount(TOKENS.USDC, "500000000"),
+          [TOKENS.USDT.address]: parseTokenAmount(TOKENS.USDT, "500000000"),
+          [TOKENS.DAI.address]: parseTokenAmount(TOKENS.DAI, "200000000"),
+          [TOKENS.WBTC.address]: parseTokenAmount(TOKENS.WBTC, "10000"),
+        },
+      },
+    ],
+    lending: {
+      reserves,
+      positions: [
+        {
+          borrower: UNDERWATER_BORROWER,
+          collateral: { [TOKENS.WETH.address]: parseTokenAmount(TOKENS.WETH, "20") },
+          // Health factor 0.97: 20 WETH at an 83% threshold over the debt
+          debt: { [TOKENS.USDC.address]: worth(TOKENS.USDC, (20n * priceOf(TOKENS.WETH) * 8300n) / 9700n) },
+        },
+        {
+          borrower: HEALTHY_BORROWER,
+          collateral: { [TOKENS.WBTC.address]: parseTokenAmount(TOKENS.WBTC, "1") },
+          // Health factor 2
+          debt: { [TOKENS.DAI.address]: worth(TOKENS.DAI, (priceOf(TOKENS.WBTC) * 7800n) / 20000n) },
+        },
+      ],
+    },
+    scriptedTransactions: [
+      sellEth("uniswap", TOKENS.USDC, "25", 2, 5),
+      sellEth("sushiswap", TOKENS.DAI, "10", 4, 7),
+    ],
+  };
+}
@@ -0,0 +1,1958 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { WebSocketServer, WebSocket } from "ws";
+import { type Pool, getPools, getPoolTokens } from "../client/src/lib/pools";
+import { getDexes, requireDex } from "../client/src/lib/dex-registry";
+import { MAINNET_CHAIN_ID, TOKENS, type TokenInfo, findToken, toPoolToken } from "../client/src/lib/tokens";
+import { AAVE_V3_POOL_ADDRESS, FLASH_LOAN_PREMIUM_BPS, flashLoanPremium, flashLoanReceiver } from "../client/src/lib/flash-loans";
+import { FLASH_LOAN_RECEIVER_BYTECODE } from "../client/src/lib/flash-loan-receiver";
+import {
+  HEALTH_FACTOR_LIQUIDATION_THRESHOLD,
+  type PositionEntry,
+  type ReserveConfig,
+  calculateLiquidation,
+  healthFactor,
+} from "../client/src/lib/liquidations";
+
+// A funded account at genesis
+export interface MockAccount {
+  address: string;
+  balance: bigint; // wei
+  tokens?: Record<string, bigint>; // token address -> raw balance
+}
+
+// A transaction another searcher or user sends, signed by the node when it is due
+export interface ScriptedTransaction {
+  privateKey: string;
+  atBlock: number; // enters the mempool once the block before it is mined
+  repeatEvery?: number; // blocks between resubmissions
+  to: string;
+  data?: string;
+  value?: bigint;
+  gasLimit?: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas?: bigint; // twice the base fee plus the tip when omitted
+}
+
+// A reserve of the Aave V3 pool; reserve ids follow the order reserves are listed in
+export interface MockReserve {
+  asset: string;
+  liquidationThresholdBps: number;
+  liquidationBonusBps: number;
+  liquidationProtocolFeeBps?: number;
+  price: bigint; // oracle price in USD, 8 decimals
+}
+
+// A borrower's Aave V3 position at genesis; all of its supplied assets count as collateral
+export interface MockLendingPosition {
+  borrower: string;
+  collateral: Record<string, bigint>; // asset address -> raw amount
+  debt: Record<string, bigint>;
+}
+
+export interface MockChainFixtures {
+  chainId?: number;
+  blockNumber?: number; // head when the node starts
+  timestamp?: number; // head timestamp; blocks then advance by blockSeconds. Follows the wall clock when omitted
+  blockSeconds?: number;
+  blockTimeMs?: number; // mine on a timer; 0 mines every transaction as it arrives
+  gasLimit?: bigint;
+  baseFeePerGas: bigint;
+  blockFullness?: number[]; // share of each block's gas used by other traffic, cycled
+  backgroundTips?: bigint[]; // priority fees that traffic pays
+  accounts: MockAccount[];
+  pools?: Pool[]; // defaults to the pool snapshot
+  scriptedTransactions?: ScriptedTransaction[];
+  lending?: { reserves: MockReserve[]; positions?: MockLendingPosition[] };
+}
+
+// Balances and pool state; cloned whenever a call must not touch the chain
+interface Ledger {
+  balances: Map<string, bigint>;
+  nonces: Map<string, number>;
+  tokenBalances: Map<string, bigint>; // `${token}:${owner}`
+  allowances: Map<string, bigint>; // `${token}:${owner}:${spender}`
+  pools: Pool[];
+  deployed: Map<string, Contract>; // contracts created on the mock chain, by address
+  oraclePrices: Map<string, bigint>; // Aave oracle, by asset
+}
+
+interface MockTransaction {
+  hash: string;
+  type: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  gasLimit: bigint;
+  maxFeePerGas: bigint; // gas price for legacy transactions
+  maxPriorityFeePerGas: bigint;
+  value: bigint;
+  data: string;
+  signature: { r: string; s: string; yParity: number } | null; // null when sent as an impersonated account
+  arrival: number;
+}
+
+interface MockReceipt {
+  status: number;
+  contractAddress: string | null;
+  gasUsed: bigint;
+  cumulativeGasUsed: bigint;
+  effectiveGasPrice: bigint;
+  revertReason: string | null;
+  index: number;
+  blockNumber: number;
+  blockHash: string;
+}
+
+interface MockBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  baseFeePerGas: bigint;
+  transactions: string[];
+  tips: bigint[]; // priority fees paid in the block, ascending
+}
+
+// Transactions sent privately through eth_sendBundle, to land together in one block or not at all
+interface MockBundle {
+  hash: string;
+  blockNumber: number;
+  transactions: MockTransaction[];
+  revertingTxHashes: Set<string>; // allowed to revert without dropping the bundle
+}
+
+interface ChainState {
+  ledger: Ledger;
+  blocks: MockBlock[];
+  history: Map<number, Ledger>; // ledger after each recent block, for calls at a block tag
+  mempool: MockTransaction[];
+  bundles: MockBundle[];
+  mined: Map<string, { tx: MockTransaction; receipt: MockReceipt }>;
+  arrivals: number;
+}
+
+// A call being executed, with the gas it has used so far
+interface CallFrame {
+  ledger: Ledger;
+  from: string;
+  to: string;
+  value: bigint;
+  data: string;
+  timestamp: number;
+  gasUsed: number;
+}
+
+type Contract =
+  | { kind: "weth" }
+  | { kind: "erc20"; token: TokenInfo }
+  | { kind: "v2Router"; dex: string }
+  | { kind: "v3Router"; dex: string }
+  | { kind: "vault"; dex: string }
+  | { kind: "pool"; pool: Pool }
+  | { kind: "aavePool" }
+  | { kind: "aaveToken"; asset: string }
+  | { kind: "aaveAddressesProvider" }
+  | { kind: "aaveOracle" }
+  | { kind: "flashReceiver"; owner: string; pool: string };
+
+const ERC20_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+];
+
+const WETH_ABI = [...ERC20_ABI, "function deposit() payable", "function withdraw(uint256 wad)"];
+
+const V2_ROUTER_ABI = [
+  "function WETH() view returns (address)",
+  "function getAmountsOut(uint amountIn, address[] path) view returns (uint[] amounts)",
+  "function swapExactETHForTokens(uint amountOutMin, address[] path, address to, uint deadline) payable returns (uint[] amounts)",
+  "function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline) returns (uint[] amounts)",
+  "function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] path, address to, uint deadline) returns (uint[] amounts)",
+];
+
+const V2_PAIR_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)",
+];
+
+const V3_ROUTER_ABI = [
+  "function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) payable returns (uint256 amountOut)",
+  "function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)",
+];
+
+const V3_POOL_ABI = [
+  "function token0() view returns (address)",
+  "function token1() view returns (address)",
+  "function fee() view returns (uint24)",
+  "function tickSpacing() view returns (int24)",
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
+  "function liquidity() view returns (uint128)",
+  "function tickBitmap(int16 wordPosition) view returns (uint256)",
+  "function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)",
+];
+
+const CURVE_POOL_ABI = [
+  "function A() view returns (uint256)",
+  "function fee() view returns (uint256)",
+  "function coins(uint256 i) view returns (address)",
+  "function balances(uint256 i) view returns (uint256)",
+  "function offpeg_fee_multiplier() view returns (uint256)",
+  "function get_dy(int128 i, int128 j, uint256 dx) view returns (uint256)",
+  "function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) payable returns (uint256)",
+];
+
+const BALANCER_POOL_ABI = [
+  "function getPoolId() view returns (bytes32)",
+  "function getNormalizedWeights() view returns (uint256[])",
+  "function getSwapFeePercentage() view returns (uint256)",
+];
+
+const BALANCER_VAULT_ABI = [
+  "function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)",
+  "function batchSwap(uint8 kind, (bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, (address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds, int256[] limits, uint256 deadline) payable returns (int256[] assetDeltas)",
+];
+
+const AAVE_POOL_ABI = [
+  "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)",
+  "function flashLoanSimple(address receiverAddress, address asset, uint256 amount, bytes params, uint16 referralCode)",
+  "function ADDRESSES_PROVIDER() view returns (address)",
+  "function getReservesList() view returns (address[])",
+  "function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))",
+  "function getUserConfiguration(address user) view returns (tuple(uint256 data))",
+  "function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)",
+];
+
+// aTokens and variable-debt tokens, which only report balances here
+const AAVE_TOKEN_ABI = [
+  "function balanceOf(address owner) view returns (uint256)",
+  "function UNDERLYING_ASSET_ADDRESS() view returns (address)",
+];
+
+const AAVE_ADDRESSES_PROVIDER_ABI = [
+  "function getPool() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+];
+
+const AAVE_ORACLE_ABI = [
+  "function BASE_CURRENCY_UNIT() view returns (uint256)",
+  "function getAssetPrice(address asset) view returns (uint256)",
+  "function getAssetsPrices(address[] assets) view returns (uint256[])",
+];
+
+// Aave V3 on Ethereum mainnet
+const AAVE_ADDRESSES_PROVIDER_ADDRESS = "0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e";
+const AAVE_ORACLE_ADDRESS = "0x54586bE62E3c3580375aE3723C145253060Ca0C2";
+const RAY = 10n ** 27n;
+
+const FLASH_LOAN_CALLS = ["tuple(address target, uint256 value, bytes data)[]", "uint256"];
+
+const erc20 = new ethers.Interface(ERC20_ABI);
+const weth = new ethers.Interface(WETH_ABI);
+const v2Router = new ethers.Interface(V2_ROUTER_ABI);
+const v2Pair = new ethers.Interface(V2_PAIR_ABI);
+const v3Router = new ethers.Interface(V3_ROUTER_ABI);
+const v3Pool = new ethers.Interface(V3_POOL_ABI);
+const curvePool = new ethers.Interface(CURVE_POOL_ABI);
+const balancerPool = new ethers.Interface(BALANCER_POOL_ABI);
+const balancerVault = new ethers.Interface(BALANCER_VAULT_ABI);
+const aavePool = new ethers.Interface(AAVE_POOL_ABI);
+const aaveToken = new ethers.Interface(AAVE_TOKEN_ABI);
+const aaveAddressesProvider = new ethers.Interface(AAVE_ADDRESSES_PROVIDER_ABI);
+const aaveOracle = new ethers.Interface(AAVE_ORACLE_ABI);
+
+// Fixed gas per operation, so receipts and estimates are repeatable
+const GAS = {
+  base: 21000,
+  erc20: 30000,
+  wrap: 24000,
+  unwrap: 14000,
+  v2Hop: 75000,
+  v3Hop: 100000,
+  curveSwap: 130000,
+  balancerSwap: 90000,
+  call: 2600, // a contract calling another
+  flashLoan: 60000,
+  liquidation: 180000,
+  deployReceiver: 750000,
+};
+
+// Recent block states kept for eth_call at a block tag
+const HISTORY_DEPTH = 16;
+
+const MAX_UINT256 = ethers.MaxUint256;
+const ERROR_SELECTOR = ethers.id("Error(string)").slice(0, 10);
+const EMPTY_BLOOM = "0x" + "00".repeat(256);
+
+// A revert inside a call, surfaced with the same data a real node returns
+class Revert extends Error {
+  readonly data: string;
+
+  constructor(reason: string) {
+    super(reason);
+    this.data = reason
+      ? ethers.concat([ERROR_SELECTOR, ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason])])
+      : "0x";
+  }
+}
+
+// A JSON-RPC error response
+class RpcError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: string) {
+    super(message);
+  }
+}
+
+function revertError(revert: Revert): RpcError {
+  const message = revert.message ? `execution reverted: ${revert.message}` : "execution reverted";
+  return new RpcError(3, message, revert.data);
+}
+
+const key = (address: string) => address.toLowerCase();
+
+function cloneLedger(ledger: Ledger): Ledger {
+  return structuredClone(ledger);
+}
+
+function tokenBalance(ledger: Ledger, token: string, owner: string): bigint {
+  return ledger.tokenBalances.get(`${key(token)}:${key(owner)}`) ?? 0n;
+}
+
+function creditToken(ledger: Ledger, token: string, owner: string, amount: bigint) {
+  ledger.tokenBalances.set(`${key(token)}:${key(owner)}`, tokenBalance(ledger, token, owner) + amount);
+}
+
+function debitToken(ledger: Ledger, token: string, owner: string, amount: bigint, reason: string) {
+  const balance = tokenBalance(ledger, token, owner);
+  if (balance < amount) throw new Revert(reason);
+  ledger.tokenBalances.set(`${key(token)}:${key(owner)}`, balance - amount);
+}
+
+function allowance(ledger: Ledger, token: string, owner: string, spender: string): bigint {
+  return ledger.allowances.get(`${key(token)}:${key(owner)}:${key(spender)}`) ?? 0n;
+}
+
+// Take tokens from the owner on behalf of the called contract, spending its allowance
+function pullToken(frame: CallFrame, token: string, owner: string, amount: bigint, reason: string) {
+  if (key(owner) !== key(frame.to)) {
+    const allowed = allowance(frame.ledger, token, owner, frame.to);
+    if (allowed < amount) throw new Revert(reason);
+    if (allowed !== MAX_UINT256) {
+      frame.ledger.allowances.set(`${key(token)}:${key(owner)}:${key(frame.to)}`, allowed - amount);
+    }
+  }
+  debitToken(frame.ledger, token, owner, amount, reason);
+  frame.gasUsed += GAS.erc20;
+}
+
+// Pay out a token, or ETH for the native pseudo-token
+function payOut(frame: CallFrame, token: TokenInfo, recipient: string, amount: bigint) {
+  if (token.address === TOKENS.ETH.address) {
+    frame.ledger.balances.set(key(recipient), (frame.ledger.balances.get(key(recipient)) ?? 0n) + amount);
+  } else {
+    creditToken(frame.ledger, token.address, recipient, amount);
+  }
+}
+
+// Stand-in address for a reserve's aToken or variable-debt token
+function aaveTokenAddress(asset: string, debt: boolean): string {
+  return ethers.getAddress(ethers.dataSlice(ethers.id(`${debt ? "variableDebt" : "a"}:${key(asset)}`), 12));
+}
+
+// Aave V3 ReserveConfiguration bitmap, with the fields the mock models
+function reserveConfiguration(reserve: MockReserve, decimals: number): bigint {
+  return (BigInt(reserve.liquidationThresholdBps) << 16n)
+    | (BigInt(reserve.liquidationBonusBps) << 32n)
+    | (BigInt(decimals) << 48n)
+    | (1n << 56n) // active
+    | (BigInt(reserve.liquidationProtocolFeeBps ?? 0) << 152n);
+}
+
+function isReceiverCreation(data: string): boolean {
+  return data.toLowerCase().startsWith(FLASH_LOAN_RECEIVER_BYTECODE.toLowerCase());
+}
+
+function requireToken(address: string): TokenInfo {
+  const token = findToken(address);
+  if (!token) throw new Revert(`Unknown token ${address}`);
+  return token;
+}
+
+function samePoolTokens(pool: Pool, tokenA: TokenInfo, tokenB: TokenInfo): boolean {
+  const tokens = getPoolTokens(pool).map(token => key(toPoolToken(token).address));
+  return tokens.includes(key(toPoolToken(tokenA).address)) && tokens.includes(key(toPoolToken(tokenB).address));
+}
+
+// Swap through a pool, moving its state the way the swap would on chain
+function swapInPool(pool: Pool, tokenIn: TokenInfo, tokenOut: TokenInfo, amountIn: bigint): bigint {
+  try {
+    return requireDex(pool.dex).swap(pool, tokenIn, tokenOut, amountIn);
+  } catch (error) {
+    throw error instanceof Revert ? error : new Revert((error as Error).message);
+  }
+}
+
+function parseCall(iface: ethers.Interface, frame: CallFrame): ethers.TransactionDescription {
+  const call = iface.parseTransaction({ data: frame.data, value: frame.value });
+  if (!call) throw new Revert(""); // no matching function and no fallback
+  return call;
+}
+
+function callErc20(frame: CallFrame, token: TokenInfo, iface: ethers.Interface): string {
+  const call = parseCall(iface, frame);
+  const { ledger } = frame;
+  const result = (...values: unknown[]) => iface.encodeFunctionResult(call.fragment, values);
+
+  switch (call.name) {
+    case "name":
+      return result(token.name ?? token.symbol);
+    case "symbol":
+      return result(token.symbol);
+    case "decimals":
+      return result(token.decimals);
+    case "totalSupply": {
+      let total = 0n;
+      ledger.tokenBalances.forEach((balance, owner) => {
+        if (owner.startsWith(`${key(token.address)}:`)) total += balance;
+      });
+      return result(total);
+    }
+    case "balanceOf":
+      return result(tokenBalance(ledger, token.address, call.args[0]));
+    case "allowance":
+      return result(allowance(ledger, token.address, call.args[0], call.args[1]));
+    case "approve":
+      ledger.allowances.set(`${key(token.address)}:${key(frame.from)}:${key(call.args[0])}`, call.args[1]);
+      frame.gasUsed += GAS.erc20;
+      return result(true);
+    case "transfer":
+      debitToken(ledger, token.address, frame.from, call.args[1], "ERC20: transfer amount exceeds balance");
+      creditToken(ledger, token.address, call.args[0], call.args[1]);
+      frame.gasUsed += GAS.erc20;
+      return result(true);
+    case "transferFrom": {
+      const [owner, recipient, amount] = call.args;
+      // The caller spends its own allowance
+      const spender: CallFrame = { ...frame, to: frame.from, gasUsed: 0 };
+      pullToken(spender, token.address, owner, amount, "ERC20: insufficient allowance");
+      creditToken(ledger, token.address, recipient, amount);
+      frame.gasUsed += spender.gasUsed;
+      return result(true);
+    }
+    case "deposit":
+      creditToken(ledger, token.address, frame.from, frame.value);
+      frame.gasUsed += GAS.wrap;
+      return result();
+    case "withdraw":
+      debitToken(ledger, token.address, frame.from, call.args[0], "");
+      payOut(frame, TOKENS.ETH, frame.from, call.args[0]);
+      frame.gasUsed += GAS.unwrap;
+      return result();
+  }
+  throw new Revert("");
+}
+
+function findV2Pool(frame: CallFrame, dex: string, tokenA: TokenInfo, tokenB: TokenInfo): Pool {
+  const pool = frame.ledger.pools.find(pool => pool.type === "v2" && pool.dex === dex && samePoolTokens(pool, tokenA, tokenB));
+  if (!pool) throw new Revert(""); // the pair does not exist
+  return pool;
+}
+
+function swapV2Path(frame: CallFrame, dex: string, path: string[], amountIn: bigint): bigint[] {
+  if (path.length < 2) throw new Revert("UniswapV2Library: INVALID_PATH");
+  const amounts = [amountIn];
+  for (let k = 0; k < path.length - 1; k++) {
+    const tokenIn = requireToken(path[k]);
+    const tokenOut = requireToken(path[k + 1]);
+    amounts.push(swapInPool(findV2Pool(frame, dex, tokenIn, tokenOut), tokenIn, tokenOut, amounts[k]));
+    frame.gasUsed += GAS.v2Hop;
+  }
+  return amounts;
+}
+
+function callV2Router(frame: CallFrame, dex: string): string {
+  const call = parseCall(v2Router, frame);
+  const result = (...values: unknown[]) => v2Router.encodeFunctionResult(call.fragment, values);
+  const isWeth = (address: string) => key(address) === key(TOKENS.WETH.address);
+
+  const checkDeadline = (deadline: bigint) => {
+    if (deadline < BigInt(frame.timestamp)) throw new Revert("UniswapV2Router: EXPIRED");
+  };
+  const checkOutput = (amounts: bigint[], amountOutMin: bigint) => {
+    if (amounts[amounts.length - 1] < amountOutMin) throw new Revert("UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+  };
+
+  switch (call.name) {
+    case "WETH":
+      return result(TOKENS.WETH.address);
+    case "getAmountsOut":
+      return result(swapV2Path(frame, dex, call.args[1], call.args[0]));
+    case "swapExactETHForTokens": {
+      const [amountOutMin, path, to, deadline] = call.args;
+      checkDeadline(deadline);
+      if (!isWeth(path[0])) throw new Revert("UniswapV2Router: INVALID_PATH");
+      const amounts = swapV2Path(frame, dex, path, frame.value);
+      checkOutput(amounts, amountOutMin);
+      payOut(frame, requireToken(path[path.length - 1]), to, amounts[amounts.length - 1]);
+      return result(amounts);
+    }
+    case "swapExactTokensForETH":
+    case "swapExactTokensForTokens": {
+      const [amountIn, amountOutMin, path, to, deadline] = call.args;
+      checkDeadline(deadline);
+      const toEth = call.name === "swapExactTokensForETH";
+      if (toEth && !isWeth(path[path.length - 1])) throw new Revert("UniswapV2Router: INVALID_PATH");
+      const amounts = swapV2Path(frame, dex, path, amountIn);
+      checkOutput(amounts, amountOutMin);
+      pullToken(frame, path[0], frame.from, amountIn, "TransferHelper: TRANSFER_FROM_FAILED");
+      payOut(frame, toEth ? TOKENS.ETH : requireToken(path[path.length - 1]), to, amounts[amounts.length - 1]);
+      return result(amounts);
+    }
+  }
+  throw new Revert("");
+}
+
+// exactInput's packed path: tokenIn, fee, token, fee, ..., tokenOut
+function decodeV3Path(path: string): { tokens: string[]; fees: number[] } {
+  const bytes = ethers.getBytes(path);
+  const tokens = [ethers.getAddress(ethers.hexlify(bytes.slice(0, 20)))];
+  const fees: number[] = [];
+  for (let offset = 20; offset + 23 <= bytes.length; offset += 23) {
+    fees.push(Number(ethers.toBigInt(bytes.slice(offset, offset + 3))));
+    tokens.push(ethers.getAddress(ethers.hexlify(bytes.slice(offset + 3, offset + 23))));
+  }
+  return { tokens, fees };
+}
+
+function callV3Router(frame: CallFrame, dex: string): string {
+  const call = parseCall(v3Router, frame);
+
+  if (call.name === "multicall") {
+    const [deadline, calls] = call.args;
+    if (deadline < BigInt(frame.timestamp)) throw new Revert("Transaction too old");
+    const results = (calls as string[]).map(data => {
+      const inner: CallFrame = { ...frame, data, gasUsed: 0 };
+      const output = callV3Router(inner, dex);
+      frame.gasUsed += inner.gasUsed;
+      return output;
+    });
+    return v3Router.encodeFunctionResult(call.fragment, [results]);
+  }
+
+  const [path, recipient, amountIn, amountOutMinimum] = call.args[0];
+  const { tokens, fees } = decodeV3Path(path);
+  let amount: bigint = amountIn;
+  for (let k = 0; k < fees.length; k++) {
+    const tokenIn = requireToken(tokens[k]);
+    const tokenOut = requireToken(tokens[k + 1]);
+    const pool = frame.ledger.pools.find(pool =>
+      pool.type === "v3" && pool.dex === dex && pool.fee === fees[k] && samePoolTokens(pool, tokenIn, tokenOut)
+    );
+    if (!pool) throw new Revert("");
+    amount = swapInPool(pool, tokenIn, tokenOut, amount);
+    frame.gasUsed += GAS.v3Hop;
+  }
+  if (amount < amountOutMinimum) throw new Revert("Too little received");
+
+  // The router wraps ETH sent with the call; anything else is pulled from the sender
+  const paidInEth = frame.value > 0n && key(tokens[0]) === key(TOKENS.WETH.address);
+  if (paidInEth && frame.value < amountIn) throw new Revert("");
+  if (!paidInEth) pullToken(frame, tokens[0], frame.from, amountIn, "STF");
+  payOut(frame, requireToken(tokens[tokens.length - 1]), recipient, amount);
+  return v3Router.encodeFunctionResult(call.fragment, [amount]);
+}
+
+function callVault(frame: CallFrame): string {
+  const call = parseCall(balancerVault, frame);
+  const result = (...values: unknown[]) => balancerVault.encodeFunctionResult(call.fragment, values);
+  const findByPoolId = (poolId: string) => {
+    const pool = frame.ledger.pools.find(pool => pool.type === "balancer" && pool.poolId === poolId);
+    if (!pool || pool.type !== "balancer") throw new Revert("BAL#500"); // INVALID_POOL_ID
+    return pool;
+  };
+
+  if (call.name === "getPoolTokens") {
+    const pool = findByPoolId(call.args[0]);
+    return result(pool.tokens.map(token => toPoolToken(token).address), pool.balances, 0);
+  }
+
+  const [kind, swaps, assets, funds, limits, deadline] = call.args;
+  if (kind !== 0n) throw new Revert("BAL#999"); // only GIVEN_IN is supported here
+  if (deadline < BigInt(frame.timestamp)) throw new Revert("BAL#508"); // SWAP_DEADLINE
+  if (key(funds.sender) !== key(frame.from)) throw new Revert("BAL#401"); // SENDER_NOT_ALLOWED
+
+  // Address zero stands for ETH, which the Vault wraps
+  const assetToken = (index: number) =>
+    assets[index] === ethers.ZeroAddress ? TOKENS.ETH : requireToken(assets[index]);
+
+  const deltas: bigint[] = (assets as string[]).map(() => 0n);
+  let previous: { assetOut: number; amountOut: bigint } | null = null;
+  for (const swap of swaps) {
+    const assetIn = Number(swap.assetInIndex);
+    const assetOut = Number(swap.assetOutIndex);
+    let amount: bigint = swap.amount;
+    if (amount === 0n) {
+      if (!previous || previous.assetOut !== assetIn) throw new Revert("BAL#526"); // MALCONSTRUCTED_MULTIHOP_SWAP
+      amount = previous.amountOut;
+    }
+    const amountOut = swapInPool(findByPoolId(swap.poolId), assetToken(assetIn), assetToken(assetOut), amount);
+    deltas[assetIn] += amount;
+    deltas[assetOut] -= amountOut;
+    previous = { assetOut, amountOut };
+    frame.gasUsed += GAS.balancerSwap;
+  }
+
+  deltas.forEach((delta, index) => {
+    if (delta > limits[index]) throw new Revert("BAL#507"); // SWAP_LIMIT
+  });
+  deltas.forEach((delta, index) => {
+    const token = assetToken(index);
+    if (delta > 0n && token.address === TOKENS.ETH.address) {
+      if (frame.value < delta) throw new Revert("BAL#505"); // INSUFFICIENT_ETH
+    } else if (delta > 0n) {
+      pullToken(frame, token.address, funds.sender, delta, "BAL#414"); // ERC20_TRANSFER_EXCEEDS_ALLOWANCE
+    } else if (delta < 0n) {
+      payOut(frame, token, funds.recipient, -delta);
+    }
+  });
+  return result(deltas);
+}
+
+function callPool(frame: CallFrame, pool: Pool): string {
+  switch (pool.type) {
+    case "v2": {
+      const call = parseCall(v2Pair, frame);
+      const result = (...values: unknown[]) => v2Pair.encodeFunctionResult(call.fragment, values);
+      if (call.name === "token0") return result(pool.token0.address);
+      if (call.name === "token1") return result(pool.token1.address);
+      return result(pool.reserve0, pool.reserve1, frame.timestamp % 2 ** 32);
+    }
+    case "v3": {
+      const call = parseCall(v3Pool, frame);
+      const result = (...values: unknown[]) => v3Pool.encodeFunctionResult(call.fragment, values);
+      switch (call.name) {
+        case "token0":
+          return result(pool.token0.address);
+        case "token1":
+          return result(pool.token1.address);
+        case "fee":
+          return result(pool.fee);
+        case "tickSpacing":
+          return result(pool.tickSpacing);
+        case "slot0":
+          return result(pool.sqrtPriceX96, pool.tick, 0, 1, 1, 0, true);
+        case "liquidity":
+          return result(pool.liquidity);
+        case "tickBitmap":
+          return result(pool.tickBitmap.get(Number(call.args[0])) ?? 0n);
+        case "ticks": {
+          const liquidityNet = pool.ticks.get(Number(call.args[0]));
+          const net = liquidityNet ?? 0n;
+          return result(net < 0n ? -net : net, net, 0, 0, 0, 0, 0, liquidityNet !== undefined);
+        }
+      }
+      break;
+    }
+    case "curve": {
+      const call = parseCall(curvePool, frame);
+      const result = (...values: unknown[]) => curvePool.encodeFunctionResult(call.fragment, values);
+      const coin = (index: bigint) => {
+        if (index < 0n || index >= BigInt(pool.coins.length)) throw new Revert("");
+        return Number(index);
+      };
+      switch (call.name) {
+        case "A":
+          return result(pool.amp);
+        case "fee":
+          return result(pool.fee);
+        case "coins":
+          return result(pool.coins[coin(call.args[0])].address);
+        case "balances":
+          return result(pool.balances[coin(call.args[0])]);
+        case "offpeg_fee_multiplier":
+          return result(pool.offpegFeeMultiplier);
+        case "get_dy":
+          return result(swapInPool(pool, pool.coins[coin(call.args[0])], pool.coins[coin(call.args[1])], call.args[2]));
+        case "exchange": {
+          const [i, j, dx, minDy] = call.args;
+          const coinIn = pool.coins[coin(i)];
+          const coinOut = pool.coins[coin(j)];
+          const dy = swapInPool(pool, coinIn, coinOut, dx);
+          if (dy < minDy) throw new Revert("Exchange resulted in fewer coins than expected");
+          if (coinIn.address === TOKENS.ETH.address) {
+            if (frame.value !== dx) throw new Revert("");
+          } else {
+            pullToken(frame, coinIn.address, frame.from, dx, "");
+          }
+          payOut(frame, coinOut, frame.from, dy);
+          frame.gasUsed += GAS.curveSwap;
+          return result(dy);
+        }
+      }
+      break;
+    }
+    case "balancer": {
+      const call = parseCall(balancerPool, frame);
+      const result = (...values: unknown[]) => balancerPool.encodeFunctionResult(call.fragment, values);
+      if (call.name === "getPoolId") return result(pool.poolId);
+      if (call.name === "getNormalizedWeights") return result(pool.weights);
+      return result(pool.swapFee);
+    }
+  }
+  throw new Revert("");
+}
+
+// Deterministic in-process Ethereum node for offline development and tests.
+// It speaks enough JSON-RPC for the bot's own paths (reads, pool state, quotes,
+// signed sends, receipts, fee history, pending-transaction feeds and fork-style
+// simulation) and executes the DEX calls we build against the pool snapshot,
+// so the same fixtures always produce the same blocks, receipts and balances.
+function callAaveToken(frame: CallFrame, asset: string): string {
+  const call = parseCall(aaveToken, frame);
+  const result = (...values: unknown[]) => aaveToken.encodeFunctionResult(call.fragment, values);
+  switch (call.name) {
+    case "balanceOf":
+      return result(tokenBalance(frame.ledger, frame.to, call.args[0]));
+    case "UNDERLYING_ASSET_ADDRESS":
+      return result(asset);
+    default:
+      throw new Revert("");
+  }
+}
+
+function callAaveAddressesProvider(frame: CallFrame): string {
+  const call = parseCall(aaveAddressesProvider, frame);
+  const result = (...values: unknown[]) => aaveAddressesProvider.encodeFunctionResult(call.fragment, values);
+  return call.name === "getPool" ? result(AAVE_V3_POOL_ADDRESS) : result(AAVE_ORACLE_ADDRESS);
+}
+
+function callAaveOracle(frame: CallFrame): string {
+  const call = parseCall(aaveOracle, frame);
+  const result = (...values: unknown[]) => aaveOracle.encodeFunctionResult(call.fragment, values);
+  const priceOf = (asset: string) => frame.ledger.oraclePrices.get(key(asset)) ?? 0n;
+  switch (call.name) {
+    case "BASE_CURRENCY_UNIT":
+      return result(10n ** 8n);
+    case "getAssetPrice":
+      return result(priceOf(call.args[0]));
+    default:
+      return result(call.args[0].map(priceOf));
+  }
+}
+
+export class MockRpcNode {
+  readonly chainId: number;
+  private state: ChainState;
+  private fixtures: MockChainFixtures;
+  private contracts = new Map<string, Contract>();
+  private impersonated = new Set<string>();
+  private snapshots = new Map<number, ChainState>();
+  private nextSnapshotId = 1;
+  private filters = new Map<string, { kind: "block" | "pending"; changes: string[] }>();
+  private nextFilterId = 1;
+  private subscriptions = new Map<string, { kind: "newHeads" | "newPendingTransactions"; socket: WebSocket; full: boolean }>();
+  private nextSubscriptionId = 1;
+  private server: http.Server | null = null;
+  private sockets: WebSocketServer | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  url: string | null = null;
+
+  constructor(fixtures: MockChainFixtures) {
+    this.fixtures = fixtures;
+    this.chainId = fixtures.chainId ?? MAINNET_CHAIN_ID;
+
+    const ledger: Ledger = {
+      balances: new Map(),
+      nonces: new Map(),
+      tokenBalances: new Map(),
+      allowances: new Map(),
+      pools: structuredClone(fixtures.pools ?? getPools()),
+      deployed: new Map(),
+      oraclePrices: new Map(),
+    };
+    for (const account of fixtures.accounts) {
+      ledger.balances.set(key(account.address), account.balance);
+      for (const [token, amount] of Object.entries(account.tokens ?? {})) {
+        creditToken(ledger, token, account.address, amount);
+      }
+    }
+    for (const reserve of fixtures.lending?.reserves ?? []) {
+      ledger.oraclePrices.set(key(reserve.asset), reserve.price);
+    }
+    for (const position of fixtures.lending?.positions ?? []) {
+      for (const [asset, amount] of Object.entries(position.collateral)) {
+        creditToken(ledger, aaveTokenAddress(asset, false), position.borrower, amount);
+      }
+      for (const [asset, amount] of Object.entries(position.debt)) {
+        creditToken(ledger, aaveTokenAddress(asset, true), position.borrower, amount);
+      }
+    }
+
+    const number = fixtures.blockNumber ?? 0;
+    const genesis: MockBlock = {
+      number,
+      hash: ethers.solidityPackedKeccak256(["string", "uint256"], ["mock-genesis", number]),
+      parentHash: ethers.ZeroHash,
+      timestamp: fixtures.timestamp ?? Math.floor(Date.now() / 1000),
+      gasLimit: fixtures.gasLimit ?? 30000000n,
+      gasUsed: 0n,
+      baseFeePerGas: fixtures.baseFeePerGas,
+      transactions: [],
+      tips: [...(fixtures.backgroundTips ?? [])].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+    };
+    this.state = {
+      ledger,
+      blocks: [genesis],
+      history: new Map([[number, cloneLedger(ledger)]]),
+      mempool: [],
+      bundles: [],
+      mined: new Map(),
+      arrivals: 0,
+    };
+
+    for (const dex of getDexes(this.chainId)) {
+      if (dex.poolType === "v2") this.contracts.set(key(dex.routerAddress), { kind: "v2Router", dex: dex.id });
+      if (dex.poolType === "v3") this.contracts.set(key(dex.routerAddress), { kind: "v3Router", dex: dex.id });
+      if (dex.poolType === "balancer") this.contracts.set(key(dex.routerAddress), { kind: "vault", dex: dex.id });
+    }
+    this.contracts.set(key(AAVE_V3_POOL_ADDRESS), { kind: "aavePool" });
+    this.contracts.set(key(AAVE_ADDRESSES_PROVIDER_ADDRESS), { kind: "aaveAddressesProvider" });
+    this.contracts.set(key(AAVE_ORACLE_ADDRESS), { kind: "aaveOracle" });
+    for (const reserve of this.reserves) {
+      this.contracts.set(key(aaveTokenAddress(reserve.asset, false)), { kind: "aaveToken", asset: reserve.asset });
+      this.contracts.set(key(aaveTokenAddress(reserve.asset, true)), { kind: "aaveToken", asset: reserve.asset });
+    }
+    this.injectScripted(number + 1);
+  }
+
+  // Serve JSON-RPC over HTTP and WebSocket; returns the HTTP URL
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    const server = http.createServer((req, res) => this.handleHttp(req, res));
+    this.sockets = new WebSocketServer({ server });
+    this.sockets.on("connection", socket => this.handleSocket(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const blockTimeMs = this.fixtures.blockTimeMs ?? 0;
+    if (blockTimeMs > 0) {
+      // Hold blocks back while a simulation has the chain snapshotted
+      this.timer = setInterval(() => {
+        if (this.snapshots.size === 0) this.mine();
+      }, blockTimeMs);
+    }
+
+    this.url = `http://${host}:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.sockets?.clients.forEach(socket => socket.terminate());
+    this.sockets?.close();
+    this.sockets = null;
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    }
+    this.server = null;
+    this.url = null;
+  }
+
+  // Handle one JSON-RPC call in process, as if it came over HTTP
+  request(method: string, params: any[] = []): unknown {
+    const handler = this.handlers[method];
+    if (!handler) throw new RpcError(-32601, `Method ${method} is not supported by the mock node`);
+    return handler(params, null);
+  }
+
+  get blockNumber(): number {
+    return this.head.number;
+  }
+
+  // Mine blocks now, whatever the block timer says
+  mine(blocks = 1): MockBlock {
+    for (let i = 1; i < blocks; i++) this.mineBlock();
+    return this.mineBlock();
+  }
+
+  private get head(): MockBlock {
+    return this.state.blocks[this.state.blocks.length - 1];
+  }
+
+  private get reserves(): MockReserve[] {
+    return this.fixtures.lending?.reserves ?? [];
+  }
+
+  private get gasLimit(): bigint {
+    return this.fixtures.gasLimit ?? 30000000n;
+  }
+
+  private nextTimestamp(parent: MockBlock): number {
+    if (this.fixtures.timestamp !== undefined) {
+      return parent.timestamp + (this.fixtures.blockSeconds ?? 12);
+    }
+    return Math.max(parent.timestamp + 1, Math.floor(Date.now() / 1000));
+  }
+
+  // EIP-1559: the base fee moves up to 1/8 per block toward half-full blocks
+  private nextBaseFee(parent: MockBlock): bigint {
+    const target = parent.gasLimit / 2n;
+    const base = parent.baseFeePerGas;
+    if (parent.gasUsed === target) return base;
+    if (parent.gasUsed > target) {
+      const delta = (base * (parent.gasUsed - target)) / target / 8n;
+      return base + (delta > 0n ? delta : 1n);
+    }
+    return base - (base * (target - parent.gasUsed)) / target / 8n;
+  }
+
+  private isContract(address: string): boolean {
+    return this.resolveContract(this.state.ledger, address) !== null;
+  }
+
+  private resolveContract(ledger: Ledger, address: string): Contract | null {
+    const known = this.contracts.get(key(address)) ?? ledger.deployed.get(key(address));
+    if (known) return known;
+    if (key(address) === key(TOKENS.WETH.address)) return { kind: "weth" };
+
+    const pool = ledger.pools.find(pool => key(pool.address) === key(address));
+    if (pool) return { kind: "pool", pool };
+
+    const token = findToken(address);
+    if (token && token.address !== TOKENS.ETH.address) return { kind: "erc20", token };
+    return null;
+  }
+
+  // Run a call against a ledger, returning its output; throws Revert
+  private execute(frame: CallFrame): string {
+    frame.gasUsed += GAS.base;
+    const { ledger } = frame;
+
+    const balance = ledger.balances.get(key(frame.from)) ?? 0n;
+    if (frame.value > balance) throw new RpcError(-32000, "insufficient funds for transfer");
+    ledger.balances.set(key(frame.from), balance - frame.value);
+
+    const contract = this.resolveContract(ledger, frame.to);
+    if (!contract) {
+      ledger.balances.set(key(frame.to), (ledger.balances.get(key(frame.to)) ?? 0n) + frame.value);
+      return "0x";
+    }
+
+    switch (contract.kind) {
+      case "weth":
+        // Plain ETH sent to WETH is a deposit
+        if (frame.data === "0x") frame.data = weth.encodeFunctionData("deposit");
+        return callErc20(frame, TOKENS.WETH, weth);
+      case "erc20":
+        return callErc20(frame, contract.token, erc20);
+      case "v2Router":
+        return callV2Router(frame, contract.dex);
+      case "v3Router":
+        return callV3Router(frame, contract.dex);
+      case "vault":
+        return callVault(frame);
+      case "pool":
+        return callPool(frame, contract.pool);
+      case "aavePool":
+        return this.callAavePool(frame);
+      case "aaveToken":
+        return callAaveToken(frame, contract.asset);
+      case "aaveAddressesProvider":
+        return callAaveAddressesProvider(frame);
+      case "aaveOracle":
+        return callAaveOracle(frame);
+      case "flashReceiver":
+        return this.callFlashReceiver(frame, contract);
+    }
+  }
+
+  // A call one contract makes to another, sharing the outer call's ledger and gas
+  private subcall(frame: CallFrame, from: string, to: string, data: string, value = 0n): string {
+    const inner: CallFrame = { ...frame, from: key(from), to: key(to), data, value, gasUsed: 0 };
+    try {
+      return this.execute(inner);
+    } catch (error) {
+      // Running out of ETH inside a call is a revert, not a rejected transaction
+      throw error instanceof RpcError ? new Revert("") : error;
+    } finally {
+      frame.gasUsed += inner.gasUsed - GAS.base + GAS.call;
+    }
+  }
+
+  // The Aave V3 pool: reserve and position reads, liquidations and flash loans.
+  // The real pool holds liquidity in its aTokens; here the pool address holds it itself.
+  private callAavePool(frame: CallFrame): string {
+    const call = parseCall(aavePool, frame);
+    const result = (...values: unknown[]) => aavePool.encodeFunctionResult(call.fragment, values);
+    switch (call.name) {
+      case "FLASHLOAN_PREMIUM_TOTAL":
+        return result(FLASH_LOAN_PREMIUM_BPS);
+      case "ADDRESSES_PROVIDER":
+        return result(AAVE_ADDRESSES_PROVIDER_ADDRESS);
+      case "getReservesList":
+        return result(this.reserves.map(reserve => reserve.asset));
+      case "getReserveData": {
+        const id = this.reserves.findIndex(reserve => key(reserve.asset) === key(call.args[0]));
+        if (id < 0) return result([[0n], 0n, 0n, 0n, 0n, 0n, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress, ethers.ZeroAddress, ethers.ZeroAddress, 0n, 0n, 0n]);
+        const reserve = this.reserves[id];
+        return result([
+          [reserveConfiguration(reserve, requireToken(reserve.asset).decimals)],
+          RAY, 0n, RAY, 0n, 0n, frame.timestamp, id,
+          aaveTokenAddress(reserve.asset, false), ethers.ZeroAddress, aaveTokenAddress(reserve.asset, true), ethers.ZeroAddress,
+          0n, 0n, 0n,
+        ]);
+      }
+      case "getUserConfiguration": {
+        // Two bits per reserve: borrowing, then used as collateral
+        let data = 0n;
+        this.reserves.forEach((reserve, id) => {
+          if (tokenBalance(frame.ledger, aaveTokenAddress(reserve.asset, true), call.args[0]) > 0n) data |= 1n << BigInt(id * 2);
+          if (tokenBalance(frame.ledger, aaveTokenAddress(reserve.asset, false), call.args[0]) > 0n) data |= 1n << BigInt(id * 2 + 1);
+        });
+        return result([data]);
+      }
+      case "liquidationCall":
+        return this.liquidate(frame, call);
+      case "flashLoanSimple":
+        return this.flashLoanSimple(frame, call);
+      default:
+        throw new Revert("");
+    }
+  }
+
+  // A borrower's supplied and borrowed reserves, priced by the oracle
+  private lendingPosition(ledger: Ledger, user: string): { collateral: PositionEntry[]; debt: PositionEntry[] } {
+    const collateral: PositionEntry[] = [];
+    const debt: PositionEntry[] = [];
+    for (const reserve of this.reserves) {
+      const config: ReserveConfig = {
+        token: requireToken(reserve.asset),
+        liquidationThresholdBps: reserve.liquidationThresholdBps,
+        liquidationBonusBps: reserve.liquidationBonusBps,
+        liquidationProtocolFeeBps: reserve.liquidationProtocolFeeBps ?? 0,
+        price: ledger.oraclePrices.get(key(reserve.asset)) ?? 0n,
+      };
+      const supplied = tokenBalance(ledger, aaveTokenAddress(reserve.asset, false), user);
+      const borrowed = tokenBalance(ledger, aaveTokenAddress(reserve.asset, true), user);
+      if (supplied > 0n) collateral.push({ reserve: config, amount: supplied });
+      if (borrowed > 0n) debt.push({ reserve: config, amount: borrowed });
+    }
+    return { collateral, debt };
+  }
+
+  // Aave V3 liquidationCall, with the amounts worked out by the same rules the bot prices with.
+  // The protocol's share of the bonus leaves the borrower but goes to no treasury here.
+  private liquidate(frame: CallFrame, call: ethers.TransactionDescription): string {
+    const [collateralAsset, debtAsset, user, debtToCover, receiveAToken] = call.args;
+    const { ledger } = frame;
+    const position = this.lendingPosition(ledger, user);
+    const factor = healthFactor(position);
+    if (factor >= HEALTH_FACTOR_LIQUIDATION_THRESHOLD) throw new Revert("45"); // HEALTH_FACTOR_NOT_BELOW_THRESHOLD
+
+    const collateral = position.collateral.find(entry => key(entry.reserve.token.address) === key(collateralAsset));
+    if (!collateral) throw new Revert("46"); // COLLATERAL_CANNOT_BE_LIQUIDATED
+    const debt = position.debt.find(entry => key(entry.reserve.token.address) === key(debtAsset));
+    if (!debt) throw new Revert("47"); // SPECIFIED_CURRENCY_NOT_BORROWED_BY_USER
+
+    const amounts = calculateLiquidation(collateral, debt, factor, debtToCover);
+    frame.gasUsed += GAS.liquidation;
+
+    pullToken(frame, debtAsset, frame.from, amounts.debtToCover, "ERC20: transfer amount exceeds allowance");
+    creditToken(ledger, debtAsset, frame.to, amounts.debtToCover);
+    debitToken(ledger, aaveTokenAddress(debtAsset, true), user, amounts.debtToCover, "");
+    debitToken(ledger, aaveTokenAddress(collateralAsset, false), user, amounts.collateralSeized + amounts.protocolFee, "");
+
+    if (receiveAToken) {
+      creditToken(ledger, aaveTokenAddress(collateralAsset, false), frame.from, amounts.collateralSeized);
+    } else {
+      debitToken(ledger, collateralAsset, frame.to, amounts.collateralSeized, "ERC20: transfer amount exceeds balance");
+      creditToken(ledger, collateralAsset, frame.from, amounts.collateralSeized);
+      frame.gasUsed += GAS.erc20;
+    }
+    return "0x";
+  }
+
+  // Aave V3 flashLoanSimple
+  private flashLoanSimple(frame: CallFrame, call: ethers.TransactionDescription): string {
+    const [receiver, asset, amount, params] = call.args;
+    const premium = flashLoanPremium(amount);
+    debitToken(frame.ledger, asset, frame.to, amount, "ERC20: transfer amount exceeds balance");
+    creditToken(frame.ledger, asset, receiver, amount);
+    frame.gasUsed += GAS.flashLoan;
+
+    const output = this.subcall(frame, frame.to, receiver, flashLoanReceiver.encodeFunctionData(
+      "executeOperation", [asset, amount, premium, frame.from, params]
+    ));
+    let approved = false;
+    try {
+      [approved] = flashLoanReceiver.decodeFunctionResult("executeOperation", output);
+    } catch {
+      // not a receiver
+    }
+    if (!approved) throw new Revert("13"); // INVALID_FLASHLOAN_EXECUTOR_RETURN
+
+    pullToken(frame, asset, receiver, amount + premium, "ERC20: transfer amount exceeds allowance");
+    creditToken(frame.ledger, asset, frame.to, amount + premium);
+    return "0x";
+  }
+
+  // Mirrors contracts/FlashLoanReceiver.sol
+  private callFlashReceiver(frame: CallFrame, receiver: Extract<Contract, { kind: "flashReceiver" }>): string {
+    const self = key(frame.to);
+    if (frame.data === "0x") {
+      frame.ledger.balances.set(self, (frame.ledger.balances.get(self) ?? 0n) + frame.value);
+      return "0x";
+    }
+
+    const call = parseCall(flashLoanReceiver, frame);
+    const result = (...values: unknown[]) => flashLoanReceiver.encodeFunctionResult(call.fragment, values);
+    switch (call.name) {
+      case "owner":
+        return result(receiver.owner);
+      case "pool":
+        return result(receiver.pool);
+      case "execute": {
+        if (key(frame.from) !== receiver.owner) throw new Revert("FlashLoanReceiver: caller is not the owner");
+        const [asset, amount, calls, minProfit] = call.args;
+        const params = ethers.AbiCoder.defaultAbiCoder().encode(FLASH_LOAN_CALLS, [calls, minProfit]);
+        this.subcall(frame, self, receiver.pool, aavePool.encodeFunctionData(
+          "flashLoanSimple", [self, asset, amount, params, 0]
+        ));
+
+        const profit = tokenBalance(frame.ledger, asset, self);
+        if (profit > 0n) {
+          debitToken(frame.ledger, asset, self, profit, "FlashLoanReceiver: token call failed");
+          creditToken(frame.ledger, asset, receiver.owner, profit);
+          frame.gasUsed += GAS.erc20;
+        }
+        return "0x";
+      }
+      case "executeOperation": {
+        if (key(frame.from) !== receiver.pool) throw new Revert("FlashLoanReceiver: caller is not the pool");
+        const [asset, amount, premium, initiator, params] = call.args;
+        if (key(initiator) !== self) throw new Revert("FlashLoanReceiver: loan not started here");
+
+        const [calls, minProfit] = ethers.AbiCoder.defaultAbiCoder().decode(FLASH_LOAN_CALLS, params);
+        for (const [target, value, data] of calls) {
+          this.subcall(frame, self, target, data, value);
+        }
+
+        const owed: bigint = amount + premium;
+        if (tokenBalance(frame.ledger, asset, self) < owed + minProfit) {
+          throw new Revert("FlashLoanReceiver: profit below minimum");
+        }
+        frame.ledger.allowances.set(`${key(asset)}:${self}:${receiver.pool}`, owed);
+        frame.gasUsed += GAS.erc20;
+        return result(true);
+      }
+      default:
+        throw new Revert("");
+    }
+  }
+
+  // Contract creation. The flash-loan receiver is the only contract the mock can deploy.
+  private deploy(frame: CallFrame, nonce: number): string {
+    frame.gasUsed += GAS.base + GAS.deployReceiver;
+    if (!isReceiverCreation(frame.data)) {
+      throw new RpcError(-32000, "the mock node can only deploy the flash-loan receiver");
+    }
+    if (frame.value > 0n) throw new Revert("");
+
+    const [pool] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ["address"], "0x" + frame.data.slice(FLASH_LOAN_RECEIVER_BYTECODE.length)
+    );
+    const address = key(ethers.getCreateAddress({ from: frame.from, nonce }));
+    frame.ledger.deployed.set(address, { kind: "flashReceiver", owner: key(frame.from), pool: key(pool) });
+    return address;
+  }
+
+  // Run a transaction on top of a ledger; returns the ledger after it, which is
+  // the same ledger with only the nonce bump and gas charge when it reverts
+  private applyTransaction(base: Ledger, tx: MockTransaction, block: { timestamp: number; baseFeePerGas: bigint }) {
+    const gasPrice = this.effectiveGasPrice(tx, block.baseFeePerGas);
+    const draft = cloneLedger(base);
+    const frame: CallFrame = {
+      ledger: draft,
+      from: tx.from,
+      to: tx.to ?? ethers.ZeroAddress,
+      value: tx.value,
+      data: tx.data,
+      timestamp: block.timestamp,
+      gasUsed: 0,
+    };
+
+    let status = 1;
+    let revertReason: string | null = null;
+    let contractAddress: string | null = null;
+    try {
+      if (tx.to === null) {
+        contractAddress = this.deploy(frame, tx.nonce);
+      } else {
+        this.execute(frame);
+      }
+      if (BigInt(frame.gasUsed) > tx.gasLimit) {
+        status = 0;
+        revertReason = "out of gas";
+        frame.gasUsed = Number(tx.gasLimit);
+      }
+    } catch (error) {
+      status = 0;
+      revertReason = (error as Error).message || null;
+    }
+
+    // A reverted call keeps only the nonce bump and the gas it burned
+    const ledger = status === 1 ? draft : base;
+    const gasUsed = BigInt(Math.max(frame.gasUsed, GAS.base));
+    ledger.nonces.set(key(tx.from), tx.nonce + 1);
+    ledger.balances.set(key(tx.from), (ledger.balances.get(key(tx.from)) ?? 0n) - gasUsed * gasPrice);
+
+    return { ledger, status, gasUsed, gasPrice, revertReason, contractAddress: status === 1 ? contractAddress : null };
+  }
+
+  // Why a transaction cannot go into a block on top of a ledger, if it cannot
+  private invalidReason(ledger: Ledger, tx: MockTransaction, baseFeePerGas: bigint): string | null {
+    const nonce = ledger.nonces.get(key(tx.from)) ?? 0;
+    if (tx.nonce < nonce) return "nonce too low";
+    if (tx.nonce > nonce) return "nonce too high";
+    if (tx.maxFeePerGas < baseFeePerGas) return "max fee per gas less than block base fee";
+    const balance = ledger.balances.get(key(tx.from)) ?? 0n;
+    if (balance < tx.gasLimit * this.effectiveGasPrice(tx, baseFeePerGas) + tx.value) {
+      return "insufficient funds for gas * price + value";
+    }
+    return null;
+  }
+
+  // Run a bundle in order on a copy of a ledger. Fails on the first transaction
+  // that is invalid, or that reverts without being allowed to.
+  private applyBundle(
+    base: Ledger,
+    bundle: Pick<MockBundle, "transactions" | "revertingTxHashes">,
+    block: { timestamp: number; baseFeePerGas: bigint }
+  ) {
+    let ledger = cloneLedger(base);
+    const results: Array<{ tx: MockTransaction; result: ReturnType<MockRpcNode["applyTransaction"]> }> = [];
+    for (const tx of bundle.transactions) {
+      const invalid = this.invalidReason(ledger, tx, block.baseFeePerGas);
+      if (invalid) return { ledger, results, error: `${tx.hash}: ${invalid}` };
+
+      const result = this.applyTransaction(ledger, tx, block);
+      ledger = result.ledger;
+      results.push({ tx, result });
+      if (result.status !== 1 && !bundle.revertingTxHashes.has(tx.hash)) {
+        return { ledger, results, error: `${tx.hash} reverted: ${result.revertReason}` };
+      }
+    }
+    return { ledger, results, error: null };
+  }
+
+  private effectiveGasPrice(tx: MockTransaction, baseFeePerGas: bigint): bigint {
+    const price = baseFeePerGas + tx.maxPriorityFeePerGas;
+    return price < tx.maxFeePerGas ? price : tx.maxFeePerGas;
+  }
+
+  private mineBlock(): MockBlock {
+    const parent = this.head;
+    const number = parent.number + 1;
+    const timestamp = this.nextTimestamp(parent);
+    const baseFeePerGas = this.nextBaseFee(parent);
+    const fullness = this.fixtures.blockFullness ?? [0.5];
+    const backgroundGas = BigInt(Math.floor(Number(this.gasLimit) * fullness[number % fullness.length]));
+
+    // Bundles for this block go first, each whole or not at all
+    let available = this.gasLimit - backgroundGas;
+    const included: Array<{ tx: MockTransaction; result: ReturnType<MockRpcNode["applyTransaction"]> }> = [];
+    for (const bundle of this.state.bundles.filter(bundle => bundle.blockNumber === number)) {
+      const { ledger, results, error } = this.applyBundle(this.state.ledger, bundle, { timestamp, baseFeePerGas });
+      const gasUsed = results.reduce((total, { result }) => total + result.gasUsed, 0n);
+      if (error || gasUsed > available) continue;
+      this.state.ledger = ledger;
+      available -= gasUsed;
+      included.push(...results);
+    }
+    this.state.bundles = this.state.bundles.filter(bundle => bundle.blockNumber > number);
+
+    // Then the mempool: highest tip first, each sender in nonce order, while the block has room
+    const candidates = this.state.mempool.filter(tx => tx.maxFeePerGas >= baseFeePerGas);
+    for (;;) {
+      const ready = candidates.filter(tx =>
+        tx.nonce === (this.state.ledger.nonces.get(key(tx.from)) ?? 0) && tx.gasLimit <= available
+      );
+      if (ready.length === 0) break;
+      ready.sort((a, b) => {
+        const tipA = this.effectiveGasPrice(a, baseFeePerGas) - baseFeePerGas;
+        const tipB = this.effectiveGasPrice(b, baseFeePerGas) - baseFeePerGas;
+        return tipA === tipB ? a.arrival - b.arrival : tipA > tipB ? -1 : 1;
+      });
+      const tx = ready[0];
+      candidates.splice(candidates.indexOf(tx), 1);
+
+      const balance = this.state.ledger.balances.get(key(tx.from)) ?? 0n;
+      if (balance < tx.gasLimit * this.effectiveGasPrice(tx, baseFeePerGas) + tx.value) continue;
+      const result = this.applyTransaction(this.state.ledger, tx, { timestamp, baseFeePerGas });
+      this.state.ledger = result.ledger;
+      available -= result.gasUsed;
+      included.push({ tx, result });
+    }
+
+    const transactions = included.map(({ tx }) => tx.hash);
+    const hash = ethers.solidityPackedKeccak256(
+      ["bytes32", "uint256", "bytes32[]"],
+      [parent.hash, number, transactions]
+    );
+    let cumulativeGasUsed = backgroundGas;
+    included.forEach(({ tx, result }, index) => {
+      cumulativeGasUsed += result.gasUsed;
+      this.state.mined.set(tx.hash, {
+        tx,
+        receipt: {
+          status: result.status,
+          contractAddress: result.contractAddress,
+          gasUsed: result.gasUsed,
+          cumulativeGasUsed,
+          effectiveGasPrice: result.gasPrice,
+          revertReason: result.revertReason,
+          index,
+          blockNumber: number,
+          blockHash: hash,
+        },
+      });
+    });
+
+    const block: MockBlock = {
+      number,
+      hash,
+      parentHash: parent.hash,
+      timestamp,
+      gasLimit: this.gasLimit,
+      gasUsed: cumulativeGasUsed,
+      baseFeePerGas,
+      transactions,
+      tips: [...(this.fixtures.backgroundTips ?? []), ...included.map(({ result }) => result.gasPrice - baseFeePerGas)]
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+    };
+    this.state.blocks.push(block);
+
+    // Drop what was mined, and anything whose nonce has since been used
+    const minedHashes = new Set(transactions);
+    this.state.mempool = this.state.mempool.filter(tx =>
+      !minedHashes.has(tx.hash) && tx.nonce >= (this.state.ledger.nonces.get(key(tx.from)) ?? 0)
+    );
+
+    this.state.history.set(number, cloneLedger(this.state.ledger));
+    this.state.history.delete(number - HISTORY_DEPTH);
+
+    this.filters.forEach(filter => {
+      if (filter.kind === "block") filter.changes.push(hash);
+    });
+    this.notify("newHeads", this.formatBlock(block, false));
+    this.injectScripted(number + 1);
+    return block;
+  }
+
+  // Queue scripted transactions due in the given block
+  private injectScripted(blockNumber: number) {
+    for (const scripted of this.fixtures.scriptedTransactions ?? []) {
+      const due = scripted.repeatEvery
+        ? blockNumber >= scripted.atBlock && (blockNumber - scripted.atBlock) % scripted.repeatEvery === 0
+        : blockNumber === scripted.atBlock;
+      if (!due) continue;
+
+      const signer = new ethers.Wallet(scripted.privateKey);
+      const baseFeePerGas = this.nextBaseFee(this.head);
+      const tx = ethers.Transaction.from({
+        type: 2,
+        chainId: this.chainId,
+        nonce: this.pendingNonce(signer.address),
+        to: scripted.to,
+        data: scripted.data ?? "0x",
+        value: scripted.value ?? 0n,
+        gasLimit: scripted.gasLimit ?? 300000n,
+        maxPriorityFeePerGas: scripted.maxPriorityFeePerGas,
+        maxFeePerGas: scripted.maxFeePerGas ?? baseFeePerGas * 2n + scripted.maxPriorityFeePerGas,
+      });
+      tx.signature = signer.signingKey.sign(tx.unsignedHash);
+      try {
+        this.admit(this.fromSigned(tx), false);
+      } catch (error) {
+        console.error(`Mock node could not queue scripted transaction from ${signer.address}:`, error);
+      }
+    }
+  }
+
+  private parseRaw(raw: string): MockTransaction {
+    let tx: ethers.Transaction;
+    try {
+      tx = ethers.Transaction.from(raw);
+    } catch (error) {
+      throw new RpcError(-32602, `invalid raw transaction: ${(error as Error).message}`);
+    }
+    if (tx.chainId !== 0n && tx.chainId !== BigInt(this.chainId)) {
+      throw new RpcError(-32000, `invalid chain id ${tx.chainId}`);
+    }
+    return this.fromSigned(tx);
+  }
+
+  private fromSigned(tx: ethers.Transaction): MockTransaction {
+    if (!tx.from || !tx.hash || !tx.signature) throw new RpcError(-32000, "invalid sender");
+    const legacy = tx.type === 0 || tx.type === 1;
+    return {
+      hash: tx.hash,
+      type: tx.type ?? 2,
+      from: key(tx.from),
+      to: tx.to ? key(tx.to) : null,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: (legacy ? tx.gasPrice : tx.maxFeePerGas) ?? 0n,
+      maxPriorityFeePerGas: (legacy ? tx.gasPrice : tx.maxPriorityFeePerGas) ?? 0n,
+      value: tx.value,
+      data: tx.data,
+      signature: { r: tx.signature.r, s: tx.signature.s, yParity: tx.signature.yParity },
+      arrival: 0,
+    };
+  }
+
+  // Accept a transaction into the mempool, as geth would
+  private admit(tx: MockTransaction, autoMine = true): string {
+    const { ledger } = this.state;
+    if (tx.to === null && !isReceiverCreation(tx.data)) {
+      throw new RpcError(-32000, "the mock node can only deploy the flash-loan receiver");
+    }
+    if (tx.nonce < (ledger.nonces.get(tx.from) ?? 0)) throw new RpcError(-32000, "nonce too low");
+    if (tx.maxPriorityFeePerGas > tx.maxFeePerGas) {
+      throw new RpcError(-32000, "max priority fee per gas higher than max fee per gas");
+    }
+    if (tx.gasLimit > this.gasLimit) throw new RpcError(-32000, "exceeds block gas limit");
+    if (tx.gasLimit < BigInt(GAS.base)) throw new RpcError(-32000, "intrinsic gas too low");
+
+    const balance = ledger.balances.get(tx.from) ?? 0n;
+    if (balance < tx.gasLimit * tx.maxFeePerGas + tx.value) {
+      throw new RpcError(-32000, "insufficient funds for gas * price + value");
+    }
+
+    // Same sender and nonce replaces the queued transaction only with a 10% higher bid
+    const existing = this.state.mempool.find(queued => queued.from === tx.from && queued.nonce === tx.nonce);
+    if (existing) {
+      if (existing.hash === tx.hash) throw new RpcError(-32000, "already known");
+      const bumped = (fee: bigint) => (fee * 110n + 99n) / 100n;
+      if (tx.maxFeePerGas < bumped(existing.maxFeePerGas) || tx.maxPriorityFeePerGas < bumped(existing.maxPriorityFeePerGas)) {
+        throw new RpcError(-32000, "replacement transaction underpriced");
+      }
+      this.state.mempool.splice(this.state.mempool.indexOf(existing), 1);
+    }
+
+    tx.arrival = this.state.arrivals++;
+    this.state.mempool.push(tx);
+    this.filters.forEach(filter => {
+      if (filter.kind === "pending") filter.changes.push(tx.hash);
+    });
+    this.notify("newPendingTransactions", tx.hash, this.formatTransaction(tx));
+
+    if (autoMine && !this.fixtures.blockTimeMs) this.mine();
+    return tx.hash;
+  }
+
+  private pendingNonce(address: string): number {
+    let nonce = this.state.ledger.nonces.get(key(address)) ?? 0;
+    const queued = new Set(this.state.mempool.filter(tx => tx.from === key(address)).map(tx => tx.nonce));
+    while (queued.has(nonce)) nonce++;
+    return nonce;
+  }
+
+  private blockAt(tag: unknown): MockBlock | undefined {
+    if (tag === undefined || tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") {
+      return this.head;
+    }
+    if (tag === "earliest") return this.state.blocks[0];
+    const number = Number(tag);
+    return this.state.blocks.find(block => block.number === number);
+  }
+
+  private ledgerAt(tag: unknown): Ledger {
+    const block = this.blockAt(tag);
+    if (!block) throw new RpcError(-32000, "header not found");
+    if (block === this.head) return this.state.ledger;
+
+    const ledger = this.state.history.get(block.number);
+    if (!ledger) throw new RpcError(-32000, `state for block ${block.number} is no longer available`);
+    return ledger;
+  }
+
+  // Run a call without touching the chain
+  private dryRun(request: any, tag: unknown): CallFrame & { output: string } {
+    const pending = tag === "pending" || tag === undefined;
+    const frame: CallFrame = {
+      ledger: cloneLedger(pending ? this.state.ledger : this.ledgerAt(tag)),
+      from: key(request.from ?? ethers.ZeroAddress),
+      to: key(request.to ?? ethers.ZeroAddress),
+      value: request.value ? BigInt(request.value) : 0n,
+      data: request.data ?? request.input ?? "0x",
+      timestamp: pending ? this.nextTimestamp(this.head) : this.blockAt(tag)!.timestamp,
+      gasUsed: 0,
+    };
+    try {
+      const output = request.to
+        ? this.execute(frame)
+        : this.deploy(frame, frame.ledger.nonces.get(frame.from) ?? 0);
+      return { ...frame, output };
+    } catch (error) {
+      throw error instanceof Revert ? revertError(error) : error;
+    }
+  }
+
+  private priorityFee(): bigint {
+    const { tips } = this.head;
+    return tips.length > 0 ? tips[Math.floor(tips.length / 2)] : 1000000000n;
+  }
+
+  private feeHistory(blockCount: unknown, newest: unknown, percentiles: number[] = []) {
+    const last = this.blockAt(newest) ?? this.head;
+    const count = Math.min(Number(blockCount), last.number - this.state.blocks[0].number + 1, 1024);
+    const blocks = this.state.blocks.filter(block => block.number > last.number - count && block.number <= last.number);
+
+    return {
+      oldestBlock: ethers.toQuantity(blocks[0].number),
+      baseFeePerGas: [...blocks.map(block => block.baseFeePerGas), this.nextBaseFee(last)].map(fee => ethers.toQuantity(fee)),
+      gasUsedRatio: blocks.map(block => Number(block.gasUsed) / Number(block.gasLimit)),
+      reward: percentiles.length > 0
+        ? blocks.map(block => percentiles.map(percentile => {
+          if (block.tips.length === 0) return "0x0";
+          const index = Math.min(block.tips.length - 1, Math.floor((percentile / 100) * block.tips.length));
+          return ethers.toQuantity(block.tips[index]);
+        }))
+        : undefined,
+    };
+  }
+
+  private formatBlock(block: MockBlock, full: boolean) {
+    return {
+      number: ethers.toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: ethers.toQuantity(block.timestamp),
+      nonce: "0x0000000000000000",
+      difficulty: "0x0",
+      gasLimit: ethers.toQuantity(block.gasLimit),
+      gasUsed: ethers.toQuantity(block.gasUsed),
+      baseFeePerGas: ethers.toQuantity(block.baseFeePerGas),
+      miner: ethers.ZeroAddress,
+      extraData: "0x",
+      mixHash: ethers.ZeroHash,
+      sha3Uncles: ethers.ZeroHash,
+      stateRoot: ethers.ZeroHash,
+      transactionsRoot: ethers.ZeroHash,
+      receiptsRoot: ethers.ZeroHash,
+      logsBloom: EMPTY_BLOOM,
+      uncles: [],
+      transactions: full
+        ? block.transactions.map(hash => this.formatTransaction(this.state.mined.get(hash)!.tx))
+        : block.transactions,
+    };
+  }
+
+  private formatTransaction(tx: MockTransaction) {
+    const mined = this.state.mined.get(tx.hash);
+    const receipt = mined?.tx === tx ? mined.receipt : null;
+    const legacy = tx.type === 0 || tx.type === 1;
+    // Impersonated sends carry a placeholder signature, as on anvil
+    const signature = tx.signature ?? { r: ethers.ZeroHash, s: ethers.ZeroHash, yParity: 0 };
+
+    return {
+      hash: tx.hash,
+      type: ethers.toQuantity(tx.type),
+      chainId: ethers.toQuantity(this.chainId),
+      from: ethers.getAddress(tx.from),
+      to: tx.to && ethers.getAddress(tx.to),
+      nonce: ethers.toQuantity(tx.nonce),
+      gas: ethers.toQuantity(tx.gasLimit),
+      gasPrice: ethers.toQuantity(receipt ? receipt.effectiveGasPrice : tx.maxFeePerGas),
+      ...(legacy ? {} : {
+        maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas),
+        maxPriorityFeePerGas: ethers.toQuantity(tx.maxPriorityFeePerGas),
+      }),
+      value: ethers.toQuantity(tx.value),
+      input: tx.data,
+      accessList: [],
+      r: signature.r,
+      s: signature.s,
+      v: ethers.toQuantity(legacy ? this.chainId * 2 + 35 + signature.yParity : signature.yParity),
+      yParity: ethers.toQuantity(signature.yParity),
+      blockHash: receipt?.blockHash ?? null,
+      blockNumber: receipt ? ethers.toQuantity(receipt.blockNumber) : null,
+      transactionIndex: receipt ? ethers.toQuantity(receipt.index) : null,
+    };
+  }
+
+  private formatReceipt(tx: MockTransaction, receipt: MockReceipt) {
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: ethers.toQuantity(receipt.index),
+      blockHash: receipt.blockHash,
+      blockNumber: ethers.toQuantity(receipt.blockNumber),
+      from: ethers.getAddress(tx.from),
+      to: tx.to && ethers.getAddress(tx.to),
+      type: ethers.toQuantity(tx.type),
+      status: ethers.toQuantity(receipt.status),
+      gasUsed: ethers.toQuantity(receipt.gasUsed),
+      cumulativeGasUsed: ethers.toQuantity(receipt.cumulativeGasUsed),
+      effectiveGasPrice: ethers.toQuantity(receipt.effectiveGasPrice),
+      contractAddress: receipt.contractAddress && ethers.getAddress(receipt.contractAddress),
+      logs: [],
+      logsBloom: EMPTY_BLOOM,
+    };
+  }
+
+  // Full subscribers get `fullResult` when there is one, as Geth sends whole
+  // pending transactions rather than hashes
+  private notify(kind: "newHeads" | "newPendingTransactions", result: unknown, fullResult?: unknown) {
+    this.subscriptions.forEach((subscription, id) => {
+      if (subscription.kind !== kind || subscription.socket.readyState !== WebSocket.OPEN) return;
+      subscription.socket.send(JSON.stringify({
+        jsonrpc: "2.0",
+        method: "eth_subscription",
+        params: { subscription: id, result: subscription.full && fullResult !== undefined ? fullResult : result },
+      }));
+    });
+  }
+
+  // Same hash the relay gives a bundle: over its transaction hashes, in order
+  private bundleHash(transactions: MockTransaction[]): string {
+    return ethers.keccak256(ethers.concat(transactions.map(tx => tx.hash)));
+  }
+
+  private newId(counter: number): string {
+    return ethers.toQuantity(counter);
+  }
+
+  private handlers: Record<string, (params: any[], socket: WebSocket | null) => unknown> = {
+    web3_clientVersion: () => "MockRpcNode/1.0",
+    net_version: () => String(this.chainId),
+    net_listening: () => true,
+    eth_chainId: () => ethers.toQuantity(this.chainId),
+    eth_syncing: () => false,
+    eth_accounts: () => Array.from(this.impersonated).map(address => ethers.getAddress(address)),
+    eth_blockNumber: () => ethers.toQuantity(this.head.number),
+
+    eth_getBlockByNumber: ([tag, full]) => {
+      const block = this.blockAt(tag);
+      return block ? this.formatBlock(block, Boolean(full)) : null;
+    },
+    eth_getBlockByHash: ([hash, full]) => {
+      const block = this.state.blocks.find(block => block.hash === hash);
+      return block ? this.formatBlock(block, Boolean(full)) : null;
+    },
+    eth_getBlockTransactionCountByNumber: ([tag]) => {
+      if (tag === "pending") return ethers.toQuantity(this.state.mempool.length);
+      const block = this.blockAt(tag);
+      return block ? ethers.toQuantity(block.transactions.length) : null;
+    },
+
+    eth_gasPrice: () => ethers.toQuantity(this.nextBaseFee(this.head) + this.priorityFee()),
+    eth_maxPriorityFeePerGas: () => ethers.toQuantity(this.priorityFee()),
+    eth_feeHistory: ([blockCount, newest, percentiles]) => this.feeHistory(blockCount, newest, percentiles),
+
+    eth_getBalance: ([address, tag]) =>
+      ethers.toQuantity(this.ledgerAt(tag).balances.get(key(address)) ?? 0n),
+    eth_getTransactionCount: ([address, tag]) =>
+      ethers.toQuantity(tag === "pending" ? this.pendingNonce(address) : this.ledgerAt(tag).nonces.get(key(address)) ?? 0),
+    eth_getCode: ([address]) => (this.isContract(address) ? "0xfe" : "0x"),
+
+    eth_call: ([request, tag]) => this.dryRun(request, tag ?? "latest").output,
+    eth_estimateGas: ([request]) => ethers.toQuantity(this.dryRun(request, "pending").gasUsed),
+
+    eth_sendRawTransaction: ([raw]) => this.admit(this.parseRaw(raw)),
+
+    // Sends as an impersonated account. These are mined at once, like a fork in
+    // automine mode, so simulations never wait on the block timer.
+    eth_sendTransaction: ([request]) => {
+      const from = key(request.from ?? "");
+      if (!this.impersonated.has(from)) throw new RpcError(-32000, `No signer available for ${request.from}`);
+
+      const tip = request.maxPriorityFeePerGas ? BigInt(request.maxPriorityFeePerGas) : this.priorityFee();
+      const nonce = request.nonce !== undefined ? Number(request.nonce) : this.pendingNonce(from);
+      const tx: MockTransaction = {
+        hash: ethers.solidityPackedKeccak256(
+          ["string", "address", "uint256", "uint256"],
+          ["mock-impersonated", from, nonce, this.state.arrivals]
+        ),
+        type: 2,
+        from,
+        to: request.to ? key(request.to) : null,
+        nonce,
+        gasLimit: request.gas ? BigInt(request.gas) : BigInt(this.dryRun(request, "pending").gasUsed),
+        maxFeePerGas: request.maxFeePerGas
+          ? BigInt(request.maxFeePerGas)
+          : request.gasPrice ? BigInt(request.gasPrice) : this.nextBaseFee(this.head) * 2n + tip,
+        maxPriorityFeePerGas: request.gasPrice && !request.maxPriorityFeePerGas ? BigInt(request.gasPrice) : tip,
+        value: request.value ? BigInt(request.value) : 0n,
+        data: request.data ?? request.input ?? "0x",
+        signature: null,
+        arrival: 0,
+      };
+      const hash = this.admit(tx, false);
+      this.mine();
+      return hash;
+    },
+
+    eth_getTransactionByHash: ([hash]) => {
+      const tx = this.state.mined.get(hash)?.tx ?? this.state.mempool.find(tx => tx.hash === hash);
+      return tx ? this.formatTransaction(tx) : null;
+    },
+    eth_getTransactionReceipt: ([hash]) => {
+      const mined = this.state.mined.get(hash);
+      return mined ? this.formatReceipt(mined.tx, mined.receipt) : null;
+    },
+
+    eth_newBlockFilter: () => {
+      const id = this.newId(this.nextFilterId++);
+      this.filters.set(id, { kind: "block", changes: [] });
+      return id;
+    },
+    eth_newPendingTransactionFilter: () => {
+      const id = this.newId(this.nextFilterId++);
+      this.filters.set(id, { kind: "pending", changes: [] });
+      return id;
+    },
+    eth_getFilterChanges: ([id]) => {
+      const filter = this.filters.get(id);
+      if (!filter) throw new RpcError(-32000, "filter not found");
+      return filter.changes.splice(0);
+    },
+    eth_uninstallFilter: ([id]) => this.filters.delete(id),
+
+    eth_subscribe: ([kind, full], socket) => {
+      if (!socket) throw new RpcError(-32000, "subscriptions need a WebSocket connection");
+      if (kind !== "newHeads" && kind !== "newPendingTransactions") {
+        throw new RpcError(-32602, `unsupported subscription ${kind}`);
+      }
+      const id = this.newId(this.nextSubscriptionId++);
+      this.subscriptions.set(id, { kind, socket, full: kind === "newPendingTransactions" && full === true });
+      return id;
+    },
+    eth_unsubscribe: ([id]) => this.subscriptions.delete(id),
+
+    // Relay methods, matching the Flashbots relay
+    eth_callBundle: ([request]) => {
+      const transactions: MockTransaction[] = (request?.txs ?? []).map((raw: string) => this.parseRaw(raw));
+      if (transactions.length === 0) throw new RpcError(-32602, "bundle has no transactions");
+      const stateTag = request.stateBlockNumber ?? "latest";
+      const parent = this.blockAt(stateTag);
+      if (!parent) throw new RpcError(-32000, "header not found");
+
+      const baseFeePerGas = this.nextBaseFee(parent);
+      const block = {
+        timestamp: request.timestamp !== undefined ? Number(request.timestamp) : this.nextTimestamp(parent),
+        baseFeePerGas,
+      };
+      const { results, error } = this.applyBundle(this.ledgerAt(stateTag), { transactions, revertingTxHashes: new Set() }, block);
+      // Reverts are reported per transaction; anything else fails the whole call
+      if (error && results.length < transactions.length) throw new RpcError(-32000, error);
+
+      let coinbaseDiff = 0n;
+      let gasFees = 0n;
+      let totalGasUsed = 0n;
+      const formatted = results.map(({ tx, result }) => {
+        const fees = result.gasUsed * result.gasPrice;
+        const tip = result.gasUsed * (result.gasPrice - baseFeePerGas);
+        coinbaseDiff += tip;
+        gasFees += fees;
+        totalGasUsed += result.gasUsed;
+        return {
+          txHash: tx.hash,
+          fromAddress: ethers.getAddress(tx.from),
+          toAddress: tx.to ? ethers.getAddress(tx.to) : null,
+          gasUsed: Number(result.gasUsed),
+          gasPrice: result.gasPrice.toString(),
+          gasFees: fees.toString(),
+          coinbaseDiff: tip.toString(),
+          ethSentToCoinbase: "0",
+          value: "0x",
+          ...(result.status === 1 ? {} : { error: "execution reverted", revert: result.revertReason ?? "" }),
+        };
+      });
+      return {
+        bundleHash: this.bundleHash(transactions),
+        bundleGasPrice: (totalGasUsed > 0n ? coinbaseDiff / totalGasUsed : 0n).toString(),
+        coinbaseDiff: coinbaseDiff.toString(),
+        ethSentToCoinbase: "0",
+        gasFees: gasFees.toString(),
+        results: formatted,
+        stateBlockNumber: parent.number,
+        totalGasUsed: Number(totalGasUsed),
+      };
+    },
+    eth_sendBundle: ([request]) => {
+      const transactions: MockTransaction[] = (request?.txs ?? []).map((raw: string) => this.parseRaw(raw));
+      if (transactions.length === 0) throw new RpcError(-32602, "bundle has no transactions");
+      const blockNumber = Number(request.blockNumber);
+      if (!(blockNumber > this.head.number)) throw new RpcError(-32602, `block ${request.blockNumber} has already been mined`);
+
+      const hash = this.bundleHash(transactions);
+      this.state.bundles = this.state.bundles.filter(bundle => bundle.hash !== hash || bundle.blockNumber !== blockNumber);
+      this.state.bundles.push({
+        hash,
+        blockNumber,
+        transactions,
+        revertingTxHashes: new Set(request.revertingTxHashes ?? []),
+      });
+      return { bundleHash: hash };
+    },
+
+    // Fork helpers, matching anvil and hardhat
+    evm_mine: () => {
+      this.mine();
+      return "0x0";
+    },
+    evm_snapshot: () => {
+      const id = this.nextSnapshotId++;
+      this.snapshots.set(id, this.cloneState());
+      return ethers.toQuantity(id);
+    },
+    evm_revert: ([id]) => {
+      const snapshotId = Number(id);
+      const snapshot = this.snapshots.get(snapshotId);
+      if (!snapshot) return false;
+
+      // Later snapshots go too; transactions sent meanwhile stay queued
+      this.snapshots.forEach((_, other) => {
+        if (other >= snapshotId) this.snapshots.delete(other);
+      });
+      const queued = [...snapshot.mempool, ...this.state.mempool.filter(tx => tx.signature !== null)];
+      snapshot.mempool = queued.filter((tx, index) =>
+        queued.findIndex(other => other.hash === tx.hash) === index &&
+        tx.nonce >= (snapshot.ledger.nonces.get(tx.from) ?? 0)
+      );
+      const bundles = [...snapshot.bundles, ...this.state.bundles];
+      snapshot.bundles = bundles.filter((bundle, index) =>
+        bundles.findIndex(other => other.hash === bundle.hash && other.blockNumber === bundle.blockNumber) === index
+      );
+      this.state = snapshot;
+      return true;
+    },
+    anvil_impersonateAccount: ([address]) => {
+      this.impersonated.add(key(address));
+      return null;
+    },
+    anvil_stopImpersonatingAccount: ([address]) => {
+      this.impersonated.delete(key(address));
+      return null;
+    },
+    anvil_setBalance: ([address, balance]) => {
+      this.state.ledger.balances.set(key(address), BigInt(balance));
+      return null;
+    },
+
+    // Mock only: move an Aave oracle price, e.g. to push a position below a health factor of 1
+    mock_setAssetPrice: ([asset, price]) => {
+      this.state.ledger.oraclePrices.set(key(asset), BigInt(price));
+      return null;
+    },
+  };
+
+  private cloneState(): ChainState {
+    return {
+      ledger: cloneLedger(this.state.ledger),
+      blocks: [...this.state.blocks],
+      history: new Map(this.state.history),
+      mempool: [...this.state.mempool],
+      bundles: [...this.state.bundles],
+      mined: new Map(this.state.mined),
+      arrivals: this.state.arrivals,
+    };
+  }
+
+  private respond(message: any, socket: WebSocket | null) {
+    const id = message?.id ?? null;
+    try {
+      if (!message || message.jsonrpc !== "2.0" || typeof message.method !== "string") {
+        throw new RpcError(-32600, "invalid request");
+      }
+      const method = message.method.replace(/^hardhat_/, "anvil_");
+      const handler = this.handlers[method];
+      if (!handler) throw new RpcError(-32601, `Method ${message.method} is not supported by the mock node`);
+      return { jsonrpc: "2.0", id, result: handler(message.params ?? [], socket) ?? null };
+    } catch (error) {
+      const rpcError = error instanceof RpcError
+        ? error
+        : error instanceof Revert ? revertError(error) : new RpcError(-32603, (error as Error).message);
+      return { jsonrpc: "2.0", id, error: { code: rpcError.code, message: rpcError.message, data: rpcError.data } };
+    }
+  }
+
+  private handleBody(body: string, socket: WebSocket | null): string {
+    let message: any;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      return JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "parse error" } });
+    }
+    const response = Array.isArray(message)
+      ? message.map(request => this.respond(request, socket))
+      : this.respond(message, socket);
+    return JSON.stringify(response);
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      const denied = this.checkRelaySignature(body, req.headers["x-flashbots-signature"]);
+      if (denied) {
+        res.writeHead(403, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32600, message: denied } }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(this.handleBody(body, null));
+    });
+  }
+
+  // The relay only takes bundles signed by a searcher key, over the exact request body
+  private checkRelaySignature(body: string, header: string | string[] | undefined): string | null {
+    let methods: string[];
+    try {
+      const message = JSON.parse(body);
+      methods = (Array.isArray(message) ? message : [message]).map(request => request?.method);
+    } catch {
+      return null;
+    }
+    if (!methods.some(method => method === "eth_sendBundle" || method === "eth_callBundle")) return null;
+
+    if (typeof header !== "string") return "missing X-Flashbots-Signature header";
+    const [address, signature] = header.split(":");
+    try {
+      if (key(ethers.verifyMessage(ethers.id(body), signature)) === key(address)) return null;
+    } catch {
+      // malformed signature
+    }
+    return "signer address does not match X-Flashbots-Signature header";
+  }
+
+  private handleSocket(socket: WebSocket) {
+    socket.on("message", data => socket.send(this.handleBody(data.toString(), socket)));
+    socket.on("close", () => {
+      this.subscriptions.forEach((subscription, id) => {
+        if (subscription.socket === socket) this.subscriptions.delete(id);
+      });
+    });
+  }
+}
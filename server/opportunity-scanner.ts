@@ -0,0 +1,292 @@
+import { ethers } from "ethers";
+import type { BidPolicy, InsertOpportunity } from "@shared/schema";
+import { storage } from "./storage";
+import { estimateTradeGas, generateArbitrageOpportunities, simulateExecution, type ArbitrageOpportunity } from "../client/src/lib/arbitrage";
+import { buildOpportunityExecution } from "../client/src/lib/execution-builder";
+import { getGasModel, routeShape, shapeKey } from "../client/src/lib/gas-model";
+import { getActiveStrategies } from "../client/src/lib/strategies";
+import { loadPoolState } from "../client/src/lib/pools";
+import { getRpcUrl } from "../client/src/lib/rpc";
+import { loadFeeEstimate, setFeeUrgency } from "../client/src/lib/fees";
+import { loadTradingCapital } from "../client/src/lib/capital";
+import { getWalletManager } from "../client/src/lib/wallet-manager";
+import { bidForOpportunity, isContested, type Bid } from "../client/src/lib/bidding";
+import { evaluateTradePolicy, loadPolicyContext, type PolicyContext } from "./trade-policy";
+
+// Used when there is no node to follow blocks from
+const DEFAULT_SCAN_INTERVAL_MS = 12000;
+
+// New route shapes simulated for their gas per scan, so scans stay quick
+const GAS_SIMULATIONS_PER_SCAN = 2;
+
+// Expired opportunities stay this long, so recently missed ones can still be looked at
+const EXPIRED_OPPORTUNITY_RETENTION_MS = 60 * 60 * 1000;
+
+// Opportunities from the strategies the settings enable, with their stored parameters,
+// their gas priced at the fee urgency trades will bid at
+export async function detectWithActiveStrategies(): Promise<ArbitrageOpportunity[]> {
+  const settings = await storage.getBotSettings();
+  setFeeUrgency(settings?.feeUrgency ?? "medium");
+  const strategies = getActiveStrategies(settings?.strategy ?? "arbitrage");
+  return generateArbitrageOpportunities(strategies, settings?.strategyParams ?? {});
+}
+
+// The same opportunity found again in a later scan gets the same key: its type,
+// the pools it trades through and, for liquidations and backruns, what it acts on
+export function opportunityKey(opportunity: ArbitrageOpportunity): string {
+  const parts: string[] = [opportunity.type];
+  if (opportunity.liquidation) {
+    const { market, borrower, collateral, debt } = opportunity.liquidation;
+    parts.push(market, borrower, collateral.address, debt.address);
+  }
+  if (opportunity.backrun) {
+    parts.push(opportunity.backrun.victimHash);
+  }
+  for (const leg of opportunity.route ?? []) {
+    parts.push(`${leg.dex}:${leg.pool}:${leg.tokenIn.address}`);
+  }
+  if (!opportunity.route) {
+    parts.push(opportunity.pairs);
+  }
+  return parts.join("|").toLowerCase();
+}
+
+// When each stored opportunity was first found, by key
+export async function loadFirstSeen(): Promise<Map<string, Date>> {
+  const firstSeen = new Map<string, Date>();
+  for (const opportunity of await storage.getOpportunities()) {
+    if (opportunity.key) firstSeen.set(opportunity.key, opportunity.identified);
+  }
+  return firstSeen;
+}
+
+// Price each opportunity's bid under the saved policies, as contested unless
+// it has gone untaken for a while
+export function withBids(
+  opportunities: ArbitrageOpportunity[],
+  policies: Record<string, BidPolicy> | undefined,
+  firstSeen: Map<string, Date>,
+  now = new Date()
+): Array<ArbitrageOpportunity & { bid: Bid }> {
+  return opportunities.map(opportunity => {
+    const bid = bidForOpportunity(opportunity, policies, isContested(firstSeen.get(opportunityKey(opportunity)), now));
+    return { ...opportunity, estimatedBidEth: bid.amountEth, contested: bid.contested, bid };
+  });
+}
+
+function toStoredOpportunity(
+  opportunity: ArbitrageOpportunity,
+  blockNumber: number | null,
+  expiresAt: Date,
+  policy: PolicyContext
+): InsertOpportunity & { key: string } {
+  return {
+    key: opportunityKey(opportunity),
+    strategy: opportunity.strategy,
+    rejection: evaluateTradePolicy({ ...opportunity, expiresAt }, policy),
+    estimatedBidEth: (opportunity.estimatedBidEth ?? 0).toString(),
+    contested: opportunity.contested ?? true,
+    blockNumber,
+    expiresAt,
+    type: opportunity.type,
+    route: opportunity.route,
+    estimatedProfitEth: opportunity.estimatedProfitEth.toString(),
+    estimatedGasCostEth: opportunity.estimatedGasCostEth.toString(),
+    isExecutable: opportunity.isExecutable,
+    amountIn: opportunity.amountIn,
+    tokenIn: opportunity.tokenIn,
+    liquidation: opportunity.liquidation,
+    backrun: opportunity.backrun,
+  };
+}
+
+// What one scan did
+export interface ScanMetrics {
+  startedAt: Date;
+  blockNumber: number | null;
+  durationMs: number;
+  routesEvaluated: number; // every opportunity the strategies priced
+  opportunitiesFound: number; // those that were executable
+  removed: number; // scanned opportunities deleted once expired past the retention window
+  expired: number; // stored opportunities whose TTL ran out
+  byStrategy: Record<string, { routesEvaluated: number; opportunitiesFound: number }>;
+}
+
+interface OpportunityScannerOptions {
+  intervalMs?: number; // scan on this interval instead of on every new block
+}
+
+// Keeps the stored opportunities current without a browser asking for them:
+// on every new block (or on an interval) it refreshes pool state, runs the
+// enabled strategies, upserts what they find (with whether the pre-trade policy
+// would let it trade) and expires what they no longer do
+export class OpportunityScanner {
+  private timer: NodeJS.Timeout | null = null;
+  private provider: ethers.JsonRpcProvider | null = null;
+  private followingBlocks = false;
+  private scanning = false;
+  private intervalMs: number | null;
+  private scans = 0;
+  private failures = 0;
+  private totalDurationMs = 0;
+  private lastScan: ScanMetrics | null = null;
+  private lastError: string | null = null;
+  private gasSimulated = new Set<string>(); // route shapes already simulated, whether or not it succeeded
+  private onBlock = () => { void this.scan(); };
+
+  constructor(options: OpportunityScannerOptions = {}) {
+    this.intervalMs = options.intervalMs ?? null;
+  }
+
+  // How scans are triggered, and what the recent ones did
+  getStatus() {
+    return {
+      running: this.timer !== null || this.followingBlocks,
+      trigger: this.followingBlocks ? "block" : "interval",
+      intervalMs: this.followingBlocks ? null : this.intervalMs ?? DEFAULT_SCAN_INTERVAL_MS,
+      scanning: this.scanning,
+      scans: this.scans,
+      failures: this.failures,
+      averageDurationMs: this.scans > 0 ? Math.round(this.totalDurationMs / this.scans) : null,
+      lastScan: this.lastScan,
+      lastError: this.lastError,
+    };
+  }
+
+  start() {
+    if (this.timer || this.followingBlocks) return;
+
+    const rpcUrl = getRpcUrl();
+    this.provider = rpcUrl ? new ethers.JsonRpcProvider(rpcUrl) : null;
+    if (this.provider && this.intervalMs === null) {
+      this.followingBlocks = true;
+      this.provider.on("block", this.onBlock).catch(error => {
+        console.error("Failed to subscribe to new blocks:", error);
+      });
+    } else {
+      if (!this.provider) {
+        console.warn("No RPC configured; scanning the pool snapshot on an interval");
+      }
+      this.timer = setInterval(() => this.scan(), this.intervalMs ?? DEFAULT_SCAN_INTERVAL_MS);
+    }
+    void this.scan();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.provider) {
+      void this.provider.off("block", this.onBlock);
+      this.provider.destroy();
+    }
+    this.provider = null;
+    this.followingBlocks = false;
+  }
+
+  // The node scans read from; null without one
+  getProvider(): ethers.JsonRpcProvider | null {
+    return this.provider;
+  }
+
+  // Re-read pool state, fee history and the wallet's balances from the node; the
+  // block it was read at, or null without a node, when the pool snapshot and
+  // default fees stand
+  async refreshPools(): Promise<number | null> {
+    if (!this.provider) return null;
+    const blockNumber = await this.provider.getBlockNumber();
+    await Promise.all([
+      loadPoolState(this.provider),
+      loadFeeEstimate(this.provider),
+      loadTradingCapital(this.provider, getWalletManager()?.getAddress() ?? null),
+    ]);
+    return blockNumber;
+  }
+
+  // Simulate an executable opportunity of each route shape that has neither
+  // enough receipts nor a simulation, so later scans price its gas from the
+  // simulation rather than the flat default for its type
+  private async simulateNewShapes(found: ArbitrageOpportunity[]) {
+    const from = getWalletManager()?.getAddress();
+    if (!from) return;
+
+    let simulations = 0;
+    for (const opportunity of found) {
+      if (simulations >= GAS_SIMULATIONS_PER_SCAN) break;
+      if (!opportunity.isExecutable || estimateTradeGas(opportunity).source !== "default") continue;
+      const shape = routeShape(opportunity.strategy ?? opportunity.type, opportunity.route);
+      if (this.gasSimulated.has(shapeKey(shape))) continue;
+
+      this.gasSimulated.add(shapeKey(shape));
+      simulations++;
+      try {
+        const simulation = await simulateExecution(buildOpportunityExecution(opportunity, { recipient: from }), from);
+        if (simulation.success) getGasModel().recordSimulation(shape, simulation.gasUsed);
+      } catch (error) {
+        console.error(`Error simulating gas for ${shapeKey(shape)}:`, error);
+      }
+    }
+  }
+
+  // Run the enabled strategies once; null when a scan is already under way
+  async scan(): Promise<ScanMetrics | null> {
+    if (this.scanning) return null;
+
+    this.scanning = true;
+    const startedAt = new Date();
+    try {
+      // Mark quotes past their TTL first, so they are marked even when the node cannot be read
+      const expired = await storage.expireOpportunities(startedAt);
+
+      const blockNumber = await this.refreshPools();
+      const settings = await storage.getBotSettings();
+      const found = withBids(await detectWithActiveStrategies(), settings?.bidPolicies, await loadFirstSeen(), startedAt);
+      const expiresAt = new Date(Date.now() + (settings?.opportunityTtlSeconds ?? 36) * 1000);
+      const policy = await loadPolicyContext(this.provider, getWalletManager()?.getAddress() ?? null);
+      const byStrategy: ScanMetrics["byStrategy"] = {};
+      for (const opportunity of found) {
+        const id = opportunity.strategy ?? "unknown";
+        const counts = byStrategy[id] ?? (byStrategy[id] = { routesEvaluated: 0, opportunitiesFound: 0 });
+        counts.routesEvaluated++;
+        if (opportunity.isExecutable) counts.opportunitiesFound++;
+      }
+
+      // Two routes through the same pools can only be stored once; keep the more profitable
+      const byKey = new Map<string, InsertOpportunity & { key: string }>();
+      for (const opportunity of found) {
+        const stored = toStoredOpportunity(opportunity, blockNumber, expiresAt, policy);
+        const existing = byKey.get(stored.key);
+        if (!existing || parseFloat(existing.estimatedProfitEth) < opportunity.estimatedProfitEth) {
+          byKey.set(stored.key, stored);
+        }
+      }
+      for (const stored of Array.from(byKey.values())) {
+        await storage.upsertOpportunity(stored);
+      }
+      const removed = await storage.deleteExpiredOpportunities(new Date(startedAt.getTime() - EXPIRED_OPPORTUNITY_RETENTION_MS));
+      await this.simulateNewShapes(found);
+
+      const metrics: ScanMetrics = {
+        startedAt,
+        blockNumber,
+        durationMs: Date.now() - startedAt.getTime(),
+        routesEvaluated: found.length,
+        opportunitiesFound: found.filter(opportunity => opportunity.isExecutable).length,
+        removed,
+        expired,
+        byStrategy,
+      };
+      this.scans++;
+      this.totalDurationMs += metrics.durationMs;
+      this.lastScan = metrics;
+      this.lastError = null;
+      return metrics;
+    } catch (error) {
+      console.error("Error scanning for opportunities:", error);
+      this.failures++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return null;
+    } finally {
+      this.scanning = false;
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { ReceiptWatcher, advanceTransaction, getBidWinRates, loadGasHistory, refreshBotStats } from "./transaction-tracker";
+import { OpportunityScanner, detectWithActiveStrategies, loadFirstSeen, opportunityKey, withBids } from "./opportunity-scanner";
+import { evaluateTradePolicy, loadPolicyContext } from "./trade-policy";
+import { MempoolIngester } from "./mempool-ingester";
 import { z } from "zod";
 import {
   insertBotSettingsSchema,
@@ -8,9 +12,46 @@ import {
   insertBotStatsSchema,
   insertOpportunitySchema,
   insertTransactionSchema,
-  insertMempoolActivitySchema
+  insertMempoolActivitySchema,
+  insertTokenSchema,
+  tokenListSchema,
+  inFlightStatuses,
+  settledStatuses,
+  type InsertToken,
+  type Token,
+  type Transaction
 } from "@shared/schema";
+import { ethers } from 'ethers';
 import { getWalletManager, initWalletManager } from '../client/src/lib/wallet-manager';
+import {
+  executeArbitrage,
+  requoteOpportunity,
+  simulateExecution,
+  type ArbitrageOpportunity,
+  type ExecutionProgress
+} from '../client/src/lib/arbitrage';
+import { buildOpportunityExecution, serializeExecution } from '../client/src/lib/execution-builder';
+import {
+  AAVE_V3_POOL_ADDRESS,
+  FLASH_LOAN_PREMIUM_BPS,
+  deployFlashLoanReceiver,
+  verifyFlashLoanReceiver
+} from '../client/src/lib/flash-loans';
+import { getPositionTracker, serializePosition } from '../client/src/lib/liquidations';
+import { registerTokens } from '../client/src/lib/tokens';
+import { setSwapIntentSource } from '../client/src/lib/backrun';
+import { getNonceManager } from '../client/src/lib/nonce-manager';
+import { type Bid, bidForOpportunity, effectiveBidMethod, isContested } from '../client/src/lib/bidding';
+import { GAS_BAND_PERCENTILES, GAS_ESTIMATE_PERCENTILE, MIN_GAS_SAMPLES, getGasModel } from '../client/src/lib/gas-model';
+import {
+  type Strategy,
+  getStrategies,
+  getStrategyStats,
+  isStrategySelection,
+  realizedProfitEth,
+  requireStrategy,
+  resolveStrategyParams
+} from '../client/src/lib/strategies';
 // import { WebSocketServer, WebSocket } from 'ws';
 
 // Helper to validate request body
@@ -21,6 +62,229 @@ function validateBody<T extends z.ZodTypeAny>(
   return schema.parse(data);
 }
 
+// Store addresses checksummed so each token has exactly one row per chain
+function normalizeToken(token: InsertToken): InsertToken {
+  return { ...token, address: ethers.getAddress(token.address) };
+}
+
+// Hosts token lists may be fetched from, overridable with a comma-separated
+// TOKEN_LIST_HOSTS; lists from anywhere else have to be uploaded
+const TOKEN_LIST_HOSTS = (process.env.TOKEN_LIST_HOSTS || "tokens.uniswap.org,tokens.coingecko.com,raw.githubusercontent.com")
+  .split(",")
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+const TOKEN_LIST_TIMEOUT_MS = 10 * 1000;
+const TOKEN_LIST_MAX_BYTES = 5 * 1024 * 1024;
+
+// Fetch a token list over https from an allowed host, without following
+// redirects, giving up after the timeout or once it outgrows the size cap
+async function fetchTokenList(url: string): Promise<unknown> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" || !TOKEN_LIST_HOSTS.includes(hostname.toLowerCase())) {
+    throw new Error(`Token lists can only be fetched over https from ${TOKEN_LIST_HOSTS.join(", ")}`);
+  }
+
+  const response = await fetch(url, { redirect: "error", signal: AbortSignal.timeout(TOKEN_LIST_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Token list request failed with status ${response.status}`);
+  if (Number(response.headers.get("content-length") ?? 0) > TOKEN_LIST_MAX_BYTES || !response.body) {
+    throw new Error("Token list response is too large or empty");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > TOKEN_LIST_MAX_BYTES) {
+      await reader.cancel();
+      throw new Error(`Token list is larger than ${TOKEN_LIST_MAX_BYTES} bytes`);
+    }
+    chunks.push(chunk.value);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+// Make stored tokens available to the quoting code's registry
+function syncTokenRegistry(storedTokens: Token[]) {
+  registerTokens(storedTokens.map(token => ({
+    ...token,
+    name: token.name ?? undefined,
+  })));
+}
+
+// Slippage, deadline, simulation gating, submission mode and fee urgency for executions, from the saved bot settings
+async function getExecutionOptions(opportunityType?: string) {
+  const settings = await storage.getBotSettings();
+  return {
+    slippageBps: settings?.slippageBps,
+    deadlineSeconds: settings?.txDeadlineSeconds,
+    runSimulations: settings?.runSimulations ?? true,
+    submission: (opportunityType && settings?.submissionModes?.[opportunityType]) || "public",
+    flashLoanReceiver: settings?.flashLoanReceiver ?? undefined,
+    minProfitEth: parseFloat(String(settings?.minProfitThreshold ?? 0)),
+    feeUrgency: settings?.feeUrgency,
+  };
+}
+
+// The most profitable opportunity the pre-trade policy allows that its strategy
+// still stands behind once re-checked, passing over any `skip` rules out
+async function findStrategyWork(
+  skip: (opportunity: ArbitrageOpportunity) => boolean = () => false
+): Promise<{ strategy: Strategy; opportunity: ArbitrageOpportunity & { bid: Bid } } | null> {
+  const settings = await storage.getBotSettings();
+  const policy = await loadPolicyContext(opportunityScanner.getProvider(), getExecutionRecipient(undefined));
+  const netProfit = (opp: ArbitrageOpportunity) => opp.estimatedProfitEth - opp.estimatedGasCostEth - (opp.estimatedBidEth ?? 0);
+  
+  const candidates = withBids(await detectWithActiveStrategies(), settings?.bidPolicies, await loadFirstSeen())
+    .filter(opp => !skip(opp) && !evaluateTradePolicy(opp, policy))
+    .sort((a, b) => netProfit(b) - netProfit(a));
+  
+  for (const opportunity of candidates) {
+    const strategy = requireStrategy(opportunity.strategy!);
+    const params = resolveStrategyParams(strategy, settings?.strategyParams?.[strategy.id]);
+    const rejection = await strategy.validate(opportunity, params);
+    if (!rejection) return { strategy, opportunity };
+    console.log(`Skipping ${opportunity.type} ${opportunity.pairs}: ${rejection}`);
+  }
+  return null;
+}
+
+// Re-quote an opportunity on freshly read pool state. Why it should not run as
+// quoted when its net profit fell below minProfitThreshold; null when it still clears it.
+async function checkPriceChanged(
+  opportunity: Parameters<typeof requoteOpportunity>[0] & { estimatedGasCostEth: string | number; estimatedBidEth?: string | number }
+): Promise<string | null> {
+  await opportunityScanner.refreshPools();
+  const settings = await storage.getBotSettings();
+  const minProfitEth = parseFloat(String(settings?.minProfitThreshold ?? 0));
+  
+  const profitEth = requoteOpportunity(opportunity);
+  if (profitEth === null) return "Route can no longer be quoted on current pool state";
+  const netProfitEth = profitEth - parseFloat(String(opportunity.estimatedGasCostEth)) - parseFloat(String(opportunity.estimatedBidEth ?? 0));
+  if (netProfitEth < minProfitEth) {
+    return `Net profit re-quoted at ${netProfitEth.toFixed(4)} ETH, below the ${minProfitEth} ETH threshold`;
+  }
+  return null;
+}
+
+// Swap output goes to the connected wallet, or to an address the caller names
+function getExecutionRecipient(requested: unknown): string | null {
+  const walletAddress = getWalletManager()?.getAddress();
+  if (walletAddress) return walletAddress;
+  return typeof requested === 'string' && ethers.isAddress(requested) ? requested : null;
+}
+
+// An opportunity's profit, gas and bid as a transaction records them: a coinbase
+// payment comes out of the profit, a priority-fee bid is paid as gas
+function bidRecord(
+  opportunity: { strategy?: string | null; estimatedProfitEth: string | number; estimatedGasCostEth: string | number; backrun?: unknown },
+  bid: Bid,
+  submission: string
+) {
+  const bidMethod = effectiveBidMethod(bid, submission === "private" || Boolean(opportunity.backrun));
+  const profitEth = parseFloat(String(opportunity.estimatedProfitEth)) - (bidMethod === "coinbase" ? bid.amountEth : 0);
+  const gasCostEth = parseFloat(String(opportunity.estimatedGasCostEth)) + (bidMethod === "priority_fee" ? bid.amountEth : 0);
+  return {
+    strategy: opportunity.strategy ?? null,
+    profitEth: profitEth.toString(),
+    gasCostEth: gasCostEth.toString(),
+    bidEth: bid.amountEth.toString(),
+    bidMethod,
+    bidShareBps: bid.shareBps,
+  };
+}
+
+// A transaction row for an execution, created once its calls are built and then
+// moved through the lifecycle as the execution reports progress
+function trackExecution(
+  opportunity: Parameters<typeof executeArbitrage>[0] & Parameters<typeof bidRecord>[0],
+  bid: Bid,
+  submission: string
+) {
+  let transaction: Transaction | undefined;
+  const track = async ({ status, ...details }: ExecutionProgress) => {
+    transaction = transaction
+      ? await advanceTransaction(transaction.id, status, details)
+      : await storage.addTransaction({
+          type: opportunity.type,
+          pairs: opportunity.pairs,
+          route: opportunity.route,
+          ...bidRecord(opportunity, bid, submission),
+          status,
+          ...details
+        });
+  };
+  return { track, current: () => transaction };
+}
+
+// Re-send a stuck public transaction on its nonce: the same call with higher fees
+// (speed-up), or a 0-value send to ourselves (cancel). The replacement gets its
+// own row linked to the original, which the node has now evicted.
+async function sendReplacement(original: Transaction, action: "speed-up" | "cancel", bumpPercent?: number) {
+  const signer = getWalletManager()?.getSigner();
+  if (!signer) {
+    throw new Error("No wallet connected to send a replacement from");
+  }
+  if (!original.txHash || !inFlightStatuses.includes(original.status)) {
+    throw new Error(`Transaction ${original.id} is not in flight (${original.status})`);
+  }
+  if (original.submission === "private") {
+    throw new Error("Private bundles cannot be replaced; they drop after their target block");
+  }
+  
+  const nonces = getNonceManager(signer);
+  const response = action === "speed-up"
+    ? await nonces.speedUp(original.txHash, bumpPercent)
+    : await nonces.cancel(original.txHash, bumpPercent);
+  
+  const replacement = await storage.addTransaction({
+    ...(action === "speed-up"
+      ? {
+          type: original.type,
+          pairs: original.pairs,
+          route: original.route,
+          profitEth: original.profitEth,
+          gasCostEth: original.gasCostEth,
+          setupGasUsed: original.setupGasUsed,
+          strategy: original.strategy,
+          bidEth: original.bidEth,
+          bidMethod: original.bidMethod,
+          bidShareBps: original.bidShareBps,
+        }
+      : {
+          type: "Cancel",
+          pairs: `Cancel ${original.type}: ${original.pairs}`,
+          profitEth: "0",
+          gasCostEth: ethers.formatEther(response.gasLimit * (response.maxFeePerGas ?? 0n)),
+        }),
+    status: "Submitted",
+    txHash: response.hash,
+    fromAddress: response.from,
+    nonce: response.nonce,
+    submission: "public",
+    replacesId: original.id,
+  });
+  await advanceTransaction(original.id, "Replaced");
+  return replacement;
+}
+
+// Follows submitted transactions through the provider of the connected wallet
+const receiptWatcher = new ReceiptWatcher(() => getWalletManager()?.getProvider() ?? null);
+
+// Keeps the stored opportunities current on every new block, or every
+// SCANNER_INTERVAL_MS when set
+const opportunityScanner = new OpportunityScanner({
+  intervalMs: Number(process.env.SCANNER_INTERVAL_MS) || undefined,
+});
+
+// Stores the swaps pending router calls will make, from the node's mempool
+const mempoolIngester = new MempoolIngester();
+
+// An opportunity automated execution could not send is passed over for this
+// long, doubling with each further failure up to the maximum
+const FAILED_OPPORTUNITY_BACKOFF_MS = 60 * 1000;
+const MAX_FAILED_OPPORTUNITY_BACKOFF_MS = 15 * 60 * 1000;
+
 // Class to manage MEV execution state
 class MevExecutionManager {
   private isRunning: boolean = false;
@@ -30,6 +294,9 @@ class MevExecutionManager {
   private targetProfit: number = 20; // £20 default
   private autoWithdraw: boolean = false;
   private withdrawalAddress: string = '';
+  private inFlightTransactionId: number | null = null; // the trade sent last, until it settles
+  private stopReason: string | null = null; // why execution stopped by itself
+  private backoffs = new Map<string, { failures: number; until: number }>(); // by opportunity key
   
   startExecution(targetProfit?: number, autoWithdraw?: boolean, withdrawalAddress?: string) {
     if (this.isRunning) return { success: false, message: "Execution already running" };
@@ -38,6 +305,9 @@ class MevExecutionManager {
     this.profit = 0;
     this.transactions = 0;
     this.startTime = new Date();
+    this.inFlightTransactionId = null;
+    this.stopReason = null;
+    this.backoffs.clear();
     
     if (targetProfit) this.targetProfit = targetProfit;
     if (autoWithdraw !== undefined) this.autoWithdraw = autoWithdraw;
@@ -51,10 +321,11 @@ class MevExecutionManager {
     };
   }
   
-  stopExecution() {
+  stopExecution(reason?: string) {
     if (!this.isRunning) return { success: false, message: "No execution currently running" };
     
     this.isRunning = false;
+    this.stopReason = reason ?? null;
     
     return { 
       success: true, 
@@ -63,6 +334,23 @@ class MevExecutionManager {
     };
   }
   
+  setInFlightTransaction(id: number | null) {
+    this.inFlightTransactionId = id;
+  }
+  
+  // Pass over an opportunity that failed simulation or could not be sent
+  backOff(key: string) {
+    const failures = (this.backoffs.get(key)?.failures ?? 0) + 1;
+    const delayMs = Math.min(FAILED_OPPORTUNITY_BACKOFF_MS * 2 ** (failures - 1), MAX_FAILED_OPPORTUNITY_BACKOFF_MS);
+    this.backoffs.set(key, { failures, until: Date.now() + delayMs });
+  }
+  
+  isBackedOff(key: string): boolean {
+    const backoff = this.backoffs.get(key);
+    return backoff !== undefined && backoff.until > Date.now();
+  }
+  
+  // Credit what a confirmed trade realized
   recordProfit(amount: number) {
     this.profit += amount;
     this.transactions++;
@@ -91,7 +379,9 @@ class MevExecutionManager {
       targetProfit: this.targetProfit,
       percentComplete: this.targetProfit > 0 ? (this.profit / this.targetProfit) * 100 : 0,
       autoWithdraw: this.autoWithdraw,
-      withdrawalAddress: this.withdrawalAddress
+      withdrawalAddress: this.withdrawalAddress,
+      inFlightTransactionId: this.inFlightTransactionId,
+      stopReason: this.stopReason
     };
   }
 }
@@ -100,6 +390,31 @@ class MevExecutionManager {
 const mevManager = new MevExecutionManager();
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Load the persisted token registry before anything quotes amounts
+  try {
+    syncTokenRegistry(await storage.getTokens());
+  } catch (error) {
+    console.error("Failed to load token registry:", error);
+  }
+  
+  // Track submitted transactions through to their receipts, and start the
+  // stats from the outcomes already recorded
+  receiptWatcher.start();
+  opportunityScanner.start();
+  // Backruns follow the pending swaps the mempool ingester stores
+  setSwapIntentSource(() => storage.getPendingSwapIntents());
+  mempoolIngester.start();
+  try {
+    await refreshBotStats();
+  } catch (error) {
+    console.error("Failed to refresh bot stats:", error);
+  }
+  try {
+    await loadGasHistory();
+  } catch (error) {
+    console.error("Failed to load gas history:", error);
+  }
+  
   // MEV auto-execution endpoints
   app.post('/api/mev/start', async (req, res) => {
     try {
@@ -107,8 +422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = mevManager.startExecution(targetProfit, autoWithdraw, withdrawalAddress);
       res.json(result);
       
-      // If we had actual execution, we'd start it here
-      // For demo purposes, we'll simulate it with automated opportunity execution
+      // Send trades in the background until the target is reached or it is stopped
       if (result.success) {
         // Start execution in background
         executeOpportunitiesUntilTarget(mevManager).catch(console.error);
@@ -193,6 +507,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Show the transaction an opportunity would send, before anything is signed
+  app.get('/api/opportunities/:id/transaction', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const opportunities = await storage.getOpportunities();
+      const opportunity = opportunities.find(opp => opp.id === id);
+      
+      if (!opportunity) {
+        return res.status(404).json({ error: "Opportunity not found" });
+      }
+      
+      const recipient = getExecutionRecipient(req.query.recipient);
+      if (!recipient) {
+        return res.status(400).json({ error: "Connect a wallet or pass a recipient address" });
+      }
+      
+      try {
+        const execution = buildOpportunityExecution(opportunity, { ...await getExecutionOptions(), recipient });
+        res.json(serializeExecution(execution));
+      } catch (buildError) {
+        res.status(422).json({ error: (buildError as Error).message });
+      }
+    } catch (error) {
+      console.error("Error building opportunity transaction:", error);
+      res.status(500).json({ error: "Failed to build opportunity transaction" });
+    }
+  });
+  
   // Execute a specific opportunity
   app.post('/api/execute-opportunity/:id', async (req, res) => {
     try {
@@ -204,25 +546,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Opportunity not found" });
       }
       
-      // Execute the opportunity (in a real system this would use the wallet)
-      const txHash = `0x${Math.random().toString(16).substring(2, 10)}...${Math.random().toString(16).substring(2, 6)}`;
+      // Initialize wallet manager if needed
+      if (!getWalletManager()) {
+        initWalletManager();
+      }
       
-      // Record the transaction
-      const transaction = await storage.addTransaction({
-        txHash,
-        type: opportunity.type,
-        pairs: opportunity.pairs,
-        profitEth: opportunity.estimatedProfitEth as string,
-        gasCostEth: opportunity.estimatedGasCostEth as string,
-        status: "Confirmed"
-      });
+      // Bid as the policies stand now, then the bot settings have to allow the trade;
+      // a blocked one keeps the reason on its row
+      const policy = await loadPolicyContext(opportunityScanner.getProvider(), getExecutionRecipient(req.body?.recipient));
+      const bid = bidForOpportunity(opportunity, policy.settings?.bidPolicies, isContested(opportunity.identified, policy.now));
+      const rejection = evaluateTradePolicy({ ...opportunity, estimatedBidEth: bid.amountEth }, policy);
+      if (rejection) {
+        if (rejection.code === "expired") {
+          await storage.expireOpportunities(policy.now);
+        }
+        await storage.updateOpportunity(id, { rejection });
+        await storage.addMempoolActivity({
+          message: `Blocked ${opportunity.type} arbitrage: ${opportunity.pairs} - ${rejection.message}`,
+          type: "execution"
+        });
+        return res.status(403).json({ error: rejection.message, rejection });
+      }
+      
+      // Nor is one whose route no longer pays once re-quoted
+      const options = await getExecutionOptions(opportunity.type);
+      const priceChange = await checkPriceChanged({ ...opportunity, estimatedBidEth: bid.amountEth });
+      if (priceChange) {
+        const transaction = await storage.addTransaction({
+          type: opportunity.type,
+          pairs: opportunity.pairs,
+          route: opportunity.route,
+          ...bidRecord(opportunity, bid, options.submission),
+          status: "Price Changed",
+          revertReason: priceChange
+        });
+        return res.status(409).json({ error: `Price changed: ${priceChange}`, transaction });
+      }
+      
+      const signer = getWalletManager()?.getSigner();
+      let execution = null;
+      
+      const { track, current } = trackExecution(opportunity, bid, options.submission);
+      
+      try {
+        if (signer) {
+          // Build, simulate and submit the route's router calls from the connected wallet
+          const result = await executeArbitrage(opportunity, signer, { ...options, bid }, track);
+          execution = serializeExecution(result.execution);
+        } else {
+          // No wallet: build the calls so they can be inspected, but only simulate them
+          console.log("Simulating execution (wallet unavailable)");
+          const recipient = getExecutionRecipient(req.body?.recipient);
+          if (recipient) {
+            const built = buildOpportunityExecution(opportunity, { ...options, recipient });
+            execution = serializeExecution(built);
+            await track({ status: "Built" });
+            
+            if (options.runSimulations) {
+              const simulation = await simulateExecution(built, recipient);
+              await track(simulation.success
+                ? { status: "Simulated" }
+                : { status: "Failed", revertReason: simulation.error! });
+            }
+          } else {
+            await track({ status: "Simulated" });
+          }
+        }
+      } catch (executionError) {
+        console.error("Error executing opportunity:", executionError);
+        return res.status(422).json({
+          error: `Execution failed: ${(executionError as Error).message}`,
+          transaction: current()
+        });
+      }
+      
+      const transaction = current()!;
+      if (transaction.status === "Failed") {
+        return res.status(422).json({
+          error: `Simulation failed: ${transaction.revertReason}`,
+          transaction,
+          execution
+        });
+      }
       
       // Remove the executed opportunity
       await storage.deleteOpportunity(id);
       
       // Add mempool activity
       await storage.addMempoolActivity({
-        message: `Executed ${opportunity.type} arbitrage: ${opportunity.pairs} - Profit: ${opportunity.estimatedProfitEth} ETH`,
+        message: `${signer ? (options.submission === "private" ? "Submitted bundle for" : "Submitted") : "Simulated"} ${opportunity.type} arbitrage: ${opportunity.pairs} - Expected profit: ${opportunity.estimatedProfitEth} ETH`,
         type: "execution"
       });
       
@@ -230,7 +642,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: true,
         transaction,
-        message: `Successfully executed ${opportunity.type} arbitrage opportunity`
+        execution,
+        simulated: !signer,
+        message: signer
+          ? `Submitted ${opportunity.type} arbitrage transaction ${transaction.txHash}`
+          : `Simulated ${opportunity.type} arbitrage opportunity (no wallet connected)`
       });
     } catch (error) {
       console.error("Error executing opportunity:", error);
@@ -256,179 +672,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Helper function to execute opportunities until target is reached
+  // Look for work again after a pause, while execution is still running
+  function continueExecution(manager: MevExecutionManager, delayMs: number) {
+    setTimeout(() => {
+      executeOpportunitiesUntilTarget(manager).catch(console.error);
+    }, delayMs);
+  }
+  
+  // Send the best work the active strategies find from the connected wallet, one
+  // trade at a time, and count towards the target only what confirmed trades realized
   async function executeOpportunitiesUntilTarget(manager: MevExecutionManager) {
-    const stats = manager.getStats();
-    if (!stats.isRunning) return;
+    if (!manager.getStats().isRunning) return;
     
     try {
-      // Get current opportunities
-      const opportunities = await storage.getOpportunities();
-      const executableOpps = opportunities.filter(o => o.isExecutable);
-      
-      if (executableOpps.length > 0) {
-        // Execute the most profitable opportunity
-        const bestOpp = executableOpps.sort((a, b) => {
-          const profitA = parseFloat(a.estimatedProfitEth as string) - parseFloat(a.estimatedGasCostEth as string);
-          const profitB = parseFloat(b.estimatedProfitEth as string) - parseFloat(b.estimatedGasCostEth as string);
-          return profitB - profitA;
-        })[0];
-        
-        // Execute it
-        const transaction = await storage.addTransaction({
-          txHash: `0x${Math.random().toString(16).substring(2, 10)}...${Math.random().toString(16).substring(2, 6)}`,
-          type: bestOpp.type,
-          pairs: bestOpp.pairs,
-          profitEth: bestOpp.estimatedProfitEth as string,
-          gasCostEth: bestOpp.estimatedGasCostEth as string,
-          status: "Confirmed"
+      // Wait for the trade sent last to settle before sending another
+      const { inFlightTransactionId } = manager.getStats();
+      if (inFlightTransactionId !== null) {
+        if (!await settleInFlightTrade(manager, inFlightTransactionId)) {
+          continueExecution(manager, 5000);
+          return;
+        }
+        if (!manager.getStats().isRunning) return;
+      }
+      
+      // Without a signer nothing can be sent, so nothing can be earned
+      if (!getWalletManager()) {
+        initWalletManager();
+      }
+      const signer = getWalletManager()?.getSigner();
+      if (!signer) {
+        const reason = "No wallet to sign trades with (set ETHEREUM_PRIVATE_KEY)";
+        manager.stopExecution(reason);
+        await storage.addMempoolActivity({ message: `Stopped MEV execution: ${reason}`, type: "error" });
+        console.warn(`Stopped MEV execution: ${reason}`);
+        return;
+      }
+      
+      // Ask the active strategies for work, passing over what recently failed
+      const work = await findStrategyWork(opp => manager.isBackedOff(opportunityKey(opp)));
+      if (!work) {
+        // Nothing worth doing yet; look again shortly
+        continueExecution(manager, 3000);
+        return;
+      }
+      
+      const { strategy, opportunity } = work;
+      const options = await getExecutionOptions(opportunity.type);
+      
+      // Re-quote it on current state; a moved price is recorded and skipped
+      const priceChange = await checkPriceChanged(opportunity);
+      if (priceChange) {
+        await storage.addTransaction({
+          type: opportunity.type,
+          pairs: opportunity.pairs,
+          route: opportunity.route,
+          ...bidRecord(opportunity, opportunity.bid, options.submission),
+          status: "Price Changed",
+          revertReason: priceChange
         });
-        
-        // Convert profit to GBP (using approximate exchange rate)
-        const ethToGbpRate = 2650; // £2,650 per ETH (example rate)
-        const profitGbp = parseFloat(transaction.profitEth) * ethToGbpRate;
-        
-        // Record profit and check if target reached
-        const result = manager.recordProfit(profitGbp);
-        
-        // Remove the executed opportunity
-        await storage.deleteOpportunity(bestOpp.id);
-        
-        // Add mempool activity
         await storage.addMempoolActivity({
-          message: `Executed ${bestOpp.type} arbitrage: ${bestOpp.pairs} - Profit: £${profitGbp.toFixed(2)}`,
+          message: `${strategy.name} dropped ${opportunity.type} arbitrage: ${opportunity.pairs} - ${priceChange}`,
+          type: "execution"
+        });
+        manager.backOff(opportunityKey(opportunity));
+        continueExecution(manager, 0);
+        return;
+      }
+      
+      // Build, simulate and send it the way a manual execution does; the receipt
+      // watcher then follows it to a settled status
+      const { track, current } = trackExecution(opportunity, opportunity.bid, options.submission);
+      let failure: string | null = null;
+      try {
+        await executeArbitrage(opportunity, signer, { ...options, bid: opportunity.bid }, track);
+      } catch (executionError) {
+        failure = (executionError as Error).message;
+      }
+      
+      const transaction = current();
+      if (transaction && inFlightStatuses.includes(transaction.status)) {
+        manager.setInFlightTransaction(transaction.id);
+        await storage.addMempoolActivity({
+          message: `${strategy.name} submitted ${opportunity.type} arbitrage: ${opportunity.pairs} - Expected profit: ${opportunity.estimatedProfitEth} ETH`,
           type: "execution"
         });
-        
-        console.log(`Executed opportunity with profit: £${profitGbp.toFixed(2)}`);
-        console.log(`Progress: £${result.currentProfit.toFixed(2)} / £${stats.targetProfit} (${(result.currentProfit / stats.targetProfit * 100).toFixed(2)}%)`);
-        
-        // If target not reached, wait and continue
-        if (!result.targetReached) {
-          // Generate a new opportunity to replace the one we just executed
-          await generateRandomOpportunity();
-          
-          // Wait between executions
-          await new Promise(resolve => setTimeout(resolve, 5000));
-          
-          // Continue execution
-          executeOpportunitiesUntilTarget(manager);
-        } else {
-          console.log(`Target profit of £${stats.targetProfit} reached! Execution complete.`);
-          
-          // Update bot stats
-          const currentStats = await storage.getBotStats();
-          if (currentStats) {
-            const totalProfit = parseFloat(currentStats.totalProfitEth) + 
-              result.currentProfit / ethToGbpRate; // Convert GBP back to ETH
-            
-            await storage.updateBotStats({
-              totalProfitEth: totalProfit.toString(),
-              totalTransactions: currentStats.totalTransactions + result.transactions,
-              successRate: "100" // All successful for this run
-            });
-          }
-          
-          // Check if auto-withdraw is enabled
-          if (result.autoWithdraw) {
-            console.log(`Auto-withdraw enabled. Withdrawing £${result.currentProfit.toFixed(2)} to ${result.withdrawalAddress || 'connected wallet'}`);
-            
-            // Convert GBP profit to ETH
-            const ethProfit = result.currentProfit / ethToGbpRate;
-            
-            try {
-              // Initialize wallet manager if needed
-              if (!getWalletManager()) {
-                initWalletManager();
-              }
-              
-              const walletManager = getWalletManager();
-              let txHash = '';
-              
-              // Check if we have a wallet manager available
-              if (walletManager) {
-                try {
-                  // Attempt a real withdrawal using the wallet manager
-                  console.log(`Attempting to withdraw ${ethProfit.toFixed(4)} ETH to ${result.withdrawalAddress || 'default wallet'} using wallet manager`);
-                  
-                  const withdrawResult = await walletManager.withdrawProfits(ethProfit, result.withdrawalAddress);
-                  txHash = withdrawResult.txHash;
-                  
-                  // Add withdrawal activity with actual transaction hash
-                  await storage.addMempoolActivity({
-                    message: `Auto-withdrew ${ethProfit.toFixed(4)} ETH (£${result.currentProfit.toFixed(2)}) to ${result.withdrawalAddress || 'connected wallet'}`,
-                    type: "withdrawal"
-                  });
-                  
-                  console.log(`Withdrawal complete! Transaction hash: ${txHash}`);
-                  return;
-                } catch (walletError) {
-                  console.error("Error using wallet manager for withdrawal:", walletError);
-                  // Fall back to simulation
-                }
-              }
-              
-              // If wallet manager is not available or failed, simulate the withdrawal
-              console.log("Simulating auto-withdrawal (wallet manager unavailable or failed)");
-              txHash = `0x${Math.random().toString(16).substring(2, 16)}...${Math.random().toString(16).substring(2, 6)}`;
-              
-              // Add withdrawal activity
-              await storage.addMempoolActivity({
-                message: `Auto-withdrew ${ethProfit.toFixed(4)} ETH (£${result.currentProfit.toFixed(2)}) to ${result.withdrawalAddress || 'connected wallet'} (simulated)`,
-                type: "withdrawal"
-              });
-              
-              console.log(`Withdrawal complete! Transaction hash: ${txHash}`);
-            } catch (error) {
-              console.error('Error during auto-withdrawal:', error);
-            }
-          }
-        }
       } else {
-        // No opportunities, generate some and try again
-        await generateRandomOpportunity();
-        await new Promise(resolve => setTimeout(resolve, 3000));
-        executeOpportunitiesUntilTarget(manager);
+        await storage.addMempoolActivity({
+          message: `${strategy.name} dropped ${opportunity.type} arbitrage: ${opportunity.pairs} - ${transaction?.revertReason ?? failure ?? "not sent"}`,
+          type: "execution"
+        });
+        // Move straight on to the next candidate rather than retrying this one
+        manager.backOff(opportunityKey(opportunity));
+        continueExecution(manager, 0);
+        return;
       }
+      continueExecution(manager, 5000);
     } catch (error) {
       console.error('Error in MEV execution:', error);
       
       // Wait and try again if still running
       if (manager.getStats().isRunning) {
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        executeOpportunitiesUntilTarget(manager);
+        continueExecution(manager, 5000);
       }
     }
   }
   
-  // Helper to generate random opportunities for testing
-  async function generateRandomOpportunity() {
-    const types = ['Triangular', 'DEX', 'Flash Loan'];
-    const pairs = [
-      'ETH → USDC → WBTC → ETH',
-      'ETH → DAI → USDT → ETH',
-      'USDT(Uniswap) → USDT(SushiSwap)',
-      'WBTC(Uniswap) → WBTC(Balancer)',
-      'AAVE → Uniswap → Compound',
-      'Maker → Curve → Aave → Maker'
-    ];
+  // Follow the trade in flight; true once it has settled. A confirmed trade's
+  // realized profit counts towards the target, and reaching it may withdraw.
+  async function settleInFlightTrade(manager: MevExecutionManager, id: number): Promise<boolean> {
+    const transaction = await storage.getTransaction(id);
+    if (!transaction) {
+      manager.setInFlightTransaction(null);
+      return true;
+    }
     
-    // Generate a profit between 0.008 and 0.045 ETH
-    const profit = (Math.random() * 0.037 + 0.008).toFixed(4);
-    // Gas cost between 0.003 and 0.016 ETH
-    const gasCost = (Math.random() * 0.013 + 0.003).toFixed(4);
+    // A speed-up or cancel carries on as its replacement
+    if (transaction.status === "Replaced") {
+      const replacement = (await storage.getTransactions()).find(tx => tx.replacesId === id);
+      manager.setInFlightTransaction(replacement?.id ?? null);
+      return !replacement;
+    }
+    if (!settledStatuses.includes(transaction.status)) return false;
     
-    const opportunity = {
-      type: types[Math.floor(Math.random() * types.length)],
-      pairs: pairs[Math.floor(Math.random() * pairs.length)],
-      estimatedProfitEth: profit,
-      estimatedGasCostEth: gasCost,
-      isExecutable: true
-    };
+    manager.setInFlightTransaction(null);
+    if (transaction.status !== "Confirmed") {
+      await storage.addMempoolActivity({
+        message: `${transaction.type} arbitrage ${transaction.status.toLowerCase()}: ${transaction.pairs}${transaction.revertReason ? ` - ${transaction.revertReason}` : ""}`,
+        type: "execution"
+      });
+      return true;
+    }
     
-    await storage.addOpportunity(opportunity);
-    return opportunity;
+    // Convert profit to GBP (using approximate exchange rate)
+    const ethToGbpRate = 2650; // £2,650 per ETH (example rate)
+    const profitGbp = realizedProfitEth(transaction) * ethToGbpRate;
+    const stats = manager.getStats();
+    const result = manager.recordProfit(profitGbp);
+    
+    await storage.addMempoolActivity({
+      message: `Confirmed ${transaction.type} arbitrage: ${transaction.pairs} - Realized profit: £${profitGbp.toFixed(2)}`,
+      type: "execution"
+    });
+    console.log(`Confirmed ${transaction.txHash} with realized profit: £${profitGbp.toFixed(2)}`);
+    console.log(`Progress: £${result.currentProfit.toFixed(2)} / £${stats.targetProfit} (${(result.currentProfit / stats.targetProfit * 100).toFixed(2)}%)`);
+    
+    if (result.targetReached) {
+      console.log(`Target profit of £${stats.targetProfit} reached! Execution complete.`);
+      if (result.autoWithdraw) {
+        await autoWithdrawProfit(result.currentProfit / ethToGbpRate, result.currentProfit, result.withdrawalAddress);
+      }
+    }
+    return true;
   }
+  
+  // Withdraw realized profit once the target is reached; only ever a real send
+  async function autoWithdrawProfit(ethProfit: number, profitGbp: number, withdrawalAddress: string) {
+    if (ethProfit <= 0) return;
+    console.log(`Auto-withdraw enabled. Withdrawing £${profitGbp.toFixed(2)} to ${withdrawalAddress || 'connected wallet'}`);
+    
+    try {
+      const walletManager = getWalletManager();
+      if (!walletManager) throw new Error("No wallet to withdraw from");
+      
+      const withdrawResult = await walletManager.withdrawProfits(ethProfit, withdrawalAddress || undefined);
+      await storage.addMempoolActivity({
+        message: `Auto-withdrew ${ethProfit.toFixed(4)} ETH (£${profitGbp.toFixed(2)}) to ${withdrawalAddress || 'connected wallet'}`,
+        type: "withdrawal"
+      });
+      console.log(`Withdrawal complete! Transaction hash: ${withdrawResult.txHash}`);
+    } catch (error) {
+      console.error('Error during auto-withdrawal:', error);
+      await storage.addMempoolActivity({
+        message: `Auto-withdrawal of ${ethProfit.toFixed(4)} ETH failed: ${(error as Error).message}`,
+        type: "error"
+      });
+    }
+  }
+  
   // GET bot settings
   app.get('/api/bot-settings', async (req, res) => {
     try {
@@ -446,6 +866,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         insertBotSettingsSchema.partial(),
         req.body
       );
+      if (updateData.strategy !== undefined && !isStrategySelection(updateData.strategy)) {
+        return res.status(400).json({ error: `Unknown strategy: ${updateData.strategy}` });
+      }
       const updatedSettings = await storage.updateBotSettings(updateData);
       res.json(updatedSettings);
     } catch (error) {
@@ -453,6 +876,174 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET the registered strategies, with their current parameters and running totals
+  app.get('/api/strategies', async (req, res) => {
+    try {
+      const settings = await storage.getBotSettings();
+      res.json(getStrategies().map(strategy => ({
+        id: strategy.id,
+        name: strategy.name,
+        description: strategy.description,
+        parameters: strategy.parameters,
+        params: resolveStrategyParams(strategy, settings?.strategyParams?.[strategy.id]),
+        stats: getStrategyStats(strategy.id),
+      })));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch strategies" });
+    }
+  });
+
+  // GET how often bids at each share of profit won their block, per strategy
+  app.get('/api/bidding/win-rates', async (req, res) => {
+    try {
+      res.json(await getBidWinRates());
+    } catch (error) {
+      console.error("Error computing bid win rates:", error);
+      res.status(500).json({ error: "Failed to compute bid win rates" });
+    }
+  });
+
+  // GET the gas each route shape is expected to use, and whether that was learned
+  // from receipts or still comes from a simulation or the flat default
+  app.get('/api/gas-model', (req, res) => {
+    res.json({
+      minSamples: MIN_GAS_SAMPLES,
+      percentile: GAS_ESTIMATE_PERCENTILE,
+      band: GAS_BAND_PERCENTILES,
+      estimates: getGasModel().getEstimates(),
+    });
+  });
+
+  // GET how the background scanner is triggered and what its recent scans did
+  app.get('/api/scanner', (req, res) => {
+    res.json(opportunityScanner.getStatus());
+  });
+
+  // GET the flash-loan receiver, checked against the connected wallet when there is one
+  app.get('/api/flash-loan-receiver', async (req, res) => {
+    try {
+      const settings = await storage.getBotSettings();
+      const address = settings?.flashLoanReceiver ?? null;
+      const walletManager = getWalletManager();
+      const walletAddress = walletManager?.getAddress();
+      
+      let problem: string | null = null;
+      if (address && walletManager && walletAddress) {
+        problem = await verifyFlashLoanReceiver(walletManager.getProvider(), address, walletAddress);
+      }
+      
+      res.json({
+        address,
+        pool: AAVE_V3_POOL_ADDRESS,
+        premiumBps: FLASH_LOAN_PREMIUM_BPS,
+        verified: Boolean(address && walletAddress) && problem === null,
+        problem
+      });
+    } catch (error) {
+      console.error("Error fetching flash-loan receiver:", error);
+      res.status(500).json({ error: "Failed to fetch flash-loan receiver" });
+    }
+  });
+  
+  // Use a receiver that is already deployed, e.g. on a local fork
+  app.post('/api/flash-loan-receiver', async (req, res) => {
+    try {
+      const { address } = validateBody(z.object({ address: z.string().refine(ethers.isAddress) }), req.body);
+      const walletManager = getWalletManager();
+      const walletAddress = walletManager?.getAddress();
+      if (!walletManager || !walletAddress) {
+        return res.status(400).json({ error: "Connect a wallet to check the receiver's owner" });
+      }
+      
+      const problem = await verifyFlashLoanReceiver(walletManager.getProvider(), address, walletAddress);
+      if (problem) {
+        return res.status(422).json({ error: problem });
+      }
+      
+      const settings = await storage.updateBotSettings({ flashLoanReceiver: ethers.getAddress(address) });
+      res.json({ address: settings.flashLoanReceiver });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid receiver address" });
+    }
+  });
+  
+  // Deploy a flash-loan receiver owned by the connected wallet
+  app.post('/api/flash-loan-receiver/deploy', async (req, res) => {
+    try {
+      if (!getWalletManager()) {
+        initWalletManager();
+      }
+      const signer = getWalletManager()?.getSigner();
+      if (!signer) {
+        return res.status(400).json({ error: "Connect a wallet to deploy the receiver" });
+      }
+      
+      const deployment = await deployFlashLoanReceiver(signer);
+      await storage.updateBotSettings({ flashLoanReceiver: deployment.address });
+      await storage.addMempoolActivity({
+        message: `Deployed flash-loan receiver at ${deployment.address}`,
+        type: "execution"
+      });
+      
+      res.json(deployment);
+    } catch (error) {
+      console.error("Error deploying flash-loan receiver:", error);
+      res.status(500).json({ error: `Failed to deploy flash-loan receiver: ${(error as Error).message}` });
+    }
+  });
+
+  // GET watched borrower positions, riskiest first
+  app.get('/api/liquidations/positions', async (req, res) => {
+    try {
+      const tracker = getPositionTracker();
+      if (!tracker) {
+        return res.status(503).json({ error: "Set ETHEREUM_RPC_URL or INFURA_API_KEY to track positions" });
+      }
+      
+      res.json({
+        borrowers: tracker.getBorrowers(),
+        positions: tracker.getPositions().map(serializePosition)
+      });
+    } catch (error) {
+      console.error("Error fetching positions:", error);
+      res.status(500).json({ error: "Failed to fetch positions" });
+    }
+  });
+  
+  // Watch a borrower for liquidation and read its positions straight away
+  app.post('/api/liquidations/borrowers', async (req, res) => {
+    try {
+      const { address } = validateBody(z.object({ address: z.string().refine(ethers.isAddress) }), req.body);
+      const tracker = getPositionTracker();
+      if (!tracker) {
+        return res.status(503).json({ error: "Set ETHEREUM_RPC_URL or INFURA_API_KEY to track positions" });
+      }
+      
+      tracker.watch(address);
+      await tracker.refresh();
+      const borrower = ethers.getAddress(address);
+      res.json({
+        borrower,
+        positions: tracker.getPositions().filter(position => position.borrower === borrower).map(serializePosition)
+      });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid borrower address" });
+    }
+  });
+  
+  // Stop watching a borrower
+  app.delete('/api/liquidations/borrowers/:address', async (req, res) => {
+    try {
+      const tracker = getPositionTracker();
+      if (!ethers.isAddress(req.params.address) || !tracker?.unwatch(req.params.address)) {
+        return res.status(404).json({ error: "Borrower is not being watched" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to stop watching borrower" });
+    }
+  });
+
   // GET transactions
   app.get('/api/transactions', async (req, res) => {
     try {
@@ -471,27 +1062,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const transaction = await storage.addTransaction(transactionData);
       
       // Update bot stats
-      const currentStats = await storage.getBotStats();
-      if (currentStats) {
-        const totalTransactions = currentStats.totalTransactions + 1;
-        const totalProfitEth = String(Number(currentStats.totalProfitEth) + Number(transaction.profitEth));
-        const totalGasSpentEth = String(Number(currentStats.totalGasSpentEth) + Number(transaction.gasCostEth));
+      await refreshBotStats();
+      
+      res.json(transaction);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid transaction data" });
+    }
+  });
+
+  // Speed up or cancel a stuck transaction, by re-sending on its nonce
+  for (const action of ["speed-up", "cancel"] as const) {
+    app.post(`/api/transactions/:id/${action}`, async (req, res) => {
+      try {
+        const original = await storage.getTransaction(parseInt(req.params.id));
+        if (!original) {
+          return res.status(404).json({ error: "Transaction not found" });
+        }
         
-        // Calculate success rate
-        const successfulTxs = transaction.status === "Confirmed" ? 1 : 0;
-        const newSuccessRate = String(((Number(currentStats.successRate) * (totalTransactions - 1)) + (successfulTxs * 100)) / totalTransactions);
+        const bumpPercent = req.body?.bumpPercent !== undefined ? Number(req.body.bumpPercent) : undefined;
+        if (bumpPercent !== undefined && !(bumpPercent >= 10)) {
+          return res.status(400).json({ error: "bumpPercent must be at least 10" });
+        }
         
-        await storage.updateBotStats({
-          totalTransactions,
-          totalProfitEth,
-          totalGasSpentEth,
-          successRate: newSuccessRate
+        const replacement = await sendReplacement(original, action, bumpPercent);
+        await storage.addMempoolActivity({
+          message: `${action === "speed-up" ? "Sped up" : "Cancelled"} transaction ${original.txHash} (nonce ${original.nonce}) with ${replacement.txHash}`,
+          type: "execution"
         });
+        res.json({ success: true, transaction: replacement });
+      } catch (error) {
+        console.error(`Error sending ${action} replacement:`, error);
+        res.status(422).json({ error: (error as Error).message });
       }
-      
-      res.json(transaction);
+    });
+  }
+  
+  // GET the connected wallet's nonces: what is in flight, and any gaps holding it up
+  app.get('/api/nonces', async (req, res) => {
+    try {
+      const signer = getWalletManager()?.getSigner();
+      if (!signer) {
+        return res.status(404).json({ error: "No wallet connected" });
+      }
+      res.json(await getNonceManager(signer).refresh());
     } catch (error) {
-      res.status(400).json({ error: "Invalid transaction data" });
+      console.error("Error reading nonces:", error);
+      res.status(500).json({ error: "Failed to read nonces" });
+    }
+  });
+  
+  // Fill a nonce gap with a 0-value send to ourselves, so what waits behind it can be mined
+  app.post('/api/nonces/:nonce/fill', async (req, res) => {
+    try {
+      const signer = getWalletManager()?.getSigner();
+      if (!signer) {
+        return res.status(404).json({ error: "No wallet connected" });
+      }
+      const response = await getNonceManager(signer).fillGap(parseInt(req.params.nonce));
+      res.json({ success: true, txHash: response.hash, nonce: response.nonce });
+    } catch (error) {
+      console.error("Error filling nonce gap:", error);
+      res.status(422).json({ error: (error as Error).message });
     }
   });
 
@@ -543,6 +1174,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET swaps read from pending router calls, newest first
+  app.get('/api/swap-intents', async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      res.json(await storage.getSwapIntents(limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch swap intents" });
+    }
+  });
+
+  // GET whether the mempool subscription is up and what it has stored
+  app.get('/api/mempool/status', (req, res) => {
+    res.json(mempoolIngester.getStatus());
+  });
+
   // ADD mempool activity
   app.post('/api/mempool-activity', async (req, res) => {
     try {
@@ -554,47 +1200,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Generate new opportunities for testing and simulation
+  // Run a scan now rather than waiting for the next block
   app.post('/api/simulate/generate-opportunities', async (req, res) => {
     try {
-      // Clear existing opportunities
-      await storage.clearOpportunities();
-      
-      // Generate 4-8 new opportunities
-      const count = Math.floor(Math.random() * 5) + 4;
-      const createdOpportunities = [];
-      
-      for (let i = 0; i < count; i++) {
-        const types = ['Triangular', 'DEX', 'Flash Loan'];
-        const pairs = [
-          'ETH → USDC → WBTC → ETH',
-          'ETH → DAI → USDT → ETH',
-          'USDT(Uniswap) → USDT(SushiSwap)',
-          'WBTC(Uniswap) → WBTC(Balancer)',
-          'AAVE → Uniswap → Compound',
-          'Maker → Curve → Aave → Maker'
-        ];
-        
-        // Generate a profit between 0.008 and 0.045 ETH
-        const profit = (Math.random() * 0.037 + 0.008).toFixed(4);
-        // Gas cost between 0.003 and 0.016 ETH
-        const gasCost = (Math.random() * 0.013 + 0.003).toFixed(4);
-        
-        const opp = {
-          type: types[Math.floor(Math.random() * types.length)],
-          pairs: pairs[Math.floor(Math.random() * pairs.length)],
-          estimatedProfitEth: profit,
-          estimatedGasCostEth: gasCost,
-          isExecutable: Math.random() > 0.3 // 70% executable
-        };
-        
-        createdOpportunities.push(await storage.addOpportunity(opp));
-      }
+      const scan = await opportunityScanner.scan();
+      const opportunities = await storage.getOpportunities();
       
       res.json({ 
         success: true, 
-        count: createdOpportunities.length,
-        opportunities: createdOpportunities 
+        count: opportunities.length,
+        opportunities,
+        scan
       });
     } catch (error) {
       console.error("Error generating opportunities:", error);
@@ -602,6 +1218,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET tokens
+  app.get('/api/tokens', async (req, res) => {
+    try {
+      const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : undefined;
+      const tokens = await storage.getTokens(chainId);
+      res.json(tokens);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tokens" });
+    }
+  });
+
+  // ADD or update a token
+  app.post('/api/tokens', async (req, res) => {
+    try {
+      const tokenData = normalizeToken(validateBody(insertTokenSchema, req.body));
+      const [token] = await storage.upsertTokens([tokenData]);
+      syncTokenRegistry([token]);
+      res.json(token);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid token data" });
+    }
+  });
+
+  // IMPORT a token list, posted directly or fetched from a URL
+  app.post('/api/tokens/import', async (req, res) => {
+    let list;
+    try {
+      const body = validateBody(z.union([tokenListSchema, z.object({ url: z.string().url() })]), req.body);
+      if ('url' in body) {
+        list = tokenListSchema.parse(await fetchTokenList(body.url));
+      } else {
+        list = body;
+      }
+    } catch (error) {
+      console.error("Error reading token list:", error);
+      return res.status(400).json({ error: "Invalid token list" });
+    }
+    
+    try {
+      const chainId = req.query.chainId ? parseInt(req.query.chainId as string) : undefined;
+      const tokenData = list.tokens
+        .filter(token => chainId === undefined || token.chainId === chainId)
+        .filter(token => ethers.isAddress(token.address))
+        .map(token => normalizeToken({ ...token, tags: token.tags ?? [] }));
+      
+      const tokens = await storage.upsertTokens(tokenData);
+      syncTokenRegistry(tokens);
+      
+      res.json({
+        success: true,
+        name: list.name,
+        count: tokens.length,
+        skipped: list.tokens.length - tokens.length
+      });
+    } catch (error) {
+      console.error("Error importing token list:", error);
+      res.status(500).json({ error: "Failed to import token list" });
+    }
+  });
+
   // GET blockchain status
   app.get('/api/blockchain-status', async (req, res) => {
     try {
@@ -644,119 +1320,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // EXECUTE opportunity
-  app.post('/api/execute-opportunity/:id', async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const opportunities = await storage.getOpportunities();
-      const opportunity = opportunities.find(o => o.id === id);
-      
-      if (!opportunity) {
-        return res.status(404).json({ error: "Opportunity not found" });
-      }
-      
-      if (!opportunity.isExecutable) {
-        return res.status(400).json({ error: "Opportunity is not executable" });
-      }
-      
-      // Success case - add a transaction
-      const transaction = await storage.addTransaction({
-        txHash: `0x${Math.random().toString(16).substring(2, 10)}...${Math.random().toString(16).substring(2, 6)}`,
-        type: opportunity.type,
-        pairs: opportunity.pairs,
-        profitEth: opportunity.estimatedProfitEth,
-        gasCostEth: opportunity.estimatedGasCostEth,
-        status: "Confirmed"
-      });
-      
-      // Remove the opportunity
-      await storage.deleteOpportunity(id);
-      
-      // Add mempool activity
-      await storage.addMempoolActivity({
-        message: `Executed ${opportunity.type} arbitrage: ${opportunity.pairs}`,
-        type: "execution"
-      });
-      
-      res.json({ 
-        success: true, 
-        transaction
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to execute opportunity" });
-    }
-  });
-
-  // SIMULATE opportunity generation (for demo)
-  app.post('/api/simulate/generate-opportunities', async (req, res) => {
-    try {
-      // Clear existing opportunities first
-      await storage.clearOpportunities();
-      
-      // Generate new opportunities
-      const opportunities = [
-        {
-          type: "Triangular",
-          pairs: "ETH → USDC → WBTC → ETH",
-          estimatedProfitEth: "0.0213",
-          estimatedGasCostEth: "0.0041",
-          isExecutable: true
-        },
-        {
-          type: "DEX",
-          pairs: "USDT(Uniswap) → USDT(SushiSwap)",
-          estimatedProfitEth: "0.0098",
-          estimatedGasCostEth: "0.0038",
-          isExecutable: true
-        },
-        {
-          type: "Triangular",
-          pairs: "ETH → USDT → DAI → ETH",
-          estimatedProfitEth: "-0.0008",
-          estimatedGasCostEth: "0.0045",
-          isExecutable: false
-        },
-        {
-          type: "Flash Loan",
-          pairs: "AAVE → Uniswap → Compound",
-          estimatedProfitEth: "0.0412",
-          estimatedGasCostEth: "0.0158",
-          isExecutable: true
-        }
-      ];
-      
-      const createdOpportunities = [];
-      for (const opp of opportunities) {
-        createdOpportunities.push(await storage.addOpportunity(opp));
-      }
-      
-      res.json({ 
-        success: true, 
-        opportunities: createdOpportunities 
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to generate opportunities" });
-    }
-  });
-
-  // SIMULATE mempool events (for demo)
-  app.post('/api/simulate/mempool-events', async (req, res) => {
-    try {
-      // Add new mempool activity
-      const activity = await storage.addMempoolActivity({
-        message: `Detected swap: ${Math.floor(Math.random() * 1000)} ETH → USDT on Uniswap`,
-        type: "swap"
-      });
-      
-      res.json({ 
-        success: true, 
-        activity 
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to simulate mempool events" });
-    }
-  });
-
   // Create server
   const httpServer = createServer(app);
   
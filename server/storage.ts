@@ -4,9 +4,62 @@ import {
   transactions, type Transaction, type InsertTransaction,
   opportunities, type Opportunity, type InsertOpportunity,
   mempoolActivity, type MempoolActivity, type InsertMempoolActivity,
+  swapIntents, type SwapIntent, type InsertSwapIntent,
   blockchainStatus, type BlockchainStatus, type InsertBlockchainStatus,
-  botStats, type BotStats, type InsertBotStats
+  botStats, type BotStats, type InsertBotStats,
+  tokens, type Token, type InsertToken,
+  type TradeLeg, type TransactionStatus, describeRoute
 } from "@shared/schema";
+import { ethers } from "ethers";
+import { getRegisteredTokens } from "../client/src/lib/tokens";
+import { getDex } from "../client/src/lib/dex-registry";
+
+// Built-in tokens, used to seed an empty token registry
+export function defaultTokens(): InsertToken[] {
+  return getRegisteredTokens().map(token => ({
+    chainId: token.chainId!,
+    address: ethers.getAddress(token.address),
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    tags: token.tags ?? [],
+  }));
+}
+
+// Derive the display pairs from a structured route, when there is one
+export function withRoutePairs<T extends { pairs?: string; route?: TradeLeg[] | null }>(
+  data: T
+): T & { pairs: string; route: TradeLeg[] | null } {
+  const route = data.route ?? null;
+  if (route && route.length > 0) {
+    return { ...data, route, pairs: describeRoute(route, dex => getDex(dex)?.name ?? dex) };
+  }
+  if (!data.pairs) {
+    throw new Error("Either route or pairs is required");
+  }
+  return { ...data, route, pairs: data.pairs };
+}
+
+// Lifecycle and bid fields a new transaction starts without
+const UNTRACKED_TRANSACTION = {
+  txHash: null,
+  fromAddress: null,
+  nonce: null,
+  blockNumber: null,
+  gasUsed: null,
+  setupGasUsed: null,
+  effectiveGasPrice: null,
+  realizedProfitEth: null,
+  revertReason: null,
+  submission: null,
+  bundleHash: null,
+  targetBlock: null,
+  replacesId: null,
+  strategy: null,
+  bidEth: null,
+  bidMethod: null,
+  bidShareBps: null,
+};
 
 // Storage interface with all CRUD methods
 export interface IStorage {
@@ -22,18 +75,33 @@ export interface IStorage {
   // Transaction methods
   getTransactions(limit?: number): Promise<Transaction[]>;
   addTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransaction(id: number): Promise<Transaction | undefined>;
+  getTransactionsByStatus(statuses: TransactionStatus[]): Promise<Transaction[]>;
+  updateTransaction(id: number, update: Partial<InsertTransaction>): Promise<Transaction | undefined>;
   
   // Opportunity methods
   getOpportunities(limit?: number): Promise<Opportunity[]>;
   addOpportunity(opportunity: InsertOpportunity): Promise<Opportunity>;
   deleteOpportunity(id: number): Promise<boolean>;
   clearOpportunities(): Promise<void>;
+  updateOpportunity(id: number, update: Partial<InsertOpportunity>): Promise<Opportunity | undefined>;
+  upsertOpportunity(opportunity: InsertOpportunity & { key: string }): Promise<Opportunity>;
+  deleteExpiredOpportunities(expiredBefore: Date): Promise<number>; // keyed (scanned) ones only
+  expireOpportunities(now: Date): Promise<number>;
   
   // Mempool activity methods
   getMempoolActivity(limit?: number): Promise<MempoolActivity[]>;
   addMempoolActivity(activity: InsertMempoolActivity): Promise<MempoolActivity>;
   clearMempoolActivity(): Promise<void>;
   
+  // Swap intent methods
+  getSwapIntents(limit?: number): Promise<SwapIntent[]>;
+  getPendingSwapIntents(): Promise<SwapIntent[]>; // oldest first
+  addSwapIntents(intents: InsertSwapIntent[]): Promise<SwapIntent[]>; // skips swaps already stored
+  markSwapIntentsMined(txHashes: string[], blockNumber: number): Promise<number>;
+  expireSwapIntents(now: Date, seenBefore: Date): Promise<number>;
+  deleteSwapIntents(seenBefore: Date): Promise<number>; // settled ones only
+  
   // Blockchain status methods
   getBlockchainStatus(): Promise<BlockchainStatus | undefined>;
   updateBlockchainStatus(status: InsertBlockchainStatus): Promise<BlockchainStatus>;
@@ -41,6 +109,10 @@ export interface IStorage {
   // Bot stats methods
   getBotStats(): Promise<BotStats | undefined>;
   updateBotStats(stats: Partial<InsertBotStats>): Promise<BotStats>;
+  
+  // Token registry methods
+  getTokens(chainId?: number): Promise<Token[]>;
+  upsertTokens(tokens: InsertToken[]): Promise<Token[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -49,28 +121,36 @@ export class MemStorage implements IStorage {
   private transactionsData: Transaction[];
   private opportunitiesData: Opportunity[];
   private mempoolActivityData: MempoolActivity[];
+  private swapIntentsData: SwapIntent[];
   private blockchainStatusData: BlockchainStatus | undefined;
   private botStatsData: BotStats | undefined;
+  private tokensData: Map<string, Token>;
   
   private currentUserId: number;
   private currentTransactionId: number;
   private currentOpportunityId: number;
   private currentMempoolActivityId: number;
+  private currentSwapIntentId: number;
   private currentBlockchainStatusId: number;
   private currentBotStatsId: number;
+  private currentTokenId: number;
 
   constructor() {
     this.users = new Map();
     this.transactionsData = [];
     this.opportunitiesData = [];
     this.mempoolActivityData = [];
+    this.swapIntentsData = [];
+    this.tokensData = new Map();
     
     this.currentUserId = 1;
     this.currentTransactionId = 1;
     this.currentOpportunityId = 1;
     this.currentMempoolActivityId = 1;
+    this.currentSwapIntentId = 1;
     this.currentBlockchainStatusId = 1;
     this.currentBotStatsId = 1;
+    this.currentTokenId = 1;
     
     // Initialize default bot settings
     this.botSettingsData = {
@@ -80,6 +160,14 @@ export class MemStorage implements IStorage {
       strategy: "arbitrage",
       autoExecute: true,
       runSimulations: true,
+      slippageBps: 50,
+      txDeadlineSeconds: 120,
+      opportunityTtlSeconds: 36,
+      feeUrgency: "medium",
+      submissionModes: {},
+      flashLoanReceiver: null,
+      strategyParams: {},
+      bidPolicies: {},
       lastUpdated: new Date(),
     };
     
@@ -88,6 +176,8 @@ export class MemStorage implements IStorage {
       id: this.currentBlockchainStatusId++,
       pendingTransactions: 347,
       gasPrice: 23.4,
+      baseFee: "21.4",
+      priorityFee: "2",
       networkCongestion: "Medium",
       updatedAt: new Date(),
     };
@@ -138,6 +228,14 @@ export class MemStorage implements IStorage {
         strategy: settings.strategy || "arbitrage",
         autoExecute: settings.autoExecute !== undefined ? settings.autoExecute : true,
         runSimulations: settings.runSimulations !== undefined ? settings.runSimulations : true,
+        slippageBps: settings.slippageBps ?? 50,
+        txDeadlineSeconds: settings.txDeadlineSeconds ?? 120,
+        opportunityTtlSeconds: settings.opportunityTtlSeconds ?? 36,
+        feeUrgency: settings.feeUrgency ?? "medium",
+        submissionModes: settings.submissionModes ?? {},
+        flashLoanReceiver: settings.flashLoanReceiver ?? null,
+        strategyParams: settings.strategyParams ?? {},
+        bidPolicies: settings.bidPolicies ?? {},
         lastUpdated: new Date(),
       };
     } else {
@@ -148,6 +246,14 @@ export class MemStorage implements IStorage {
         ...(settings.strategy !== undefined && { strategy: settings.strategy }),
         ...(settings.autoExecute !== undefined && { autoExecute: settings.autoExecute }),
         ...(settings.runSimulations !== undefined && { runSimulations: settings.runSimulations }),
+        ...(settings.slippageBps !== undefined && { slippageBps: settings.slippageBps }),
+        ...(settings.txDeadlineSeconds !== undefined && { txDeadlineSeconds: settings.txDeadlineSeconds }),
+        ...(settings.opportunityTtlSeconds !== undefined && { opportunityTtlSeconds: settings.opportunityTtlSeconds }),
+        ...(settings.feeUrgency !== undefined && { feeUrgency: settings.feeUrgency }),
+        ...(settings.submissionModes !== undefined && { submissionModes: settings.submissionModes }),
+        ...(settings.flashLoanReceiver !== undefined && { flashLoanReceiver: settings.flashLoanReceiver }),
+        ...(settings.strategyParams !== undefined && { strategyParams: settings.strategyParams }),
+        ...(settings.bidPolicies !== undefined && { bidPolicies: settings.bidPolicies }),
         lastUpdated: new Date(),
       };
     }
@@ -164,14 +270,36 @@ export class MemStorage implements IStorage {
   
   async addTransaction(transaction: InsertTransaction): Promise<Transaction> {
     const newTransaction: Transaction = {
-      ...transaction,
+      ...UNTRACKED_TRANSACTION,
+      ...withRoutePairs(transaction),
       id: this.currentTransactionId++,
       timestamp: new Date(),
+      updatedAt: new Date(),
     };
     this.transactionsData.unshift(newTransaction); // Add to the beginning of the array
     return newTransaction;
   }
   
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactionsData.find(tx => tx.id === id);
+  }
+  
+  async getTransactionsByStatus(statuses: TransactionStatus[]): Promise<Transaction[]> {
+    return this.transactionsData.filter(tx => statuses.includes(tx.status));
+  }
+  
+  async updateTransaction(id: number, update: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const index = this.transactionsData.findIndex(tx => tx.id === id);
+    if (index < 0) return undefined;
+    
+    this.transactionsData[index] = {
+      ...this.transactionsData[index],
+      ...update,
+      updatedAt: new Date(),
+    };
+    return this.transactionsData[index];
+  }
+  
   // Opportunity methods
   async getOpportunities(limit?: number): Promise<Opportunity[]> {
     if (limit) {
@@ -181,15 +309,66 @@ export class MemStorage implements IStorage {
   }
   
   async addOpportunity(opportunity: InsertOpportunity): Promise<Opportunity> {
+    const now = new Date();
     const newOpportunity: Opportunity = {
-      ...opportunity,
+      ...withRoutePairs(opportunity),
+      amountIn: opportunity.amountIn ?? null,
+      tokenIn: opportunity.tokenIn ?? null,
+      liquidation: opportunity.liquidation ?? null,
+      backrun: opportunity.backrun ?? null,
+      key: opportunity.key ?? null,
+      strategy: opportunity.strategy ?? null,
+      rejection: opportunity.rejection ?? null,
+      estimatedBidEth: opportunity.estimatedBidEth ?? "0",
+      contested: opportunity.contested ?? true,
+      blockNumber: opportunity.blockNumber ?? null,
+      expiresAt: opportunity.expiresAt ?? null,
+      expired: false,
       id: this.currentOpportunityId++,
-      identified: new Date(),
+      identified: now,
+      lastSeen: now,
     };
     this.opportunitiesData.push(newOpportunity);
     return newOpportunity;
   }
   
+  async upsertOpportunity(opportunity: InsertOpportunity & { key: string }): Promise<Opportunity> {
+    const index = this.opportunitiesData.findIndex(existing => existing.key === opportunity.key);
+    if (index === -1) {
+      return this.addOpportunity(opportunity);
+    }
+    
+    const existing = this.opportunitiesData[index];
+    this.opportunitiesData[index] = {
+      ...existing,
+      ...withRoutePairs(opportunity),
+      amountIn: opportunity.amountIn ?? null,
+      tokenIn: opportunity.tokenIn ?? null,
+      liquidation: opportunity.liquidation ?? null,
+      backrun: opportunity.backrun ?? null,
+      strategy: opportunity.strategy ?? null,
+      rejection: opportunity.rejection ?? null,
+      estimatedBidEth: opportunity.estimatedBidEth ?? "0",
+      contested: opportunity.contested ?? true,
+      blockNumber: opportunity.blockNumber ?? null,
+      expiresAt: opportunity.expiresAt ?? null,
+      expired: false,
+      lastSeen: new Date(),
+    };
+    return this.opportunitiesData[index];
+  }
+  
+  async updateOpportunity(id: number, update: Partial<InsertOpportunity>): Promise<Opportunity | undefined> {
+    const index = this.opportunitiesData.findIndex(opportunity => opportunity.id === id);
+    if (index < 0) return undefined;
+    
+    this.opportunitiesData[index] = {
+      ...this.opportunitiesData[index],
+      ...update,
+    };
+    return this.opportunitiesData[index];
+  }
+  
   async deleteOpportunity(id: number): Promise<boolean> {
     const initialLength = this.opportunitiesData.length;
     this.opportunitiesData = this.opportunitiesData.filter(opportunity => opportunity.id !== id);
@@ -200,6 +379,25 @@ export class MemStorage implements IStorage {
     this.opportunitiesData = [];
   }
   
+  async deleteExpiredOpportunities(expiredBefore: Date): Promise<number> {
+    const initialLength = this.opportunitiesData.length;
+    this.opportunitiesData = this.opportunitiesData.filter(opportunity =>
+      opportunity.key === null || !opportunity.expired || !opportunity.expiresAt || opportunity.expiresAt >= expiredBefore
+    );
+    return initialLength - this.opportunitiesData.length;
+  }
+  
+  async expireOpportunities(now: Date): Promise<number> {
+    let expired = 0;
+    for (const opportunity of this.opportunitiesData) {
+      if (!opportunity.expired && opportunity.expiresAt && opportunity.expiresAt <= now) {
+        opportunity.expired = true;
+        expired++;
+      }
+    }
+    return expired;
+  }
+  
   // Mempool activity methods
   async getMempoolActivity(limit?: number): Promise<MempoolActivity[]> {
     if (limit) {
@@ -222,6 +420,81 @@ export class MemStorage implements IStorage {
     this.mempoolActivityData = [];
   }
   
+  // Swap intent methods
+  async getSwapIntents(limit?: number): Promise<SwapIntent[]> {
+    if (limit) {
+      return this.swapIntentsData.slice(0, limit);
+    }
+    return this.swapIntentsData;
+  }
+  
+  async getPendingSwapIntents(): Promise<SwapIntent[]> {
+    return this.swapIntentsData.filter(intent => intent.status === "pending").reverse();
+  }
+  
+  // Hashes are stored and matched lowercased, however the node spelled them
+  async addSwapIntents(intents: InsertSwapIntent[]): Promise<SwapIntent[]> {
+    const added: SwapIntent[] = [];
+    for (const intent of intents) {
+      const txHash = intent.txHash.toLowerCase();
+      const stored = this.swapIntentsData.some(existing =>
+        existing.txHash === txHash && existing.position === intent.position
+      );
+      if (stored) continue;
+      
+      const newIntent: SwapIntent = {
+        ...intent,
+        txHash,
+        id: this.currentSwapIntentId++,
+        dex: intent.dex ?? null,
+        fees: intent.fees ?? null,
+        amountIn: intent.amountIn ?? null,
+        deadline: intent.deadline ?? null,
+        rawTransaction: intent.rawTransaction ?? null,
+        slippageBps: intent.slippageBps ?? null,
+        status: intent.status ?? "pending",
+        blockNumber: intent.blockNumber ?? null,
+        firstSeen: new Date(),
+      };
+      this.swapIntentsData.unshift(newIntent);
+      added.push(newIntent);
+    }
+    return added;
+  }
+  
+  async markSwapIntentsMined(txHashes: string[], blockNumber: number): Promise<number> {
+    const mined = new Set(txHashes.map(hash => hash.toLowerCase()));
+    let marked = 0;
+    for (const intent of this.swapIntentsData) {
+      if (intent.status === "pending" && mined.has(intent.txHash)) {
+        intent.status = "mined";
+        intent.blockNumber = blockNumber;
+        marked++;
+      }
+    }
+    return marked;
+  }
+  
+  async expireSwapIntents(now: Date, seenBefore: Date): Promise<number> {
+    let expired = 0;
+    for (const intent of this.swapIntentsData) {
+      const pastDeadline = intent.deadline !== null && intent.deadline <= now;
+      if (intent.status === "pending" && (pastDeadline || intent.firstSeen < seenBefore)) {
+        intent.status = "expired";
+        expired++;
+      }
+    }
+    return expired;
+  }
+  
+  async deleteSwapIntents(seenBefore: Date): Promise<number> {
+    const initialLength = this.swapIntentsData.length;
+    this.swapIntentsData = this.swapIntentsData.filter(intent =>
+      intent.status === "pending" || intent.firstSeen >= seenBefore
+    );
+    return initialLength - this.swapIntentsData.length;
+  }
+  
   // Blockchain status methods
   async getBlockchainStatus(): Promise<BlockchainStatus | undefined> {
     return this.blockchainStatusData;
@@ -232,12 +505,16 @@ export class MemStorage implements IStorage {
       this.blockchainStatusData = {
         id: this.currentBlockchainStatusId++,
         ...status,
+        baseFee: status.baseFee ?? null,
+        priorityFee: status.priorityFee ?? null,
         updatedAt: new Date(),
       };
     } else {
       this.blockchainStatusData = {
         ...this.blockchainStatusData,
         ...status,
+        baseFee: status.baseFee ?? null,
+        priorityFee: status.priorityFee ?? null,
         updatedAt: new Date(),
       };
     }
@@ -272,49 +549,89 @@ export class MemStorage implements IStorage {
     return this.botStatsData;
   }
   
+  // Token registry methods
+  async getTokens(chainId?: number): Promise<Token[]> {
+    const allTokens = Array.from(this.tokensData.values());
+    return chainId === undefined ? allTokens : allTokens.filter(token => token.chainId === chainId);
+  }
+  
+  async upsertTokens(insertTokens: InsertToken[]): Promise<Token[]> {
+    return insertTokens.map(token => {
+      const key = `${token.chainId}:${token.address.toLowerCase()}`;
+      const saved: Token = {
+        id: this.tokensData.get(key)?.id ?? this.currentTokenId++,
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name ?? null,
+        decimals: token.decimals,
+        logoURI: token.logoURI ?? null,
+        tags: token.tags ?? [],
+        updatedAt: new Date(),
+      };
+      this.tokensData.set(key, saved);
+      return saved;
+    });
+  }
+  
   // Helper to add initial demo data
   private addInitialData() {
+    // Seed the token registry with the built-in tokens
+    this.upsertTokens(defaultTokens());
+    
     // Add some sample transactions
     this.transactionsData = [
       {
         id: this.currentTransactionId++,
+        ...UNTRACKED_TRANSACTION,
         txHash: "0x7a8f...3e2d",
         type: "Triangular",
         pairs: "ETH → USDC → WBTC → ETH",
+        route: null,
         profitEth: 0.0214,
         gasCostEth: 0.0041,
         status: "Confirmed",
         timestamp: new Date(Date.now() - 60000), // 1 min ago
+        updatedAt: new Date(Date.now() - 60000),
       },
       {
         id: this.currentTransactionId++,
+        ...UNTRACKED_TRANSACTION,
         txHash: "0x3c2e...9f71",
         type: "DEX",
         pairs: "USDT(Uniswap) → USDT(SushiSwap)",
+        route: null,
         profitEth: 0.0087,
         gasCostEth: 0.0038,
         status: "Confirmed",
         timestamp: new Date(Date.now() - 300000), // 5 mins ago
+        updatedAt: new Date(Date.now() - 300000),
       },
       {
         id: this.currentTransactionId++,
+        ...UNTRACKED_TRANSACTION,
         txHash: "0x9e5f...1a2b",
         type: "Flash Loan",
         pairs: "AAVE → Uniswap → Compound",
+        route: null,
         profitEth: -0.0031,
         gasCostEth: 0.0158,
         status: "Price Changed",
         timestamp: new Date(Date.now() - 1080000), // 18 mins ago
+        updatedAt: new Date(Date.now() - 1080000),
       },
       {
         id: this.currentTransactionId++,
+        ...UNTRACKED_TRANSACTION,
         txHash: "0x1d7b...8c3a",
         type: "Triangular",
         pairs: "ETH → USDT → DAI → ETH",
+        route: null,
         profitEth: 0.0324,
         gasCostEth: 0.0045,
         status: "Confirmed",
         timestamp: new Date(Date.now() - 2040000), // 34 mins ago
+        updatedAt: new Date(Date.now() - 2040000),
       }
     ];
     
@@ -324,37 +641,93 @@ export class MemStorage implements IStorage {
         id: this.currentOpportunityId++,
         type: "Triangular",
         pairs: "ETH → USDC → WBTC → ETH",
+        route: null,
         estimatedProfitEth: 0.0213,
         estimatedGasCostEth: 0.0041,
         isExecutable: true,
+        amountIn: null,
+        tokenIn: null,
+        liquidation: null,
+        backrun: null,
+        key: null,
+        strategy: null,
+        rejection: null,
+        estimatedBidEth: "0",
+        contested: true,
+        blockNumber: null,
         identified: new Date(),
+        lastSeen: new Date(),
+        expiresAt: null,
+        expired: false,
       },
       {
         id: this.currentOpportunityId++,
         type: "DEX",
         pairs: "USDT(Uniswap) → USDT(SushiSwap)",
+        route: null,
         estimatedProfitEth: 0.0098,
         estimatedGasCostEth: 0.0038,
         isExecutable: true,
+        amountIn: null,
+        tokenIn: null,
+        liquidation: null,
+        backrun: null,
+        key: null,
+        strategy: null,
+        rejection: null,
+        estimatedBidEth: "0",
+        contested: true,
+        blockNumber: null,
         identified: new Date(),
+        lastSeen: new Date(),
+        expiresAt: null,
+        expired: false,
       },
       {
         id: this.currentOpportunityId++,
         type: "Triangular",
         pairs: "ETH → USDT → DAI → ETH",
+        route: null,
         estimatedProfitEth: -0.0008,
         estimatedGasCostEth: 0.0045,
         isExecutable: false,
+        amountIn: null,
+        tokenIn: null,
+        liquidation: null,
+        backrun: null,
+        key: null,
+        strategy: null,
+        rejection: null,
+        estimatedBidEth: "0",
+        contested: true,
+        blockNumber: null,
         identified: new Date(),
+        lastSeen: new Date(),
+        expiresAt: null,
+        expired: false,
       },
       {
         id: this.currentOpportunityId++,
         type: "Flash Loan",
         pairs: "AAVE → Uniswap → Compound",
+        route: null,
         estimatedProfitEth: 0.0412,
         estimatedGasCostEth: 0.0158,
         isExecutable: true,
+        amountIn: null,
+        tokenIn: null,
+        liquidation: null,
+        backrun: null,
+        key: null,
+        strategy: null,
+        rejection: null,
+        estimatedBidEth: "0",
+        contested: true,
+        blockNumber: null,
         identified: new Date(),
+        lastSeen: new Date(),
+        expiresAt: null,
+        expired: false,
       }
     ];
     
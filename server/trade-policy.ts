@@ -0,0 +1,106 @@
+import { ethers } from "ethers";
+import type { BotSettings, TradeRejection, TradeRejectionCode } from "@shared/schema";
+import { storage } from "./storage";
+import { ALL_STRATEGIES } from "../client/src/lib/strategies";
+import { getFeeEstimate, loadFeeEstimate } from "../client/src/lib/fees";
+import { getAvailableCapital, loadTradingCapital } from "../client/src/lib/capital";
+import { findToken, formatTokenAmount, parseTokenAmount } from "../client/src/lib/tokens";
+
+// Everything the policy checks a trade against, read once for a batch of checks
+export interface PolicyContext {
+  settings: BotSettings | undefined;
+  gasPriceGwei: number | null; // predicted base fee plus the tip trades bid; null without a node to read fees from
+  recipient: string | null; // address a simulation would run from
+  now: Date;
+}
+
+// The parts of an opportunity the policy looks at, whether stored or just detected
+export interface PolicyCandidate {
+  type?: string;
+  strategy?: string | null;
+  tokenIn?: string | null; // symbol or address of the token it starts with
+  amountIn?: string | null; // in whole tokenIn units
+  estimatedProfitEth: string | number;
+  estimatedGasCostEth: string | number;
+  estimatedBidEth?: string | number | null;
+  isExecutable: boolean;
+  expiresAt?: Date | null;
+}
+
+export async function loadPolicyContext(
+  provider: ethers.Provider | null,
+  recipient: string | null
+): Promise<PolicyContext> {
+  const settings = await storage.getBotSettings();
+
+  let gasPriceGwei: number | null = null;
+  if (provider) {
+    try {
+      await loadFeeEstimate(provider);
+      const estimate = getFeeEstimate();
+      const tip = estimate.priorityFees[settings?.feeUrgency ?? "medium"];
+      gasPriceGwei = Number(ethers.formatUnits(estimate.nextBaseFeePerGas + tip, "gwei"));
+    } catch (error) {
+      console.error("Failed to read fee history:", error);
+    }
+    try {
+      await loadTradingCapital(provider, recipient);
+    } catch (error) {
+      console.error("Failed to read wallet balances:", error);
+    }
+  }
+
+  return { settings, gasPriceGwei, recipient, now: new Date() };
+}
+
+// Apply every bot setting that governs whether a trade may go ahead. The first
+// rule it breaks, or null when it may.
+export function evaluateTradePolicy(candidate: PolicyCandidate, context: PolicyContext): TradeRejection | null {
+  const { settings, now } = context;
+  const reject = (code: TradeRejectionCode, message: string): TradeRejection =>
+    ({ code, message, checkedAt: now.toISOString() });
+
+  // Only a flash loan trades on capital the wallet does not hold
+  const tokenIn = candidate.tokenIn ? findToken(candidate.tokenIn) : undefined;
+  if (candidate.type !== "Flash Loan" && tokenIn && candidate.amountIn) {
+    const available = getAvailableCapital(tokenIn);
+    if (available !== undefined && parseTokenAmount(tokenIn, candidate.amountIn) > available) {
+      return reject("insufficient_balance", `Spends ${candidate.amountIn} ${tokenIn.symbol}, but the wallet has ${formatTokenAmount(tokenIn, available)} ${tokenIn.symbol} to trade with`);
+    }
+  }
+
+  const profitEth = parseFloat(String(candidate.estimatedProfitEth));
+  const gasCostEth = parseFloat(String(candidate.estimatedGasCostEth));
+  if (!candidate.isExecutable) {
+    return reject("not_executable", `Estimated profit of ${profitEth.toFixed(4)} ETH does not cover ${gasCostEth.toFixed(4)} ETH of gas`);
+  }
+
+  if (candidate.expiresAt && candidate.expiresAt <= now) {
+    return reject("expired", `Quote expired at ${candidate.expiresAt.toISOString()}`);
+  }
+
+  const selection = settings?.strategy ?? "arbitrage";
+  if (selection !== ALL_STRATEGIES && candidate.strategy !== selection) {
+    return reject("strategy_disabled", candidate.strategy
+      ? `Strategy ${candidate.strategy} is not enabled (${selection} is)`
+      : `Not found by the enabled strategy (${selection})`);
+  }
+
+  const minProfitEth = parseFloat(String(settings?.minProfitThreshold ?? 0));
+  const bidEth = parseFloat(String(candidate.estimatedBidEth ?? 0));
+  const netProfitEth = profitEth - gasCostEth - bidEth;
+  if (netProfitEth < minProfitEth) {
+    return reject("below_min_profit", `Net profit of ${netProfitEth.toFixed(4)} ETH after gas and bid is below the ${minProfitEth} ETH threshold`);
+  }
+
+  const maxGasPrice = settings?.maxGasPrice;
+  if (maxGasPrice !== undefined && context.gasPriceGwei !== null && context.gasPriceGwei > maxGasPrice) {
+    return reject("gas_price_too_high", `Gas price of ${context.gasPriceGwei.toFixed(1)} gwei is over the ${maxGasPrice} gwei ceiling`);
+  }
+
+  if ((settings?.runSimulations ?? true) && !context.recipient) {
+    return reject("simulation_required", "Simulations are required, but there is no wallet or recipient to simulate from");
+  }
+
+  return null;
+}
@@ -0,0 +1,306 @@
+import { ethers } from "ethers";
+import {
+  canTransition,
+  inFlightStatuses,
+  settledStatuses,
+  type InsertTransaction,
+  type Transaction,
+  type TransactionStatus
+} from "@shared/schema";
+import { storage } from "./storage";
+import { decodeRevertReason } from "../client/src/lib/simulator";
+import { getGasModel, routeShape } from "../client/src/lib/gas-model";
+import { gasPaidEth, getStrategy, realizedProfitEth, recordTrade } from "../client/src/lib/strategies";
+import { valueInEth } from "../client/src/lib/quoting";
+import { toPoolToken } from "../client/src/lib/tokens";
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+// Receipt and submission details recorded alongside a status change
+type TransactionDetails = Pick<
+  Partial<InsertTransaction>,
+  "txHash" | "fromAddress" | "nonce" | "blockNumber" | "gasUsed" | "setupGasUsed" | "effectiveGasPrice" | "realizedProfitEth" | "revertReason"
+  | "submission" | "bundleHash" | "targetBlock"
+>;
+
+// Move a transaction to a new status, rejecting moves the lifecycle does not allow
+export async function advanceTransaction(
+  id: number,
+  status: TransactionStatus,
+  details: TransactionDetails = {}
+): Promise<Transaction> {
+  const transaction = await storage.getTransaction(id);
+  if (!transaction) {
+    throw new Error(`Transaction ${id} not found`);
+  }
+  if (!canTransition(transaction.status, status)) {
+    throw new Error(`Transaction ${id} cannot move from ${transaction.status} to ${status}`);
+  }
+
+  const updated = await storage.updateTransaction(id, { ...details, status });
+  if (settledStatuses.includes(status)) {
+    await refreshBotStats();
+    bookTrade(updated!);
+  }
+  if (status === "Confirmed") {
+    learnGasUsed(updated!);
+  }
+  return updated!;
+}
+
+// Teach the gas model what a confirmed trade used: its own receipt plus the
+// calls sent before it. Cancellations have no route and teach it nothing.
+function learnGasUsed(transaction: Transaction) {
+  if (transaction.gasUsed === null || !transaction.route?.length) return;
+  const shape = routeShape(transaction.strategy ?? transaction.type, transaction.route);
+  getGasModel().recordReceipt(shape, transaction.gasUsed + (transaction.setupGasUsed ?? 0));
+}
+
+// Feed the gas model every trade confirmed so far, oldest first
+export async function loadGasHistory() {
+  const confirmed = (await storage.getTransactions())
+    .filter(tx => tx.status === "Confirmed")
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  confirmed.forEach(learnGasUsed);
+}
+
+// Book a settled trade against the strategy that found it, now that its outcome is known
+function bookTrade(transaction: Transaction) {
+  const strategy = transaction.strategy ? getStrategy(transaction.strategy) : undefined;
+  if (strategy) recordTrade(strategy, transaction);
+}
+
+// Recompute the bot stats from how submitted transactions actually settled
+export async function refreshBotStats() {
+  const settled = (await storage.getTransactions())
+    .filter(tx => settledStatuses.includes(tx.status));
+  const confirmed = settled.filter(tx => tx.status === "Confirmed");
+  const reverted = settled.filter(tx => tx.status === "Reverted");
+
+  const totalProfitEth = settled.reduce((total, tx) => total + realizedProfitEth(tx), 0);
+  const totalGasSpentEth = [...confirmed, ...reverted].reduce((total, tx) => total + gasPaidEth(tx), 0);
+  const successRate = settled.length > 0 ? (confirmed.length / settled.length) * 100 : 0;
+
+  return storage.updateBotStats({
+    totalTransactions: settled.length,
+    totalProfitEth: totalProfitEth.toFixed(6),
+    totalGasSpentEth: totalGasSpentEth.toFixed(6),
+    successRate: successRate.toFixed(2),
+  });
+}
+
+// How bids at one share of profit have done for one strategy
+export interface BidWinRate {
+  strategy: string | null;
+  bidMethod: string | null;
+  bidShareBps: number;
+  attempts: number;
+  wins: number;
+  winRate: number; // percent
+  averageBidEth: number;
+}
+
+// Win rate at each bid level: a settled transaction that confirmed won its
+// block; one that reverted (someone got there first) or was dropped lost it
+export async function getBidWinRates(): Promise<BidWinRate[]> {
+  const settled = (await storage.getTransactions())
+    .filter(tx => tx.bidShareBps !== null && settledStatuses.includes(tx.status));
+
+  const levels = new Map<string, BidWinRate & { totalBidEth: number }>();
+  for (const tx of settled) {
+    const id = `${tx.strategy}|${tx.bidMethod}|${tx.bidShareBps}`;
+    const level = levels.get(id) ?? {
+      strategy: tx.strategy,
+      bidMethod: tx.bidMethod,
+      bidShareBps: tx.bidShareBps!,
+      attempts: 0,
+      wins: 0,
+      winRate: 0,
+      averageBidEth: 0,
+      totalBidEth: 0,
+    };
+    level.attempts++;
+    if (tx.status === "Confirmed") level.wins++;
+    level.totalBidEth += parseFloat(tx.bidEth ?? "0");
+    levels.set(id, level);
+  }
+
+  return Array.from(levels.values())
+    .map(({ totalBidEth, ...level }) => ({
+      ...level,
+      winRate: parseFloat(((level.wins / level.attempts) * 100).toFixed(2)),
+      averageBidEth: parseFloat((totalBidEth / level.attempts).toFixed(6)),
+    }))
+    .sort((a, b) => String(a.strategy).localeCompare(String(b.strategy)) || a.bidShareBps - b.bidShareBps);
+}
+
+// What a confirmed trade left in the wallet, in ETH: the change over its block
+// in the tokens its route starts and ends in (WETH for ETH), valued at current
+// prices, plus the change in native ETH, which already nets out the gas and any
+// coinbase payment of every transaction sent for it. Null when the balances
+// cannot be read at that block.
+async function measureRealizedProfit(
+  provider: ethers.Provider,
+  transaction: Transaction,
+  blockNumber: number
+): Promise<string | null> {
+  if (!transaction.fromAddress) return null;
+  const owner = transaction.fromAddress;
+  try {
+    const nativeChange = await provider.getBalance(owner, blockNumber) - await provider.getBalance(owner, blockNumber - 1);
+    let profitEth = Number(ethers.formatEther(nativeChange));
+
+    const route = transaction.route ?? [];
+    const tokens = new Map(
+      [route[0]?.tokenIn, route[route.length - 1]?.tokenOut]
+        .filter(token => token !== undefined)
+        .map(token => toPoolToken(token))
+        .map(token => [token.address.toLowerCase(), token])
+    );
+    for (const token of Array.from(tokens.values())) {
+      const contract = new ethers.Contract(token.address, ERC20_BALANCE_ABI, provider);
+      const [before, after]: bigint[] = await Promise.all([
+        contract.balanceOf(owner, { blockTag: blockNumber - 1 }),
+        contract.balanceOf(owner, { blockTag: blockNumber }),
+      ]);
+      profitEth += valueInEth(token, after - before);
+    }
+    return profitEth.toFixed(18);
+  } catch (error) {
+    console.error(`Failed to measure what ${transaction.txHash} realized:`, error);
+    return null;
+  }
+}
+
+// Replay a reverted transaction at its block to recover the revert reason
+async function getRevertReason(
+  provider: ethers.Provider,
+  tx: ethers.TransactionResponse,
+  blockNumber: number
+): Promise<string | null> {
+  try {
+    await provider.call({ to: tx.to, from: tx.from, data: tx.data, value: tx.value, blockTag: blockNumber });
+    return null; // the revert did not reproduce
+  } catch (error) {
+    return decodeRevertReason(error);
+  }
+}
+
+interface ReceiptWatcherOptions {
+  intervalMs?: number;
+  confirmations?: number; // blocks on top of the including block before a tx is confirmed
+  dropAfterMs?: number; // how long a tx may be missing from the node before it counts as dropped
+}
+
+// Polls receipts for submitted transactions and moves them through the lifecycle
+export class ReceiptWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private intervalMs: number;
+  private confirmations: number;
+  private dropAfterMs: number;
+
+  constructor(
+    private getProvider: () => ethers.Provider | null,
+    options: ReceiptWatcherOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 12000;
+    this.confirmations = options.confirmations ?? 2;
+    this.dropAfterMs = options.dropAfterMs ?? 10 * 60 * 1000;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Check every in-flight transaction once
+  async poll() {
+    const provider = this.getProvider();
+    if (!provider || this.polling) return;
+
+    this.polling = true;
+    try {
+      const inFlight = await storage.getTransactionsByStatus(inFlightStatuses);
+      for (const transaction of inFlight) {
+        try {
+          await this.check(provider, transaction);
+        } catch (error) {
+          console.error(`Error checking transaction ${transaction.txHash}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error("Error polling transaction receipts:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check(provider: ethers.Provider, transaction: Transaction) {
+    if (!transaction.txHash) return;
+
+    const receipt = await provider.getTransactionReceipt(transaction.txHash);
+    if (receipt) {
+      const details: TransactionDetails = {
+        blockNumber: receipt.blockNumber,
+        gasUsed: Number(receipt.gasUsed),
+        effectiveGasPrice: receipt.gasPrice.toString(),
+      };
+
+      if (receipt.status === 0) {
+        const tx = await provider.getTransaction(transaction.txHash);
+        const revertReason = tx ? await getRevertReason(provider, tx, receipt.blockNumber) : null;
+        await advanceTransaction(transaction.id, "Reverted", { ...details, revertReason });
+        return;
+      }
+
+      const confirmations = await receipt.confirmations();
+      const status = confirmations > this.confirmations ? "Confirmed" : "Included";
+      if (status === "Confirmed") {
+        details.realizedProfitEth = await measureRealizedProfit(provider, transaction, receipt.blockNumber);
+      }
+      if (status !== transaction.status) {
+        await advanceTransaction(transaction.id, status, details);
+      }
+      return;
+    }
+
+    // No receipt yet: still in the mempool, or gone from it
+    const tx = await provider.getTransaction(transaction.txHash);
+    if (tx) {
+      if (transaction.status !== "Pending") {
+        await advanceTransaction(transaction.id, "Pending", { blockNumber: null });
+      }
+      return;
+    }
+
+    // Another transaction used our nonce
+    if (transaction.fromAddress && transaction.nonce !== null) {
+      const nonce = await provider.getTransactionCount(transaction.fromAddress, "latest");
+      if (nonce > transaction.nonce) {
+        await advanceTransaction(transaction.id, "Replaced");
+        return;
+      }
+    }
+
+    // A private bundle that missed every block it was offered for will never land
+    if (transaction.targetBlock !== null) {
+      const blockNumber = await provider.getBlockNumber();
+      if (blockNumber > transaction.targetBlock) {
+        await advanceTransaction(transaction.id, "Dropped", {
+          revertReason: `Bundle not included by block ${transaction.targetBlock}`,
+        });
+      }
+      return;
+    }
+
+    if (Date.now() - transaction.updatedAt.getTime() > this.dropAfterMs) {
+      await advanceTransaction(transaction.id, "Dropped");
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,37 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// How an execution reaches a block: the public mempool, or a private bundle relay.
+// An execution of more than one call is always bundled, so its calls land together or not at all.
+export const submissionModes = ["public", "private"] as const;
+
+export type SubmissionMode = typeof submissionModes[number];
+
+// How hard a transaction bids for inclusion: which percentile of recent priority fees it pays
+export const feeUrgencies = ["low", "medium", "high"] as const;
+
+export type FeeUrgency = typeof feeUrgencies[number];
+
+// How a bid for inclusion reaches the block builder: a higher priority fee on
+// our transactions, or ETH sent to the builder from inside the bundle
+export const bidMethods = ["priority_fee", "coinbase"] as const;
+
+export type BidMethod = typeof bidMethods[number];
+
+// What a strategy bids for a block: a share of expected net profit, in basis
+// points, kept between a floor and an optional ceiling
+export const bidPolicySchema = z.object({
+  method: z.enum(bidMethods),
+  shareBps: z.number().int().min(0).max(10000), // when other searchers are likely after it
+  uncontestedShareBps: z.number().int().min(0).max(10000), // when nobody has taken it for a while
+  floorEth: z.number().min(0),
+  ceilingEth: z.number().min(0).optional(),
+}).refine(policy => policy.ceilingEth === undefined || policy.floorEth <= policy.ceilingEth, {
+  message: "floorEth must not be above ceilingEth",
+});
+
+export type BidPolicy = z.infer<typeof bidPolicySchema>;
+
 // Bot settings
 export const botSettings = pgTable("bot_settings", {
   id: serial("id").primaryKey(),
@@ -24,10 +55,30 @@ export const botSettings = pgTable("bot_settings", {
   strategy: text("strategy").notNull().default("arbitrage"),
   autoExecute: boolean("auto_execute").notNull().default(true),
   runSimulations: boolean("run_simulations").notNull().default(true),
+  slippageBps: integer("slippage_bps").notNull().default(50),
+  txDeadlineSeconds: integer("tx_deadline_seconds").notNull().default(120),
+  opportunityTtlSeconds: integer("opportunity_ttl_seconds").notNull().default(36), // how long a quote may be executed
+  feeUrgency: text("fee_urgency").$type<FeeUrgency>().notNull().default("medium"), // what trades bid, and what estimates assume they pay
+  // Submission mode per opportunity type; types not listed go to the public mempool
+  submissionModes: jsonb("submission_modes").$type<Record<string, SubmissionMode>>().notNull().default({}),
+  flashLoanReceiver: text("flash_loan_receiver"), // deployed FlashLoanReceiver contract, if any
+  // Parameters per strategy id; anything missing falls back to the strategy's default
+  strategyParams: jsonb("strategy_params").$type<Record<string, Record<string, number>>>().notNull().default({}),
+  // Bid policy per strategy id; strategies not listed bid nothing beyond the fee urgency's tip
+  bidPolicies: jsonb("bid_policies").$type<Record<string, BidPolicy>>().notNull().default({}),
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
 });
 
-export const insertBotSettingsSchema = createInsertSchema(botSettings).omit({
+export const insertBotSettingsSchema = createInsertSchema(botSettings, {
+  slippageBps: (schema) => schema.int().min(0).max(5000), // at most 50%
+  txDeadlineSeconds: (schema) => schema.int().positive(),
+  opportunityTtlSeconds: (schema) => schema.int().positive(),
+  feeUrgency: z.enum(feeUrgencies),
+  submissionModes: z.record(z.enum(submissionModes)),
+  flashLoanReceiver: (schema) => schema.regex(/^0x[0-9a-fA-F]{40}$/),
+  strategyParams: z.record(z.record(z.number())),
+  bidPolicies: z.record(bidPolicySchema),
+}).omit({
   id: true,
   lastUpdated: true,
 });
@@ -35,22 +86,177 @@ export const insertBotSettingsSchema = createInsertSchema(botSettings).omit({
 export type InsertBotSettings = z.infer<typeof insertBotSettingsSchema>;
 export type BotSettings = typeof botSettings.$inferSelect;
 
+// One hop of a trade route: which pool it went through and what it swapped.
+// Amounts are in the token's smallest unit, as decimal strings.
+const tokenRefSchema = z.object({ address: z.string(), symbol: z.string(), decimals: z.number().int() });
+const rawAmountSchema = z.string().regex(/^\d+$/);
+
+export const tradeLegSchema = z.object({
+  dex: z.string(), // DEX adapter id
+  pool: z.string(),
+  tokenIn: tokenRefSchema,
+  tokenOut: tokenRefSchema,
+  amountIn: rawAmountSchema,
+  amountOut: rawAmountSchema,
+});
+
+export const tradeRouteSchema = z.array(tradeLegSchema).min(1);
+
+export type TradeLeg = z.infer<typeof tradeLegSchema>;
+
+// The position a liquidation opportunity repays, and what it expects to seize.
+// The opportunity's route swaps the seized collateral back into the debt token.
+export const liquidationTargetSchema = z.object({
+  market: z.string(), // lending market id
+  borrower: z.string(),
+  collateral: tokenRefSchema,
+  debt: tokenRefSchema,
+  debtToCover: rawAmountSchema,
+  collateralSeized: rawAmountSchema,
+  healthFactor: z.number(),
+  liquidationBonusBps: z.number().int(), // e.g. 10500 for a 5% bonus
+});
+
+export type LiquidationTarget = z.infer<typeof liquidationTargetSchema>;
+
+// The pending swap a backrun opportunity follows. The signed transaction is
+// bundled ahead of ours, so the route is priced on the pools as it leaves them.
+export const backrunTargetSchema = z.object({
+  victimHash: z.string(),
+  victimRaw: z.string(), // signed transaction, replayed first in the bundle
+  victimFrom: z.string(),
+  dex: z.string(), // DEX adapter id of the router it was sent to
+  tokenIn: tokenRefSchema,
+  tokenOut: tokenRefSchema,
+  amountIn: rawAmountSchema,
+});
+
+export type BackrunTarget = z.infer<typeof backrunTargetSchema>;
+
+// Why the pre-trade policy would not let an opportunity trade
+export const tradeRejectionCodes = [
+  "not_executable", // its own estimate does not cover gas
+  "insufficient_balance", // the wallet holds less of its start token than it spends
+  "expired", // quoted longer ago than opportunityTtlSeconds
+  "strategy_disabled", // not found by the strategy botSettings.strategy selects
+  "below_min_profit", // net profit under minProfitThreshold
+  "gas_price_too_high", // predicted gas price over maxGasPrice
+  "simulation_required", // runSimulations is on but there is nothing to simulate from
+] as const;
+
+export type TradeRejectionCode = typeof tradeRejectionCodes[number];
+
+export const tradeRejectionSchema = z.object({
+  code: z.enum(tradeRejectionCodes),
+  message: z.string(),
+  checkedAt: z.string(), // ISO timestamp
+});
+
+export type TradeRejection = z.infer<typeof tradeRejectionSchema>;
+
+// Display form of a route, e.g. "ETH → USDC → WBTC → ETH", naming the venue of
+// each hop when the route crosses DEXes
+export function describeRoute(legs: TradeLeg[], dexName: (dex: string) => string = dex => dex): string {
+  const crossesDexes = new Set(legs.map(leg => leg.dex)).size > 1;
+  const hops = legs.map(leg =>
+    crossesDexes ? `${leg.tokenOut.symbol}(${dexName(leg.dex)})` : leg.tokenOut.symbol
+  );
+  return [legs[0].tokenIn.symbol, ...hops].join(' → ');
+}
+
+// Rows with a route derive their pairs from it, so one of the two must be given
+const hasRouteOrPairs = (data: { route?: TradeLeg[] | null; pairs?: string }) =>
+  Boolean(data.route?.length || data.pairs);
+const routeOrPairsMessage = { message: "Either route or pairs is required", path: ["route"] };
+
+// Transaction lifecycle. A transaction is built and simulated locally, then
+// submitted and tracked until it settles on chain or is dropped or replaced.
+export const transactionStatuses = [
+  "Built",
+  "Simulated",
+  "Submitted",
+  "Pending",
+  "Included",
+  "Confirmed",
+  "Reverted",
+  "Dropped",
+  "Replaced",
+  "Failed", // rejected before submission
+  "Price Changed",
+] as const;
+
+export type TransactionStatus = typeof transactionStatuses[number];
+
+// Statuses each status may move to; settled statuses have none
+export const transactionTransitions: Record<TransactionStatus, TransactionStatus[]> = {
+  "Built": ["Simulated", "Submitted", "Failed", "Price Changed"],
+  "Simulated": ["Submitted", "Failed", "Price Changed"],
+  "Submitted": ["Pending", "Included", "Confirmed", "Reverted", "Dropped", "Replaced"],
+  "Pending": ["Included", "Confirmed", "Reverted", "Dropped", "Replaced"],
+  "Included": ["Confirmed", "Pending", "Reverted", "Dropped", "Replaced"], // its block may be reorged out
+  "Confirmed": [],
+  "Reverted": [],
+  "Dropped": [],
+  "Replaced": [],
+  "Failed": [],
+  "Price Changed": [],
+};
+
+export function canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+  return transactionTransitions[from].includes(to);
+}
+
+// Sent, but not yet settled on chain
+export const inFlightStatuses: TransactionStatus[] = ["Submitted", "Pending", "Included"];
+
+// Outcomes that count towards the success rate
+export const settledStatuses: TransactionStatus[] = ["Confirmed", "Reverted", "Dropped"];
+
 // Transaction data
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
-  txHash: text("tx_hash").notNull(),
+  txHash: text("tx_hash"), // set once submitted
   type: text("type").notNull(),
   pairs: text("pairs").notNull(),
+  route: jsonb("route").$type<TradeLeg[]>(),
   profitEth: decimal("profit_eth").notNull(),
   gasCostEth: decimal("gas_cost_eth").notNull(),
-  status: text("status").notNull(),
+  status: text("status").$type<TransactionStatus>().notNull(),
+  fromAddress: text("from_address"),
+  nonce: integer("nonce"),
+  // Filled in from the receipt
+  blockNumber: integer("block_number"),
+  gasUsed: integer("gas_used"),
+  setupGasUsed: integer("setup_gas_used"), // approvals and earlier swaps sent before this transaction
+  effectiveGasPrice: decimal("effective_gas_price"), // wei
+  realizedProfitEth: decimal("realized_profit_eth"), // what the wallet's balances gained over its block, net of all gas
+  revertReason: text("revert_reason"),
+  // Private submissions: the relay's bundle hash and the last block it was offered for
+  submission: text("submission").$type<SubmissionMode>(),
+  bundleHash: text("bundle_hash"),
+  targetBlock: integer("target_block"),
+  replacesId: integer("replaces_id"), // the transaction this one re-sent on the same nonce (speed-up or cancel)
+  // What was bid for inclusion: profit is net of a coinbase bid, gas cost includes a priority-fee bid
+  strategy: text("strategy"),
+  bidEth: decimal("bid_eth"),
+  bidMethod: text("bid_method").$type<BidMethod>(),
+  bidShareBps: integer("bid_share_bps"), // the share of net profit bid, which win rates are tracked by
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  route: tradeRouteSchema.nullish(),
+  status: z.enum(transactionStatuses),
+  submission: z.enum(submissionModes).nullish(),
+  bidMethod: z.enum(bidMethods).nullish(),
+}).omit({
   id: true,
   timestamp: true,
-});
+  updatedAt: true,
+}).partial({
+  pairs: true,
+}).refine(hasRouteOrPairs, routeOrPairsMessage);
 
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
@@ -63,13 +269,38 @@ export const opportunities = pgTable("opportunities", {
   estimatedProfitEth: decimal("estimated_profit_eth").notNull(),
   estimatedGasCostEth: decimal("estimated_gas_cost_eth").notNull(),
   isExecutable: boolean("is_executable").notNull(),
+  route: jsonb("route").$type<TradeLeg[]>(),
+  amountIn: decimal("amount_in"),
+  tokenIn: text("token_in"),
+  liquidation: jsonb("liquidation").$type<LiquidationTarget>(), // set for liquidation opportunities
+  backrun: jsonb("backrun").$type<BackrunTarget>(), // set for backrun opportunities
+  key: text("key"), // identifies the same opportunity across scans; null when added by hand
+  strategy: text("strategy"), // id of the strategy that found it
+  rejection: jsonb("rejection").$type<TradeRejection>(), // set while the pre-trade policy blocks it
+  estimatedBidEth: decimal("estimated_bid_eth").notNull().default("0"), // paid to the builder out of its profit
+  contested: boolean("contested").notNull().default(true), // whether its bid assumed other searchers are after it
+  blockNumber: integer("block_number"), // block whose state it was quoted on
   identified: timestamp("identified").notNull().defaultNow(),
-});
+  lastSeen: timestamp("last_seen").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"), // the quote is not executed after this
+  expired: boolean("expired").notNull().default(false),
+}, (table) => [
+  uniqueIndex("opportunities_key_idx").on(table.key),
+]);
 
-export const insertOpportunitySchema = createInsertSchema(opportunities).omit({
+export const insertOpportunitySchema = createInsertSchema(opportunities, {
+  route: tradeRouteSchema.nullish(),
+  liquidation: liquidationTargetSchema.nullish(),
+  backrun: backrunTargetSchema.nullish(),
+  rejection: tradeRejectionSchema.nullish(),
+}).omit({
   id: true,
   identified: true,
-});
+  lastSeen: true,
+  expired: true,
+}).partial({
+  pairs: true,
+}).refine(hasRouteOrPairs, routeOrPairsMessage);
 
 export type InsertOpportunity = z.infer<typeof insertOpportunitySchema>;
 export type Opportunity = typeof opportunities.$inferSelect;
@@ -90,11 +321,70 @@ export const insertMempoolActivitySchema = createInsertSchema(mempoolActivity).o
 export type InsertMempoolActivity = z.infer<typeof insertMempoolActivitySchema>;
 export type MempoolActivity = typeof mempoolActivity.$inferSelect;
 
+// Routers whose pending calls are read as swap intents
+export const swapRouters = ["uniswap_v2_router", "uniswap_v3_swap_router", "uniswap_v3_swap_router_02", "universal_router"] as const;
+
+export type SwapRouter = typeof swapRouters[number];
+
+// Exact input: amountIn is spent, at least amountOut must come back.
+// Exact output: amountOut is bought, for at most amountIn.
+export const swapIntentKinds = ["exact_in", "exact_out"] as const;
+
+export type SwapIntentKind = typeof swapIntentKinds[number];
+
+// A pending swap is mined, or expires once it is past its deadline or has sat unmined too long
+export const swapIntentStatuses = ["pending", "mined", "expired"] as const;
+
+export type SwapIntentStatus = typeof swapIntentStatuses[number];
+
+// Swaps read from pending transactions' calldata; a Universal Router call can hold several
+export const swapIntents = pgTable("swap_intents", {
+  id: serial("id").primaryKey(),
+  txHash: text("tx_hash").notNull(),
+  position: integer("position").notNull(), // order of the swap within its transaction
+  fromAddress: text("from_address").notNull(),
+  router: text("router").$type<SwapRouter>().notNull(),
+  routerAddress: text("router_address").notNull(),
+  dex: text("dex"), // registered DEX whose pools it trades through
+  kind: text("kind").$type<SwapIntentKind>().notNull(),
+  path: jsonb("path").$type<string[]>().notNull(), // token addresses, tokenIn first
+  fees: jsonb("fees").$type<number[]>(), // V3 fee tier of each hop
+  tokenIn: text("token_in").notNull(),
+  tokenOut: text("token_out").notNull(),
+  amountIn: decimal("amount_in"), // base units; the most spent for exact output, null when a chained amount could not be quoted
+  amountOut: decimal("amount_out").notNull(), // base units; the least accepted for exact input
+  recipient: text("recipient").notNull(),
+  deadline: timestamp("deadline"),
+  rawTransaction: text("raw_transaction"), // signed, so a backrun can be bundled behind it
+  slippageBps: integer("slippage_bps"), // how far below the current quote its minimum output is
+  status: text("status").$type<SwapIntentStatus>().notNull().default("pending"),
+  blockNumber: integer("block_number"), // where it was mined
+  firstSeen: timestamp("first_seen").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("swap_intents_tx_position_idx").on(table.txHash, table.position),
+]);
+
+export const insertSwapIntentSchema = createInsertSchema(swapIntents, {
+  router: z.enum(swapRouters),
+  kind: z.enum(swapIntentKinds),
+  status: z.enum(swapIntentStatuses).optional(),
+  path: z.array(z.string()).min(2),
+  fees: z.array(z.number().int()).nullish(),
+}).omit({
+  id: true,
+  firstSeen: true,
+});
+
+export type InsertSwapIntent = z.infer<typeof insertSwapIntentSchema>;
+export type SwapIntent = typeof swapIntents.$inferSelect;
+
 // Blockchain status
 export const blockchainStatus = pgTable("blockchain_status", {
   id: serial("id").primaryKey(),
   pendingTransactions: integer("pending_transactions").notNull(),
   gasPrice: decimal("gas_price").notNull(),
+  baseFee: decimal("base_fee"), // predicted for the next block, gwei
+  priorityFee: decimal("priority_fee"), // median tip of recent blocks, gwei
   networkCongestion: text("network_congestion").notNull(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -124,3 +414,47 @@ export const insertBotStatsSchema = createInsertSchema(botStats).omit({
 
 export type InsertBotStats = z.infer<typeof insertBotStatsSchema>;
 export type BotStats = typeof botStats.$inferSelect;
+
+// Token registry
+export const tokens = pgTable("tokens", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  address: text("address").notNull(),
+  symbol: text("symbol").notNull(),
+  name: text("name"),
+  decimals: integer("decimals").notNull(),
+  logoURI: text("logo_uri"),
+  tags: text("tags").array().notNull().default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("tokens_chain_address_idx").on(table.chainId, table.address),
+]);
+
+export const insertTokenSchema = createInsertSchema(tokens, {
+  address: (schema) => schema.regex(/^0x[0-9a-fA-F]{40}$/, "Invalid token address"),
+  decimals: (schema) => schema.int().min(0).max(255),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertToken = z.infer<typeof insertTokenSchema>;
+export type Token = typeof tokens.$inferSelect;
+
+// Uniswap token list format (https://tokenlists.org)
+export const tokenListSchema = z.object({
+  name: z.string(),
+  timestamp: z.string().optional(),
+  version: z.object({ major: z.number(), minor: z.number(), patch: z.number() }).optional(),
+  tokens: z.array(z.object({
+    chainId: z.number().int(),
+    address: z.string(),
+    symbol: z.string(),
+    name: z.string().optional(),
+    decimals: z.number().int().min(0).max(255),
+    logoURI: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  })),
+});
+
+export type TokenList = z.infer<typeof tokenListSchema>;